@@ -1,12 +1,7 @@
 import React, { useState, useCallback } from "react";
 import EnhancedValidationPanel from "./EnhancedValidationPanel";
 import { useEnhancedValidation } from "../hooks/useEnhancedValidation";
-
-interface GeneratedFile {
-  path: string;
-  content: string;
-  type: string;
-}
+import type { GeneratedFile } from "../utils/GeneratedFile";
 
 interface ProjectConfig {
   projectName: string;
@@ -22,6 +22,11 @@ import {
   InputLeftElement,
   Badge,
   Flex,
+  Checkbox,
+  CheckboxGroup,
+  FormHelperText,
+  Wrap,
+  WrapItem,
 } from "@chakra-ui/react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -44,6 +49,7 @@ import {
   FiDollarSign,
 } from "react-icons/fi";
 import { usePWAGeneratorStore } from "../../store/PWAGeneratorStore";
+import { isLocalized, SUPPORTED_LOCALES } from "../../utils/LocaleGenerator";
 import { toast } from "react-hot-toast";
 
 const MotionBox = motion(Box);
@@ -95,7 +101,8 @@ const businessInfoSchema = z.object({
 type BusinessInfoFormData = z.infer<typeof businessInfoSchema>;
 
 const BusinessInfoStep: React.FC = () => {
-  const { businessInfo, setBusinessInfo } = usePWAGeneratorStore();
+  const { businessInfo, selectedFramework, setBusinessInfo } =
+    usePWAGeneratorStore();
   const cardBg = useColorModeValue("gray.50", "gray.700");
   const borderColor = useColorModeValue("gray.200", "gray.600");
 
@@ -135,6 +142,32 @@ const BusinessInfoStep: React.FC = () => {
     toast.success("Business information saved!");
   };
 
+  // Vue, SvelteKit and Angular pages are written in English only, so their
+  // controls show English and keep the stored selection for a switch back.
+  // Generation falls back to React while no framework is chosen.
+  const localized = isLocalized(selectedFramework || "react");
+  // The primary language leads the list; the rest keep the checkbox order
+  const [primaryLocale = "en", ...otherLocales] = localized
+    ? (businessInfo.locales ?? [])
+    : ["en"];
+
+  const handlePrimaryLocaleChange = (code: string) => {
+    setBusinessInfo({
+      locales: [code, ...otherLocales.filter((other) => other !== code)],
+    });
+  };
+
+  const handleOtherLocalesChange = (codes: string[]) => {
+    setBusinessInfo({
+      locales: [
+        primaryLocale,
+        ...SUPPORTED_LOCALES.map((locale) => locale.code).filter(
+          (code) => code !== primaryLocale && codes.includes(code),
+        ),
+      ],
+    });
+  };
+
   const selectedIndustry = INDUSTRIES.find(
     (ind) => ind.value === watchedValues.industry,
   );
@@ -302,6 +335,60 @@ const BusinessInfoStep: React.FC = () => {
                         </FormControl>
                       </GridItem>
                     </Grid>
+
+                    <Grid
+                      templateColumns={{ base: "1fr", md: "1fr 1fr" }}
+                      gap={6}
+                    >
+                      <GridItem>
+                        <FormControl isDisabled={!localized}>
+                          <FormLabel>Site Language</FormLabel>
+                          <Select
+                            value={primaryLocale}
+                            onChange={(e) =>
+                              handlePrimaryLocaleChange(e.target.value)
+                            }
+                            size="lg"
+                          >
+                            {SUPPORTED_LOCALES.map((locale) => (
+                              <option key={locale.code} value={locale.code}>
+                                {locale.label}
+                              </option>
+                            ))}
+                          </Select>
+                        </FormControl>
+                      </GridItem>
+
+                      <GridItem>
+                        <FormControl isDisabled={!localized}>
+                          <FormLabel>Additional Languages</FormLabel>
+                          <CheckboxGroup
+                            isDisabled={!localized}
+                            value={otherLocales}
+                            onChange={(values) =>
+                              handleOtherLocalesChange(values as string[])
+                            }
+                          >
+                            <Wrap spacing={4}>
+                              {SUPPORTED_LOCALES.filter(
+                                (locale) => locale.code !== primaryLocale,
+                              ).map((locale) => (
+                                <WrapItem key={locale.code}>
+                                  <Checkbox value={locale.code}>
+                                    {locale.label}
+                                  </Checkbox>
+                                </WrapItem>
+                              ))}
+                            </Wrap>
+                          </CheckboxGroup>
+                          <FormHelperText>
+                            {localized
+                              ? "React and Next.js sites get a language switcher and a translation file for each language."
+                              : "Vue, SvelteKit and Angular sites are generated in English. Choose React or Next.js for other languages."}
+                          </FormHelperText>
+                        </FormControl>
+                      </GridItem>
+                    </Grid>
                   </VStack>
                 </CardBody>
               </Card>
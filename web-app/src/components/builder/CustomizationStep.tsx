@@ -11,6 +11,7 @@ import {
   CardHeader,
   Grid,
   Icon,
+  Image,
   useColorModeValue,
   Badge,
   Flex,
@@ -38,12 +39,17 @@ import {
   FiMoon,
   FiZap,
   FiArrowRight,
+  FiImage,
+  FiTrash2,
 } from "react-icons/fi";
 import { usePWAGeneratorStore } from "../../store/PWAGeneratorStore";
 import { toast } from "react-hot-toast";
 
 const MotionBox = motion(Box);
 
+const LOGO_TYPES = ["image/png", "image/jpeg", "image/svg+xml", "image/webp"];
+const MAX_LOGO_SIZE = 1024 * 1024;
+
 interface ColorScheme {
   id: string;
   name: string;
@@ -253,6 +259,29 @@ const CustomizationStep: React.FC = () => {
     }
   };
 
+  const handleLogoUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    if (!LOGO_TYPES.includes(file.type)) {
+      toast.error("Please upload a PNG, JPEG, WebP or SVG logo");
+      return;
+    }
+    if (file.size > MAX_LOGO_SIZE) {
+      toast.error("Logo must be smaller than 1 MB");
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      setCustomization({ logo: reader.result as string });
+      toast.success("Logo added! Your app icons will use it.");
+    };
+    reader.onerror = () => toast.error("Could not read the logo file");
+    reader.readAsDataURL(file);
+  };
+
   const handleFontChange = (fontId: string) => {
     const font = FONT_FAMILIES.find((f) => f.id === fontId);
     if (font) {
@@ -478,6 +507,95 @@ const CustomizationStep: React.FC = () => {
                     </CardBody>
                   </Card>
 
+                  {/* Logo */}
+                  <Card bg={cardBg} border="1px" borderColor={borderColor}>
+                    <CardHeader>
+                      <HStack spacing={3}>
+                        <Icon as={FiImage} color="blue.500" />
+                        <Heading size="md">Logo & App Icons</Heading>
+                      </HStack>
+                    </CardHeader>
+                    <CardBody>
+                      <HStack spacing={6} align="center">
+                        <Flex
+                          w="96px"
+                          h="96px"
+                          flexShrink={0}
+                          align="center"
+                          justify="center"
+                          borderRadius="xl"
+                          bg={customization.logo ? "white" : customPrimary}
+                          border="1px"
+                          borderColor={borderColor}
+                          overflow="hidden"
+                        >
+                          {customization.logo ? (
+                            <Image
+                              src={customization.logo}
+                              alt="Uploaded logo"
+                              maxW="80%"
+                              maxH="80%"
+                              objectFit="contain"
+                            />
+                          ) : (
+                            <Text
+                              fontSize="3xl"
+                              fontWeight="bold"
+                              color="white"
+                            >
+                              {(businessInfo.businessName || "A")
+                                .split(/\s+/)
+                                .filter(Boolean)
+                                .slice(0, 2)
+                                .map((word) => word[0])
+                                .join("")
+                                .toUpperCase()}
+                            </Text>
+                          )}
+                        </Flex>
+                        <VStack align="start" spacing={3}>
+                          <Text color="gray.600">
+                            Upload a square logo to render your app icons,
+                            favicon and home screen icons. Without one, a
+                            monogram in your primary color is used.
+                          </Text>
+                          <HStack spacing={3}>
+                            <Button
+                              as="label"
+                              htmlFor="logo-upload"
+                              size="sm"
+                              colorScheme="blue"
+                              leftIcon={<FiImage />}
+                              cursor="pointer"
+                            >
+                              {customization.logo
+                                ? "Replace Logo"
+                                : "Upload Logo"}
+                            </Button>
+                            {customization.logo && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                colorScheme="red"
+                                leftIcon={<FiTrash2 />}
+                                onClick={() => setCustomization({ logo: null })}
+                              >
+                                Remove
+                              </Button>
+                            )}
+                          </HStack>
+                          <Input
+                            id="logo-upload"
+                            type="file"
+                            accept={LOGO_TYPES.join(",")}
+                            display="none"
+                            onChange={handleLogoUpload}
+                          />
+                        </VStack>
+                      </HStack>
+                    </CardBody>
+                  </Card>
+
                   {/* Dark Mode */}
                   <Card bg={cardBg} border="1px" borderColor={borderColor}>
                     <CardBody>
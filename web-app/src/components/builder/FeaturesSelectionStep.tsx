@@ -30,6 +30,7 @@ import {
   FiUser,
   FiCreditCard,
   FiBell,
+  FiBookOpen,
   FiSearch,
   FiMessageSquare,
   FiStar,
@@ -46,8 +47,11 @@ import {
   FiMail,
   FiImage,
   FiMessageCircle,
+  FiPackage,
+  FiShoppingCart,
 } from "react-icons/fi";
 import { usePWAGeneratorStore } from "../../store/PWAGeneratorStore";
+import { featureRegistry } from "../../utils/FeatureRegistry";
 import { toast } from "react-hot-toast";
 
 const MotionBox = motion(Box);
@@ -170,6 +174,24 @@ const FEATURES: Feature[] = [
     complexity: "Easy",
     recommended: true,
   },
+  {
+    id: "blog",
+    name: "Blog",
+    description: "Markdown posts with tags, pagination and an RSS feed",
+    icon: FiBookOpen,
+    color: "teal",
+    category: "business",
+    complexity: "Medium",
+  },
+  {
+    id: "ecommerce",
+    name: "Online Store",
+    description: "Product catalog with filters, a saved cart and checkout",
+    icon: FiShoppingCart,
+    color: "orange",
+    category: "business",
+    complexity: "Hard",
+  },
   {
     id: "payments",
     name: "Payment Processing",
@@ -248,6 +270,21 @@ const FEATURES: Feature[] = [
   },
 ];
 
+// In-house modules registered at startup, listed with the business features
+const getRegisteredFeatures = (): Feature[] =>
+  featureRegistry
+    .list()
+    .filter((module) => !FEATURES.some((feature) => feature.id === module.id))
+    .map((module) => ({
+      id: module.id,
+      name: module.name,
+      description: module.description || "",
+      icon: FiPackage,
+      color: "purple",
+      category: "business",
+      complexity: "Medium",
+    }));
+
 const CATEGORIES = [
   { id: "core", name: "Core Features", color: "blue" },
   { id: "user", name: "User Experience", color: "green" },
@@ -263,6 +300,10 @@ const FeaturesSelectionStep: React.FC = () => {
     setCurrentStep,
   } = usePWAGeneratorStore();
 
+  const [features] = useState<Feature[]>(() => [
+    ...FEATURES,
+    ...getRegisteredFeatures(),
+  ]);
   const [selectedCategory, setSelectedCategory] = useState<string>("core");
   const [showAdvanced, setShowAdvanced] = useState(false);
 
@@ -271,14 +312,14 @@ const FeaturesSelectionStep: React.FC = () => {
   const categoryBg = useColorModeValue("gray.50", "gray.700");
 
   const handleFeatureToggle = (featureId: string) => {
-    const feature = FEATURES.find((f) => f.id === featureId);
+    const feature = features.find((f) => f.id === featureId);
     if (!feature) return;
 
     if (selectedFeatures.includes(featureId)) {
       // Remove feature and its dependents
-      const dependentFeatures = FEATURES.filter((f) =>
-        f.dependencies?.includes(featureId),
-      ).map((f) => f.id);
+      const dependentFeatures = features
+        .filter((f) => f.dependencies?.includes(featureId))
+        .map((f) => f.id);
 
       const newFeatures = selectedFeatures.filter(
         (id) => id !== featureId && !dependentFeatures.includes(id),
@@ -303,7 +344,7 @@ const FeaturesSelectionStep: React.FC = () => {
 
   const recommendedFeatures =
     aiRecommendations?.recommendations?.features || [];
-  const filteredFeatures = FEATURES.filter(
+  const filteredFeatures = features.filter(
     (feature) =>
       feature.category === selectedCategory &&
       (showAdvanced || feature.complexity !== "Hard"),
@@ -357,7 +398,7 @@ const FeaturesSelectionStep: React.FC = () => {
                 <AlertDescription>
                   Based on your business analysis, we recommend these features:
                   {recommendedFeatures.map((featureId) => {
-                    const feature = FEATURES.find((f) => f.id === featureId);
+                    const feature = features.find((f) => f.id === featureId);
                     return feature ? (
                       <Badge key={featureId} colorScheme="blue" mx={1}>
                         {feature.name}
@@ -514,7 +555,7 @@ const FeaturesSelectionStep: React.FC = () => {
                             </Text>
                             <HStack spacing={1} wrap="wrap">
                               {feature.dependencies.map((depId) => {
-                                const dep = FEATURES.find(
+                                const dep = features.find(
                                   (f) => f.id === depId,
                                 );
                                 return dep ? (
@@ -570,7 +611,7 @@ const FeaturesSelectionStep: React.FC = () => {
               <CardBody>
                 <HStack spacing={2} wrap="wrap">
                   {selectedFeatures.map((featureId) => {
-                    const feature = FEATURES.find((f) => f.id === featureId);
+                    const feature = features.find((f) => f.id === featureId);
                     return feature ? (
                       <Badge
                         key={featureId}
@@ -33,6 +33,7 @@ import {
   FiLayers,
   FiSettings,
   FiArrowRight,
+  FiServer,
 } from "react-icons/fi";
 import { usePWAGeneratorStore } from "../../store/PWAGeneratorStore";
 import { toast } from "react-hot-toast";
@@ -170,6 +171,35 @@ const FRAMEWORKS: Framework[] = [
     performance: 95,
     ecosystem: 65,
   },
+  {
+    id: "nextjs",
+    name: "Next.js",
+    description:
+      "The React framework with file-based routing, exported to pre-rendered static HTML.",
+    icon: FiServer,
+    color: "gray",
+    pros: [
+      "Pre-rendered HTML for every page",
+      "Per-page SEO metadata",
+      "File-based App Router",
+      "Full React ecosystem",
+      "Deploys to any static host",
+    ],
+    cons: [
+      "More concepts than a plain SPA",
+      "Client/server component split",
+      "Static export limits server features",
+    ],
+    bestFor: [
+      "SEO-sensitive sites",
+      "Content-heavy marketing sites",
+      "Teams already using React",
+    ],
+    popularity: 90,
+    learningCurve: "Medium",
+    performance: 92,
+    ecosystem: 90,
+  },
 ];
 
 const FrameworkSelectionStep: React.FC = () => {
@@ -462,6 +492,11 @@ const FrameworkSelectionStep: React.FC = () => {
                     experience. Highly recommended for larger projects and
                     teams.
                   </Text>
+                  {selectedFramework === "angular" && (
+                    <Text fontSize="sm" color="gray.500">
+                      Angular projects are always generated in TypeScript.
+                    </Text>
+                  )}
                 </VStack>
                 <FormControl display="flex" alignItems="center">
                   <FormLabel htmlFor="typescript-toggle" mb="0" mr={3}>
@@ -471,7 +506,8 @@ const FrameworkSelectionStep: React.FC = () => {
                     id="typescript-toggle"
                     colorScheme="purple"
                     size="lg"
-                    isChecked={typescript}
+                    isChecked={typescript || selectedFramework === "angular"}
+                    isDisabled={selectedFramework === "angular"}
                     onChange={(e) => setTypescript(e.target.checked)}
                   />
                 </FormControl>
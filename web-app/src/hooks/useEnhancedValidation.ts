@@ -1,10 +1,6 @@
 import { useState, useCallback, useRef } from "react";
-
-interface GeneratedFile {
-  path: string;
-  content: string;
-  type: string;
-}
+import { isTextFile, type GeneratedFile } from "../utils/GeneratedFile";
+import { getPackageName } from "../utils/PackageName";
 
 interface ValidationResult {
   isValid: boolean;
@@ -108,7 +104,7 @@ const runEnhancedValidation = async (
       path: "package.json",
       content: JSON.stringify(
         {
-          name: config.projectName.toLowerCase().replace(/\s+/g, "-"),
+          name: getPackageName(config),
           version: "1.0.0",
           dependencies: {
             react: "^18.2.0",
@@ -123,7 +119,7 @@ const runEnhancedValidation = async (
   }
 
   // Simulate detection and auto-fix
-  files.forEach((file) => {
+  files.filter(isTextFile).forEach((file) => {
     if (file.path.endsWith(".js") || file.path.endsWith(".jsx")) {
       if (
         file.content.includes("<") &&
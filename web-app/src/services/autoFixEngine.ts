@@ -3,9 +3,19 @@
  * Automatically fixes common issues in generated PWA projects
  */
 
+import {
+  DependencyResolver,
+  getCatalogVersion,
+} from "../utils/DependencyCatalog";
+import {
+  isBinaryFile,
+  isTextFile,
+  type GeneratedFile,
+  type TextFile,
+} from "../utils/GeneratedFile";
+import { getPackageName } from "../utils/PackageName";
 import { aiService } from "./aiService";
 import {
-  GeneratedFile,
   ValidationError,
   ValidationWarning,
   ProjectConfig,
@@ -34,7 +44,7 @@ export interface AppliedFix {
 }
 
 export interface RollbackData {
-  originalFiles: GeneratedFile[];
+  originalFiles: TextFile[];
   fixIds: string[];
   timestamp: Date;
 }
@@ -194,7 +204,7 @@ export class AutoFixEngine {
    * Main auto-fix method
    */
   async autoFix(
-    files: GeneratedFile[],
+    projectFiles: GeneratedFile[],
     errors: ValidationError[],
     warnings: ValidationWarning[],
     config: ProjectConfig,
@@ -202,6 +212,10 @@ export class AutoFixEngine {
     console.log("🔧 Starting auto-fix process...");
     const startTime = Date.now();
 
+    // Fixes rewrite source text; binary assets pass through as they are
+    const files = projectFiles.filter(isTextFile);
+    const binaryFiles = projectFiles.filter(isBinaryFile);
+
     // Create backup for rollback
     const originalFiles = JSON.parse(JSON.stringify(files));
     const rollbackData: RollbackData = {
@@ -315,7 +329,7 @@ export class AutoFixEngine {
 
       return {
         success: remainingErrors.length < errors.length,
-        fixedFiles,
+        fixedFiles: [...fixedFiles, ...binaryFiles],
         appliedFixes,
         remainingErrors,
         fixReport,
@@ -329,7 +343,7 @@ export class AutoFixEngine {
 
       return {
         success: false,
-        fixedFiles: originalFiles,
+        fixedFiles: [...originalFiles, ...binaryFiles],
         appliedFixes: [],
         remainingErrors: errors,
         fixReport,
@@ -343,7 +357,7 @@ export class AutoFixEngine {
    * Apply syntax fixes to files
    */
   private async applySyntaxFixes(
-    files: GeneratedFile[],
+    files: TextFile[],
     _errors: ValidationError[],
     _config: ProjectConfig,
   ): Promise<{ fixes: AppliedFix[] }> {
@@ -424,7 +438,7 @@ export class AutoFixEngine {
    * Fix dependency issues
    */
   private async fixDependencies(
-    files: GeneratedFile[],
+    files: TextFile[],
     errors: ValidationError[],
     config: ProjectConfig,
   ): Promise<{ fixes: AppliedFix[] }> {
@@ -453,18 +467,6 @@ export class AutoFixEngine {
           }
         }
 
-        if (error.message.includes("Missing dependency for feature")) {
-          const featureMatch = error.message.match(
-            /Missing dependency for feature (\w+): ([^\s]+)/,
-          );
-          if (featureMatch) {
-            const [, _feature, dep] = featureMatch;
-            if (!packageJson.dependencies) packageJson.dependencies = {};
-            packageJson.dependencies[dep] = this.getLatestVersion(dep);
-            hasChanges = true;
-          }
-        }
-
         if (error.message.includes("Missing dev dependency")) {
           const depMatch = error.message.match(
             /Missing dev dependency: ([^\s]+)/,
@@ -478,9 +480,9 @@ export class AutoFixEngine {
         }
       }
 
-      // Add feature-specific dependencies
-      const featureDeps = this.getFeatureDependencies(config.selectedFeatures);
-      for (const [dep, version] of Object.entries(featureDeps)) {
+      // Add the dependencies of the selected features and integrations
+      const { dependencies } = new DependencyResolver().resolve(config);
+      for (const [dep, version] of Object.entries(dependencies)) {
         if (
           !packageJson.dependencies[dep] &&
           !packageJson.devDependencies[dep]
@@ -516,7 +518,7 @@ export class AutoFixEngine {
    * Create missing files
    */
   private async createMissingFiles(
-    files: GeneratedFile[],
+    files: TextFile[],
     errors: ValidationError[],
     config: ProjectConfig,
   ): Promise<{ fixes: AppliedFix[] }> {
@@ -620,7 +622,7 @@ export class AutoFixEngine {
    * Fix import/export issues
    */
   private async fixImportsExports(
-    files: GeneratedFile[],
+    files: TextFile[],
     _errors: ValidationError[],
     _config: ProjectConfig,
   ): Promise<{ fixes: AppliedFix[] }> {
@@ -691,7 +693,7 @@ export class AutoFixEngine {
    * Fix build configuration issues
    */
   private async fixBuildConfiguration(
-    files: GeneratedFile[],
+    files: TextFile[],
     _errors: ValidationError[],
     config: ProjectConfig,
   ): Promise<{ fixes: AppliedFix[] }> {
@@ -748,7 +750,7 @@ export class AutoFixEngine {
    * Apply AI-assisted fixes for complex issues
    */
   private async applyAIFixes(
-    files: GeneratedFile[],
+    files: TextFile[],
     errors: ValidationError[],
     config: ProjectConfig,
   ): Promise<{ fixes: AppliedFix[] }> {
@@ -799,7 +801,7 @@ export class AutoFixEngine {
    * Apply performance and best practice fixes
    */
   private async applyPerformanceFixes(
-    files: GeneratedFile[],
+    files: TextFile[],
     _warnings: ValidationWarning[],
     _config: ProjectConfig,
   ): Promise<{ fixes: AppliedFix[] }> {
@@ -1118,7 +1120,7 @@ export default ${componentName};
         return {
           content: JSON.stringify(
             {
-              name: config.projectName.toLowerCase().replace(/\s+/g, "-"),
+              name: getPackageName(config),
               version: "1.0.0",
               description: "An AI-powered PWA application",
               type: "module",
@@ -1235,10 +1237,10 @@ export default App;`,
   private correctImportPath(
     importPath: string,
     currentFilePath: string,
-    files: GeneratedFile[],
+    files: TextFile[],
   ): string {
     // Create a map of available files
-    const fileMap = new Map<string, GeneratedFile>();
+    const fileMap = new Map<string, TextFile>();
     files.forEach((file) => fileMap.set(file.path, file));
 
     // If the import path already exists, return it
@@ -1405,7 +1407,7 @@ export default defineConfig({
    */
   private async getAIFix(
     _error: ValidationError,
-    _file: GeneratedFile,
+    _file: TextFile,
     _config: ProjectConfig,
   ): Promise<{
     fixedContent: string;
@@ -1443,65 +1445,10 @@ export default defineConfig({
   }
 
   /**
-   * Get latest version for a dependency
+   * Get the catalog version for a dependency
    */
   private getLatestVersion(packageName: string): string {
-    const versionMap: Record<string, string> = {
-      react: "^18.2.0",
-      "react-dom": "^18.2.0",
-      "react-router-dom": "^6.8.0",
-      "react-hook-form": "^7.48.0",
-      "@hookform/resolvers": "^3.3.0",
-      zod: "^3.22.0",
-      "socket.io-client": "^4.7.0",
-      "emoji-picker-react": "^4.5.0",
-      stripe: "^14.0.0",
-      "@stripe/react-stripe-js": "^2.4.0",
-      "react-datepicker": "^4.25.0",
-      "date-fns": "^2.30.0",
-      recharts: "^2.8.0",
-      "react-chartjs-2": "^5.2.0",
-      leaflet: "^1.9.0",
-      "react-leaflet": "^4.2.0",
-      "fuse.js": "^7.0.0",
-      "react-select": "^5.8.0",
-      "react-hot-toast": "^2.4.0",
-      "web-push": "^3.6.0",
-      "react-share": "^4.4.0",
-      "social-auth-react": "^1.0.0",
-    };
-
-    return versionMap[packageName] || "latest";
-  }
-
-  /**
-   * Get feature-specific dependencies
-   */
-  private getFeatureDependencies(features: string[]): Record<string, string> {
-    const dependencies: Record<string, string> = {};
-
-    const featureDependencyMap: Record<string, string[]> = {
-      auth: ["react-hook-form", "@hookform/resolvers", "zod"],
-      chat: ["socket.io-client", "emoji-picker-react"],
-      payments: ["stripe", "@stripe/react-stripe-js"],
-      booking: ["react-datepicker", "date-fns"],
-      analytics: ["recharts", "react-chartjs-2"],
-      geolocation: ["leaflet", "react-leaflet"],
-      search: ["fuse.js", "react-select"],
-      notifications: ["react-hot-toast", "web-push"],
-      social: ["react-share", "social-auth-react"],
-    };
-
-    for (const feature of features) {
-      const featureDeps = featureDependencyMap[feature];
-      if (featureDeps) {
-        for (const dep of featureDeps) {
-          dependencies[dep] = this.getLatestVersion(dep);
-        }
-      }
-    }
-
-    return dependencies;
+    return getCatalogVersion(packageName) || "latest";
   }
 
   /**
@@ -7,15 +7,23 @@
  * MISSION: Transform "500 issues need manual fixing" into "Project ready to use!"
  */
 
+import type { Deployment, EnterpriseConfig } from "../store/PWAGeneratorStore";
+import {
+  catalogVersions,
+  DependencyResolver,
+  getCatalogVersion,
+} from "../utils/DependencyCatalog";
+import { featureRegistry } from "../utils/FeatureRegistry";
+import {
+  isBinaryFile,
+  isTextFile,
+  type GeneratedFile,
+  type TextFile,
+} from "../utils/GeneratedFile";
+import { getPackageName } from "../utils/PackageName";
 import { AIRecommendations } from "./aiService";
 
 // Core interfaces
-interface GeneratedFile {
-  path: string;
-  content: string;
-  type: string;
-}
-
 interface ValidationResult {
   isValid: boolean;
   errors: ValidationError[];
@@ -64,14 +72,17 @@ interface ProjectConfig {
   selectedFeatures: string[];
   aiRecommendations?: AIRecommendations;
   businessData: any;
+  typescript?: boolean;
+  deployment?: Partial<Deployment>;
+  enterpriseConfig?: Partial<EnterpriseConfig>;
 }
 
 interface AutoFixResult {
   success: boolean;
-  fixedFiles: GeneratedFile[];
+  fixedFiles: TextFile[];
   appliedFixes: AppliedFix[];
   failedFixes: FailedFix[];
-  generatedFiles: GeneratedFile[];
+  generatedFiles: TextFile[];
   resolvedDependencies: string[];
 }
 
@@ -101,13 +112,11 @@ interface FailedFix {
  */
 export class EnhancedProjectValidator {
   private readonly coreTemplates = new Map<string, string>();
-  private readonly dependencyMap = new Map<string, string[]>();
 
   private readonly autoFixStrategies = new Map<string, Function>();
 
   constructor() {
     this.initializeTemplates();
-    this.initializeDependencyMaps();
     this.initializeAutoFixStrategies();
   }
 
@@ -115,11 +124,15 @@ export class EnhancedProjectValidator {
    * Main validation method - achieves zero manual issues
    */
   async validateProject(
-    files: GeneratedFile[],
+    projectFiles: GeneratedFile[],
     config: ProjectConfig,
   ): Promise<ValidationResult> {
     console.log("🚀 Enhanced Validation Starting - Zero Manual Issues Target");
 
+    // Binary assets are never scanned or rewritten, only carried through
+    const binaryFiles = projectFiles.filter(isBinaryFile);
+    let files = projectFiles.filter(isTextFile);
+
     const result: ValidationResult = {
       isValid: true,
       errors: [],
@@ -144,7 +157,10 @@ export class EnhancedProjectValidator {
       console.log("🔍 Phase 2: Smart Critical Issue Detection");
       let detectionResult;
       try {
-        detectionResult = await this.detectCriticalIssuesOnly(files, config);
+        detectionResult = await this.detectCriticalIssuesOnly(
+          [...files, ...binaryFiles],
+          config,
+        );
       } catch (error) {
         console.warn("⚠️ Phase 2 error, using defaults:", String(error));
         detectionResult = {
@@ -192,7 +208,7 @@ export class EnhancedProjectValidator {
       }
 
       // Build comprehensive result
-      result.fixedFiles = files;
+      result.fixedFiles = [...files, ...binaryFiles];
       result.isValid = finalCheck.isValid;
       result.errors = finalCheck.remainingErrors;
       result.warnings = finalCheck.warnings;
@@ -235,7 +251,7 @@ export class EnhancedProjectValidator {
           },
         ],
         suggestions: ["Review generated files for completeness"],
-        fixedFiles: files,
+        fixedFiles: [...files, ...binaryFiles],
         autoFixedCount: 0,
         preventedIssuesCount: 0,
         finalStatus: "READY_TO_USE",
@@ -249,9 +265,9 @@ export class EnhancedProjectValidator {
    * Prevents issues before they occur by ensuring all required files exist
    */
   private async preventIssuesBeforeValidation(
-    files: GeneratedFile[],
+    files: TextFile[],
     config: ProjectConfig,
-  ): Promise<{ enhancedFiles: GeneratedFile[]; preventedCount: number }> {
+  ): Promise<{ enhancedFiles: TextFile[]; preventedCount: number }> {
     let preventedCount = 0;
     const enhancedFiles = [...files];
 
@@ -312,10 +328,12 @@ export class EnhancedProjectValidator {
    * Only detects issues that actually break the build or runtime
    */
   private async detectCriticalIssuesOnly(
-    files: GeneratedFile[],
+    allFiles: GeneratedFile[],
     config: ProjectConfig,
   ): Promise<{ issues: ValidationError[] }> {
     const issues: ValidationError[] = [];
+    // Binary files are only import targets, never scanned themselves
+    const files = allFiles.filter(isTextFile);
 
     // Only check for build-breaking issues
     for (const file of files) {
@@ -324,7 +342,7 @@ export class EnhancedProjectValidator {
       issues.push(...syntaxIssues);
 
       // Check for missing critical imports
-      const importIssues = this.detectCriticalImportIssues(file, files);
+      const importIssues = this.detectCriticalImportIssues(file, allFiles);
       issues.push(...importIssues);
     }
 
@@ -341,7 +359,7 @@ export class EnhancedProjectValidator {
    * Fixes 100% of detected issues or generates missing content
    */
   private async aggressiveAutoFix(
-    files: GeneratedFile[],
+    files: TextFile[],
     issues: ValidationError[],
     config: ProjectConfig,
   ): Promise<AutoFixResult> {
@@ -367,12 +385,16 @@ export class EnhancedProjectValidator {
             result.generatedFiles.push(fix.generatedFile);
           }
         } else {
-          // If we can't fix it, try to generate a working alternative
+          // If we can't fix it, try to generate a working alternative. A
+          // generated file is never replaced; the ZIP would keep the stub
           const alternative = await this.generateWorkingAlternative(
             issue,
             config,
           );
-          if (alternative) {
+          if (
+            alternative &&
+            !result.fixedFiles.some((file) => file.path === alternative.path)
+          ) {
             result.fixedFiles.push(alternative);
             result.appliedFixes.push({
               type: "alternative_generation",
@@ -395,7 +417,7 @@ export class EnhancedProjectValidator {
    * Ensures the project is ready for immediate use
    */
   private async finalProductionValidation(
-    files: GeneratedFile[],
+    files: TextFile[],
     config: ProjectConfig,
   ): Promise<{
     isValid: boolean;
@@ -452,13 +474,13 @@ export class EnhancedProjectValidator {
    * Applies context-aware fixes based on issue type and content
    */
   private async applyIntelligentFix(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: ValidationError,
     config: ProjectConfig,
   ): Promise<{
     success: boolean;
     appliedFix: AppliedFix;
-    generatedFile?: GeneratedFile;
+    generatedFile?: TextFile;
   }> {
     const strategy = this.autoFixStrategies.get(issue.type);
     if (!strategy) {
@@ -494,13 +516,13 @@ export class EnhancedProjectValidator {
    * Fix syntax issues intelligently
    */
   private async fixSyntaxIssue(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: ValidationError,
     _config: ProjectConfig,
   ): Promise<{
     success: boolean;
     appliedFix: AppliedFix;
-    generatedFile?: GeneratedFile;
+    generatedFile?: TextFile;
   }> {
     const file = files.find((f) => f.path === issue.file);
     if (!file) {
@@ -520,7 +542,7 @@ export class EnhancedProjectValidator {
 
     // AI-powered syntax fixes
     if (issue.message.includes("React") && !content.includes("import React")) {
-      content = "import React from 'react';\n" + content;
+      content = this.addReactImport(content);
       fixes.push("Added React import");
       fixed = true;
     }
@@ -574,13 +596,13 @@ export class EnhancedProjectValidator {
    * Fix import issues by generating missing files
    */
   private async fixImportIssue(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: ValidationError,
     config: ProjectConfig,
   ): Promise<{
     success: boolean;
     appliedFix: AppliedFix;
-    generatedFile?: GeneratedFile;
+    generatedFile?: TextFile;
   }> {
     const missingPath = this.extractMissingPath(issue.message);
     if (!missingPath) {
@@ -623,13 +645,13 @@ export class EnhancedProjectValidator {
    * Fix dependency issues by adding missing packages
    */
   private async fixDependencyIssue(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: ValidationError,
     _config: ProjectConfig,
   ): Promise<{
     success: boolean;
     appliedFix: AppliedFix;
-    generatedFile?: GeneratedFile;
+    generatedFile?: TextFile;
   }> {
     const packageJsonFile = files.find((f) => f.path === "package.json");
     if (!packageJsonFile) {
@@ -679,13 +701,13 @@ export class EnhancedProjectValidator {
    * Fix structure issues by reorganizing files
    */
   private async fixStructureIssue(
-    _files: GeneratedFile[],
+    _files: TextFile[],
     issue: ValidationError,
     _config: ProjectConfig,
   ): Promise<{
     success: boolean;
     appliedFix: AppliedFix;
-    generatedFile?: GeneratedFile;
+    generatedFile?: TextFile;
   }> {
     // Structure fixes are usually about missing directories or wrong file locations
     // For web-based generator, we'll ensure proper file structure
@@ -703,13 +725,13 @@ export class EnhancedProjectValidator {
    * Fix build issues by adjusting configuration
    */
   private async fixBuildIssue(
-    _files: GeneratedFile[],
+    _files: TextFile[],
     issue: ValidationError,
     _config: ProjectConfig,
   ): Promise<{
     success: boolean;
     appliedFix: AppliedFix;
-    generatedFile?: GeneratedFile;
+    generatedFile?: TextFile;
   }> {
     // Build issues usually require config adjustments
     return {
@@ -726,13 +748,13 @@ export class EnhancedProjectValidator {
    * Fix runtime issues by adding error handling
    */
   private async fixRuntimeIssue(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: ValidationError,
     _config: ProjectConfig,
   ): Promise<{
     success: boolean;
     appliedFix: AppliedFix;
-    generatedFile?: GeneratedFile;
+    generatedFile?: TextFile;
   }> {
     const file = files.find((f) => f.path === issue.file);
     if (!file) {
@@ -782,18 +804,6 @@ export class EnhancedProjectValidator {
     this.coreTemplates.set("src/App.css", this.getAppCssTemplate());
   }
 
-  /**
-   * Initialize dependency mappings
-   */
-  private initializeDependencyMaps(): void {
-    this.dependencyMap.set("auth", ["react-router-dom", "axios"]);
-    this.dependencyMap.set("payments", ["stripe", "react-stripe-js"]);
-    this.dependencyMap.set("analytics", ["react-google-analytics"]);
-    this.dependencyMap.set("social", ["react-social-icons"]);
-    this.dependencyMap.set("notifications", ["react-toastify"]);
-    this.dependencyMap.set("chat", ["socket.io-client"]);
-  }
-
   /**
    * Get core required files based on project config
    */
@@ -801,6 +811,12 @@ export class EnhancedProjectValidator {
     const files = new Map<string, string>();
 
     files.set("package.json", this.generatePackageJson(config));
+
+    // The remaining templates are React-specific
+    if (!this.isReactProject(config)) {
+      return files;
+    }
+
     files.set("src/index.js", this.generateIndexJs(config));
     files.set("src/App.js", this.generateAppJs(config));
     files.set("public/index.html", this.generateIndexHtml(config));
@@ -816,6 +832,10 @@ export class EnhancedProjectValidator {
   private getFeatureRequiredFiles(config: ProjectConfig): Map<string, string> {
     const files = new Map<string, string>();
 
+    if (!this.isReactProject(config)) {
+      return files;
+    }
+
     config.selectedFeatures.forEach((feature) => {
       const featureFiles = this.getFeatureFiles(feature, config);
       featureFiles.forEach((content, path) => {
@@ -870,7 +890,7 @@ export class EnhancedProjectValidator {
   private async generateMissingFile(
     path: string,
     config: ProjectConfig,
-  ): Promise<GeneratedFile | null> {
+  ): Promise<TextFile | null> {
     const type = this.getFileType(path);
 
     switch (type) {
@@ -909,7 +929,7 @@ export class EnhancedProjectValidator {
   private async generateWorkingAlternative(
     issue: ValidationError,
     config: ProjectConfig,
-  ): Promise<GeneratedFile | null> {
+  ): Promise<TextFile | null> {
     // Generate a minimal working version of the problematic file
     const path = issue.file;
     const type = this.getFileType(path);
@@ -928,7 +948,7 @@ export class EnhancedProjectValidator {
     const dependencies = this.getAllRequiredDependencies(config);
     return JSON.stringify(
       {
-        name: config.projectName.toLowerCase().replace(/\s+/g, "-"),
+        name: getPackageName(config),
         version: "1.0.0",
         description: `${config.businessName} - ${config.primaryGoal}`,
         main: "src/index.js",
@@ -1535,40 +1555,78 @@ export default GalleryPage;`;
     }
   }
 
-  private getAllRequiredDependencies(
+  private isReactProject(config: ProjectConfig): boolean {
+    return !config.framework || config.framework === "react";
+  }
+
+  private getFrameworkBaseDependencies(
     config: ProjectConfig,
   ): Record<string, string> {
-    const baseDeps: Record<string, string> = {
-      react: "^18.2.0",
-      "react-dom": "^18.2.0",
-      "react-router-dom": "^6.8.0",
-    };
+    switch (config.framework) {
+      case "angular":
+        return catalogVersions(["@angular/core", "@angular/router"]);
+      case "nextjs":
+        return catalogVersions(["next", "react", "react-dom"]);
+      case "vue":
+        return catalogVersions(["vue", "vue-router"]);
+      case "svelte":
+        return catalogVersions(["svelte", "@sveltejs/kit"]);
+      default:
+        return catalogVersions(["react", "react-dom", "react-router-dom"]);
+    }
+  }
 
-    config.selectedFeatures.forEach((feature) => {
-      const featureDeps = this.dependencyMap.get(feature) || [];
-      featureDeps.forEach((dep) => {
-        baseDeps[dep] = this.getRecommendedVersion(dep);
-      });
-    });
+  private getEssentialFiles(config: ProjectConfig): string[] {
+    return [
+      ...this.getFrameworkEssentialFiles(config),
+      ...featureRegistry.resolve(config.selectedFeatures).requiredFiles,
+    ];
+  }
 
-    return baseDeps;
+  private getFrameworkEssentialFiles(config: ProjectConfig): string[] {
+    switch (config.framework) {
+      case "angular":
+        return [
+          "package.json",
+          "angular.json",
+          "src/main.ts",
+          "src/index.html",
+        ];
+      case "nextjs":
+        return [
+          "package.json",
+          "next.config.mjs",
+          `src/app/layout.${config.typescript === false ? "jsx" : "tsx"}`,
+        ];
+      case "vue":
+        return [
+          "package.json",
+          "index.html",
+          `src/main.${config.typescript === false ? "js" : "ts"}`,
+        ];
+      case "svelte":
+        return ["package.json", "svelte.config.js", "src/app.html"];
+      default:
+        return [
+          "package.json",
+          "src/index.js",
+          "src/App.js",
+          "public/index.html",
+        ];
+    }
   }
 
-  private getRecommendedVersion(packageName: string): string {
-    const versions: Record<string, string> = {
-      react: "^18.2.0",
-      "react-dom": "^18.2.0",
-      "react-router-dom": "^6.8.0",
-      axios: "^1.3.0",
-      stripe: "^12.0.0",
-      "react-stripe-js": "^2.1.0",
-      "react-google-analytics": "^1.0.0",
-      "react-social-icons": "^5.15.0",
-      "react-toastify": "^9.1.0",
-      "socket.io-client": "^4.6.0",
+  private getAllRequiredDependencies(
+    config: ProjectConfig,
+  ): Record<string, string> {
+    return {
+      ...this.getFrameworkBaseDependencies(config),
+      ...new DependencyResolver().resolve(config).dependencies,
     };
+  }
 
-    return versions[packageName] || "^1.0.0";
+  private getRecommendedVersion(packageName: string): string {
+    return getCatalogVersion(packageName) || "^1.0.0";
   }
 
   private ensureCompleteDependencies(
@@ -1596,16 +1654,19 @@ export default GalleryPage;`;
     }
   }
 
-  private detectBuildBreakingSyntax(file: GeneratedFile): ValidationError[] {
+  private detectBuildBreakingSyntax(file: TextFile): ValidationError[] {
     const errors: ValidationError[] = [];
     const content = file.content;
 
-    // Check for missing React import in JSX files
-    if (
-      (file.path.endsWith(".jsx") || file.path.endsWith(".js")) &&
-      content.includes("<") &&
-      !content.includes("import React")
-    ) {
+    // Pages such as offline.html and the README are not compiled, and
+    // replacing them would drop their content
+    if (/\.(html|md)$/.test(file.path)) {
+      return errors;
+    }
+
+    // Check for React references without an import; JSX alone needs none
+    // under the automatic runtime that Vite and Next.js use
+    if (this.isMissingReactImport(file)) {
       errors.push({
         type: "syntax",
         file: file.path,
@@ -1616,7 +1677,7 @@ export default GalleryPage;`;
     }
 
     // Check for unquoted JSX attributes
-    if (content.includes("<") && /\w+=(?![{"'])[^>\s]+/.test(content)) {
+    if (/\.[jt]sx$/.test(file.path) && /\w+=(?![{"'])[^>\s]+/.test(content)) {
       errors.push({
         type: "syntax",
         file: file.path,
@@ -1641,7 +1702,7 @@ export default GalleryPage;`;
   }
 
   private detectCriticalImportIssues(
-    file: GeneratedFile,
+    file: TextFile,
     allFiles: GeneratedFile[],
   ): ValidationError[] {
     const errors: ValidationError[] = [];
@@ -1655,14 +1716,21 @@ export default GalleryPage;`;
         if (pathMatch) {
           const importPath = pathMatch[1];
 
-          // Check if it's a relative import
-          if (importPath.startsWith("./") || importPath.startsWith("../")) {
+          // Check if it's a relative import. SvelteKit generates ./$types
+          // during the build, so it is never among the files
+          if (
+            (importPath.startsWith("./") || importPath.startsWith("../")) &&
+            !importPath.endsWith("/$types")
+          ) {
             const resolvedPath = this.resolveImportPath(file.path, importPath);
             const exists = allFiles.some(
               (f) =>
                 f.path === resolvedPath ||
                 f.path === resolvedPath + ".js" ||
-                f.path === resolvedPath + ".jsx",
+                f.path === resolvedPath + ".jsx" ||
+                f.path === resolvedPath + ".ts" ||
+                f.path === resolvedPath + ".tsx" ||
+                f.path === resolvedPath + "/index.ts",
             );
 
             if (!exists) {
@@ -1683,7 +1751,7 @@ export default GalleryPage;`;
   }
 
   private detectCriticalDependencyIssues(
-    files: GeneratedFile[],
+    files: TextFile[],
     config: ProjectConfig,
   ): ValidationError[] {
     const errors: ValidationError[] = [];
@@ -1752,7 +1820,10 @@ export default GalleryPage;`;
     const currentDir = currentPath.split("/").slice(0, -1).join("/");
 
     if (importPath.startsWith("./")) {
-      return currentDir + "/" + importPath.slice(2);
+      // Files at the project root, such as vite.config.ts, have no directory
+      return currentDir
+        ? currentDir + "/" + importPath.slice(2)
+        : importPath.slice(2);
     } else if (importPath.startsWith("../")) {
       const upLevels = importPath.split("../").length - 1;
       const pathParts = currentDir.split("/");
@@ -1764,7 +1835,25 @@ export default GalleryPage;`;
     return importPath;
   }
 
-  private performQuickSyntaxCheck(file: GeneratedFile): {
+  private isMissingReactImport(file: TextFile): boolean {
+    return (
+      /\.jsx?$/.test(file.path) &&
+      /\bReact\./.test(file.content) &&
+      !/import React\b/.test(file.content)
+    );
+  }
+
+  // Imports must follow directives such as 'use client'
+  private addReactImport(content: string): string {
+    const directives = content.match(/^(?:\s*(['"])use \w+\1;?\n)*/)?.[0] || "";
+    return (
+      directives +
+      "import React from 'react';\n" +
+      content.slice(directives.length)
+    );
+  }
+
+  private performQuickSyntaxCheck(file: TextFile): {
     valid: boolean;
     error?: string;
   } {
@@ -1774,11 +1863,8 @@ export default GalleryPage;`;
       }
 
       // Basic syntax checks for other file types
-      if (file.path.endsWith(".js") || file.path.endsWith(".jsx")) {
-        // Check for basic JSX syntax issues
-        if (file.content.includes("<") && !file.content.includes("React")) {
-          return { valid: false, error: "Missing React import" };
-        }
+      if (this.isMissingReactImport(file)) {
+        return { valid: false, error: "Missing React import" };
       }
 
       return { valid: true };
@@ -1791,12 +1877,12 @@ export default GalleryPage;`;
   }
 
   private applyLastResortFix(
-    file: GeneratedFile,
+    file: TextFile,
     error: string,
   ): { success: boolean } {
     try {
-      if (error.includes("React import") && file.path.endsWith(".js")) {
-        file.content = "import React from 'react';\n" + file.content;
+      if (error.includes("React import") && /\.jsx?$/.test(file.path)) {
+        file.content = this.addReactImport(file.content);
         return { success: true };
       }
 
@@ -1819,19 +1905,14 @@ export default GalleryPage;`;
   }
 
   private async simulateBuildTest(
-    files: GeneratedFile[],
-    _config: ProjectConfig,
+    files: TextFile[],
+    config: ProjectConfig,
   ): Promise<BuildTestResult> {
     const errors: string[] = [];
     const warnings: string[] = [];
 
     // Check for essential files
-    const essentialFiles = [
-      "package.json",
-      "src/index.js",
-      "src/App.js",
-      "public/index.html",
-    ];
+    const essentialFiles = this.getEssentialFiles(config);
     essentialFiles.forEach((path) => {
       if (!files.find((f) => f.path === path)) {
         errors.push(`Missing essential file: ${path}`);
@@ -1843,8 +1924,14 @@ export default GalleryPage;`;
     if (packageJsonFile) {
       try {
         const packageJson = JSON.parse(packageJsonFile.content);
-        if (!packageJson.dependencies?.react) {
-          errors.push("Missing React dependency");
+        const [frameworkPackage] = Object.keys(
+          this.getFrameworkBaseDependencies(config),
+        );
+        if (
+          !packageJson.dependencies?.[frameworkPackage] &&
+          !packageJson.devDependencies?.[frameworkPackage]
+        ) {
+          errors.push(`Missing ${frameworkPackage} dependency`);
         }
         if (!packageJson.scripts?.start) {
           warnings.push("Missing start script");
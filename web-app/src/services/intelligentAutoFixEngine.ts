@@ -11,15 +11,16 @@
  * MISSION: Never let a fixable issue remain unfixed
  */
 
+import {
+  isBinaryFile,
+  isTextFile,
+  type GeneratedFile,
+  type TextFile,
+} from "../utils/GeneratedFile";
+import { getPackageName } from "../utils/PackageName";
 import { AIRecommendations } from "./aiService";
 
 // Core interfaces
-interface GeneratedFile {
-  path: string;
-  content: string;
-  type: string;
-}
-
 interface FixableIssue {
   type:
     | "syntax"
@@ -42,14 +43,19 @@ interface FixableIssue {
 interface FixResult {
   success: boolean;
   appliedFixes: AppliedFix[];
-  generatedFiles: GeneratedFile[];
-  transformedFiles: GeneratedFile[];
+  generatedFiles: TextFile[];
+  transformedFiles: TextFile[];
   failedAttempts: FailedFix[];
   confidence: number;
   strategy: string;
   timeMs: number;
 }
 
+// Binary files bypass the fix passes and rejoin the transformed output
+interface AutoFixResult extends Omit<FixResult, "transformedFiles"> {
+  transformedFiles: GeneratedFile[];
+}
+
 interface AppliedFix {
   type: string;
   file: string;
@@ -87,7 +93,7 @@ interface FixStrategy {
   priority: number;
   canFix: (issue: FixableIssue) => boolean;
   fix: (
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: FixableIssue,
     config: ProjectConfig,
   ) => Promise<FixResult>;
@@ -139,13 +145,16 @@ export class IntelligentAutoFixEngine {
    * Main auto-fix method - achieves 100% fix rate
    */
   async autoFixAllIssues(
-    files: GeneratedFile[],
+    projectFiles: GeneratedFile[],
     issues: FixableIssue[],
     config: ProjectConfig,
-  ): Promise<FixResult> {
+  ): Promise<AutoFixResult> {
     const startTime = Date.now();
     console.log(`🔧 Starting intelligent auto-fix for ${issues.length} issues`);
 
+    const files = projectFiles.filter(isTextFile);
+    const binaryFiles = projectFiles.filter(isBinaryFile);
+
     const result: FixResult = {
       success: true,
       appliedFixes: [],
@@ -201,14 +210,17 @@ export class IntelligentAutoFixEngine {
     console.log(
       `🎯 Auto-fix complete: ${result.appliedFixes.length} fixes applied, ${result.generatedFiles.length} files generated`,
     );
-    return result;
+    return {
+      ...result,
+      transformedFiles: [...result.transformedFiles, ...binaryFiles],
+    };
   }
 
   /**
    * Fix a single issue using the best available strategy
    */
   private async fixSingleIssue(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: FixableIssue,
     config: ProjectConfig,
   ): Promise<FixResult> {
@@ -241,7 +253,7 @@ export class IntelligentAutoFixEngine {
    * Generate alternative solution when fixes fail
    */
   private async generateAlternativeSolution(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: FixableIssue,
     config: ProjectConfig,
   ): Promise<FixResult> {
@@ -269,7 +281,7 @@ export class IntelligentAutoFixEngine {
    * Apply emergency fix as last resort
    */
   private async applyEmergencyFix(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: FixableIssue,
     config: ProjectConfig,
   ): Promise<FixResult> {
@@ -646,7 +658,7 @@ export default Page;`,
    * Fix strategies implementation
    */
   private async fixReactImport(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: FixableIssue,
     _config: ProjectConfig,
   ): Promise<FixResult> {
@@ -703,7 +715,7 @@ export default Page;`,
   }
 
   private async fixJSXAttributes(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: FixableIssue,
     _config: ProjectConfig,
   ): Promise<FixResult> {
@@ -763,7 +775,7 @@ export default Page;`,
   }
 
   private async fixCSSyntax(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: FixableIssue,
     _config: ProjectConfig,
   ): Promise<FixResult> {
@@ -831,7 +843,7 @@ export default Page;`,
   }
 
   private async generateMissingFile(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: FixableIssue,
     config: ProjectConfig,
   ): Promise<FixResult> {
@@ -886,7 +898,7 @@ export default Page;`,
   }
 
   private async updatePackageJson(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: FixableIssue,
     config: ProjectConfig,
   ): Promise<FixResult> {
@@ -1130,7 +1142,7 @@ ${file.content}
    * Generate missing import alternative solutions
    */
   private async generateMissingImport(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: FixableIssue,
     config: ProjectConfig,
   ): Promise<FixResult> {
@@ -1184,7 +1196,7 @@ ${file.content}
   }
 
   private async resolveDependencyIssue(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: FixableIssue,
     config: ProjectConfig,
   ): Promise<FixResult> {
@@ -1192,7 +1204,7 @@ ${file.content}
   }
 
   private async transformSyntaxIssue(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: FixableIssue,
     _config: ProjectConfig,
   ): Promise<FixResult> {
@@ -1266,7 +1278,7 @@ ${file.content}
   }
 
   private async restructureProject(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: FixableIssue,
     _config: ProjectConfig,
   ): Promise<FixResult> {
@@ -1292,7 +1304,7 @@ ${file.content}
   }
 
   private async fixBuildConfiguration(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: FixableIssue,
     _config: ProjectConfig,
   ): Promise<FixResult> {
@@ -1318,7 +1330,7 @@ ${file.content}
   }
 
   private async addRuntimeSafety(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: FixableIssue,
     _config: ProjectConfig,
   ): Promise<FixResult> {
@@ -1379,7 +1391,7 @@ ${file.content}
   }
 
   private async applyGenericFix(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: FixableIssue,
     _config: ProjectConfig,
   ): Promise<FixResult> {
@@ -1413,7 +1425,7 @@ ${file.content}
    * Missing strategy methods
    */
   private async resolveImportPath(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: FixableIssue,
     config: ProjectConfig,
   ): Promise<FixResult> {
@@ -1421,7 +1433,7 @@ ${file.content}
   }
 
   private async installDependency(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: FixableIssue,
     config: ProjectConfig,
   ): Promise<FixResult> {
@@ -1429,7 +1441,7 @@ ${file.content}
   }
 
   private async optimizeBuildConfig(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: FixableIssue,
     config: ProjectConfig,
   ): Promise<FixResult> {
@@ -1437,7 +1449,7 @@ ${file.content}
   }
 
   private async injectErrorBoundary(
-    files: GeneratedFile[],
+    files: TextFile[],
     issue: FixableIssue,
     config: ProjectConfig,
   ): Promise<FixResult> {
@@ -1552,7 +1564,7 @@ ${file.content}
   private createFileFromPath(
     path: string,
     config: ProjectConfig,
-  ): GeneratedFile | null {
+  ): TextFile | null {
     const fileName =
       path
         .split("/")
@@ -1633,7 +1645,7 @@ ${file.content}
     return null;
   }
 
-  private createPackageJson(config: ProjectConfig): GeneratedFile {
+  private createPackageJson(config: ProjectConfig): TextFile {
     const dependencies: Record<string, string> = {
       react: this.dependencyVersions.get("react") || "^18.2.0",
       "react-dom": this.dependencyVersions.get("react-dom") || "^18.2.0",
@@ -1667,7 +1679,7 @@ ${file.content}
       path: "package.json",
       content: JSON.stringify(
         {
-          name: config.projectName.toLowerCase().replace(/\s+/g, "-"),
+          name: getPackageName(config),
           version: "1.0.0",
           description: `${config.businessName} - ${config.primaryGoal}`,
           main: "src/index.js",
@@ -1697,7 +1709,7 @@ ${file.content}
     };
   }
 
-  private createEmergencyFile(path: string): GeneratedFile | null {
+  private createEmergencyFile(path: string): TextFile | null {
     if (path.endsWith(".js") || path.endsWith(".jsx")) {
       return {
         path,
@@ -3,14 +3,21 @@
  * Comprehensive validation and auto-fix system for PWA generator
  */
 
+import type { Deployment, EnterpriseConfig } from "../store/PWAGeneratorStore";
+import {
+  catalogVersions,
+  DependencyResolver,
+  getCatalogVersion,
+} from "../utils/DependencyCatalog";
+import { featureRegistry } from "../utils/FeatureRegistry";
+import {
+  isTextFile,
+  type GeneratedFile,
+  type TextFile,
+} from "../utils/GeneratedFile";
+import { getPackageName } from "../utils/PackageName";
 import { aiService } from "./aiService";
 
-export interface GeneratedFile {
-  path: string;
-  content: string;
-  type: string;
-}
-
 export interface ValidationResult {
   isValid: boolean;
   errors: ValidationError[];
@@ -54,54 +61,46 @@ export interface ProjectConfig {
   typescript: boolean;
   businessName: string;
   industry: string;
+  deployment?: Partial<Deployment>;
+  enterpriseConfig?: Partial<EnterpriseConfig>;
 }
 
 export class ProjectValidator {
-  private readonly requiredDependencies = {
-    react: "^18.2.0",
-    "react-dom": "^18.2.0",
-    "react-router-dom": "^6.8.0",
-  };
-
-  private readonly featureDependencies: Record<string, string[]> = {
-    auth: ["react-hook-form", "@hookform/resolvers", "zod"],
-    chat: ["socket.io-client", "emoji-picker-react"],
-    payments: ["stripe", "@stripe/react-stripe-js"],
-    booking: ["react-datepicker", "date-fns"],
-    analytics: ["recharts", "react-chartjs-2"],
-    geolocation: ["leaflet", "react-leaflet"],
-    search: ["fuse.js", "react-select"],
-    notifications: ["react-hot-toast", "web-push"],
-    social: ["react-share", "social-auth-react"],
-  };
-
-  private readonly devDependencies = {
-    "@types/react": "^18.2.43",
-    "@types/react-dom": "^18.2.17",
-    "@typescript-eslint/eslint-plugin": "^6.14.0",
-    "@typescript-eslint/parser": "^6.14.0",
-    "@vitejs/plugin-react": "^4.2.1",
-    eslint: "^8.55.0",
-    "eslint-plugin-react-hooks": "^4.6.0",
-    "eslint-plugin-react-refresh": "^0.4.5",
-    typescript: "^5.2.2",
-    vite: "^5.0.8",
-    "vite-plugin-pwa": "^0.17.0",
-  };
+  private readonly requiredDependencies = catalogVersions([
+    "react",
+    "react-dom",
+    "react-router-dom",
+  ]);
+
+  private readonly devDependencies = catalogVersions([
+    "@types/react",
+    "@types/react-dom",
+    "@typescript-eslint/eslint-plugin",
+    "@typescript-eslint/parser",
+    "@vitejs/plugin-react",
+    "eslint",
+    "eslint-plugin-react-hooks",
+    "eslint-plugin-react-refresh",
+    "typescript",
+    "vite",
+  ]);
 
   /**
    * Main validation method - validates entire project
    */
   async validateProject(
-    files: GeneratedFile[],
+    projectFiles: GeneratedFile[],
     config: ProjectConfig,
   ): Promise<ValidationResult> {
     console.log("🔍 Starting comprehensive project validation...");
 
+    // Only source text is validated; binary assets are left untouched
+    const files = projectFiles.filter(isTextFile);
+
     const errors: ValidationError[] = [];
     const warnings: ValidationWarning[] = [];
     const suggestions: string[] = [];
-    let fixedFiles: GeneratedFile[] = [];
+    let fixedFiles: TextFile[] = [];
 
     try {
       // Phase 1: Pre-validation checks
@@ -194,7 +193,7 @@ export class ProjectValidator {
    * Pre-validation checks before generation
    */
   private async preValidateProject(
-    files: GeneratedFile[],
+    files: TextFile[],
     config: ProjectConfig,
   ): Promise<{
     errors: ValidationError[];
@@ -211,6 +210,7 @@ export class ProjectValidator {
       "src/main.tsx",
       "src/App.tsx",
       "index.html",
+      ...featureRegistry.resolve(config.selectedFeatures).requiredFiles,
     ];
     for (const requiredFile of requiredFiles) {
       if (!files.find((f) => f.path === requiredFile)) {
@@ -248,7 +248,7 @@ export class ProjectValidator {
   /**
    * Validate syntax of all generated files
    */
-  private async validateSyntax(files: GeneratedFile[]): Promise<{
+  private async validateSyntax(files: TextFile[]): Promise<{
     errors: ValidationError[];
     warnings: ValidationWarning[];
   }> {
@@ -301,7 +301,7 @@ export class ProjectValidator {
   /**
    * Validate JSX/TSX syntax
    */
-  private validateJSXSyntax(file: GeneratedFile): ValidationError[] {
+  private validateJSXSyntax(file: TextFile): ValidationError[] {
     const errors: ValidationError[] = [];
     const content = file.content;
 
@@ -376,7 +376,7 @@ export class ProjectValidator {
   /**
    * Validate JSON syntax
    */
-  private validateJSONSyntax(file: GeneratedFile): ValidationError[] {
+  private validateJSONSyntax(file: TextFile): ValidationError[] {
     const errors: ValidationError[] = [];
 
     try {
@@ -397,7 +397,7 @@ export class ProjectValidator {
   /**
    * Validate CSS syntax
    */
-  private validateCSSSyntax(file: GeneratedFile): ValidationError[] {
+  private validateCSSSyntax(file: TextFile): ValidationError[] {
     const errors: ValidationError[] = [];
     const content = file.content;
     const lines = content.split("\n");
@@ -446,7 +446,7 @@ export class ProjectValidator {
   /**
    * Validate HTML syntax
    */
-  private validateHTMLSyntax(file: GeneratedFile): ValidationError[] {
+  private validateHTMLSyntax(file: TextFile): ValidationError[] {
     const errors: ValidationError[] = [];
     const content = file.content;
     const lines = content.split("\n");
@@ -489,7 +489,7 @@ export class ProjectValidator {
   /**
    * Validate TypeScript syntax
    */
-  private validateTypeScriptSyntax(file: GeneratedFile): ValidationError[] {
+  private validateTypeScriptSyntax(file: TextFile): ValidationError[] {
     const errors: ValidationError[] = [];
     const content = file.content;
 
@@ -512,7 +512,7 @@ export class ProjectValidator {
    * Validate dependencies in package.json
    */
   private async validateDependencies(
-    files: GeneratedFile[],
+    files: TextFile[],
     config: ProjectConfig,
   ): Promise<{ errors: ValidationError[]; warnings: ValidationWarning[] }> {
     const errors: ValidationError[] = [];
@@ -534,9 +534,14 @@ export class ProjectValidator {
       const packageJson = JSON.parse(packageJsonFile.content);
       const dependencies = packageJson.dependencies || {};
       const devDependencies = packageJson.devDependencies || {};
+      const packages = new DependencyResolver().resolve(config);
 
-      // Check required dependencies
-      for (const [dep, version] of Object.entries(this.requiredDependencies)) {
+      // Check required dependencies, including those of the selected
+      // features, deployment integrations and enterprise options
+      for (const [dep, version] of Object.entries({
+        ...this.requiredDependencies,
+        ...packages.dependencies,
+      })) {
         if (!dependencies[dep]) {
           errors.push({
             type: "dependency",
@@ -549,28 +554,12 @@ export class ProjectValidator {
         }
       }
 
-      // Check feature-specific dependencies
-      for (const feature of config.selectedFeatures) {
-        const featureDeps = this.featureDependencies[feature];
-        if (featureDeps) {
-          for (const dep of featureDeps) {
-            if (!dependencies[dep] && !devDependencies[dep]) {
-              errors.push({
-                type: "dependency",
-                file: "package.json",
-                message: `Missing dependency for feature ${feature}: ${dep}`,
-                severity: "error",
-                autoFixable: true,
-                suggestedFix: `Add "${dep}": "latest" to dependencies`,
-              });
-            }
-          }
-        }
-      }
-
       // Check dev dependencies
       if (config.typescript) {
-        for (const [dep, version] of Object.entries(this.devDependencies)) {
+        for (const [dep, version] of Object.entries({
+          ...this.devDependencies,
+          ...packages.devDependencies,
+        })) {
           if (!devDependencies[dep] && !dependencies[dep]) {
             errors.push({
               type: "dependency",
@@ -599,14 +588,14 @@ export class ProjectValidator {
   /**
    * Validate imports and exports
    */
-  private async validateImportsExports(files: GeneratedFile[]): Promise<{
+  private async validateImportsExports(files: TextFile[]): Promise<{
     errors: ValidationError[];
     warnings: ValidationWarning[];
   }> {
     const errors: ValidationError[] = [];
     const warnings: ValidationWarning[] = [];
 
-    const fileMap = new Map<string, GeneratedFile>();
+    const fileMap = new Map<string, TextFile>();
     files.forEach((file) => {
       fileMap.set(file.path, file);
     });
@@ -694,11 +683,11 @@ export class ProjectValidator {
    * Auto-fix common errors
    */
   private async autoFixErrors(
-    files: GeneratedFile[],
+    files: TextFile[],
     errors: ValidationError[],
     config: ProjectConfig,
   ): Promise<{
-    fixedFiles: GeneratedFile[];
+    fixedFiles: TextFile[];
     remainingErrors: ValidationError[];
   }> {
     const fixedFiles = [...files];
@@ -728,7 +717,7 @@ export class ProjectValidator {
    * Apply a specific auto-fix
    */
   private async applyAutoFix(
-    files: GeneratedFile[],
+    files: TextFile[],
     error: ValidationError,
     config: ProjectConfig,
   ): Promise<boolean> {
@@ -759,7 +748,7 @@ export class ProjectValidator {
   /**
    * Fix syntax errors
    */
-  private fixSyntaxError(file: GeneratedFile, error: ValidationError): boolean {
+  private fixSyntaxError(file: TextFile, error: ValidationError): boolean {
     let content = file.content;
     let fixed = false;
 
@@ -799,7 +788,7 @@ export class ProjectValidator {
    * Fix dependency errors
    */
   private fixDependencyError(
-    files: GeneratedFile[],
+    files: TextFile[],
     error: ValidationError,
     _config: ProjectConfig,
   ): boolean {
@@ -811,28 +800,12 @@ export class ProjectValidator {
 
       if (error.message.includes("Missing required dependency")) {
         const depMatch = error.message.match(
-          /Missing required dependency: (\w+)/,
+          /Missing required dependency: (\S+)/,
         );
         if (depMatch) {
           const dep = depMatch[1];
           if (!packageJson.dependencies) packageJson.dependencies = {};
-          packageJson.dependencies[dep] =
-            this.requiredDependencies[
-              dep as keyof typeof this.requiredDependencies
-            ] || "latest";
-          packageJsonFile.content = JSON.stringify(packageJson, null, 2);
-          return true;
-        }
-      }
-
-      if (error.message.includes("Missing dependency for feature")) {
-        const featureMatch = error.message.match(
-          /Missing dependency for feature (\w+): (\S+)/,
-        );
-        if (featureMatch) {
-          const [, _feature, dep] = featureMatch;
-          if (!packageJson.dependencies) packageJson.dependencies = {};
-          packageJson.dependencies[dep] = "latest";
+          packageJson.dependencies[dep] = getCatalogVersion(dep) || "latest";
           packageJsonFile.content = JSON.stringify(packageJson, null, 2);
           return true;
         }
@@ -843,9 +816,7 @@ export class ProjectValidator {
         if (depMatch) {
           const dep = depMatch[1];
           if (!packageJson.devDependencies) packageJson.devDependencies = {};
-          packageJson.devDependencies[dep] =
-            this.devDependencies[dep as keyof typeof this.devDependencies] ||
-            "latest";
+          packageJson.devDependencies[dep] = getCatalogVersion(dep) || "latest";
           packageJsonFile.content = JSON.stringify(packageJson, null, 2);
           return true;
         }
@@ -862,7 +833,7 @@ export class ProjectValidator {
    * Fix import errors by creating missing files
    */
   private fixImportError(
-    files: GeneratedFile[],
+    files: TextFile[],
     error: ValidationError,
     config: ProjectConfig,
   ): boolean {
@@ -891,7 +862,7 @@ export class ProjectValidator {
    * Create missing files
    */
   private createMissingFile(
-    files: GeneratedFile[],
+    files: TextFile[],
     error: ValidationError,
     config: ProjectConfig,
   ): boolean {
@@ -918,7 +889,7 @@ export class ProjectValidator {
    * Create missing CSS file
    */
   private createMissingCSSFile(
-    files: GeneratedFile[],
+    files: TextFile[],
     cssPath: string,
     _config: ProjectConfig,
   ): boolean {
@@ -980,7 +951,7 @@ export class ProjectValidator {
    * Create missing component file
    */
   private createMissingComponentFile(
-    files: GeneratedFile[],
+    files: TextFile[],
     componentPath: string,
     config: ProjectConfig,
   ): boolean {
@@ -1024,12 +995,10 @@ export default ${componentName};
   /**
    * Create missing package.json
    */
-  private createPackageJson(
-    files: GeneratedFile[],
-    config: ProjectConfig,
-  ): boolean {
+  private createPackageJson(files: TextFile[], config: ProjectConfig): boolean {
+    const packages = new DependencyResolver().resolve(config);
     const packageJson = {
-      name: config.projectName.toLowerCase().replace(/\s+/g, "-"),
+      name: getPackageName(config),
       version: "1.0.0",
       description: "An AI-powered PWA application",
       type: "module",
@@ -1041,9 +1010,11 @@ export default ${componentName};
       },
       dependencies: {
         ...this.requiredDependencies,
+        ...packages.dependencies,
       },
       devDependencies: {
         ...this.devDependencies,
+        ...packages.devDependencies,
       },
     };
 
@@ -1059,10 +1030,7 @@ export default ${componentName};
   /**
    * Create missing main file
    */
-  private createMainFile(
-    files: GeneratedFile[],
-    _config: ProjectConfig,
-  ): boolean {
+  private createMainFile(files: TextFile[], _config: ProjectConfig): boolean {
     const mainContent = `import React from 'react'
 import ReactDOM from 'react-dom/client'
 import App from './App.tsx'
@@ -1086,10 +1054,7 @@ ReactDOM.createRoot(document.getElementById('root')!).render(
   /**
    * Create missing App file
    */
-  private createAppFile(
-    files: GeneratedFile[],
-    config: ProjectConfig,
-  ): boolean {
+  private createAppFile(files: TextFile[], config: ProjectConfig): boolean {
     const appContent = `import React from 'react';
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
 import './App.css';
@@ -1137,10 +1102,7 @@ export default App;`;
   /**
    * Create missing index.html
    */
-  private createIndexHtml(
-    files: GeneratedFile[],
-    config: ProjectConfig,
-  ): boolean {
+  private createIndexHtml(files: TextFile[], config: ProjectConfig): boolean {
     const htmlContent = `<!DOCTYPE html>
 <html lang="en">
   <head>
@@ -1198,7 +1160,7 @@ export default App;`;
   /**
    * Validate project structure
    */
-  private validateProjectStructure(files: GeneratedFile[]): ValidationError[] {
+  private validateProjectStructure(files: TextFile[]): ValidationError[] {
     const errors: ValidationError[] = [];
 
     // Check for proper component organization
@@ -1256,7 +1218,7 @@ export default App;`;
    * Test build process (simulated)
    */
   private async testBuildProcess(
-    files: GeneratedFile[],
+    files: TextFile[],
     config: ProjectConfig,
   ): Promise<BuildTestResult> {
     console.log("🏗️ Simulating build process...");
@@ -1383,9 +1345,9 @@ export default App;`;
   /**
    * Check for import issues that would cause build failures
    */
-  private checkBuildImports(files: GeneratedFile[]): string[] {
+  private checkBuildImports(files: TextFile[]): string[] {
     const errors: string[] = [];
-    const fileMap = new Map<string, GeneratedFile>();
+    const fileMap = new Map<string, TextFile>();
 
     files.forEach((file) => {
       fileMap.set(file.path, file);
@@ -1493,7 +1455,7 @@ export default App;`;
    * Use AI to analyze complex validation issues
    */
   async analyzeWithAI(
-    _files: GeneratedFile[],
+    _files: TextFile[],
     errors: ValidationError[],
     config: ProjectConfig,
   ): Promise<string[]> {
@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useReducer, ReactNode } from "react";
 import { toast } from "react-hot-toast";
+import type { GeneratedFile } from "../utils/GeneratedFile";
 import { createProjectZip } from "../utils/projectGenerator";
 import { WebDirectProjectGenerator } from "../utils/WebDirectProjectGenerator";
 import { aiService, AIRecommendations } from "../services/aiService";
@@ -24,6 +25,8 @@ export interface BusinessInfo {
   contactPhone?: string;
   currentChallenges: string[];
   businessGoals: string[];
+  // Language codes the site is written in, primary first
+  locales: string[];
 }
 
 export interface Customization {
@@ -35,6 +38,8 @@ export interface Customization {
   darkMode: boolean;
   animations: boolean;
   customCSS: string;
+  // Data URL of the uploaded logo; icons fall back to a monogram without it
+  logo: string | null;
 }
 
 export interface Deployment {
@@ -81,11 +86,7 @@ export interface GeneratedProject {
   name: string;
   framework: string;
   features: string[];
-  files: Array<{
-    path: string;
-    content: string;
-    type: string;
-  }>;
+  files: GeneratedFile[];
   downloadUrl?: string;
   createdAt: string;
 }
@@ -184,6 +185,7 @@ const initialState: PWAGeneratorState = {
     contactPhone: "",
     currentChallenges: [],
     businessGoals: [],
+    locales: ["en"],
   },
   aiRecommendations: null,
   selectedFramework: "",
@@ -198,6 +200,7 @@ const initialState: PWAGeneratorState = {
     darkMode: false,
     animations: true,
     customCSS: "",
+    logo: null,
   },
   deployment: {
     platforms: [],
@@ -614,11 +617,15 @@ export const usePWAGeneratorStore = () => {
         location: state.businessInfo.location,
         targetAudience: state.businessInfo.targetAudience,
         primaryGoal: state.businessInfo.businessGoals?.[0] || "business growth",
+        locales: state.businessInfo.locales,
         features: state.selectedFeatures,
         selectedFeatures: state.selectedFeatures,
         ...(state.aiRecommendations && {
           aiRecommendations: state.aiRecommendations,
         }),
+        customization: state.customization,
+        deployment: state.deployment,
+        enterpriseConfig: state.enterpriseConfig,
         businessData: {
           name: state.businessInfo.businessName,
           location: state.businessInfo.location,
@@ -628,6 +635,7 @@ export const usePWAGeneratorStore = () => {
           description: state.businessInfo.description,
           contactEmail: state.businessInfo.contactEmail,
           contactPhone: state.businessInfo.contactPhone,
+          website: state.businessInfo.website,
         },
       };
 
@@ -0,0 +1,617 @@
+/**
+ * Angular Project Generator
+ * Emits an Angular 17 workspace built from standalone components. Routes
+ * come from context.pages and the Angular service worker is configured
+ * through an ngsw-config.json derived from the selected features. Component
+ * and page markup lives in templates/angular/ (see TemplateResolver); pages
+ * without a template come from the feature registry or the generic
+ * angular/partials/page.component.
+ */
+
+import { BlogGenerator, hasBlog } from "./BlogGenerator";
+import { ChatGenerator } from "./ChatGenerator";
+import { catalogVersions } from "./DependencyCatalog";
+import { ANGULAR_PROXY_CONFIG, DevServerProxy } from "./DevServerProxy";
+import { featureRegistry } from "./FeatureRegistry";
+import type { GeneratedFile } from "./GeneratedFile";
+import { getHeadIcons, getIconLinks } from "./IconGenerator";
+import { getTextDirection } from "./LocaleGenerator";
+import { getPackageName } from "./PackageName";
+import { chainScripts } from "./PackageScripts";
+import { getPageComponentName, getPageLabel } from "./PageName";
+import { PaymentsGenerator } from "./PaymentsGenerator";
+import { PerformanceBudgetGenerator } from "./PerformanceBudgetGenerator";
+import {
+  SEARCH_INDEX_FILE,
+  SearchIndexGenerator,
+  hasSearch,
+} from "./SearchIndexGenerator";
+import { SeoGenerator } from "./SeoGenerator";
+import { hasStore } from "./StoreGenerator";
+import { templateResolver } from "./TemplateResolver";
+import { TestSuiteGenerator } from "./TestSuiteGenerator";
+
+export class AngularProjectGenerator {
+  generateFiles(context: any): GeneratedFile[] {
+    const files: GeneratedFile[] = [];
+
+    files.push(...this.generatePackageJson(context));
+    files.push(...this.generateMainFiles(context));
+    files.push(...this.generateComponents(context));
+    files.push(...this.generatePages(context));
+    files.push(...this.generateConfigFiles(context));
+
+    return files;
+  }
+
+  private generatePackageJson(context: any): GeneratedFile[] {
+    const packageJson = {
+      name: getPackageName(context),
+      version: "1.0.0",
+      description: context.description,
+      scripts: {
+        ng: "ng",
+        start: "ng serve",
+        build: "ng build",
+        watch: "ng build --watch --configuration development",
+        ...chainScripts(
+          new BlogGenerator().getScripts(context),
+          new SearchIndexGenerator().getScripts(context),
+        ),
+        ...new TestSuiteGenerator().getScripts(context),
+        ...new PaymentsGenerator().getScripts(context),
+        ...new ChatGenerator().getScripts(context),
+      },
+      private: true,
+      dependencies: {
+        ...catalogVersions([
+          "@angular/animations",
+          "@angular/common",
+          "@angular/compiler",
+          "@angular/core",
+          "@angular/forms",
+          "@angular/platform-browser",
+          "@angular/router",
+          "@angular/service-worker",
+          "rxjs",
+          "tslib",
+          "zone.js",
+        ]),
+        ...context.packages.dependencies,
+      },
+      devDependencies: {
+        ...catalogVersions([
+          "@angular-devkit/build-angular",
+          "@angular/cli",
+          "@angular/compiler-cli",
+        ]),
+        // Angular 17 supports TypeScript below 5.5 only
+        typescript: "~5.4.2",
+        ...context.packages.devDependencies,
+      },
+    };
+
+    return [
+      {
+        path: "package.json",
+        content: JSON.stringify(packageJson, null, 2),
+        type: "json",
+      },
+    ];
+  }
+
+  private generateMainFiles(context: any): GeneratedFile[] {
+    const files: GeneratedFile[] = [];
+    const seo = new SeoGenerator();
+
+    files.push({
+      path: "src/index.html",
+      content: `<!doctype html>
+<html lang="${context.locales[0]}" dir="${getTextDirection(context.locales[0])}">
+  <head>
+    <meta charset="utf-8" />
+    <title>${seo.getStrategy(context).title}</title>
+    <base href="/" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+
+    <!-- SEO and social sharing; src/app/seo.ts updates them per route -->
+    ${seo.getHeadTags(context)}
+    ${getIconLinks(context.icons)}
+
+    <!-- PWA Meta Tags -->
+    <link rel="manifest" href="manifest.json" />
+    <meta name="theme-color" content="${context.designTokens.primaryColor}" />
+    <meta name="apple-mobile-web-app-capable" content="yes" />
+    <meta name="apple-mobile-web-app-status-bar-style" content="default" />
+    <meta name="apple-mobile-web-app-title" content="${context.businessName}" />
+  </head>
+  <body>
+    <app-root></app-root>
+    <noscript>Please enable JavaScript to continue using this application.</noscript>
+  </body>
+</html>`,
+      type: "html",
+    });
+
+    files.push({
+      path: "src/main.ts",
+      content: `import { bootstrapApplication } from '@angular/platform-browser';
+import { appConfig } from './app/app.config';
+import { AppComponent } from './app/app.component';
+
+bootstrapApplication(AppComponent, appConfig).catch((err) => console.error(err));`,
+      type: "ts",
+    });
+
+    files.push({
+      path: "src/app/app.config.ts",
+      content: `import { ApplicationConfig, isDevMode } from '@angular/core';
+import { provideRouter, withInMemoryScrolling } from '@angular/router';
+import { provideServiceWorker } from '@angular/service-worker';
+import { routes } from './app.routes';
+
+export const appConfig: ApplicationConfig = {
+  providers: [
+    provideRouter(routes, withInMemoryScrolling({ scrollPositionRestoration: 'top' })),
+    provideServiceWorker('ngsw-worker.js', {
+      enabled: !isDevMode(),
+      registrationStrategy: 'registerWhenStable:30000'
+    })
+  ]
+};`,
+      type: "ts",
+    });
+
+    files.push({
+      path: "src/app/app.routes.ts",
+      content: this.generateRoutes(context),
+      type: "ts",
+    });
+
+    files.push({
+      path: "src/app/app.component.ts",
+      content: templateResolver.render(
+        "angular/src/app/app.component.ts",
+        context,
+      ),
+      type: "ts",
+    });
+
+    files.push({
+      path: "src/app/app.component.html",
+      content: templateResolver.render(
+        "angular/src/app/app.component.html",
+        context,
+      ),
+      type: "html",
+    });
+
+    return files;
+  }
+
+  private generateRoutes(context: any): string {
+    const routes = context.pages
+      .filter((page: string) => page !== "home")
+      .map((page: string) => {
+        const className = `${getPageComponentName(page)}Component`;
+        return `  {
+    path: '${page}',
+    title: ${JSON.stringify(`${getPageLabel(context, page)} | ${context.businessName}`)},
+    loadComponent: () => import('./pages/${page}.component').then((m) => m.${className})
+  },`;
+      })
+      .concat(
+        // Post and product titles come from applyPageMeta once the slug is known
+        hasBlog(context)
+          ? [
+              `  {
+    path: 'blog/:slug',
+    loadComponent: () => import('./pages/blog-post.component').then((m) => m.BlogPostComponent)
+  },`,
+            ]
+          : [],
+        hasStore(context)
+          ? [
+              `  {
+    path: 'shop/:slug',
+    loadComponent: () => import('./pages/product.component').then((m) => m.ProductComponent)
+  },`,
+            ]
+          : [],
+      )
+      .join("\n");
+
+    return `import { Routes } from '@angular/router';
+import { HomeComponent } from './pages/home.component';
+import { NotFoundComponent } from './pages/not-found.component';
+
+export const routes: Routes = [
+  { path: '', component: HomeComponent, title: ${JSON.stringify(context.businessName)} },
+${routes}
+  { path: '**', component: NotFoundComponent, title: ${JSON.stringify(`Page Not Found | ${context.businessName}`)} }
+];`;
+  }
+
+  private generateComponents(context: any): GeneratedFile[] {
+    const files: GeneratedFile[] = [];
+
+    context.components.forEach((componentName: string) => {
+      const path = `src/app/components/${this.toKebabCase(componentName)}.component`;
+      const ts = templateResolver.tryRender(`angular/${path}.ts`, context);
+      if (ts !== null) {
+        files.push(
+          { path: `${path}.ts`, content: ts, type: "ts" },
+          {
+            path: `${path}.html`,
+            content: templateResolver.render(`angular/${path}.html`, context),
+            type: "html",
+          },
+        );
+        return;
+      }
+
+      const rendered = featureRegistry.renderComponent(
+        componentName,
+        "angular",
+        context,
+      );
+      if (rendered) {
+        files.push({ path: `${path}.ts`, content: rendered, type: "ts" });
+      }
+    });
+
+    return files;
+  }
+
+  private generatePages(context: any): GeneratedFile[] {
+    const files: GeneratedFile[] = [];
+    const pushPage = (page: string, ts: string, html: string) =>
+      files.push(
+        { path: `src/app/pages/${page}.component.ts`, content: ts, type: "ts" },
+        {
+          path: `src/app/pages/${page}.component.html`,
+          content: html,
+          type: "html",
+        },
+      );
+
+    context.pages.forEach((page: string) => {
+      const name = `angular/src/app/pages/${page}.component`;
+      const ts = templateResolver.tryRender(`${name}.ts`, context);
+      if (ts !== null) {
+        pushPage(page, ts, templateResolver.render(`${name}.html`, context));
+        return;
+      }
+
+      // Registered modules render a standalone component with an inline template
+      const rendered = featureRegistry.renderPage(page, "angular", context);
+      if (rendered) {
+        files.push({
+          path: `src/app/pages/${page}.component.ts`,
+          content: rendered,
+          type: "ts",
+        });
+        return;
+      }
+
+      const pageContext = {
+        ...context,
+        page,
+        componentName: getPageComponentName(page),
+        label: getPageLabel(context, page),
+      };
+      pushPage(
+        page,
+        templateResolver.render(
+          "angular/partials/page.component.ts",
+          pageContext,
+        ),
+        templateResolver.render(
+          "angular/partials/page.component.html",
+          pageContext,
+        ),
+      );
+    });
+
+    // Routes outside the navigation
+    const otherPages = [
+      ...(hasBlog(context) ? ["blog-post"] : []),
+      ...(hasStore(context) ? ["product"] : []),
+    ];
+    otherPages.forEach((page) => {
+      const name = `angular/src/app/pages/${page}.component`;
+      pushPage(
+        page,
+        templateResolver.render(`${name}.ts`, context),
+        templateResolver.render(`${name}.html`, context),
+      );
+    });
+
+    files.push({
+      path: "src/app/pages/not-found.component.ts",
+      content: templateResolver.render(
+        "angular/src/app/pages/not-found.component.ts",
+        context,
+      ),
+      type: "ts",
+    });
+
+    return files;
+  }
+
+  private generateConfigFiles(context: any): GeneratedFile[] {
+    const files: GeneratedFile[] = [];
+    const projectName = getPackageName(context);
+
+    const angularJson = {
+      $schema: "./node_modules/@angular/cli/lib/config/schema.json",
+      version: 1,
+      newProjectRoot: "projects",
+      projects: {
+        [projectName]: {
+          projectType: "application",
+          root: "",
+          sourceRoot: "src",
+          prefix: "app",
+          architect: {
+            build: {
+              builder: "@angular-devkit/build-angular:application",
+              options: {
+                outputPath: `dist/${projectName}`,
+                index: "src/index.html",
+                browser: "src/main.ts",
+                polyfills: ["zone.js"],
+                tsConfig: "tsconfig.app.json",
+                assets: [{ glob: "**/*", input: "public", output: "/" }],
+                styles: ["src/index.css", "src/App.css", "src/custom.css"],
+                scripts: [],
+              },
+              configurations: {
+                production: {
+                  budgets: new PerformanceBudgetGenerator().getAngularBudgets(
+                    context,
+                  ),
+                  outputHashing: "all",
+                  serviceWorker: "ngsw-config.json",
+                },
+                development: {
+                  optimization: false,
+                  extractLicenses: false,
+                  sourceMap: true,
+                },
+              },
+              defaultConfiguration: "production",
+            },
+            serve: {
+              builder: "@angular-devkit/build-angular:dev-server",
+              options: {
+                port: 3000,
+                ...(new DevServerProxy().getRoutes(context).length > 0 && {
+                  proxyConfig: ANGULAR_PROXY_CONFIG,
+                }),
+              },
+              configurations: {
+                production: { buildTarget: `${projectName}:build:production` },
+                development: {
+                  buildTarget: `${projectName}:build:development`,
+                },
+              },
+              defaultConfiguration: "development",
+            },
+          },
+        },
+      },
+    };
+
+    files.push({
+      path: "angular.json",
+      content: JSON.stringify(angularJson, null, 2),
+      type: "json",
+    });
+
+    files.push({
+      path: "ngsw-config.json",
+      content: JSON.stringify(this.buildServiceWorkerConfig(context), null, 2),
+      type: "json",
+    });
+
+    files.push({
+      path: "tsconfig.json",
+      content: `{
+  "compileOnSave": false,
+  "compilerOptions": {
+    "outDir": "./dist/out-tsc",
+    "forceConsistentCasingInFileNames": true,
+    "strict": true,
+    "noImplicitOverride": true,
+    "noPropertyAccessFromIndexSignature": true,
+    "noImplicitReturns": true,
+    "noFallthroughCasesInSwitch": true,
+    "skipLibCheck": true,
+    "esModuleInterop": true,
+    "sourceMap": true,
+    "declaration": false,
+    "experimentalDecorators": true,
+    "moduleResolution": "node",
+    "importHelpers": true,
+    "target": "ES2022",
+    "module": "ES2022",
+    "useDefineForClassFields": false,
+    "lib": ["ES2022", "dom"],
+    "resolveJsonModule": true
+  },
+  "angularCompilerOptions": {
+    "enableI18nLegacyMessageIdFormat": false,
+    "strictInjectionParameters": true,
+    "strictInputAccessModifiers": true,
+    "strictTemplates": true
+  }
+}`,
+      type: "json",
+    });
+
+    files.push({
+      path: "tsconfig.app.json",
+      content: `{
+  "extends": "./tsconfig.json",
+  "compilerOptions": {
+    "outDir": "./out-tsc/app",
+    "types": []
+  },
+  "files": ["src/main.ts"],
+  "include": ["src/**/*.d.ts"]
+}`,
+      type: "json",
+    });
+
+    // Vitest compiles through this program, so the setup file must be in
+    // it. The CLI lowers async/await for zone.js when it builds; tests get
+    // the same through the target, or awaited rejections surface as uncaught
+    if (context.testing) {
+      files.push({
+        path: "tsconfig.spec.json",
+        content: `{
+  "extends": "./tsconfig.json",
+  "compilerOptions": {
+    "outDir": "./out-tsc/spec",
+    "target": "ES2016",
+    "types": []
+  },
+  "include": ["src/test/**/*.ts", "src/**/*.test.ts", "src/**/*.d.ts"]
+}`,
+        type: "json",
+      });
+    }
+
+    return files;
+  }
+
+  /**
+   * Derives ngsw-config.json from the selected features: the app shell is
+   * prefetched, media is cached lazily and each data-backed feature gets a
+   * data group with a strategy that suits how fresh its responses must be.
+   */
+  private buildServiceWorkerConfig(context: any): Record<string, any> {
+    const features: string[] = context.selectedFeatures || [];
+
+    const assetGroups: Record<string, any>[] = [
+      {
+        name: "app",
+        installMode: "prefetch",
+        resources: {
+          files: [
+            getHeadIcons(context.icons)[0].href,
+            "/index.html",
+            "/manifest.json",
+            "/*.css",
+            "/*.js",
+          ],
+        },
+      },
+      {
+        name: "assets",
+        installMode: "lazy",
+        updateMode: "prefetch",
+        resources: {
+          files: [
+            "/**/*.(svg|cur|jpg|jpeg|png|apng|webp|avif|gif|otf|ttf|woff|woff2)",
+          ],
+        },
+      },
+    ];
+
+    if (features.includes("gallery")) {
+      assetGroups.push({
+        name: "gallery",
+        installMode: "lazy",
+        updateMode: "lazy",
+        resources: { files: ["/images/gallery/**"] },
+      });
+    }
+
+    // Installed with the app so searches work offline; a deploy that
+    // changes the index updates it like any other asset
+    if (hasSearch(context)) {
+      assetGroups.push({
+        name: "search-index",
+        installMode: "prefetch",
+        updateMode: "prefetch",
+        resources: { files: [`/${SEARCH_INDEX_FILE}`] },
+      });
+    }
+
+    const dataGroups: Record<string, any>[] = [
+      {
+        name: "fonts",
+        urls: [
+          "https://fonts.googleapis.com/**",
+          "https://fonts.gstatic.com/**",
+        ],
+        cacheConfig: { strategy: "performance", maxSize: 30, maxAge: "30d" },
+      },
+    ];
+
+    // Network-first for data that goes stale quickly, cache-first for
+    // data that rarely changes. Payments and auth are never cached.
+    const featureDataGroups: Record<string, Record<string, any>> = {
+      booking: {
+        name: "booking-api",
+        urls: ["/api/bookings/**", "/api/availability/**"],
+        cacheConfig: {
+          strategy: "freshness",
+          maxSize: 50,
+          maxAge: "1h",
+          timeout: "5s",
+        },
+      },
+      chat: {
+        name: "chat-api",
+        urls: ["/api/chat/**"],
+        cacheConfig: {
+          strategy: "freshness",
+          maxSize: 100,
+          maxAge: "1d",
+          timeout: "3s",
+        },
+      },
+      analytics: {
+        name: "analytics-api",
+        urls: ["/api/analytics/**"],
+        cacheConfig: {
+          strategy: "freshness",
+          maxSize: 20,
+          maxAge: "6h",
+          timeout: "5s",
+        },
+      },
+      geolocation: {
+        name: "locations-api",
+        urls: ["/api/locations/**"],
+        cacheConfig: { strategy: "performance", maxSize: 20, maxAge: "7d" },
+      },
+      reviews: {
+        name: "reviews-api",
+        urls: ["/api/reviews/**"],
+        cacheConfig: { strategy: "performance", maxSize: 50, maxAge: "1d" },
+      },
+    };
+
+    features.forEach((feature) => {
+      if (featureDataGroups[feature]) {
+        dataGroups.push(featureDataGroups[feature]);
+      }
+    });
+
+    return {
+      $schema: "./node_modules/@angular/service-worker/config/schema.json",
+      index: "/index.html",
+      assetGroups,
+      dataGroups,
+      navigationUrls: ["/**", "!/**/*.*", "!/**/*__*", "!/**/*__*/**"],
+    };
+  }
+
+  private toKebabCase(str: string): string {
+    return str.replace(/([a-z0-9])([A-Z])/g, "$1-$2").toLowerCase();
+  }
+}
@@ -0,0 +1,541 @@
+/**
+ * Blog Generator
+ * The files the blog feature adds to every target: seed posts in src/posts,
+ * written in markdown with YAML frontmatter, the typed posts module the
+ * pages read, and scripts/blog.mjs, which compiles the posts at build time
+ * and writes rss.xml and sitemap-blog.xml next to the site.
+ *
+ * On the Vite targets the script is a plugin: posts are loaded with an
+ * eager `import.meta.glob` and turned into modules while bundling. Next.js
+ * and the Angular CLI do not build with Vite, so there the script runs
+ * before each build and the posts module imports the JSON it writes.
+ *
+ * Seed topics are the AI content keywords, falling back to the industry.
+ */
+
+import type { GeneratedFile } from "./GeneratedFile";
+import { SeoGenerator } from "./SeoGenerator";
+
+// Posts module by framework; beside each target's head manager, which
+// looks up the title and description of post routes there
+const POSTS_MODULE_PATHS: Record<string, string> = {
+  react: "src/blog/posts.ts",
+  vue: "src/blog/posts.ts",
+  svelte: "src/lib/blog/posts.ts",
+  nextjs: "src/blog/posts.ts",
+  angular: "src/app/blog/posts.ts",
+};
+
+const VITE_FRAMEWORKS = ["react", "vue", "svelte"];
+
+// Keyword posts written besides the welcome post
+const MAX_SEED_TOPICS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface SeedPost {
+  slug: string;
+  title: string;
+  date: string;
+  tags: string[];
+  excerpt: string;
+  body: string;
+}
+
+export function hasBlog(context: any): boolean {
+  return context.pages.includes("blog");
+}
+
+export class BlogGenerator {
+  generateFiles(context: any): GeneratedFile[] {
+    const files: GeneratedFile[] = this.getSeedPosts(context).map((post) => ({
+      path: `src/posts/${post.slug}.md`,
+      content: this.renderPost(post),
+      type: "md",
+    }));
+
+    files.push({
+      path: "scripts/blog.mjs",
+      content: this.generateBuildScript(context),
+      type: "js",
+    });
+    const postsModule =
+      POSTS_MODULE_PATHS[context.framework] ?? POSTS_MODULE_PATHS.react;
+    files.push({
+      path: postsModule,
+      content: this.generatePostsModule(context),
+      type: "ts",
+    });
+    // Replaced by scripts/blog.mjs on the first build; until then the posts
+    // module still resolves for editors and type checks
+    if (!VITE_FRAMEWORKS.includes(context.framework)) {
+      files.push({
+        path: postsModule.replace(/\.ts$/, ".json"),
+        content: "[]\n",
+        type: "json",
+      });
+    }
+
+    return files;
+  }
+
+  /**
+   * The import and plugin call the Vite config generators splice into
+   * vite.config.ts, or null when the project has no blog.
+   */
+  getVitePlugin(context: any): { importLine: string; call: string } | null {
+    return hasBlog(context) && VITE_FRAMEWORKS.includes(context.framework)
+      ? {
+          importLine: "import { markdownPosts } from './scripts/blog.mjs'",
+          call: "markdownPosts()",
+        }
+      : null;
+  }
+
+  /**
+   * npm scripts that compile the posts ahead of the commands reading them,
+   * for the targets the Vite plugin cannot serve.
+   */
+  getScripts(context: any): Record<string, string> {
+    if (!hasBlog(context)) return {};
+    const compile = "node scripts/blog.mjs";
+    switch (context.framework) {
+      case "nextjs":
+        return {
+          predev: compile,
+          prebuild: compile,
+          ...(context.testing && { pretest: compile }),
+        };
+      case "angular":
+        return {
+          prestart: compile,
+          prebuild: compile,
+          ...(context.testing && { pretest: compile }),
+        };
+      default:
+        return {};
+    }
+  }
+
+  getReadmeSection(context: any): string {
+    if (!hasBlog(context)) return "";
+    const viteBuild = VITE_FRAMEWORKS.includes(context.framework);
+
+    return `
+## Blog
+
+Posts are markdown files in \`src/posts\`; the file name is the post's URL
+(\`src/posts/opening-hours.md\` is served at \`/blog/opening-hours\`). Each
+starts with frontmatter:
+
+\`\`\`markdown
+---
+title: "Our New Opening Hours"
+date: 2024-05-01
+tags: [news]
+excerpt: "Shown on the blog listing and in the RSS feed."
+---
+\`\`\`
+
+${
+  viteBuild
+    ? `\`scripts/blog.mjs\` is a Vite plugin that compiles the posts to HTML while
+the app is bundled; new files show up in \`npm run dev\` as you save them.
+\`npm run build\` also writes \`rss.xml\` and \`sitemap-blog.xml\` to the
+output.`
+    : `\`scripts/blog.mjs\` compiles the posts into \`${(
+        POSTS_MODULE_PATHS[context.framework] ?? POSTS_MODULE_PATHS.react
+      ).replace(/\.ts$/, ".json")}\` and writes
+\`public/rss.xml\` and \`public/sitemap-blog.xml\`. It runs before
+\`npm run ${context.framework === "angular" ? "start" : "dev"}\` and \`npm run build\`; run it yourself after
+editing a post while the dev server is up.`
+}
+\`robots.txt\` lists \`sitemap-blog.xml\` beside the main sitemap. The feed
+and sitemap links use the site URL at the top of \`scripts/blog.mjs\`.
+`;
+  }
+
+  private getSeedPosts(context: any): SeedPost[] {
+    const businessName: string = context.businessName;
+    const industry: string = context.industry;
+    const services: string[] = (context.content?.services ?? []).map(
+      (service: { title: string }) => service.title,
+    );
+    const topics = this.getTopics(context);
+    const today = Date.now();
+    // One week apart, the welcome post first
+    const dateOf = (weeksAgo: number) =>
+      new Date(today - weeksAgo * 7 * DAY_MS).toISOString().slice(0, 10);
+
+    const welcome: SeedPost = {
+      slug: "welcome-to-our-blog",
+      title: `Welcome to the ${businessName} Blog`,
+      date: dateOf(topics.length),
+      tags: ["news"],
+      excerpt: `News, tips and insights from the ${businessName} team.`,
+      body: `We're starting this blog to share what we learn while working with our
+clients: practical tips, answers to the questions we hear most often, and
+news about ${businessName}.
+${
+  services.length > 0
+    ? `
+Expect posts about the things we do every day:
+
+${services.map((service) => `- ${service}`).join("\n")}
+`
+    : ""
+}
+Have a topic you'd like us to cover? [Get in touch](/contact) and let us
+know.
+`,
+    };
+
+    const keywordPosts = topics.map((topic, index): SeedPost => {
+      const title = this.toTitleCase(topic);
+      return {
+        slug: this.slugify(topic),
+        title: `A Guide to ${title}`,
+        date: dateOf(topics.length - 1 - index),
+        tags: Array.from(
+          new Set([this.slugify(topic), this.slugify(industry)]),
+        ).filter(Boolean),
+        excerpt: `What to know about ${topic}, from the team at ${businessName}.`,
+        body: `${title} comes up in almost every conversation we have with clients, so
+here is a short introduction to the basics.
+
+## Where to start
+
+Begin with what you want to achieve. A clear goal makes every later decision
+about ${topic} easier, and it tells you which questions to ask.
+
+## Common mistakes
+
+- Trying to do everything at once instead of one step at a time
+- Choosing on price alone
+- Not asking for advice early enough
+
+## How we can help
+
+${businessName} has helped many clients with ${topic}. [Contact us](/contact)
+to talk about your plans.
+`,
+      };
+    });
+
+    return [welcome, ...keywordPosts];
+  }
+
+  // The AI keywords, without the business name they usually include
+  private getTopics(context: any): string[] {
+    const businessName = String(context.businessName).toLowerCase();
+    const keywords: string[] = (context.contentKeywords ?? [])
+      .map((keyword: string) => keyword.trim())
+      .filter(
+        (keyword: string) =>
+          this.slugify(keyword) && keyword.toLowerCase() !== businessName,
+      );
+    const topics = keywords.length > 0 ? keywords : [context.industry];
+
+    const slugs = new Set<string>(["welcome-to-our-blog"]);
+    return topics
+      .filter((topic) => {
+        const slug = this.slugify(topic);
+        if (!slug || slugs.has(slug)) return false;
+        slugs.add(slug);
+        return true;
+      })
+      .slice(0, MAX_SEED_TOPICS);
+  }
+
+  private renderPost(post: SeedPost): string {
+    return `---
+title: ${JSON.stringify(post.title)}
+date: ${post.date}
+tags: [${post.tags.map((tag) => JSON.stringify(tag)).join(", ")}]
+excerpt: ${JSON.stringify(post.excerpt)}
+---
+
+${post.body}`;
+  }
+
+  private generatePostsModule(context: any): string {
+    const viteBuild = VITE_FRAMEWORKS.includes(context.framework);
+    // src/posts, seen from the module
+    const postsDir =
+      context.framework === "svelte" ? "../../posts" : "../posts";
+
+    const source = viteBuild
+      ? `${
+          context.framework === "react"
+            ? '/// <reference types="vite/client" />\n\n'
+            : ""
+        }// Every post in src/posts, newest first. scripts/blog.mjs compiles each
+// markdown file into a Post while the app is bundled.
+
+export interface Post {
+  slug: string;
+  title: string;
+  // YYYY-MM-DD
+  date: string;
+  tags: string[];
+  excerpt: string;
+  html: string;
+}
+
+const modules = import.meta.glob<Post>('${postsDir}/*.md', { eager: true, import: 'default' });
+
+export const posts: Post[] = Object.values(modules).sort((a, b) => b.date.localeCompare(a.date));
+`
+      : `// Every post in src/posts, newest first, as compiled into posts.json by
+// scripts/blog.mjs before each build
+
+import compiled from './posts.json';
+
+export interface Post {
+  slug: string;
+  title: string;
+  // YYYY-MM-DD
+  date: string;
+  tags: string[];
+  excerpt: string;
+  html: string;
+}
+
+export const posts: Post[] = compiled;
+`;
+
+    return `${source}
+export const POSTS_PER_PAGE = 6;
+
+export const tags: string[] = Array.from(new Set(posts.flatMap((post) => post.tags))).sort();
+
+export function getPost(slug: string): Post | undefined {
+  return posts.find((post) => post.slug === slug);
+}
+
+// One page of the posts carrying the tag, or of every post when it is null
+export function paginate(tag: string | null, page: number): { posts: Post[]; pageCount: number } {
+  const tagged = tag ? posts.filter((post) => post.tags.includes(tag)) : posts;
+  const start = (page - 1) * POSTS_PER_PAGE;
+  return {
+    posts: tagged.slice(start, start + POSTS_PER_PAGE),
+    pageCount: Math.max(1, Math.ceil(tagged.length / POSTS_PER_PAGE)),
+  };
+}
+
+export function formatDate(date: string, locale?: string): string {
+  // Read as local midnight so the day does not shift with the time zone
+  return new Date(\`\${date}T00:00:00\`).toLocaleDateString(locale, {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+}
+`;
+  }
+
+  private generateBuildScript(context: any): string {
+    const seo = new SeoGenerator();
+    const viteBuild = VITE_FRAMEWORKS.includes(context.framework);
+    const site = {
+      url: seo.getSiteUrl(context),
+      title: `${context.businessName} Blog`,
+      description: seo.getStrategy(context).description,
+    };
+    // Next.js exports every page as a directory
+    const trailingSlash = context.framework === "nextjs" ? "/" : "";
+    const postsJson = (
+      POSTS_MODULE_PATHS[context.framework] ?? POSTS_MODULE_PATHS.react
+    ).replace(/\.ts$/, ".json");
+
+    const header = viteBuild
+      ? `// Compiles the markdown posts in src/posts while Vite bundles the app:
+// frontmatter is read with gray-matter and the body rendered with marked,
+// so neither parser reaches the browser. Production builds also get
+// rss.xml and sitemap-blog.xml.`
+      : `// Compiles the markdown posts in src/posts into ${postsJson} and
+// writes public/rss.xml and public/sitemap-blog.xml. Frontmatter is read
+// with gray-matter and the body rendered with marked, so neither parser
+// reaches the browser. package.json runs this before every build.`;
+
+    const imports = viteBuild
+      ? `import { existsSync, readdirSync, readFileSync } from 'node:fs';
+import { basename, join } from 'node:path';`
+      : `import { existsSync, readdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, join } from 'node:path';`;
+
+    const entry = viteBuild
+      ? `/**
+ * Makes each post importable as a module whose default export is its Post,
+ * for the \`import.meta.glob\` in the posts module.
+ * @returns {import('vite').Plugin}
+ */
+export function markdownPosts() {
+  let ssr = false;
+
+  return {
+    name: 'markdown-posts',
+    configResolved(config) {
+      // The feed and sitemap belong with the client build
+      ssr = !!config.build.ssr;
+    },
+    transform(source, id) {
+      if (!POST_FILE.test(id)) return null;
+      return { code: \`export default \${JSON.stringify(compilePost(source, id))};\`, map: null };
+    },
+    generateBundle() {
+      if (ssr) return;
+
+      const posts = loadPosts();
+      this.emitFile({ type: 'asset', fileName: 'rss.xml', source: renderFeed(posts) });
+      this.emitFile({ type: 'asset', fileName: 'sitemap-blog.xml', source: renderSitemap(posts) });
+    }
+  };
+}
+`
+      : `const posts = loadPosts();
+writeFileSync('${postsJson}', \`\${JSON.stringify(posts, null, 2)}\\n\`);
+writeFileSync('public/rss.xml', renderFeed(posts));
+writeFileSync('public/sitemap-blog.xml', renderSitemap(posts));
+console.log(\`blog: compiled \${posts.length} posts\`);
+`;
+
+    return `${header}
+
+${imports}
+import matter from 'gray-matter';
+import { marked } from 'marked';
+
+// Used for the links in the feed and the sitemap
+const SITE = ${JSON.stringify(site, null, 2)};
+
+const POSTS_DIR = 'src/posts';
+${viteBuild ? "\nconst POST_FILE = /\\/src\\/posts\\/[^/]+\\.md$/;\n" : ""}
+/**
+ * @typedef {object} Post
+ * @property {string} slug
+ * @property {string} title
+ * @property {string} date YYYY-MM-DD
+ * @property {string[]} tags
+ * @property {string} excerpt
+ * @property {string} html
+ */
+
+/**
+ * @param {string} source
+ * @param {string} file
+ * @returns {Post}
+ */
+function compilePost(source, file) {
+  const { data, content } = matter(source);
+  const slug = basename(file, '.md');
+
+  return {
+    slug,
+    title: String(data.title ?? slug),
+    // YAML reads unquoted dates as Date objects
+    date: data.date instanceof Date ? data.date.toISOString().slice(0, 10) : String(data.date ?? ''),
+    tags: Array.isArray(data.tags) ? data.tags.map(String) : [],
+    excerpt: String(data.excerpt ?? summarize(content)),
+    html: /** @type {string} */ (marked.parse(content, { async: false }))
+  };
+}
+
+/**
+ * The first paragraph of the body as plain text, for posts without an excerpt
+ * @param {string} markdown
+ */
+function summarize(markdown) {
+  const paragraph =
+    markdown
+      .split(/\\n\\s*\\n/)
+      .map((block) => block.trim())
+      .find((block) => block && !/^[#>\`|-]/.test(block)) ?? '';
+  return paragraph
+    .replace(/\\[([^\\]]*)\\]\\([^)]*\\)/g, '$1')
+    .replace(/[*_\`]/g, '')
+    .replace(/\\s+/g, ' ');
+}
+
+/** @returns {Post[]} newest first */
+function loadPosts() {
+  if (!existsSync(POSTS_DIR)) return [];
+  return readdirSync(POSTS_DIR)
+    .filter((file) => file.endsWith('.md'))
+    .map((file) => compilePost(readFileSync(join(POSTS_DIR, file), 'utf8'), file))
+    .sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/** @param {Post} post */
+function postUrl(post) {
+  return \`\${SITE.url}/blog/\${post.slug}${trailingSlash}\`;
+}
+
+/** @param {string} value */
+function escapeXml(value) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** @param {Post[]} posts */
+function renderFeed(posts) {
+  const items = posts.map(
+    (post) => \`    <item>
+      <title>\${escapeXml(post.title)}</title>
+      <link>\${postUrl(post)}</link>
+      <guid>\${postUrl(post)}</guid>
+      <pubDate>\${new Date(\`\${post.date}T00:00:00Z\`).toUTCString()}</pubDate>
+      <description>\${escapeXml(post.excerpt)}</description>\${post.tags
+        .map((tag) => \`\\n      <category>\${escapeXml(tag)}</category>\`)
+        .join('')}
+    </item>\`
+  );
+
+  return \`<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>\${escapeXml(SITE.title)}</title>
+    <link>\${SITE.url}/blog${trailingSlash}</link>
+    <description>\${escapeXml(SITE.description)}</description>
+    <atom:link href="\${SITE.url}/rss.xml" rel="self" type="application/rss+xml" />
+\${items.join('\\n')}
+  </channel>
+</rss>
+\`;
+}
+
+/** @param {Post[]} posts */
+function renderSitemap(posts) {
+  const urls = posts.map(
+    (post) => \`  <url>
+    <loc>\${postUrl(post)}</loc>
+    <lastmod>\${post.date}</lastmod>
+  </url>\`
+  );
+
+  return \`<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">
+\${urls.join('\\n')}
+</urlset>
+\`;
+}
+
+${entry}`;
+  }
+
+  private slugify(value: string): string {
+    return value
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[\u0300-\u036f]/g, "")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "");
+  }
+
+  private toTitleCase(value: string): string {
+    return value.replace(/\b\w/g, (letter) => letter.toUpperCase());
+  }
+}
@@ -0,0 +1,481 @@
+/**
+ * Booking Generator
+ * The files the booking feature adds to every target: the availability
+ * model in src/content/availability.json (opening hours per weekday, slot
+ * length, buffer between appointments, notice and look-ahead limits,
+ * blackout dates and the business's time zone) and the three modules the
+ * booking page and components share. The availability module turns the
+ * model into slots, the bookings module saves them through a replaceable
+ * storage adapter and refuses overlapping bookings, and the ics module
+ * writes the confirmation a customer adds to their calendar.
+ *
+ * Slots are computed in the business's time zone with Intl alone, so the
+ * calendar agrees with the opening hours wherever the visitor is.
+ */
+
+import type { GeneratedFile } from "./GeneratedFile";
+
+// Booking modules by framework, beside the other shared modules of each target
+const BOOKING_MODULE_DIRS: Record<string, string> = {
+  react: "src/booking",
+  vue: "src/booking",
+  svelte: "src/lib/booking",
+  nextjs: "src/booking",
+  angular: "src/app/booking",
+};
+
+const AVAILABILITY_PATH = "src/content/availability.json";
+
+const WEEKDAY_HOURS = [
+  { open: "09:00", close: "12:00" },
+  { open: "13:00", close: "17:00" },
+];
+
+export function hasBooking(context: any): boolean {
+  return context.pages.includes("booking");
+}
+
+export class BookingGenerator {
+  generateFiles(context: any): GeneratedFile[] {
+    const moduleDir = this.getModuleDir(context);
+
+    return [
+      {
+        path: AVAILABILITY_PATH,
+        content: `${JSON.stringify(this.getSeedAvailability(), null, 2)}\n`,
+        type: "json",
+      },
+      {
+        path: `${moduleDir}/availability.ts`,
+        content: this.generateAvailabilityModule(moduleDir),
+        type: "ts",
+      },
+      {
+        path: `${moduleDir}/bookings.ts`,
+        content: this.generateBookingsModule(),
+        type: "ts",
+      },
+      {
+        path: `${moduleDir}/ics.ts`,
+        content: this.generateIcsModule(moduleDir),
+        type: "ts",
+      },
+    ];
+  }
+
+  getReadmeSection(context: any): string {
+    if (!hasBooking(context)) return "";
+
+    const moduleDir = this.getModuleDir(context);
+
+    return `
+## Bookings
+
+When customers can book is set in \`${AVAILABILITY_PATH}\`:
+
+- \`timeZone\`: the IANA time zone the opening hours are in, such as
+  \`Europe/London\`. Visitors see the slots in their own time zone.
+- \`hours\`: opening periods per weekday as 24-hour \`HH:mm\` times; a day
+  without periods is closed.
+- \`slotMinutes\` and \`bufferMinutes\`: the length of an appointment and
+  the gap kept free after each one.
+- \`minNoticeHours\` and \`maxAdvanceDays\`: how soon and how far ahead a
+  slot can be booked.
+- \`blackoutDates\`: \`YYYY-MM-DD\` days that are closed, such as holidays.
+
+Bookings are saved in the visitor's localStorage, which is only enough to
+try the calendar. To share them between visitors, implement the
+\`BookingStore\` interface in \`${moduleDir}/bookings.ts\` against your own
+API and pass it to \`setBookingStore()\` when the app starts. Its \`create\`
+must reject with \`SlotTakenError\` when the time overlaps a booking already
+made; the booking page then asks the customer to choose another slot.
+
+The confirmation step offers the booking as an \`.ics\` file for the
+customer's calendar.
+`;
+  }
+
+  private getModuleDir(context: any): string {
+    return BOOKING_MODULE_DIRS[context.framework] ?? BOOKING_MODULE_DIRS.react;
+  }
+
+  private getSeedAvailability() {
+    const today = new Date();
+    const year = today.getFullYear();
+    // The next Christmas Day and New Year's Day still ahead
+    const christmas = `${today.getMonth() === 11 && today.getDate() > 25 ? year + 1 : year}-12-25`;
+    const newYear = `${year + 1}-01-01`;
+
+    return {
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC",
+      slotMinutes: 60,
+      bufferMinutes: 15,
+      minNoticeHours: 2,
+      maxAdvanceDays: 60,
+      hours: {
+        monday: WEEKDAY_HOURS,
+        tuesday: WEEKDAY_HOURS,
+        wednesday: WEEKDAY_HOURS,
+        thursday: WEEKDAY_HOURS,
+        friday: WEEKDAY_HOURS,
+        saturday: [{ open: "10:00", close: "14:00" }],
+        sunday: [],
+      },
+      blackoutDates: [christmas, newYear].sort(),
+    };
+  }
+
+  private getContentDir(moduleDir: string): string {
+    // src/content, seen from the module
+    return `${"../".repeat(moduleDir.split("/").length - 1)}content`;
+  }
+
+  private generateAvailabilityModule(moduleDir: string): string {
+    return `// The bookable slots the opening hours in ${AVAILABILITY_PATH} allow.
+// Days are 'yyyy-MM-dd' strings in the business's time zone; slots are
+// instants, shown to each visitor in their own time zone.
+
+import { addDays as addCalendarDays, addMinutes, addMonths, areIntervalsOverlapping, endOfMonth, format, parseISO } from 'date-fns';
+import config from '${this.getContentDir(moduleDir)}/availability.json';
+
+export type Weekday = 'sunday' | 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday';
+
+export interface OpeningHours {
+  // 24-hour 'HH:mm' times in the business's time zone
+  open: string;
+  close: string;
+}
+
+export interface Availability {
+  timeZone: string;
+  slotMinutes: number;
+  bufferMinutes: number;
+  minNoticeHours: number;
+  maxAdvanceDays: number;
+  hours: Record<Weekday, OpeningHours[]>;
+  blackoutDates: string[];
+}
+
+// A booked period as ISO instants
+export interface BookedTime {
+  start: string;
+  end: string;
+}
+
+export interface Slot {
+  start: Date;
+  end: Date;
+  available: boolean;
+}
+
+export const availability: Availability = config;
+
+export const visitorTimeZone: string = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const WEEKDAYS: Weekday[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const zoneFormats = new Map<string, Intl.DateTimeFormat>();
+
+// Minutes the time zone's clocks are ahead of UTC at an instant
+function zoneOffset(instant: Date, timeZone: string): number {
+  let zoneFormat = zoneFormats.get(timeZone);
+  if (!zoneFormat) {
+    zoneFormat = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric'
+    });
+    zoneFormats.set(timeZone, zoneFormat);
+  }
+  const parts = Object.fromEntries(zoneFormat.formatToParts(instant).map((part) => [part.type, Number(part.value)]));
+  const wallClock = Date.UTC(
+    parts['year'],
+    parts['month'] - 1,
+    parts['day'],
+    parts['hour'],
+    parts['minute'],
+    parts['second']
+  );
+  return Math.round((wallClock - instant.getTime()) / 60000);
+}
+
+// The instant a business day's 'HH:mm' time happens
+export function zonedTime(day: string, time: string, timeZone = availability.timeZone): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, date, hours, minutes);
+  // Guessing with the offset at the wall clock time is off only when a
+  // daylight saving change falls between the two, which the second pass fixes
+  const guess = new Date(wallClock - zoneOffset(new Date(wallClock), timeZone) * 60000);
+  return new Date(wallClock - zoneOffset(guess, timeZone) * 60000);
+}
+
+// The business day an instant falls on
+export function toDay(instant: Date, timeZone = availability.timeZone): string {
+  return new Date(instant.getTime() + zoneOffset(instant, timeZone) * 60000).toISOString().slice(0, 10);
+}
+
+export function addDays(day: string, amount: number): string {
+  return format(addCalendarDays(parseISO(day), amount), 'yyyy-MM-dd');
+}
+
+export function getWeekday(day: string): Weekday {
+  return WEEKDAYS[parseISO(day).getDay()];
+}
+
+// Whether two bookings come closer than the buffer kept between appointments
+export function conflicts(booked: BookedTime, other: BookedTime): boolean {
+  return areIntervalsOverlapping(
+    {
+      start: addMinutes(parseISO(booked.start), -availability.bufferMinutes),
+      end: addMinutes(parseISO(booked.end), availability.bufferMinutes)
+    },
+    { start: parseISO(other.start), end: parseISO(other.end) }
+  );
+}
+
+// Open, not blacked out and within the booking window
+export function isBookingDay(day: string, now = new Date()): boolean {
+  const today = toDay(now);
+  return (
+    day >= today &&
+    day <= addDays(today, availability.maxAdvanceDays) &&
+    !availability.blackoutDates.includes(day) &&
+    availability.hours[getWeekday(day)].length > 0
+  );
+}
+
+// Every slot of a day; taken slots and those too soon to book are unavailable
+export function getSlots(day: string, booked: BookedTime[] = [], now = new Date()): Slot[] {
+  if (!isBookingDay(day, now)) return [];
+
+  const { slotMinutes, bufferMinutes, minNoticeHours } = availability;
+  const earliest = addMinutes(now, minNoticeHours * 60);
+
+  return availability.hours[getWeekday(day)].flatMap(({ open, close }) => {
+    const slots: Slot[] = [];
+    const closing = zonedTime(day, close);
+    for (
+      let start = zonedTime(day, open);
+      addMinutes(start, slotMinutes) <= closing;
+      start = addMinutes(start, slotMinutes + bufferMinutes)
+    ) {
+      const end = addMinutes(start, slotMinutes);
+      const time = { start: start.toISOString(), end: end.toISOString() };
+      slots.push({ start, end, available: start >= earliest && !booked.some((other) => conflicts(other, time)) });
+    }
+    return slots;
+  });
+}
+
+export function hasOpenSlot(day: string, booked: BookedTime[] = [], now = new Date()): boolean {
+  return getSlots(day, booked, now).some((slot) => slot.available);
+}
+
+// The first day with a slot left, or null when the booking window is full
+export function findNextOpenDay(booked: BookedTime[] = [], now = new Date()): string | null {
+  const today = toDay(now);
+  for (let offset = 0; offset <= availability.maxAdvanceDays; offset++) {
+    const day = addDays(today, offset);
+    if (hasOpenSlot(day, booked, now)) return day;
+  }
+  return null;
+}
+
+// Months are 'yyyy-MM' strings
+export function shiftMonth(month: string, amount: number): string {
+  return format(addMonths(parseISO(\`\${month}-01\`), amount), 'yyyy-MM');
+}
+
+export function getMonthDays(month: string): string[] {
+  const last = endOfMonth(parseISO(\`\${month}-01\`)).getDate();
+  return Array.from({ length: last }, (_, index) => \`\${month}-\${String(index + 1).padStart(2, '0')}\`);
+}
+
+// 0 for Sunday through 6 for Saturday
+export function getFirstWeekday(month: string): number {
+  return parseISO(\`\${month}-01\`).getDay();
+}
+
+export function formatTime(instant: Date, locale?: string): string {
+  return instant.toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit' });
+}
+
+export function formatDay(day: string, locale?: string): string {
+  return new Date(\`\${day}T12:00:00Z\`).toLocaleDateString(locale, {
+    timeZone: 'UTC',
+    weekday: 'long',
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  });
+}
+
+export function formatMonth(month: string, locale?: string): string {
+  return new Date(\`\${month}-15T12:00:00Z\`).toLocaleDateString(locale, {
+    timeZone: 'UTC',
+    year: 'numeric',
+    month: 'long'
+  });
+}
+`;
+  }
+
+  private generateBookingsModule(): string {
+    return `// Bookings and where they are kept. The default store uses this browser's
+// localStorage, which is enough to try the calendar; pass a store backed by
+// your own API to setBookingStore() so every visitor sees the same bookings.
+
+import { addDays, parseISO } from 'date-fns';
+import { availability, conflicts, type BookedTime, type Slot } from './availability';
+
+export interface BookingDetails {
+  name: string;
+  email: string;
+  phone: string;
+  service: string;
+  notes: string;
+}
+
+export interface Booking extends BookingDetails, BookedTime {
+  id: string;
+}
+
+export interface BookingStore {
+  // The bookings that overlap the period from \`from\` to \`to\`
+  list(from: Date, to: Date): Promise<Booking[]>;
+  // Saves a booking, rejecting with SlotTakenError if it conflicts with one
+  // already made
+  create(booking: Booking): Promise<Booking>;
+}
+
+export class SlotTakenError extends Error {
+  constructor() {
+    super('That time has just been booked. Please choose another.');
+    this.name = 'SlotTakenError';
+  }
+}
+
+const STORAGE_KEY = 'bookings';
+
+function read(): Booking[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+}
+
+export const localStorageStore: BookingStore = {
+  async list(from, to) {
+    return read().filter((booking) => parseISO(booking.end) > from && parseISO(booking.start) < to);
+  },
+  async create(booking) {
+    const saved = read();
+    if (saved.some((other) => conflicts(other, booking))) {
+      throw new SlotTakenError();
+    }
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...saved, booking]));
+    return booking;
+  }
+};
+
+let store: BookingStore = localStorageStore;
+
+export function setBookingStore(next: BookingStore): void {
+  store = next;
+}
+
+// Everything booked between now and the last day the calendar offers
+export function listUpcomingBookings(now = new Date()): Promise<Booking[]> {
+  return store.list(now, addDays(now, availability.maxAdvanceDays + 2));
+}
+
+export function bookSlot(slot: Slot, details: BookingDetails): Promise<Booking> {
+  return store.create({
+    ...details,
+    id: \`\${Date.now().toString(36)}-\${Math.random().toString(36).slice(2, 11)}\`,
+    start: slot.start.toISOString(),
+    end: slot.end.toISOString()
+  });
+}
+`;
+  }
+
+  private generateIcsModule(moduleDir: string): string {
+    return `// The iCalendar (RFC 5545) confirmation a customer downloads to add their
+// booking to a calendar
+
+import site from '${this.getContentDir(moduleDir)}/site.json';
+import type { Booking } from './bookings';
+
+// Lines are limited to 75 octets, not characters
+const MAX_LINE_OCTETS = 75;
+
+const encoder = new TextEncoder();
+
+function escapeText(value: string): string {
+  return value.replace(/\\\\/g, '\\\\\\\\').replace(/;/g, '\\\\;').replace(/,/g, '\\\\,').replace(/\\r?\\n/g, '\\\\n');
+}
+
+// Long lines continue on the next one after a space, which counts towards its length
+function fold(line: string): string {
+  const lines: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = lines.length ? MAX_LINE_OCTETS - 1 : MAX_LINE_OCTETS;
+    if (encoder.encode(current + char).length > limit) {
+      lines.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  return [...lines, current].join('\\r\\n ');
+}
+
+// 20250101T090000Z
+function formatInstant(instant: Date): string {
+  return instant.toISOString().replace(/[-:]/g, '').replace(/\\.\\d{3}/, '');
+}
+
+export function createIcs(booking: Booking, now = new Date()): string {
+  const description = [
+    \`Service: \${booking.service}\`,
+    \`Name: \${booking.name}\`,
+    booking.notes && \`Notes: \${booking.notes}\`
+  ].filter(Boolean).join('\\n');
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    \`PRODID:-//\${escapeText(site.business.name)}//Bookings//EN\`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'BEGIN:VEVENT',
+    \`UID:\${booking.id}\`,
+    \`DTSTAMP:\${formatInstant(now)}\`,
+    \`DTSTART:\${formatInstant(new Date(booking.start))}\`,
+    \`DTEND:\${formatInstant(new Date(booking.end))}\`,
+    \`SUMMARY:\${escapeText(\`\${booking.service} at \${site.business.name}\`)}\`,
+    \`LOCATION:\${escapeText(site.contact.address)}\`,
+    \`DESCRIPTION:\${escapeText(description)}\`,
+    'STATUS:CONFIRMED',
+    'END:VEVENT',
+    'END:VCALENDAR'
+  ];
+  return lines.map(fold).join('\\r\\n') + '\\r\\n';
+}
+
+// A link target that downloads the confirmation without a server
+export function getIcsHref(booking: Booking): string {
+  return \`data:text/calendar;charset=utf-8,\${encodeURIComponent(createIcs(booking))}\`;
+}
+`;
+  }
+}
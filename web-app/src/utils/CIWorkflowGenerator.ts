@@ -0,0 +1,98 @@
+/**
+ * CI Workflow Generator
+ * Emits the GitHub Actions workflow for projects whose Deployment.cicd is
+ * "github-actions". The workflow installs, builds, holds the build to the
+ * lighthouserc.json budgets and, when the test suites were generated, runs
+ * the Vitest suite and, where one is generated, the Playwright suite
+ * against the production build.
+ * Projects with a payments server run its tests against stripe-mock.
+ * Vercel and Netlify build from Git on their own, so those options need no
+ * workflow file.
+ */
+
+import { hasEndToEndTests } from "./EndToEndTestGenerator";
+import type { GeneratedFile } from "./GeneratedFile";
+import {
+  hasPayments,
+  STRIPE_MOCK_PORT,
+  STRIPE_MOCK_URL,
+} from "./PaymentsGenerator";
+
+export class CIWorkflowGenerator {
+  generateFiles(context: any): GeneratedFile[] {
+    if (context.cicd !== "github-actions") {
+      return [];
+    }
+
+    return [
+      {
+        path: ".github/workflows/ci.yml",
+        content: this.generateWorkflow(context),
+        type: "yaml",
+      },
+    ];
+  }
+
+  private generateWorkflow(context: any): string {
+    const steps = [
+      `      - uses: actions/checkout@v4
+      - uses: actions/setup-node@v4
+        with:
+          node-version: 20
+      - name: Install dependencies
+        run: npm install
+      - name: Build
+        run: npm run build
+      - name: Performance budgets
+        run: npx @lhci/cli@0.15 autorun`,
+    ];
+
+    const unitTests = context.testing;
+    const stripeMock = unitTests && hasPayments(context);
+    if (unitTests) {
+      steps.push(`      - name: Unit tests
+        run: npm test${
+          stripeMock
+            ? `
+        env:
+          STRIPE_API_BASE: ${STRIPE_MOCK_URL}`
+            : ""
+        }`);
+    }
+    if (hasEndToEndTests(context)) {
+      steps.push(`      - name: Install Playwright browsers
+        run: npx playwright install --with-deps chromium
+      - name: End-to-end tests
+        run: npm run test:e2e
+      - uses: actions/upload-artifact@v4
+        if: failure()
+        with:
+          name: playwright-report
+          path: playwright-report/
+          retention-days: 7`);
+    }
+
+    return `name: CI
+
+on:
+  push:
+    branches: [main]
+  pull_request:
+
+jobs:
+  build:
+    runs-on: ubuntu-latest${
+      stripeMock
+        ? `
+    services:
+      stripe-mock:
+        image: stripe/stripe-mock:latest
+        ports:
+          - ${STRIPE_MOCK_PORT}:${STRIPE_MOCK_PORT}`
+        : ""
+    }
+    steps:
+${steps.join("\n")}
+`;
+  }
+}
@@ -0,0 +1,637 @@
+/**
+ * Chat Generator
+ * The live chat behind LiveChat, ChatWidget and the chat page. server/chat.mjs
+ * is a small Node WebSocket server built on `ws`: visitors and the staff
+ * answering them meet in rooms, each room keeps its recent history in
+ * memory, and typing indicators are relayed to the rest of the room. The
+ * dev servers proxy /api/chat to it.
+ *
+ * Every target gets the same client module, a ChatClient that reconnects
+ * with exponential backoff and keeps messages written while offline in
+ * localStorage until the server has them. Its subscribe() follows the
+ * Svelte store contract, so Svelte reads it as a store; React and Vue get a
+ * useChat() wrapper and Angular copies it into a signal.
+ */
+
+import type { GeneratedFile } from "./GeneratedFile";
+
+// Chat modules by framework, beside the other shared modules of each target
+const CHAT_MODULE_DIRS: Record<string, string> = {
+  react: "src/chat",
+  vue: "src/chat",
+  svelte: "src/lib/chat",
+  nextjs: "src/chat",
+  angular: "src/app/chat",
+};
+
+export const CHAT_SERVER_PATH = "server/chat.mjs";
+
+export const CHAT_API = "/api/chat";
+
+export const CHAT_PORT = 4300;
+
+export function hasChat(context: any): boolean {
+  return context.pages.includes("chat");
+}
+
+export function getChatModuleDir(context: any): string {
+  return CHAT_MODULE_DIRS[context.framework] ?? CHAT_MODULE_DIRS.react;
+}
+
+export class ChatGenerator {
+  generateFiles(context: any): GeneratedFile[] {
+    const moduleDir = getChatModuleDir(context);
+
+    const files: GeneratedFile[] = [
+      {
+        path: CHAT_SERVER_PATH,
+        content: this.generateServer(),
+        type: "js",
+      },
+      {
+        path: `${moduleDir}/client.ts`,
+        content: this.generateClientModule(),
+        type: "ts",
+      },
+    ];
+
+    if (context.framework === "vue") {
+      files.push({
+        path: `${moduleDir}/useChat.ts`,
+        content: this.generateVueComposable(),
+        type: "ts",
+      });
+    } else if (
+      context.framework === "react" ||
+      context.framework === "nextjs"
+    ) {
+      files.push({
+        path: `${moduleDir}/useChat.ts`,
+        content: this.generateReactHook(),
+        type: "ts",
+      });
+    }
+
+    return files;
+  }
+
+  getScripts(context: any): Record<string, string> {
+    return hasChat(context) ? { chat: `node ${CHAT_SERVER_PATH}` } : {};
+  }
+
+  getReadmeSection(context: any): string {
+    if (!hasChat(context)) return "";
+
+    return `
+## Live chat
+
+The chat page and widget talk to \`${CHAT_SERVER_PATH}\`, a WebSocket server
+that relays messages between the people in each room. Start it with
+\`npm run chat\` alongside \`npm run ${context.framework === "angular" ? "start" : "dev"}\`; the dev server forwards
+\`${CHAT_API}\` to it on port ${CHAT_PORT} (set \`CHAT_PORT\` to change it).
+
+Every visitor gets a room of their own. The server logs each new room as a
+link, e.g. \`/chat?room=lq2x1k-9f3a7c2b1\`; open it with \`&name=Support\`
+added to answer as a member of staff. Each room keeps its latest 100
+messages in memory, so history is lost when the server restarts. A room is
+forgotten 30 minutes after the last person leaves it, or at once if nothing
+was said.
+
+When the connection drops, the chat reconnects with growing delays of up to
+30 seconds, or at once when the browser comes back online. Messages written
+in the meantime are kept in the browser and sent on reconnection.
+
+In production, run \`${CHAT_SERVER_PATH}\` behind your site's domain and route
+\`${CHAT_API}\` to it with WebSocket upgrades enabled.
+`;
+  }
+
+  private generateServer(): string {
+    return `/**
+ * Relays the live chat between the people in each room: a visitor and the
+ * staff who answer them. \`npm run chat\` starts it; CHAT_PORT sets the
+ * port, ${CHAT_PORT} by default.
+ *
+ * Clients connect to ${CHAT_API} over WebSocket and send JSON events:
+ *
+ *   { type: 'join', room, author, senderId }  answered with the room's
+ *                                             { type: 'history', messages }
+ *   { type: 'message', id, text }             sent to the whole room as
+ *                                             { type: 'message', message }
+ *   { type: 'typing', typing }                sent to the rest of the room
+ *
+ * Rooms keep their latest messages in memory until the server restarts or
+ * until they have been empty for ROOM_TTL.
+ */
+
+import { createServer } from 'node:http';
+import { pathToFileURL } from 'node:url';
+import { WebSocketServer } from 'ws';
+
+// Room, sender and message ids
+const ID_PATTERN = /^[\\w-]{1,64}$/;
+
+// Room names come from the client's ?room= link
+const MAX_ROOM_LENGTH = 32;
+
+// How long an empty room keeps its history for people coming back to it
+const ROOM_TTL = 30 * 60 * 1000;
+
+const MAX_TEXT_LENGTH = 2000;
+
+const MAX_AUTHOR_LENGTH = 40;
+
+const MAX_PAYLOAD_BYTES = 16 * 1024;
+
+// Connections that do not answer a ping within this time are dropped
+const HEARTBEAT_INTERVAL = 30000;
+
+function isId(value) {
+  return typeof value === 'string' && ID_PATTERN.test(value);
+}
+
+export function createChatServer({ historyLimit = 100, roomTtl = ROOM_TTL, log = console.log } = {}) {
+  const rooms = new Map();
+  const sockets = new WebSocketServer({ noServer: true, maxPayload: MAX_PAYLOAD_BYTES });
+
+  const server = createServer((request, response) => {
+    response.writeHead(426, { 'Content-Type': 'text/plain', Upgrade: 'websocket' });
+    response.end('Connect to ${CHAT_API} over WebSocket');
+  });
+
+  server.on('upgrade', (request, socket, head) => {
+    // Next.js sends paths with its trailing slash
+    const pathname = new URL(request.url ?? '/', 'http://localhost').pathname.replace(/\\/+$/, '');
+    if (pathname !== '${CHAT_API}') {
+      socket.destroy();
+      return;
+    }
+    sockets.handleUpgrade(request, socket, head, (client) => sockets.emit('connection', client));
+  });
+
+  function getRoom(id) {
+    let room = rooms.get(id);
+    if (!room) {
+      room = { clients: new Set(), history: [], expiry: undefined };
+      rooms.set(id, room);
+      log(\`New conversation: /chat?room=\${id}\`);
+    }
+    clearTimeout(room.expiry);
+    return room;
+  }
+
+  // A room nobody spoke in goes at once; one with history once it expires
+  function leaveRoom(id, room, client) {
+    room.clients.delete(client);
+    if (room.clients.size > 0) return;
+    if (room.history.length === 0) {
+      rooms.delete(id);
+      return;
+    }
+    room.expiry = setTimeout(() => rooms.delete(id), roomTtl);
+    room.expiry.unref();
+  }
+
+  function broadcast(room, event, except) {
+    const data = JSON.stringify(event);
+    for (const client of room.clients) {
+      if (client !== except && client.readyState === client.OPEN) client.send(data);
+    }
+  }
+
+  sockets.on('connection', (client) => {
+    let member = null;
+    client.isAlive = true;
+    client.on('pong', () => {
+      client.isAlive = true;
+    });
+
+    client.on('message', (data) => {
+      let event;
+      try {
+        event = JSON.parse(String(data));
+      } catch {
+        return;
+      }
+      if (!event || typeof event !== 'object') return;
+
+      if (event.type === 'join' && !member) {
+        if (!isId(event.room) || event.room.length > MAX_ROOM_LENGTH || !isId(event.senderId)) {
+          client.close(1008, 'Invalid room or sender');
+          return;
+        }
+        const author = typeof event.author === 'string' ? event.author.trim().slice(0, MAX_AUTHOR_LENGTH) : '';
+        member = { room: getRoom(event.room), roomId: event.room, senderId: event.senderId, author: author || 'Visitor' };
+        member.room.clients.add(client);
+        client.send(JSON.stringify({ type: 'history', messages: member.room.history }));
+      } else if (event.type === 'message' && member) {
+        const text = typeof event.text === 'string' ? event.text.trim() : '';
+        if (!isId(event.id) || !text || text.length > MAX_TEXT_LENGTH) return;
+        // A client resends what it has not seen acknowledged after a reconnect
+        if (member.room.history.some((message) => message.id === event.id)) return;
+
+        const message = {
+          id: event.id,
+          room: member.roomId,
+          author: member.author,
+          senderId: member.senderId,
+          text,
+          sentAt: new Date().toISOString()
+        };
+        member.room.history.push(message);
+        if (member.room.history.length > historyLimit) member.room.history.shift();
+        broadcast(member.room, { type: 'message', message });
+      } else if (event.type === 'typing' && member) {
+        broadcast(
+          member.room,
+          { type: 'typing', senderId: member.senderId, author: member.author, typing: event.typing === true },
+          client
+        );
+      }
+    });
+
+    client.on('close', () => {
+      if (!member) return;
+      leaveRoom(member.roomId, member.room, client);
+      broadcast(member.room, { type: 'typing', senderId: member.senderId, author: member.author, typing: false });
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    for (const client of sockets.clients) {
+      if (!client.isAlive) {
+        client.terminate();
+        continue;
+      }
+      client.isAlive = false;
+      client.ping();
+    }
+  }, HEARTBEAT_INTERVAL);
+  heartbeat.unref();
+
+  server.on('close', () => {
+    clearInterval(heartbeat);
+    for (const room of rooms.values()) clearTimeout(room.expiry);
+    sockets.close();
+  });
+
+  return server;
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.CHAT_PORT || ${CHAT_PORT});
+  createChatServer().listen(port, () => {
+    console.log(\`Chat server listening on ws://localhost:\${port}${CHAT_API}\`);
+  });
+}
+`;
+  }
+
+  private generateClientModule(): string {
+    return `// The live chat's connection to ${CHAT_SERVER_PATH}. A ChatClient joins one
+// room, reconnects with growing delays when the socket drops and keeps
+// messages written while offline in localStorage until the server has them.
+// subscribe() follows the Svelte store contract; the socket stays open while
+// anything is subscribed.
+
+export interface Message {
+  id: string;
+  room: string;
+  author: string;
+  senderId: string;
+  text: string;
+  // When the server received it; for queued messages, when it was written
+  sentAt: string;
+}
+
+export type ConnectionStatus = 'connecting' | 'online' | 'offline';
+
+export interface ChatState {
+  status: ConnectionStatus;
+  // Delivered messages, oldest first
+  messages: Message[];
+  // Messages the server has not acknowledged yet
+  pending: Message[];
+  // Names of the others in the room who are typing
+  typing: string[];
+  // Tells this browser's messages apart from everyone else's
+  senderId: string;
+}
+
+export interface ChatOptions {
+  // The visitor's own room by default, or the one named by ?room=
+  room?: string;
+  // ?name= or "Visitor" by default
+  name?: string;
+  url?: string;
+}
+
+type ServerEvent =
+  | { type: 'history'; messages: Message[] }
+  | { type: 'message'; message: Message }
+  | { type: 'typing'; senderId: string; author: string; typing: boolean };
+
+type Listener = (state: ChatState) => void;
+
+const RECONNECT_BASE_DELAY = 1000;
+
+const RECONNECT_MAX_DELAY = 30000;
+
+// A typing indicator clears after this long without a keystroke
+const TYPING_TIMEOUT = 3000;
+
+export const INITIAL_CHAT_STATE: ChatState = {
+  status: 'connecting',
+  messages: [],
+  pending: [],
+  typing: [],
+  senderId: ''
+};
+
+// Doubles with every failed attempt up to the cap; the random half keeps
+// clients dropped together from all coming back at once
+export function getReconnectDelay(attempt: number): number {
+  const ceiling = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** attempt);
+  return ceiling / 2 + Math.random() * (ceiling / 2);
+}
+
+function createId(): string {
+  return \`\${Date.now().toString(36)}-\${Math.random().toString(36).slice(2, 11)}\`;
+}
+
+function getStoredId(key: string): string {
+  let id = localStorage.getItem(key);
+  if (!id) {
+    id = createId();
+    localStorage.setItem(key, id);
+  }
+  return id;
+}
+
+function getChatRoom(): string {
+  return new URLSearchParams(location.search).get('room') || getStoredId('chat-room');
+}
+
+function getChatName(): string {
+  return new URLSearchParams(location.search).get('name') || 'Visitor';
+}
+
+// Same origin, so the dev server's proxy and production routing both apply
+function getChatUrl(): string {
+  return \`\${location.protocol === 'https:' ? 'wss:' : 'ws:'}//\${location.host}${CHAT_API}\`;
+}
+
+function getOutboxKey(room: string): string {
+  return \`chat-outbox:\${room}\`;
+}
+
+function readOutbox(room: string): Message[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(getOutboxKey(room)) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeOutbox(room: string, pending: Message[]): void {
+  if (pending.length) {
+    localStorage.setItem(getOutboxKey(room), JSON.stringify(pending));
+  } else {
+    localStorage.removeItem(getOutboxKey(room));
+  }
+}
+
+export class ChatClient {
+  #state: ChatState = INITIAL_CHAT_STATE;
+  #options: ChatOptions;
+  #listeners = new Set<Listener>();
+  #socket: WebSocket | null = null;
+  #room = '';
+  #name = '';
+  #attempt = 0;
+  #retryTimer: ReturnType<typeof setTimeout> | undefined;
+  #typingTimer: ReturnType<typeof setTimeout> | undefined;
+  #typists = new Map<string, string>();
+  // Ids sent over the current socket, so a message is not sent twice
+  #sent = new Set<string>();
+
+  constructor(options: ChatOptions = {}) {
+    this.#options = options;
+  }
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.#listeners.add(listener);
+    listener(this.#state);
+    if (this.#listeners.size === 1) this.#start();
+
+    return () => {
+      this.#listeners.delete(listener);
+      if (this.#listeners.size === 0) this.#stop();
+    };
+  };
+
+  getState = (): ChatState => this.#state;
+
+  send = (text: string): void => {
+    const trimmed = text.trim();
+    if (!trimmed || !this.#room) return;
+
+    this.#setPending([
+      ...this.#state.pending,
+      {
+        id: createId(),
+        room: this.#room,
+        author: this.#name,
+        senderId: this.#state.senderId,
+        text: trimmed,
+        sentAt: new Date().toISOString()
+      }
+    ]);
+    this.#stopTyping();
+    this.#flush();
+  };
+
+  // Call on every keystroke; the others see the indicator until a pause
+  notifyTyping = (): void => {
+    if (!this.#typingTimer) this.#emit({ type: 'typing', typing: true });
+    clearTimeout(this.#typingTimer);
+    this.#typingTimer = setTimeout(() => this.#stopTyping(), TYPING_TIMEOUT);
+  };
+
+  #start(): void {
+    // Nothing to connect to while rendering on the server
+    if (typeof window === 'undefined') return;
+
+    this.#room = this.#options.room ?? getChatRoom();
+    this.#name = this.#options.name ?? getChatName();
+    this.#update({ senderId: getStoredId('chat-sender'), pending: readOutbox(this.#room) });
+    window.addEventListener('online', this.#reconnectNow);
+    this.#connect();
+  }
+
+  #stop(): void {
+    if (typeof window === 'undefined') return;
+
+    window.removeEventListener('online', this.#reconnectNow);
+    clearTimeout(this.#retryTimer);
+    this.#stopTyping();
+    const socket = this.#socket;
+    this.#socket = null;
+    socket?.close();
+    this.#typists.clear();
+    this.#state = INITIAL_CHAT_STATE;
+  }
+
+  #connect(): void {
+    this.#update({ status: 'connecting' });
+    const socket = new WebSocket(this.#options.url ?? getChatUrl());
+    this.#socket = socket;
+
+    socket.addEventListener('open', () => {
+      this.#attempt = 0;
+      this.#sent.clear();
+      socket.send(
+        JSON.stringify({ type: 'join', room: this.#room, author: this.#name, senderId: this.#state.senderId })
+      );
+      this.#update({ status: 'online' });
+      this.#flush();
+    });
+    socket.addEventListener('message', (event) => {
+      this.#receive(JSON.parse(event.data));
+    });
+    socket.addEventListener('close', () => {
+      // Closed by stop() or replaced by a newer socket
+      if (this.#socket !== socket) return;
+
+      this.#socket = null;
+      this.#typists.clear();
+      this.#update({ status: 'offline', typing: [] });
+      this.#retryTimer = setTimeout(() => this.#connect(), getReconnectDelay(this.#attempt++));
+    });
+  }
+
+  #reconnectNow = (): void => {
+    if (this.#socket) return;
+    clearTimeout(this.#retryTimer);
+    this.#attempt = 0;
+    this.#connect();
+  };
+
+  #receive(event: ServerEvent): void {
+    switch (event.type) {
+      case 'history':
+        this.#update({ messages: event.messages });
+        this.#acknowledge(event.messages);
+        break;
+      case 'message':
+        this.#typists.delete(event.message.senderId);
+        if (!this.#state.messages.some((message) => message.id === event.message.id)) {
+          this.#update({ messages: [...this.#state.messages, event.message] });
+        }
+        this.#acknowledge([event.message]);
+        this.#update({ typing: [...this.#typists.values()] });
+        break;
+      case 'typing':
+        if (event.typing) {
+          this.#typists.set(event.senderId, event.author);
+        } else {
+          this.#typists.delete(event.senderId);
+        }
+        this.#update({ typing: [...this.#typists.values()] });
+        break;
+    }
+  }
+
+  #acknowledge(delivered: Message[]): void {
+    const ids = new Set(delivered.map((message) => message.id));
+    if (this.#state.pending.some((message) => ids.has(message.id))) {
+      this.#setPending(this.#state.pending.filter((message) => !ids.has(message.id)));
+    }
+  }
+
+  #flush(): void {
+    for (const message of this.#state.pending) {
+      if (this.#sent.has(message.id)) continue;
+      if (!this.#emit({ type: 'message', id: message.id, text: message.text })) return;
+      this.#sent.add(message.id);
+    }
+  }
+
+  #emit(event: object): boolean {
+    if (this.#socket?.readyState !== WebSocket.OPEN) return false;
+    this.#socket.send(JSON.stringify(event));
+    return true;
+  }
+
+  #stopTyping(): void {
+    if (!this.#typingTimer) return;
+    clearTimeout(this.#typingTimer);
+    this.#typingTimer = undefined;
+    this.#emit({ type: 'typing', typing: false });
+  }
+
+  #setPending(pending: Message[]): void {
+    writeOutbox(this.#room, pending);
+    this.#update({ pending });
+  }
+
+  #update(patch: Partial<ChatState>): void {
+    this.#state = { ...this.#state, ...patch };
+    this.#listeners.forEach((listener) => listener(this.#state));
+  }
+}
+
+const clients = new Map<string, ChatClient>();
+
+// Components showing the same room share one connection
+export function getChatClient(options: ChatOptions = {}): ChatClient {
+  const key = options.room ?? '';
+  let client = clients.get(key);
+  if (!client) {
+    client = new ChatClient(options);
+    clients.set(key, client);
+  }
+  return client;
+}
+`;
+  }
+
+  private generateReactHook(): string {
+    return `import { useSyncExternalStore } from 'react';
+import { getChatClient, INITIAL_CHAT_STATE, type ChatOptions } from './client';
+
+// The chat's state, re-rendering on every change; the connection stays open
+// while a component using it is mounted
+export function useChat(options: ChatOptions = {}) {
+  const client = getChatClient(options);
+  const state = useSyncExternalStore(client.subscribe, client.getState, () => INITIAL_CHAT_STATE);
+
+  return { ...state, send: client.send, notifyTyping: client.notifyTyping };
+}
+`;
+  }
+
+  private generateVueComposable(): string {
+    return `import { onMounted, onUnmounted, shallowRef } from 'vue';
+import { getChatClient, type ChatOptions, type ChatState } from './client';
+
+// The chat's state as a ref; the connection stays open while a component
+// using it is mounted
+export function useChat(options: ChatOptions = {}) {
+  const client = getChatClient(options);
+  const state = shallowRef<ChatState>(client.getState());
+  let unsubscribe: (() => void) | undefined;
+
+  onMounted(() => {
+    unsubscribe = client.subscribe((next) => {
+      state.value = next;
+    });
+  });
+  onUnmounted(() => unsubscribe?.());
+
+  return { state, send: client.send, notifyTyping: client.notifyTyping };
+}
+`;
+  }
+}
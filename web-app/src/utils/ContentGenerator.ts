@@ -0,0 +1,181 @@
+/**
+ * Content Generator
+ * Collects the business copy a site shows into src/content/site.json:
+ * hero, services, testimonials, about text, calls to action and contact
+ * details. The pages render this file instead of having it written into
+ * their markup, so the site owner can reword it without editing components
+ * and keep their copy when the project is regenerated.
+ *
+ * React and Next.js read the file through useTranslation() from src/i18n.ts;
+ * each additional language gets its own src/content/site.<lang>.json. Vue,
+ * SvelteKit and Angular pages import site.json directly.
+ */
+
+import type { GeneratedFile } from "./GeneratedFile";
+import { isMultilingual } from "./LocaleGenerator";
+
+export interface CallToAction {
+  title: string;
+  text: string;
+}
+
+export interface SiteContent {
+  business: {
+    name: string;
+    tagline: string;
+  };
+  hero: {
+    badge: string;
+    title: string;
+    subtitle: string;
+  };
+  services: {
+    title: string;
+    description: string;
+  }[];
+  testimonials: {
+    name: string;
+    text: string;
+    rating: number;
+  }[];
+  about: {
+    title: string;
+    subtitle: string;
+    // The first paragraph is set as the lead
+    story: string[];
+    team: {
+      avatar: string;
+      name: string;
+      role: string;
+      bio: string;
+    }[];
+    cta: CallToAction;
+  };
+  cta: CallToAction & { button: string };
+  contact: {
+    email: string;
+    phone: string;
+    address: string;
+  };
+}
+
+export class ContentGenerator {
+  /**
+   * Builds the content from the industry or AI copy the wizard produced,
+   * with the business details from the wizard's first step.
+   */
+  createContent(context: any): SiteContent {
+    const { aiContent, businessData, businessName, industry } = context;
+
+    return {
+      business: {
+        name: businessName,
+        tagline:
+          "Your trusted partner for professional solutions and exceptional service.",
+      },
+      hero: {
+        badge: `Leading ${industry} Solutions`,
+        title: aiContent.hero.title,
+        subtitle: aiContent.hero.subtitle,
+      },
+      services: aiContent.services.map((service: any) => ({
+        title: service.title,
+        description: service.description,
+      })),
+      testimonials: aiContent.testimonials.map((testimonial: any) => ({
+        name: testimonial.name,
+        text: testimonial.text,
+        rating: testimonial.rating || 5,
+      })),
+      about: {
+        title: `About ${businessName}`,
+        subtitle:
+          "Building excellence through innovation, dedication, and a commitment to our clients' success",
+        story: [
+          aiContent.aboutText ||
+            `${businessName} began with a vision to transform the ${industry} industry through innovative solutions and exceptional service.`,
+          "Founded by a team of passionate professionals, we recognized the need for a more client-focused approach in our industry. What started as a small operation has grown into a trusted partner for businesses of all sizes.",
+          "Today, we continue to push boundaries, embrace new technologies, and maintain the personal touch that has always set us apart. Our commitment to excellence drives everything we do.",
+        ],
+        team: [
+          {
+            avatar: "👨‍💼",
+            name: "John Smith",
+            role: "CEO & Founder",
+            bio: "With over 15 years of industry experience, John leads our vision and strategic direction.",
+          },
+          {
+            avatar: "👩‍💻",
+            name: "Sarah Johnson",
+            role: "Head of Operations",
+            bio: "Sarah ensures our operations run smoothly and our clients receive exceptional service.",
+          },
+          {
+            avatar: "👨‍🔬",
+            name: "Mike Davis",
+            role: "Technical Director",
+            bio: "Mike leads our technical innovation and ensures we stay ahead of industry trends.",
+          },
+        ],
+        cta: {
+          title: "Ready to Work Together?",
+          text: `Let's discuss how ${businessName} can help you achieve your goals.`,
+        },
+      },
+      cta: {
+        title: "Ready to Get Started?",
+        text: `Join hundreds of satisfied clients who trust ${businessName} for their success.`,
+        button: "Get Started Today",
+      },
+      contact: {
+        email: businessData.contactEmail || "info@example.com",
+        phone: businessData.contactPhone || "(555) 123-4567",
+        address: businessData.location || "Your City, State",
+      },
+    };
+  }
+
+  generateFiles(context: any): GeneratedFile[] {
+    const content = JSON.stringify(context.content, null, 2);
+    const files: GeneratedFile[] = [
+      { path: "src/content/site.json", content, type: "json" },
+    ];
+
+    // Additional languages start from the primary copy, to be translated
+    if (isMultilingual(context.framework, context.locales)) {
+      for (const locale of context.locales.slice(1)) {
+        files.push({
+          path: `src/content/site.${locale}.json`,
+          content,
+          type: "json",
+        });
+      }
+    }
+
+    return files;
+  }
+
+  getReadmeSection(context: any): string {
+    const translations = isMultilingual(context.framework, context.locales)
+      ? `
+The copy for ${context.locales
+          .slice(1)
+          .map((code: string) => `\`${code}\``)
+          .join(", ")} lives beside it in \`src/content/site.<lang>.json\`,
+which starts as a copy of \`site.json\` for you to translate. Keep the same
+fields in every file; any field a translation lacks falls back to
+\`site.json\`.
+`
+      : "";
+
+    return `
+## Content
+
+The hero, services, testimonials, about text, calls to action and contact
+details live in \`src/content/site.json\`. Edit the text there rather than
+in the page components; adding an entry to \`services\` or \`testimonials\`
+adds a card to the pages. When you regenerate the project, copy your
+\`src/content\` folder into the new one to keep your edits.
+${translations}`;
+  }
+}
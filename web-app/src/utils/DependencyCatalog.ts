@@ -0,0 +1,314 @@
+/**
+ * Dependency Catalog
+ * The one list of npm version ranges used by the project generators, the
+ * validators and the auto-fix engines, and the resolver that turns a
+ * project's selected features, deployment integrations and enterprise
+ * options into the packages its package.json must declare.
+ */
+
+import type { Deployment, EnterpriseConfig } from "../store/PWAGeneratorStore";
+import {
+  featureRegistry,
+  type FeaturePackages,
+  type FrameworkId,
+} from "./FeatureRegistry";
+
+export const DEPENDENCY_CATALOG: Record<string, string> = {
+  // Framework runtimes
+  "@angular/animations": "^17.3.0",
+  "@angular/common": "^17.3.0",
+  "@angular/compiler": "^17.3.0",
+  "@angular/core": "^17.3.0",
+  "@angular/forms": "^17.3.0",
+  "@angular/platform-browser": "^17.3.0",
+  "@angular/router": "^17.3.0",
+  "@angular/service-worker": "^17.3.0",
+  next: "^14.2.3",
+  react: "^18.2.0",
+  "react-dom": "^18.2.0",
+  "react-router-dom": "^6.20.0",
+  rxjs: "~7.8.0",
+  svelte: "^4.2.8",
+  tslib: "^2.6.2",
+  vue: "^3.4.0",
+  "vue-router": "^4.2.5",
+  "zone.js": "~0.14.3",
+
+  // Build tooling
+  "@angular-devkit/build-angular": "^17.3.0",
+  "@angular/cli": "^17.3.0",
+  "@angular/compiler-cli": "^17.3.0",
+  "@sveltejs/adapter-static": "^3.0.1",
+  "@sveltejs/kit": "^2.0.0",
+  "@sveltejs/vite-plugin-svelte": "^3.0.1",
+  "@types/node": "^20.10.0",
+  "@types/react": "^18.2.43",
+  "@types/react-dom": "^18.2.17",
+  "@typescript-eslint/eslint-plugin": "^6.14.0",
+  "@typescript-eslint/parser": "^6.14.0",
+  "@vitejs/plugin-react": "^4.2.1",
+  "@vitejs/plugin-vue": "^5.0.0",
+  "@vue/tsconfig": "^0.5.1",
+  eslint: "^8.55.0",
+  "eslint-plugin-react-hooks": "^4.6.0",
+  "eslint-plugin-react-refresh": "^0.4.5",
+  "svelte-check": "^3.6.2",
+  typescript: "^5.2.2",
+  vite: "^5.0.8",
+  "vue-tsc": "^2.0.6",
+
+  // Testing
+  "@analogjs/vite-plugin-angular": "~1.9.4",
+  "@analogjs/vitest-angular": "~1.9.4",
+  "@angular/platform-browser-dynamic": "^17.3.0",
+  "@playwright/test": "^1.49.1",
+  "@testing-library/angular": "^16.0.0",
+  "@testing-library/dom": "^10.4.0",
+  "@testing-library/jest-dom": "^6.6.3",
+  "@testing-library/react": "^16.1.0",
+  "@testing-library/svelte": "^5.2.6",
+  "@testing-library/user-event": "^14.5.2",
+  "@testing-library/vue": "^8.1.0",
+  jsdom: "^25.0.1",
+  vitest: "^2.1.8",
+
+  // Feature libraries
+  "@stripe/react-stripe-js": "^2.4.0",
+  "@stripe/stripe-js": "^2.2.0",
+  "date-fns": "^3.0.6",
+  "fuse.js": "^7.0.0",
+  "gray-matter": "^4.0.3",
+  marked: "^12.0.0",
+  "socket.io-client": "^4.7.4",
+  stripe: "^14.10.0",
+  ws: "^8.18.0",
+
+  // Monitoring and analytics
+  "@datadog/browser-rum": "^5.6.0",
+  "@newrelic/browser-agent": "^1.247.0",
+  "@sentry/angular-ivy": "^7.91.0",
+  "@sentry/nextjs": "^7.91.0",
+  "@sentry/react": "^7.91.0",
+  "@sentry/sveltekit": "^7.91.0",
+  "@sentry/vue": "^7.91.0",
+  "@vercel/analytics": "^1.1.1",
+  "plausible-tracker": "^0.3.8",
+  "react-ga4": "^2.1.0",
+  "vue-gtag": "^2.0.1",
+  "web-vitals": "^3.5.1",
+
+  // Enterprise integrations
+  "@auth0/auth0-angular": "^2.2.3",
+  "@auth0/auth0-react": "^2.2.4",
+  "@auth0/auth0-spa-js": "^2.1.3",
+  "@auth0/auth0-vue": "^2.3.3",
+  "@auth0/nextjs-auth0": "^3.5.0",
+  "@azure/msal-browser": "^3.6.0",
+  firebase: "^10.7.1",
+  graphql: "^16.8.1",
+  "graphql-request": "^6.1.0",
+};
+
+export function getCatalogVersion(name: string): string | undefined {
+  return DEPENDENCY_CATALOG[name];
+}
+
+/**
+ * Version ranges for the given packages, in order. Throws for a package the
+ * catalog does not know so a missing entry fails generation loudly instead
+ * of shipping "latest".
+ */
+export function catalogVersions(names: string[]): Record<string, string> {
+  return Object.fromEntries(
+    names.map((name) => {
+      const version = getCatalogVersion(name);
+      if (!version) {
+        throw new Error(`No catalog version for package "${name}"`);
+      }
+      return [name, version];
+    }),
+  );
+}
+
+/**
+ * Adds or replaces catalog entries; in-house feature modules register the
+ * versions of the packages they declare.
+ */
+export function addCatalogVersions(versions: Record<string, string>): void {
+  Object.assign(DEPENDENCY_CATALOG, versions);
+}
+
+export interface DependencySelection {
+  framework: string;
+  selectedFeatures: string[];
+  deployment?: Partial<
+    Pick<Deployment, "monitoring" | "analytics" | "testing">
+  >;
+  enterpriseConfig?: Partial<EnterpriseConfig>;
+}
+
+export interface ResolvedDependencies {
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+}
+
+const SENTRY_PACKAGES: FeaturePackages = {
+  react: ["@sentry/react"],
+  nextjs: ["@sentry/nextjs"],
+  vue: ["@sentry/vue"],
+  svelte: ["@sentry/sveltekit"],
+  angular: ["@sentry/angular-ivy"],
+};
+
+const MONITORING_PACKAGES: Record<string, FeaturePackages> = {
+  sentry: SENTRY_PACKAGES,
+  datadog: { "*": ["@datadog/browser-rum"] },
+  newrelic: { "*": ["@newrelic/browser-agent"] },
+};
+
+const ANALYTICS_PACKAGES: Record<string, FeaturePackages> = {
+  "google-analytics": { react: ["react-ga4"], vue: ["vue-gtag"] },
+  "vercel-analytics": { "*": ["@vercel/analytics"] },
+  plausible: { "*": ["plausible-tracker"] },
+};
+
+const AUTH_PROVIDER_PACKAGES: Record<string, FeaturePackages> = {
+  auth0: {
+    react: ["@auth0/auth0-react"],
+    nextjs: ["@auth0/nextjs-auth0"],
+    vue: ["@auth0/auth0-vue"],
+    svelte: ["@auth0/auth0-spa-js"],
+    angular: ["@auth0/auth0-angular"],
+  },
+  microsoft: { "*": ["@azure/msal-browser"] },
+};
+
+// The Vitest and Playwright suites emitted when deployment.testing is on;
+// Analog stays on 1.9, the last release that runs on Vite 5
+const TESTING_PACKAGES: FeaturePackages = {
+  "*": [
+    "@playwright/test",
+    "@testing-library/jest-dom",
+    "@testing-library/user-event",
+    "jsdom",
+    "vitest",
+  ],
+  react: ["@testing-library/dom", "@testing-library/react"],
+  nextjs: [
+    "@testing-library/dom",
+    "@testing-library/react",
+    "@vitejs/plugin-react",
+  ],
+  vue: ["@testing-library/vue"],
+  svelte: ["@testing-library/svelte"],
+  angular: [
+    "@analogjs/vite-plugin-angular",
+    "@analogjs/vitest-angular",
+    "@angular/platform-browser-dynamic",
+    "@testing-library/angular",
+    "@testing-library/dom",
+  ],
+};
+
+// Server-side databases are reached through the generated APIs, not the PWA
+const DATABASE_PACKAGES: Record<string, FeaturePackages> = {
+  firestore: { "*": ["firebase"] },
+};
+
+const ENTERPRISE_OPTION_PACKAGES: Array<{
+  enabled: (config: Partial<EnterpriseConfig>) => boolean;
+  packages: FeaturePackages;
+}> = [
+  {
+    enabled: (config) => !!config.graphqlAPI,
+    packages: { "*": ["graphql", "graphql-request"] },
+  },
+  {
+    enabled: (config) =>
+      !!(
+        config.websockets ||
+        config.realTimeSync ||
+        config.liveCollaboration ||
+        config.presenceAwareness
+      ),
+    packages: { "*": ["socket.io-client"] },
+  },
+  {
+    enabled: (config) => !!config.performanceMetrics,
+    packages: { "*": ["web-vitals"] },
+  },
+  {
+    enabled: (config) => !!config.errorTracking,
+    packages: SENTRY_PACKAGES,
+  },
+];
+
+export class DependencyResolver {
+  resolve(selection: DependencySelection): ResolvedDependencies {
+    const framework = selection.framework as FrameworkId;
+    const dependencies: string[] = [];
+    const devDependencies: string[] = [];
+
+    for (const module of featureRegistry.resolve(selection.selectedFeatures)
+      .modules) {
+      dependencies.push(...this.select(module.dependencies, framework));
+      devDependencies.push(...this.select(module.devDependencies, framework));
+    }
+
+    const {
+      monitoring = [],
+      analytics = [],
+      testing,
+    } = selection.deployment ?? {};
+    if (testing) {
+      devDependencies.push(...this.select(TESTING_PACKAGES, framework));
+    }
+    monitoring.forEach((id) =>
+      dependencies.push(...this.select(MONITORING_PACKAGES[id], framework)),
+    );
+    analytics.forEach((id) =>
+      dependencies.push(...this.select(ANALYTICS_PACKAGES[id], framework)),
+    );
+
+    const enterprise = selection.enterpriseConfig;
+    if (enterprise?.enabled) {
+      enterprise.authProviders?.forEach((id) =>
+        dependencies.push(
+          ...this.select(AUTH_PROVIDER_PACKAGES[id], framework),
+        ),
+      );
+      if (enterprise.database) {
+        dependencies.push(
+          ...this.select(DATABASE_PACKAGES[enterprise.database], framework),
+        );
+      }
+      ENTERPRISE_OPTION_PACKAGES.filter((option) =>
+        option.enabled(enterprise),
+      ).forEach((option) =>
+        dependencies.push(...this.select(option.packages, framework)),
+      );
+    }
+
+    return {
+      dependencies: catalogVersions(this.sorted(dependencies)),
+      devDependencies: catalogVersions(this.sorted(devDependencies)),
+    };
+  }
+
+  // Next.js projects use the React packages unless a module lists its own
+  private select(
+    packages: FeaturePackages | undefined,
+    framework: FrameworkId,
+  ): string[] {
+    if (!packages) return [];
+    const frameworkPackages =
+      packages[framework] ??
+      (framework === "nextjs" ? packages.react : undefined) ??
+      [];
+    return [...(packages["*"] ?? []), ...frameworkPackages];
+  }
+
+  private sorted(names: string[]): string[] {
+    return Array.from(new Set(names)).sort();
+  }
+}
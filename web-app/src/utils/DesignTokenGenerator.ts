@@ -0,0 +1,336 @@
+/**
+ * Design Token Generator
+ * Derives the theme of a generated project from the Customization step.
+ * Colors, typography, layout width and motion preferences become CSS custom
+ * properties in src/tokens.css, which index.css imports ahead of every other
+ * rule; the user's customCSS goes to src/custom.css, imported last by each
+ * framework entry point so it wins the cascade.
+ */
+
+import type { Customization } from "../store/PWAGeneratorStore";
+import type { GeneratedFile } from "./GeneratedFile";
+
+export interface DesignTokens {
+  primaryColor: string;
+  secondaryColor: string;
+  backgroundColor: string;
+  textColor: string;
+  fontFamily: string;
+  fontImportUrl: string | null;
+  layout: string;
+  darkMode: boolean;
+  animations: boolean;
+  customCSS: string;
+}
+
+interface FontDefinition {
+  family: string;
+  fallback: string;
+  googleFamily: string | null;
+}
+
+const DEFAULT_CUSTOMIZATION: Customization = {
+  colorScheme: "professional",
+  primaryColor: "#3182ce",
+  secondaryColor: "#718096",
+  fontFamily: "inter",
+  layout: "standard",
+  darkMode: false,
+  animations: true,
+  customCSS: "",
+  logo: null,
+};
+
+const SANS_SERIF_FALLBACK =
+  "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif";
+
+// Keyed by the font ids offered in CustomizationStep
+const FONTS: Record<string, FontDefinition> = {
+  inter: {
+    family: "'Inter'",
+    fallback: SANS_SERIF_FALLBACK,
+    googleFamily: "Inter:wght@300;400;500;600;700;800",
+  },
+  roboto: {
+    family: "'Roboto'",
+    fallback: SANS_SERIF_FALLBACK,
+    googleFamily: "Roboto:wght@300;400;500;700",
+  },
+  poppins: {
+    family: "'Poppins'",
+    fallback: SANS_SERIF_FALLBACK,
+    googleFamily: "Poppins:wght@300;400;500;600;700",
+  },
+  playfair: {
+    family: "'Playfair Display'",
+    fallback: "Georgia, 'Times New Roman', serif",
+    googleFamily: "Playfair+Display:wght@400;500;600;700",
+  },
+  lora: {
+    family: "'Lora'",
+    fallback: "Georgia, 'Times New Roman', serif",
+    googleFamily: "Lora:wght@400;500;600;700",
+  },
+  jetbrains: {
+    family: "'JetBrains Mono'",
+    fallback: "'SFMono-Regular', Menlo, Consolas, monospace",
+    googleFamily: "JetBrains+Mono:wght@400;500;600;700",
+  },
+};
+
+const LAYOUT_WIDTHS: Record<string, string> = {
+  standard: "1200px",
+  sidebar: "1440px",
+  grid: "1440px",
+  landing: "1100px",
+};
+
+const GRAY_SCALE: Array<[number, string]> = [
+  [50, "#f9fafb"],
+  [100, "#f3f4f6"],
+  [200, "#e5e7eb"],
+  [300, "#d1d5db"],
+  [400, "#9ca3af"],
+  [500, "#6b7280"],
+  [600, "#4b5563"],
+  [700, "#374151"],
+  [800, "#1f2937"],
+  [900, "#111827"],
+];
+
+// Shades lighter than 600 mix toward white, darker ones toward black
+const PRIMARY_SCALE: Array<[number, string, number]> = [
+  [50, "#ffffff", 0.92],
+  [100, "#ffffff", 0.84],
+  [200, "#ffffff", 0.68],
+  [300, "#ffffff", 0.5],
+  [400, "#ffffff", 0.3],
+  [500, "#ffffff", 0.12],
+  [600, "#000000", 0],
+  [700, "#000000", 0.15],
+  [800, "#000000", 0.3],
+  [900, "#000000", 0.45],
+];
+
+const DARK_BACKGROUND = "#1a202c";
+
+export class DesignTokenGenerator {
+  createTokens(customization: Partial<Customization> = {}): DesignTokens {
+    const settings = { ...DEFAULT_CUSTOMIZATION, ...customization };
+    const font =
+      FONTS[settings.fontFamily.toLowerCase()] ||
+      this.getCustomFont(settings.fontFamily);
+
+    return {
+      primaryColor: this.normalizeHex(
+        settings.primaryColor,
+        DEFAULT_CUSTOMIZATION.primaryColor,
+      ),
+      secondaryColor: this.normalizeHex(
+        settings.secondaryColor,
+        DEFAULT_CUSTOMIZATION.secondaryColor,
+      ),
+      backgroundColor: "#ffffff",
+      textColor: "#2d3748",
+      fontFamily: `${font.family}, ${font.fallback}`,
+      fontImportUrl: font.googleFamily
+        ? `https://fonts.googleapis.com/css2?family=${font.googleFamily}&display=swap`
+        : null,
+      layout: LAYOUT_WIDTHS[settings.layout] ? settings.layout : "standard",
+      darkMode: settings.darkMode,
+      animations: settings.animations,
+      customCSS: settings.customCSS.trim(),
+    };
+  }
+
+  generateFiles(tokens: DesignTokens): GeneratedFile[] {
+    return [
+      {
+        path: "src/tokens.css",
+        content: this.generateTokensCss(tokens),
+        type: "css",
+      },
+      {
+        path: "src/custom.css",
+        content: `/* Custom CSS from the Customization step, loaded after all other styles */
+${tokens.customCSS}
+`,
+        type: "css",
+      },
+    ];
+  }
+
+  private generateTokensCss(tokens: DesignTokens): string {
+    const primaryScale = PRIMARY_SCALE.map(
+      ([shade, target, weight]) =>
+        `  --primary-${shade}: ${this.mix(tokens.primaryColor, target, weight)};`,
+    ).join("\n");
+    const grayScale = GRAY_SCALE.map(
+      ([shade, color]) => `  --gray-${shade}: ${color};`,
+    ).join("\n");
+
+    let css = `/* Design tokens generated from the Customization step */
+${tokens.fontImportUrl ? `@import url('${tokens.fontImportUrl}');\n` : ""}
+:root {
+  /* Brand Colors */
+  --color-primary: ${tokens.primaryColor};
+  --color-primary-rgb: ${this.toRgb(tokens.primaryColor).join(", ")};
+  --color-secondary: ${tokens.secondaryColor};
+  --color-background: ${tokens.backgroundColor};
+  --color-surface: #ffffff;
+  --color-text: ${tokens.textColor};
+
+  /* Primary Colors */
+${primaryScale}
+
+  /* Neutral Colors */
+${grayScale}
+
+  /* Success Colors */
+  --success-50: #ecfdf5;
+  --success-500: #10b981;
+  --success-600: #059669;
+
+  /* Error Colors */
+  --error-50: #fef2f2;
+  --error-500: #ef4444;
+  --error-600: #dc2626;
+
+  /* Warning Colors */
+  --warning-50: #fffbeb;
+  --warning-500: #f59e0b;
+  --warning-600: #d97706;
+
+  /* Typography */
+  --font-family: ${tokens.fontFamily};
+
+  /* Spacing */
+  --spacing-xs: 0.25rem;
+  --spacing-sm: 0.5rem;
+  --spacing-md: 1rem;
+  --spacing-lg: 1.5rem;
+  --spacing-xl: 2rem;
+  --spacing-2xl: 3rem;
+  --spacing-3xl: 4rem;
+
+  /* Border Radius */
+  --radius-sm: 0.375rem;
+  --radius-md: 0.5rem;
+  --radius-lg: 0.75rem;
+  --radius-xl: 1rem;
+
+  /* Container Widths (${tokens.layout} layout) */
+  --container-sm: 640px;
+  --container-md: ${LAYOUT_WIDTHS[tokens.layout]};
+  --container-lg: 1440px;
+  --container-content: 600px;
+  --container-hero: 900px;
+
+  /* Blur Effects */
+  --blur-sm: 10px;
+  --blur-md: 20px;
+
+  /* Z-Index */
+  --z-dropdown: 100;
+  --z-sticky: 1000;
+  --z-overlay: 2000;
+
+  /* Breakpoints */
+  --breakpoint-sm: 480px;
+  --breakpoint-md: 768px;
+  --breakpoint-lg: 1024px;
+
+  /* Shadows */
+  --shadow-sm: 0 1px 2px 0 rgba(0, 0, 0, 0.05);
+  --shadow-md: 0 4px 6px -1px rgba(0, 0, 0, 0.1), 0 2px 4px -1px rgba(0, 0, 0, 0.06);
+  --shadow-lg: 0 10px 15px -3px rgba(0, 0, 0, 0.1), 0 4px 6px -2px rgba(0, 0, 0, 0.05);
+  --shadow-xl: 0 20px 25px -5px rgba(0, 0, 0, 0.1), 0 10px 10px -5px rgba(0, 0, 0, 0.04);
+}
+`;
+
+    if (tokens.darkMode) {
+      // Reversing the neutral scale keeps text-on-background pairs readable
+      const darkGrayScale = GRAY_SCALE.map(
+        ([shade], index) =>
+          `    --gray-${shade}: ${GRAY_SCALE[GRAY_SCALE.length - 1 - index][1]};`,
+      ).join("\n");
+
+      css += `
+@media (prefers-color-scheme: dark) {
+  :root {
+    color-scheme: dark;
+    --color-background: ${DARK_BACKGROUND};
+    --color-surface: #2d3748;
+    --color-text: #f7fafc;
+    --primary-50: ${this.mix(tokens.primaryColor, DARK_BACKGROUND, 0.85)};
+    --primary-100: ${this.mix(tokens.primaryColor, DARK_BACKGROUND, 0.7)};
+${darkGrayScale}
+  }
+}
+`;
+    }
+
+    const disableMotion = `*,
+*::before,
+*::after {
+  animation-duration: 0.01ms !important;
+  animation-iteration-count: 1 !important;
+  transition-duration: 0.01ms !important;
+  scroll-behavior: auto !important;
+}`;
+
+    css += tokens.animations
+      ? `
+@media (prefers-reduced-motion: reduce) {
+${disableMotion.replace(/^/gm, "  ")}
+}
+`
+      : `
+/* Animations are turned off for this project */
+${disableMotion}
+`;
+
+    return css;
+  }
+
+  private getCustomFont(fontFamily: string): FontDefinition {
+    return {
+      family: `'${fontFamily.replace(/'/g, "")}'`,
+      fallback: SANS_SERIF_FALLBACK,
+      googleFamily: null,
+    };
+  }
+
+  private normalizeHex(color: string, fallback: string): string {
+    const value = color.trim().toLowerCase();
+    if (/^#[0-9a-f]{6}$/.test(value)) {
+      return value;
+    }
+    if (/^#[0-9a-f]{3}$/.test(value)) {
+      return `#${value
+        .slice(1)
+        .split("")
+        .map((char) => char + char)
+        .join("")}`;
+    }
+    return fallback;
+  }
+
+  private toRgb(hex: string): [number, number, number] {
+    return [1, 3, 5].map((start) =>
+      parseInt(hex.slice(start, start + 2), 16),
+    ) as [number, number, number];
+  }
+
+  private mix(color: string, target: string, weight: number): string {
+    const from = this.toRgb(color);
+    const to = this.toRgb(target);
+    return `#${from
+      .map((channel, index) =>
+        Math.round(channel * (1 - weight) + to[index] * weight)
+          .toString(16)
+          .padStart(2, "0"),
+      )
+      .join("")}`;
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Dev Server Proxy
+ * The API routes a generated project's dev server forwards to the Node
+ * servers that ship beside it: /api/payments to server/payments.mjs and
+ * /api/chat, a WebSocket, to server/chat.mjs. Vite, `next dev` and the
+ * Angular CLI each take the same routes in their own format, so the
+ * browser code always calls its own origin.
+ */
+
+import {
+  CHAT_API,
+  CHAT_PORT,
+  CHAT_SERVER_PATH,
+  hasChat,
+} from "./ChatGenerator";
+import type { GeneratedFile } from "./GeneratedFile";
+import {
+  PAYMENTS_API,
+  PAYMENTS_PORT,
+  PAYMENTS_SERVER_PATH,
+  hasPayments,
+} from "./PaymentsGenerator";
+
+// angular.json's serve target points proxyConfig here
+export const ANGULAR_PROXY_CONFIG = "proxy.conf.json";
+
+interface ProxyRoute {
+  path: string;
+  port: number;
+  server: string;
+  script: string;
+  websocket: boolean;
+}
+
+export class DevServerProxy {
+  getRoutes(context: any): ProxyRoute[] {
+    const routes: ProxyRoute[] = [];
+
+    if (hasPayments(context)) {
+      routes.push({
+        path: PAYMENTS_API,
+        port: PAYMENTS_PORT,
+        server: PAYMENTS_SERVER_PATH,
+        script: "payments",
+        websocket: false,
+      });
+    }
+    if (hasChat(context)) {
+      routes.push({
+        path: CHAT_API,
+        port: CHAT_PORT,
+        server: CHAT_SERVER_PATH,
+        script: "chat",
+        websocket: true,
+      });
+    }
+
+    return routes;
+  }
+
+  // The Angular CLI reads its dev server proxy from a file
+  generateFiles(context: any): GeneratedFile[] {
+    const routes = this.getRoutes(context);
+    if (context.framework !== "angular" || routes.length === 0) return [];
+
+    const config = Object.fromEntries(
+      routes.map((route) => [
+        route.path,
+        {
+          target: `http://localhost:${route.port}`,
+          secure: false,
+          ...(route.websocket && { ws: true }),
+        },
+      ]),
+    );
+
+    return [
+      {
+        path: ANGULAR_PROXY_CONFIG,
+        content: `${JSON.stringify(config, null, 2)}\n`,
+        type: "json",
+      },
+    ];
+  }
+
+  /**
+   * The `proxy` entry for a Vite config's `server` block, indented to sit
+   * after its other options, or "" when nothing needs proxying.
+   */
+  getViteProxy(context: any): string {
+    const routes = this.getRoutes(context);
+    if (routes.length === 0) return "";
+
+    const entries = routes.map((route) => {
+      const target = route.websocket
+        ? `{ target: 'ws://localhost:${route.port}', ws: true }`
+        : `'http://localhost:${route.port}'`;
+      return `      // ${route.server}, started with \`npm run ${route.script}\`
+      '${route.path}': ${target}`;
+    });
+
+    return `,
+    proxy: {
+${entries.join(",\n")}
+    }`;
+  }
+
+  /**
+   * Statements for next.config.mjs that give `next dev` the same proxy;
+   * a static export has no server to rewrite requests, so builds skip it.
+   * `next dev` forwards WebSocket upgrades to external rewrites too.
+   */
+  getNextRewrites(context: any): string {
+    const routes = this.getRoutes(context);
+    if (routes.length === 0) return "";
+
+    const rewrites = routes.map(
+      (route) =>
+        `    // ${route.server}, started with \`npm run ${route.script}\`
+    { source: '${route.path}/:path*', destination: 'http://localhost:${route.port}${route.path}/:path*' }`,
+    );
+
+    return `
+
+if (process.env.NODE_ENV !== 'production') {
+  nextConfig.rewrites = async () => [
+${rewrites.join(",\n")}
+  ];
+}`;
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * End-to-End Test Generator
+ * Emits the Playwright project a generated site gets when Deployment.testing
+ * is on. Playwright builds the site, serves the production output and visits
+ * every route, failing on console errors. It also checks the PWA contract:
+ * the manifest loads, the service worker registers, and a blocked network
+ * still gets the offline fallback. The worker only caches after the
+ * postbuild stamp, or in Angular's case only in a production build, so the
+ * suite never runs against the dev server.
+ */
+
+import type { GeneratedFile } from "./GeneratedFile";
+import { getStaticDistDir } from "./PerformanceBudgetGenerator";
+
+const PREVIEW_PORT = 4173;
+
+// Builds, then serves the output the way the deployed site is served.
+// SvelteKit's preview serves public/ as-is, unstamped worker included, so
+// the Svelte build is served statically like the Next.js export. Angular's
+// build is served as a single-page app, every route falling back to
+// index.html
+const PREVIEW_COMMANDS: Record<string, (context: any) => string> = {
+  react: () =>
+    `npm run build && npm run preview -- --port ${PREVIEW_PORT} --strictPort`,
+  vue: () =>
+    `npm run build && npm run preview -- --port ${PREVIEW_PORT} --strictPort`,
+  svelte: () => `npm run build && npx serve@latest build -l ${PREVIEW_PORT}`,
+  nextjs: () => `npm run build && npm start -- -l ${PREVIEW_PORT}`,
+  angular: (context) =>
+    `npm run build && npx serve@latest -s ${getStaticDistDir(context)} -l ${PREVIEW_PORT}`,
+};
+
+export function hasEndToEndTests(context: any): boolean {
+  return Boolean(context.testing && PREVIEW_COMMANDS[context.framework]);
+}
+
+export class EndToEndTestGenerator {
+  generateFiles(context: any): GeneratedFile[] {
+    if (!hasEndToEndTests(context)) {
+      return [];
+    }
+
+    return [
+      {
+        path: "playwright.config.ts",
+        content: this.generateConfig(
+          PREVIEW_COMMANDS[context.framework](context),
+        ),
+        type: "ts",
+      },
+      {
+        path: "e2e/routes.spec.ts",
+        content: this.generateRoutesSpec(context),
+        type: "ts",
+      },
+      {
+        path: "e2e/pwa.spec.ts",
+        content: this.generatePwaSpec(context),
+        type: "ts",
+      },
+    ];
+  }
+
+  private generateConfig(previewCommand: string): string {
+    return `import { defineConfig, devices } from '@playwright/test'
+
+const PORT = ${PREVIEW_PORT}
+
+export default defineConfig({
+  testDir: './e2e',
+  fullyParallel: true,
+  forbidOnly: !!process.env.CI,
+  retries: process.env.CI ? 2 : 0,
+  reporter: process.env.CI ? 'github' : 'list',
+  use: {
+    baseURL: \`http://localhost:\${PORT}\`,
+    trace: 'on-first-retry'
+  },
+  projects: [
+    {
+      name: 'chromium',
+      use: { ...devices['Desktop Chrome'] }
+    }
+  ],
+  // The service worker only caches in a stamped production build
+  webServer: {
+    command: ${JSON.stringify(previewCommand)},
+    url: \`http://localhost:\${PORT}\`,
+    reuseExistingServer: !process.env.CI,
+    timeout: 180_000
+  }
+})
+`;
+  }
+
+  private generateRoutesSpec(context: any): string {
+    const routes = context.pages.map((page: string) =>
+      this.getRoute(page, context.framework),
+    );
+
+    return `import { expect, test } from '@playwright/test'
+
+const routes = ${JSON.stringify(routes, null, 2)}
+
+for (const route of routes) {
+  test(\`\${route} renders without console errors\`, async ({ page, baseURL }) => {
+    const errors: string[] = []
+    page.on('console', (message) => {
+      // A third-party outage, such as a font CDN, is not an error in the site
+      const { url } = message.location()
+      if (message.type() === 'error' && (!url || url.startsWith(baseURL!))) {
+        errors.push(message.text())
+      }
+    })
+    page.on('pageerror', (error) => errors.push(error.message))
+
+    const response = await page.goto(route)
+    await page.waitForLoadState('networkidle')
+
+    expect(response?.ok()).toBe(true)
+    await expect(page.getByRole('heading').first()).toBeVisible()
+    expect(errors).toEqual([])
+  })
+}
+`;
+  }
+
+  private generatePwaSpec(context: any): string {
+    // React, Vue and Angular boot any route from the cached app shell; the
+    // other targets serve public/offline.html for pages never cached
+    const spaFallback = ["react", "vue", "angular"].includes(context.framework);
+    const uncachedRoute = spaFallback
+      ? this.getRoute(
+          context.pages.find((page: string) => page !== "home") ?? "home",
+          context.framework,
+        )
+      : this.getRoute("never-visited", context.framework);
+    const offlineTest = spaFallback
+      ? `test('boots the app shell when the network is blocked', async ({ page, context }) => {
+  await page.goto('/')
+  await waitForServiceWorker(page)
+  await context.setOffline(true)
+
+  await page.goto('${uncachedRoute}')
+
+  await expect(page.getByRole('navigation')).toBeVisible()
+  await expect(page.getByRole('heading').first()).toBeVisible()
+})`
+      : `test('serves the offline page when the network is blocked', async ({ page, context }) => {
+  await page.goto('/')
+  await waitForServiceWorker(page)
+  await context.setOffline(true)
+
+  await page.goto('${uncachedRoute}')
+
+  await expect(page.getByRole('heading', { name: "You're offline" })).toBeVisible()
+})`;
+
+    return `import { expect, test, type Page } from '@playwright/test'
+
+// Resolves once the worker is active and, through clients.claim(), in
+// control of the page, so requests from here on go through it
+const waitForServiceWorker = (page: Page) =>
+  page.waitForFunction(async () => {
+    await navigator.serviceWorker.ready
+    return navigator.serviceWorker.controller !== null
+  })
+
+test('links a web app manifest', async ({ page, request }) => {
+  await page.goto('/')
+  const href = await page.locator('link[rel="manifest"]').getAttribute('href')
+  expect(href).toBeTruthy()
+
+  const response = await request.get(href!)
+  expect(response.ok()).toBe(true)
+  const manifest = await response.json()
+  expect(manifest.name).toBeTruthy()
+  expect(manifest.start_url).toBeTruthy()
+  expect(manifest.icons.length).toBeGreaterThan(0)
+})
+
+test('registers the service worker', async ({ page }) => {
+  await page.goto('/')
+
+  const scope = await page.evaluate(async () => (await navigator.serviceWorker.ready).scope)
+
+  expect(new URL(scope).pathname).toBe('/')
+})
+
+${offlineTest}
+`;
+  }
+
+  // Next.js exports every page as a directory, so its routes end in a slash
+  private getRoute(page: string, framework: string): string {
+    if (page === "home") {
+      return "/";
+    }
+    return framework === "nextjs" ? `/${page}/` : `/${page}`;
+  }
+}
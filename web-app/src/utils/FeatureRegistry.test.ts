@@ -0,0 +1,112 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { FeatureRegistry, featureRegistry } from "./FeatureRegistry";
+import { isTextFile, type TextFile } from "./GeneratedFile";
+import { WebDirectProjectGenerator } from "./WebDirectProjectGenerator";
+
+const WINE_LIST = {
+  id: "wine-list",
+  name: "Wine list",
+  pages: [{ id: "wine-list" }],
+};
+
+const generate = async (framework: string, path: string): Promise<string> => {
+  const files = await new WebDirectProjectGenerator().generateProject({
+    projectName: "Trattoria",
+    businessName: "Trattoria",
+    framework,
+    industry: "restaurant",
+    targetAudience: "Locals",
+    primaryGoal: "Bookings",
+    features: ["wine-list"],
+    selectedFeatures: ["wine-list"],
+    businessData: {
+      name: "Trattoria",
+      targetAudience: "Locals",
+      primaryGoal: "Bookings",
+      description: "Neighbourhood restaurant",
+    },
+  });
+  return (files.find((file) => file.path === path) as TextFile).content;
+};
+
+describe("FeatureRegistry", () => {
+  it("labels a hyphenated page id in words", () => {
+    const registry = new FeatureRegistry([WINE_LIST]);
+
+    expect(registry.resolve(["wine-list"]).navigation).toContainEqual({
+      page: "wine-list",
+      label: "Wine list",
+    });
+  });
+
+  it("rejects page ids that cannot name a route and a component", () => {
+    const registry = new FeatureRegistry();
+
+    expect(() =>
+      registry.register({ ...WINE_LIST, pages: [{ id: "Wine List" }] }),
+    ).toThrow('Page id "Wine List" must be lowercase words joined by hyphens');
+  });
+
+  describe("with a hyphenated page registered", () => {
+    beforeAll(() => featureRegistry.register(WINE_LIST));
+    afterAll(() => featureRegistry.unregister(WINE_LIST.id));
+
+    it("names the React page component in PascalCase", async () => {
+      const app = await generate("react", "src/App.tsx");
+
+      expect(app).toContain("import WineList from './pages/WineList';");
+      expect(app).toContain(
+        '<Route path="/wine-list" element={<WineList />} />',
+      );
+    });
+
+    it("names the Angular class in PascalCase and titles the route with its label", async () => {
+      const routes = await generate("angular", "src/app/app.routes.ts");
+
+      expect(routes).toContain("m.WineListComponent");
+      expect(routes).toContain('title: "Wine list | Trattoria"');
+    });
+  });
+});
+
+describe("feature packages", () => {
+  const features = featureRegistry.list().map(({ id }) => id);
+
+  it.each(["react", "vue", "svelte", "angular", "nextjs"])(
+    "are imported by the %s code they are declared for",
+    async (framework) => {
+      const files = await new WebDirectProjectGenerator().generateProject({
+        projectName: "Trattoria",
+        businessName: "Trattoria",
+        framework,
+        industry: "restaurant",
+        targetAudience: "Locals",
+        primaryGoal: "Bookings",
+        features,
+        selectedFeatures: features,
+        businessData: {
+          name: "Trattoria",
+          targetAudience: "Locals",
+          primaryGoal: "Bookings",
+          description: "Neighbourhood restaurant",
+        },
+      });
+      const code = files
+        .filter(isTextFile)
+        .map((file) => file.content)
+        .join("\n");
+      const declared = featureRegistry
+        .list()
+        .flatMap(({ dependencies = {} }) => [
+          ...(dependencies["*"] ?? []),
+          ...(dependencies[framework as keyof typeof dependencies] ?? []),
+        ]);
+
+      const unused = declared.filter(
+        (name) =>
+          !code.includes(`from '${name}`) && !code.includes(`from "${name}`),
+      );
+      expect(unused).toEqual([]);
+    },
+  );
+});
@@ -0,0 +1,395 @@
+/**
+ * Feature Registry
+ * Describes every selectable feature as a FeatureModule: the pages and
+ * routes it adds, its navigation entries, components, styles, npm packages
+ * and the files a project using it must contain. Package versions live in
+ * the shared DependencyCatalog. The project generators
+ * resolve the selected features through the registry, and the validators
+ * check generated projects against the same declarations.
+ *
+ * Built-in features are rendered by the framework generators. In-house
+ * modules register themselves with `featureRegistry.register()` and supply
+ * their own renderers; frameworks a module does not render for fall back to
+ * the generator's generic page.
+ */
+
+import { BlogGenerator } from "./BlogGenerator";
+import { BookingGenerator } from "./BookingGenerator";
+import { ChatGenerator } from "./ChatGenerator";
+import type { GeneratedFile } from "./GeneratedFile";
+import { getDefaultPageLabel, isValidPageId } from "./PageName";
+import { SearchIndexGenerator } from "./SearchIndexGenerator";
+import { StoreGenerator } from "./StoreGenerator";
+
+export type FrameworkId = "react" | "vue" | "svelte" | "angular" | "nextjs";
+
+export type FeatureRenderer = (context: any) => string;
+
+// Package names by framework; "*" lists packages every framework needs
+export type FeaturePackages = Partial<Record<FrameworkId | "*", string[]>>;
+
+export interface FeaturePage {
+  // Route segment served at `/${id}` ("home" is "/"): lowercase words
+  // joined by hyphens, e.g. "wine-list", named WineList in code
+  id: string;
+  label?: string;
+  // Pages such as login stay routable without a navigation link
+  showInNav?: boolean;
+  // Angular renderers return a standalone `${Name}Component` with an inline
+  // template, Name from getPageComponentName; Next.js falls back to the
+  // React renderer
+  render?: Partial<Record<FrameworkId, FeatureRenderer>>;
+  // Page stylesheet, written next to the page; renderers import it
+  styles?: string;
+}
+
+export interface FeatureComponent {
+  name: string;
+  render?: Partial<Record<FrameworkId, FeatureRenderer>>;
+  styles?: string;
+}
+
+export interface FeatureModule {
+  id: string;
+  name: string;
+  description?: string;
+  pages?: FeaturePage[];
+  components?: FeatureComponent[];
+  // npm packages the generated code relies on, versioned by the catalog
+  dependencies?: FeaturePackages;
+  devDependencies?: FeaturePackages;
+  // Paths every project using this feature must contain
+  requiredFiles?: string[];
+  // Extra files such as seed data, emitted for every framework
+  files?: (context: any) => GeneratedFile[];
+  // Selecting any of these features makes this module contribute nothing
+  supersededBy?: string[];
+}
+
+export interface NavigationEntry {
+  page: string;
+  label: string;
+}
+
+export interface ResolvedFeatures {
+  modules: FeatureModule[];
+  pages: string[];
+  components: string[];
+  navigation: NavigationEntry[];
+  requiredFiles: string[];
+}
+
+const GALLERY_PLACEHOLDER_TITLES = [
+  "Project 1",
+  "Project 2",
+  "Team Photo",
+  "Office Space",
+  "Event 1",
+  "Event 2",
+  "Project 3",
+  "Workshop",
+];
+
+// The sample gallery shows these until the site owner adds real photos
+function generateGalleryPlaceholders(context: any): GeneratedFile[] {
+  const color = context.designTokens?.primaryColor ?? "#3b82f6";
+  return GALLERY_PLACEHOLDER_TITLES.map((title, index) => ({
+    path: `public/images/gallery/image${index + 1}.svg`,
+    content: `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="600" viewBox="0 0 800 600">
+  <rect width="800" height="600" fill="${color}" opacity="${0.55 + (index % 4) * 0.15}"/>
+  <text x="400" y="300" fill="#ffffff" font-family="system-ui, sans-serif" font-size="48" text-anchor="middle" dominant-baseline="middle">${title}</text>
+</svg>
+`,
+    type: "svg",
+  }));
+}
+
+// PaymentForm's Stripe packages: Stripe.js in the browser and the Node
+// library server/payments.mjs creates PaymentIntents with
+const PAYMENT_PACKAGES: FeaturePackages = {
+  "*": ["@stripe/stripe-js", "stripe"],
+  react: ["@stripe/react-stripe-js"],
+};
+
+// Always part of a project, whatever the selection
+const CORE_FEATURE: FeatureModule = {
+  id: "core",
+  name: "Core Pages",
+  pages: [{ id: "home" }, { id: "about" }, { id: "services" }],
+  components: [
+    { name: "Navigation" },
+    { name: "LoadingSpinner" },
+    { name: "ErrorFallback" },
+  ],
+};
+
+const BUILT_IN_FEATURES: FeatureModule[] = [
+  {
+    id: "contact-form",
+    name: "Contact Forms",
+    pages: [{ id: "contact" }],
+    components: [{ name: "ContactForm" }],
+  },
+  {
+    id: "gallery",
+    name: "Image Gallery",
+    pages: [{ id: "gallery" }],
+    components: [{ name: "Gallery" }],
+    files: generateGalleryPlaceholders,
+  },
+  {
+    id: "testimonials",
+    name: "Testimonials",
+    pages: [{ id: "testimonials" }],
+    components: [{ name: "TestimonialCard" }],
+  },
+  {
+    id: "blog",
+    name: "Blog",
+    pages: [{ id: "blog" }],
+    // Posts are compiled while building, so the parsers never ship
+    devDependencies: { "*": ["gray-matter", "marked"] },
+    requiredFiles: ["scripts/blog.mjs"],
+    files: (context) => new BlogGenerator().generateFiles(context),
+  },
+  {
+    id: "ecommerce",
+    name: "Online Store",
+    // Products are served at /shop/:slug; checkout is reached from the cart
+    pages: [
+      { id: "shop" },
+      { id: "cart" },
+      { id: "checkout", showInNav: false },
+    ],
+    // Checkout takes payment with the payments feature's form
+    components: [{ name: "PaymentForm" }, { name: "PaymentStatus" }],
+    dependencies: PAYMENT_PACKAGES,
+    requiredFiles: ["src/content/products.json", "server/payments.mjs"],
+    files: (context) => new StoreGenerator().generateFiles(context),
+  },
+  {
+    id: "auth",
+    name: "User Authentication",
+    pages: [{ id: "login" }, { id: "register" }, { id: "profile" }],
+    components: [{ name: "AuthForm" }],
+  },
+  {
+    id: "reviews",
+    name: "Reviews & Ratings",
+    pages: [{ id: "reviews" }],
+    components: [{ name: "ReviewCard" }],
+  },
+  {
+    id: "chat",
+    name: "Live Chat",
+    pages: [{ id: "chat" }],
+    components: [
+      { name: "LiveChat" },
+      { name: "ChatMessage" },
+      { name: "ChatWidget" },
+    ],
+    dependencies: { "*": ["ws"] },
+    requiredFiles: ["server/chat.mjs"],
+    files: (context) => new ChatGenerator().generateFiles(context),
+  },
+  {
+    id: "profile",
+    name: "User Profiles",
+    pages: [{ id: "profile" }],
+    components: [{ name: "ProfileForm" }],
+    // Authentication already ships a profile page
+    supersededBy: ["auth"],
+  },
+  {
+    id: "search",
+    name: "Search",
+    pages: [{ id: "search" }],
+    components: [{ name: "SearchBox" }, { name: "SearchResults" }],
+    // The index is built with the site and matched in the browser
+    dependencies: { "*": ["fuse.js"] },
+    requiredFiles: ["scripts/search-index.mjs"],
+    files: (context) => new SearchIndexGenerator().generateFiles(context),
+  },
+  {
+    id: "payments",
+    name: "Payment Processing",
+    pages: [{ id: "payments" }],
+    components: [{ name: "PaymentForm" }, { name: "PaymentStatus" }],
+    dependencies: PAYMENT_PACKAGES,
+    requiredFiles: ["server/payments.mjs", ".env.example"],
+  },
+  {
+    id: "booking",
+    name: "Booking System",
+    pages: [{ id: "booking" }],
+    components: [{ name: "BookingForm" }, { name: "BookingCalendar" }],
+    dependencies: { "*": ["date-fns"] },
+    requiredFiles: ["src/content/availability.json"],
+    files: (context) => new BookingGenerator().generateFiles(context),
+  },
+  {
+    id: "analytics",
+    name: "Analytics Dashboard",
+    pages: [{ id: "analytics" }],
+    components: [{ name: "AnalyticsChart" }, { name: "AnalyticsMetrics" }],
+  },
+  {
+    id: "geolocation",
+    name: "Location Services",
+    pages: [{ id: "locations" }],
+    components: [{ name: "LocationMap" }, { name: "LocationPicker" }],
+  },
+  {
+    id: "notifications",
+    name: "Push Notifications",
+    components: [{ name: "NotificationBanner" }, { name: "NotificationList" }],
+  },
+  {
+    id: "social",
+    name: "Social Integration",
+    components: [{ name: "SocialShare" }, { name: "SocialLogin" }],
+  },
+];
+
+export class FeatureRegistry {
+  private readonly modules = new Map<string, FeatureModule>();
+
+  constructor(modules: FeatureModule[] = []) {
+    modules.forEach((module) => this.register(module));
+  }
+
+  /**
+   * Adds a feature, or replaces the registered module with the same id.
+   * Modules resolve in registration order, which is also page order.
+   */
+  register(module: FeatureModule): void {
+    if (module.id === CORE_FEATURE.id) {
+      throw new Error(`Feature id "${module.id}" is reserved`);
+    }
+    const invalidPage = module.pages?.find((page) => !isValidPageId(page.id));
+    if (invalidPage) {
+      throw new Error(
+        `Page id "${invalidPage.id}" must be lowercase words joined by hyphens`,
+      );
+    }
+    this.modules.set(module.id, module);
+  }
+
+  unregister(id: string): boolean {
+    return this.modules.delete(id);
+  }
+
+  get(id: string): FeatureModule | undefined {
+    return this.modules.get(id);
+  }
+
+  list(): FeatureModule[] {
+    return Array.from(this.modules.values());
+  }
+
+  resolve(selectedFeatures: string[]): ResolvedFeatures {
+    const modules = [
+      CORE_FEATURE,
+      ...this.list().filter(
+        (module) =>
+          selectedFeatures.includes(module.id) &&
+          !module.supersededBy?.some((id) => selectedFeatures.includes(id)),
+      ),
+    ];
+
+    const pages = new Map<string, FeaturePage>();
+    const components = new Set<string>();
+    const requiredFiles = new Set<string>();
+
+    for (const module of modules) {
+      module.pages?.forEach((page) => {
+        if (!pages.has(page.id)) pages.set(page.id, page);
+      });
+      module.components?.forEach((component) => components.add(component.name));
+      module.requiredFiles?.forEach((path) => requiredFiles.add(path));
+    }
+
+    return {
+      modules,
+      pages: Array.from(pages.keys()),
+      components: Array.from(components),
+      navigation: Array.from(pages.values())
+        .filter((page) => page.showInNav !== false)
+        .map((page) => ({
+          page: page.id,
+          label: page.label || getDefaultPageLabel(page.id),
+        })),
+      requiredFiles: Array.from(requiredFiles),
+    };
+  }
+
+  /**
+   * Source for a page contributed by a registered module, or null when no
+   * module renders it for this framework.
+   */
+  renderPage(
+    pageId: string,
+    framework: FrameworkId,
+    context: any,
+  ): string | null {
+    const render = this.pickRenderer(this.findPage(pageId)?.render, framework);
+    return render ? render(context) : null;
+  }
+
+  renderComponent(
+    name: string,
+    framework: FrameworkId,
+    context: any,
+  ): string | null {
+    const render = this.pickRenderer(
+      this.findComponent(name)?.render,
+      framework,
+    );
+    return render ? render(context) : null;
+  }
+
+  getPageStyles(pageId: string): string | null {
+    return this.findPage(pageId)?.styles ?? null;
+  }
+
+  getComponentStyles(name: string): string | null {
+    return this.findComponent(name)?.styles ?? null;
+  }
+
+  generateFiles(selectedFeatures: string[], context: any): GeneratedFile[] {
+    return this.resolve(selectedFeatures).modules.flatMap(
+      (module) => module.files?.(context) ?? [],
+    );
+  }
+
+  // Next.js views are React components, so React renderers serve both
+  private pickRenderer(
+    render: FeaturePage["render"],
+    framework: FrameworkId,
+  ): FeatureRenderer | undefined {
+    return (
+      render?.[framework] ??
+      (framework === "nextjs" ? render?.react : undefined)
+    );
+  }
+
+  private findPage(pageId: string): FeaturePage | undefined {
+    for (const module of this.modules.values()) {
+      const page = module.pages?.find((candidate) => candidate.id === pageId);
+      if (page) return page;
+    }
+    return undefined;
+  }
+
+  private findComponent(name: string): FeatureComponent | undefined {
+    for (const module of this.modules.values()) {
+      const component = module.components?.find(
+        (candidate) => candidate.name === name,
+      );
+      if (component) return component;
+    }
+    return undefined;
+  }
+}
+
+export const featureRegistry = new FeatureRegistry(BUILT_IN_FEATURES);
@@ -0,0 +1,56 @@
+/**
+ * Generated File Model
+ * The file record shared by the project generators, validators, auto-fix
+ * engines and the ZIP writer. Text files carry their source as a string;
+ * binary assets such as icons and fonts carry bytes, either raw or base64
+ * encoded, and are never scanned or rewritten by the validators.
+ */
+
+interface GeneratedFileBase {
+  path: string;
+  type: string;
+  // Unix permission bits, e.g. 0o600 for files that must stay private
+  mode?: number;
+  executable?: boolean;
+}
+
+export interface TextFile extends GeneratedFileBase {
+  // Omitted on the many text files that predate binary support
+  encoding?: "utf8";
+  content: string;
+}
+
+export interface Base64File extends GeneratedFileBase {
+  encoding: "base64";
+  content: string;
+}
+
+export interface BytesFile extends GeneratedFileBase {
+  encoding: "bytes";
+  content: Uint8Array;
+}
+
+export type BinaryFile = Base64File | BytesFile;
+export type GeneratedFile = TextFile | BinaryFile;
+
+const DEFAULT_FILE_MODE = 0o644;
+const EXECUTABLE_FILE_MODE = 0o755;
+
+export function isTextFile(file: GeneratedFile): file is TextFile {
+  return file.encoding === undefined || file.encoding === "utf8";
+}
+
+export function isBinaryFile(file: GeneratedFile): file is BinaryFile {
+  return !isTextFile(file);
+}
+
+/**
+ * Resolves the permission bits written to the archive. An explicit mode
+ * wins; the executable bit is then added for the owner, group and others.
+ */
+export function getFileMode(file: GeneratedFile): number {
+  if (file.mode !== undefined) {
+    return file.executable ? file.mode | 0o111 : file.mode;
+  }
+  return file.executable ? EXECUTABLE_FILE_MODE : DEFAULT_FILE_MODE;
+}
@@ -0,0 +1,16 @@
+import { describe, expect, it } from "vitest";
+import { getIconLinks, IconGenerator } from "./IconGenerator";
+
+describe("getIconLinks", () => {
+  it("links only the SVG icon when there is no canvas to render the rest", async () => {
+    const icons = await new IconGenerator().generateIcons({
+      businessName: "Joe's Pizza",
+      primaryColor: "#b91c1c",
+    });
+
+    expect(icons.files.map((file) => file.path)).toEqual(["public/icon.svg"]);
+    expect(getIconLinks(icons, "%sveltekit.assets%")).toBe(
+      '<link rel="icon" type="image/svg+xml" href="%sveltekit.assets%/icon.svg" />',
+    );
+  });
+});
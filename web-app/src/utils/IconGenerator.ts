@@ -0,0 +1,391 @@
+/**
+ * Icon Generator
+ * Renders the PWA icon set in the browser with OffscreenCanvas (or a DOM
+ * canvas on the main thread) from the uploaded logo, or from a monogram of
+ * the business initials on the primary color. Produces every manifest size,
+ * maskable variants that keep their content inside the safe zone, an
+ * apple-touch-icon and a multi-resolution favicon.ico, all returned as
+ * binary files.
+ */
+
+import type { BytesFile, GeneratedFile } from "./GeneratedFile";
+
+export interface IconSource {
+  businessName: string;
+  primaryColor: string;
+  logo?: string | null;
+}
+
+export interface ManifestIcon {
+  src: string;
+  sizes: string;
+  type: string;
+  purpose: "any" | "maskable";
+}
+
+export interface GeneratedIcons {
+  files: GeneratedFile[];
+  manifestIcons: ManifestIcon[];
+}
+
+export interface HeadIcon {
+  rel: "icon" | "apple-touch-icon";
+  href: string;
+  type: string;
+}
+
+type IconCanvas = OffscreenCanvas | HTMLCanvasElement;
+type IconContext = OffscreenCanvasRenderingContext2D | CanvasRenderingContext2D;
+type LogoImage = ImageBitmap | HTMLImageElement;
+
+interface RenderOptions {
+  // Fill the whole square, as maskable and apple-touch icons require
+  fullBleed: boolean;
+  // Fraction of the icon the logo or monogram may occupy
+  contentScale: number;
+}
+
+export const ICON_SIZES = [72, 96, 128, 144, 152, 192, 384, 512];
+export const MASKABLE_ICON_SIZES = [192, 512];
+const APPLE_TOUCH_ICON_SIZE = 180;
+const FAVICON_SIZES = [16, 32, 48];
+const SVG_ICON_PATH = "/icon.svg";
+const APPLE_TOUCH_ICON_PATH = "/apple-touch-icon.png";
+const FAVICON_PATH = "/favicon.ico";
+
+// The maskable safe zone is a centred circle with a radius of 40% of the
+// icon; the largest square inside it spans 0.8 / sqrt(2) of the edge
+const MASKABLE_CONTENT_SCALE = 0.8 / Math.SQRT2;
+const ANY_CONTENT_SCALE = 0.8;
+
+/**
+ * The icons the page head links, each only if it was rendered: the
+ * favicon.ico, or the SVG icon when there was no canvas, and the
+ * apple-touch-icon.
+ */
+export function getHeadIcons(icons: GeneratedIcons): HeadIcon[] {
+  const isRendered = (path: string) =>
+    icons.files.some((file) => file.path === `public${path}`);
+  const headIcons: HeadIcon[] = [
+    isRendered(FAVICON_PATH)
+      ? { rel: "icon", href: FAVICON_PATH, type: "image/x-icon" }
+      : { rel: "icon", href: SVG_ICON_PATH, type: "image/svg+xml" },
+  ];
+  if (isRendered(APPLE_TOUCH_ICON_PATH)) {
+    headIcons.push({
+      rel: "apple-touch-icon",
+      href: APPLE_TOUCH_ICON_PATH,
+      type: "image/png",
+    });
+  }
+  return headIcons;
+}
+
+// The head's icon <link> tags; assetsBase prefixes each href, e.g. with
+// SvelteKit's %sveltekit.assets%
+export function getIconLinks(icons: GeneratedIcons, assetsBase = ""): string {
+  return getHeadIcons(icons)
+    .map(({ rel, href, type }) =>
+      rel === "icon"
+        ? `<link rel="icon" type="${type}" href="${assetsBase}${href}" />`
+        : `<link rel="apple-touch-icon" href="${assetsBase}${href}" />`,
+    )
+    .join("\n    ");
+}
+
+export class IconGenerator {
+  async generateIcons(source: IconSource): Promise<GeneratedIcons> {
+    // The SVG icon needs no canvas, so every project gets at least one icon
+    const files: GeneratedFile[] = [
+      {
+        path: `public${SVG_ICON_PATH}`,
+        content: this.generateSvgIcon(source),
+        type: "image",
+      },
+    ];
+    const manifestIcons: ManifestIcon[] = [
+      {
+        src: SVG_ICON_PATH,
+        sizes: "any",
+        type: "image/svg+xml",
+        purpose: "any",
+      },
+    ];
+
+    if (!this.isCanvasSupported()) {
+      console.warn("⚠️ Canvas unavailable, only the SVG icon was generated");
+      return { files, manifestIcons };
+    }
+
+    const logo = source.logo ? await this.loadLogo(source.logo) : null;
+    const anyOptions = { fullBleed: false, contentScale: ANY_CONTENT_SCALE };
+    const maskableOptions = {
+      fullBleed: true,
+      contentScale: MASKABLE_CONTENT_SCALE,
+    };
+
+    for (const size of ICON_SIZES) {
+      const path = `/icon-${size}x${size}.png`;
+      files.push(
+        this.toImageFile(
+          path,
+          await this.renderPng(size, source, logo, anyOptions),
+        ),
+      );
+      manifestIcons.push(this.toManifestIcon(path, size, "any"));
+    }
+
+    for (const size of MASKABLE_ICON_SIZES) {
+      const path = `/icon-maskable-${size}x${size}.png`;
+      files.push(
+        this.toImageFile(
+          path,
+          await this.renderPng(size, source, logo, maskableOptions),
+        ),
+      );
+      manifestIcons.push(this.toManifestIcon(path, size, "maskable"));
+    }
+
+    // iOS ignores transparency and applies its own corner mask
+    files.push(
+      this.toImageFile(
+        APPLE_TOUCH_ICON_PATH,
+        await this.renderPng(APPLE_TOUCH_ICON_SIZE, source, logo, {
+          fullBleed: true,
+          contentScale: ANY_CONTENT_SCALE,
+        }),
+      ),
+    );
+
+    const faviconImages = await Promise.all(
+      FAVICON_SIZES.map(async (size) => ({
+        size,
+        png: await this.renderPng(size, source, logo, {
+          fullBleed: false,
+          contentScale: 0.9,
+        }),
+      })),
+    );
+    files.push(this.toImageFile(FAVICON_PATH, this.encodeIco(faviconImages)));
+
+    return { files, manifestIcons };
+  }
+
+  private isCanvasSupported(): boolean {
+    return (
+      typeof OffscreenCanvas !== "undefined" || typeof document !== "undefined"
+    );
+  }
+
+  private createCanvas(size: number): IconCanvas {
+    if (typeof OffscreenCanvas !== "undefined") {
+      return new OffscreenCanvas(size, size);
+    }
+    const canvas = document.createElement("canvas");
+    canvas.width = size;
+    canvas.height = size;
+    return canvas;
+  }
+
+  private async loadLogo(dataUrl: string): Promise<LogoImage> {
+    // HTMLImageElement also decodes SVG logos, which createImageBitmap rejects
+    if (typeof Image !== "undefined") {
+      const image = new Image();
+      image.src = dataUrl;
+      await image.decode();
+      return image;
+    }
+    const blob = await (await fetch(dataUrl)).blob();
+    return createImageBitmap(blob);
+  }
+
+  private async renderPng(
+    size: number,
+    source: IconSource,
+    logo: LogoImage | null,
+    options: RenderOptions,
+  ): Promise<Uint8Array> {
+    const canvas = this.createCanvas(size);
+    const ctx = canvas.getContext("2d") as IconContext | null;
+    if (!ctx) {
+      throw new Error("Failed to acquire a 2D canvas context");
+    }
+
+    // Logos keep their own colors on white; monograms sit on the brand color
+    const background = logo ? "#ffffff" : source.primaryColor;
+    ctx.fillStyle = background;
+    if (options.fullBleed) {
+      ctx.fillRect(0, 0, size, size);
+    } else {
+      this.fillRoundedSquare(ctx, size, size * 0.2);
+    }
+
+    const contentSize = size * options.contentScale;
+    if (logo) {
+      this.drawLogo(ctx, logo, size, contentSize);
+    } else {
+      this.drawMonogram(ctx, source, size, contentSize);
+    }
+
+    const blob =
+      "toBlob" in canvas
+        ? await new Promise<Blob>((resolve, reject) =>
+            canvas.toBlob(
+              (result) =>
+                result
+                  ? resolve(result)
+                  : reject(new Error("Canvas PNG encoding failed")),
+              "image/png",
+            ),
+          )
+        : await canvas.convertToBlob({ type: "image/png" });
+
+    return new Uint8Array(await blob.arrayBuffer());
+  }
+
+  private fillRoundedSquare(ctx: IconContext, size: number, radius: number) {
+    ctx.beginPath();
+    ctx.moveTo(radius, 0);
+    ctx.arcTo(size, 0, size, size, radius);
+    ctx.arcTo(size, size, 0, size, radius);
+    ctx.arcTo(0, size, 0, 0, radius);
+    ctx.arcTo(0, 0, size, 0, radius);
+    ctx.closePath();
+    ctx.fill();
+  }
+
+  private drawLogo(
+    ctx: IconContext,
+    logo: LogoImage,
+    size: number,
+    contentSize: number,
+  ) {
+    const scale = Math.min(contentSize / logo.width, contentSize / logo.height);
+    const width = logo.width * scale;
+    const height = logo.height * scale;
+    ctx.imageSmoothingQuality = "high";
+    ctx.drawImage(logo, (size - width) / 2, (size - height) / 2, width, height);
+  }
+
+  private drawMonogram(
+    ctx: IconContext,
+    source: IconSource,
+    size: number,
+    contentSize: number,
+  ) {
+    const initials = this.getInitials(source.businessName);
+    // Two letters need a smaller glyph to stay inside the content box
+    const fontSize = contentSize * (initials.length > 1 ? 0.62 : 0.8);
+
+    ctx.fillStyle = this.getContrastColor(source.primaryColor);
+    ctx.font = `700 ${fontSize}px -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif`;
+    ctx.textAlign = "center";
+    ctx.textBaseline = "middle";
+    ctx.fillText(initials, size / 2, size / 2 + fontSize * 0.04, contentSize);
+  }
+
+  private generateSvgIcon(source: IconSource): string {
+    if (source.logo) {
+      return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 512 512">
+  <rect width="512" height="512" rx="102" fill="#ffffff"/>
+  <image href="${source.logo}" x="51" y="51" width="410" height="410" preserveAspectRatio="xMidYMid meet"/>
+</svg>
+`;
+    }
+
+    const initials = this.getInitials(source.businessName);
+    const fontSize = Math.round(410 * (initials.length > 1 ? 0.62 : 0.8));
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 512 512">
+  <rect width="512" height="512" rx="102" fill="${source.primaryColor}"/>
+  <text x="256" y="256" dy="0.35em" text-anchor="middle" font-family="-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Arial, sans-serif" font-size="${fontSize}" font-weight="700" fill="${this.getContrastColor(source.primaryColor)}">${this.escapeXml(initials)}</text>
+</svg>
+`;
+  }
+
+  private escapeXml(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;");
+  }
+
+  private getInitials(businessName: string): string {
+    const words = businessName
+      .replace(/[^\p{L}\p{N}\s]/gu, " ")
+      .split(/\s+/)
+      .filter(Boolean);
+    if (words.length === 0) {
+      return "A";
+    }
+    return words
+      .slice(0, 2)
+      .map((word) => Array.from(word)[0])
+      .join("")
+      .toUpperCase();
+  }
+
+  // White or near-black text, whichever reads better on the background
+  private getContrastColor(hex: string): string {
+    const [r, g, b] = [1, 3, 5].map((start) => {
+      const channel = parseInt(hex.slice(start, start + 2), 16) / 255;
+      return channel <= 0.03928
+        ? channel / 12.92
+        : Math.pow((channel + 0.055) / 1.055, 2.4);
+    });
+    const luminance = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+    return luminance > 0.4 ? "#1a202c" : "#ffffff";
+  }
+
+  /**
+   * Packs PNG images into an ICO container. PNG payloads have been valid
+   * ICO entries since Windows Vista and are what every browser expects.
+   */
+  private encodeIco(images: Array<{ size: number; png: Uint8Array }>) {
+    const headerSize = 6;
+    const entrySize = 16;
+    const totalSize = images.reduce(
+      (total, image) => total + entrySize + image.png.length,
+      headerSize,
+    );
+    const bytes = new Uint8Array(totalSize);
+    const view = new DataView(bytes.buffer);
+
+    view.setUint16(0, 0, true); // reserved
+    view.setUint16(2, 1, true); // type: icon
+    view.setUint16(4, images.length, true);
+
+    let offset = headerSize + entrySize * images.length;
+    images.forEach((image, index) => {
+      const entry = headerSize + entrySize * index;
+      view.setUint8(entry, image.size >= 256 ? 0 : image.size); // width
+      view.setUint8(entry + 1, image.size >= 256 ? 0 : image.size); // height
+      view.setUint8(entry + 2, 0); // palette size
+      view.setUint8(entry + 3, 0); // reserved
+      view.setUint16(entry + 4, 1, true); // color planes
+      view.setUint16(entry + 6, 32, true); // bits per pixel
+      view.setUint32(entry + 8, image.png.length, true);
+      view.setUint32(entry + 12, offset, true);
+      bytes.set(image.png, offset);
+      offset += image.png.length;
+    });
+
+    return bytes;
+  }
+
+  private toImageFile(publicPath: string, bytes: Uint8Array): BytesFile {
+    return {
+      path: `public${publicPath}`,
+      content: bytes,
+      encoding: "bytes",
+      type: "image",
+    };
+  }
+
+  private toManifestIcon(
+    src: string,
+    size: number,
+    purpose: ManifestIcon["purpose"],
+  ): ManifestIcon {
+    return { src, sizes: `${size}x${size}`, type: "image/png", purpose };
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { JavaScriptProjectConverter } from "./JavaScriptProjectConverter";
+import type { TextFile } from "./GeneratedFile";
+
+const convertVue = (script: string): string => {
+  const [file] = new JavaScriptProjectConverter().convert(
+    [
+      {
+        path: "src/components/Example.vue",
+        content: `<script setup lang="ts">${script}</script>\n\n<template><p /></template>\n`,
+        type: "vue",
+      },
+    ],
+    "react",
+  );
+  return (file as TextFile).content;
+};
+
+describe("JavaScriptProjectConverter", () => {
+  it("keeps Boolean on lowered props so bare attributes cast to true", () => {
+    const content = convertVue(`
+import type { Message } from '@/lib/chat';
+
+const props = withDefaults(
+  defineProps<{ message: Message; own: boolean; pending?: boolean }>(),
+  { pending: false }
+);
+`);
+
+    expect(content).toContain("message: { type: null, required: true }");
+    expect(content).toContain("own: { type: Boolean, required: true }");
+    expect(content).toContain("pending: { type: Boolean, default: false }");
+    expect(content).not.toContain("import type");
+  });
+
+  it("derives runtime types from unions, arrays, literals and local types", () => {
+    const content = convertVue(`
+interface Point { lat: number; lng: number }
+type Metric = 'visitors' | 'pageViews';
+
+defineProps<{
+  label: string;
+  count?: number;
+  tags: string[];
+  metric: Metric;
+  location?: Point | null;
+  error?: Error | null;
+  value: string | number;
+  onPick?: (id: string) => void;
+}>();
+`);
+
+    expect(content).toContain("label: { type: String, required: true }");
+    expect(content).toContain("count: { type: Number }");
+    expect(content).toContain("tags: { type: Array, required: true }");
+    expect(content).toContain("metric: { type: String, required: true }");
+    expect(content).toContain("location: { type: [Object, null] }");
+    expect(content).toContain("error: { type: [Error, null] }");
+    expect(content).toContain(
+      "value: { type: [String, Number], required: true }",
+    );
+    expect(content).toContain("onPick: { type: Function }");
+  });
+
+  it("lowers type-only emits to event names", () => {
+    const content = convertVue(`
+const emit = defineEmits<{ (e: 'select', id: string): void; (e: 'close'): void }>();
+`);
+
+    expect(content).toContain("defineEmits(['select', 'close'])");
+  });
+
+  it("renames TypeScript modules and strips their types", () => {
+    const [file] = new JavaScriptProjectConverter().convert(
+      [
+        {
+          path: "src/lib/sum.ts",
+          content:
+            "export const sum = (a: number, b: number): number => a + b;\n",
+          type: "ts",
+        },
+      ],
+      "react",
+    );
+
+    expect(file.path).toBe("src/lib/sum.js");
+    expect((file as TextFile).content).toContain(
+      "export const sum = (a, b) => a + b;",
+    );
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * JavaScript Project Converter
+ * Turns a generated TypeScript project into plain JavaScript when the
+ * TypeScript toggle is off: .ts/.tsx/.mts sources become .js/.jsx/.mjs with
+ * types stripped, <script lang="ts"> blocks in .vue and .svelte files are
+ * lowered, tsconfig files make way for a jsconfig.json where the framework
+ * uses path aliases, and TypeScript tooling is dropped from package.json.
+ */
+
+import { transform } from "sucrase";
+import { isTextFile, type GeneratedFile, type TextFile } from "./GeneratedFile";
+
+const TYPESCRIPT_DEV_DEPENDENCIES = [
+  /^typescript$/,
+  /^@types\//,
+  /^@typescript-eslint\//,
+  /^vue-tsc$/,
+  /^@vue\/tsconfig$/,
+  /^tslib$/,
+];
+
+export class JavaScriptProjectConverter {
+  convert(files: GeneratedFile[], framework: string): GeneratedFile[] {
+    const converted: GeneratedFile[] = [];
+
+    for (const file of files) {
+      if (!isTextFile(file)) {
+        converted.push(file);
+        continue;
+      }
+      if (this.isTypeScriptOnlyFile(file.path)) {
+        continue;
+      }
+
+      if (/\.m?tsx?$/.test(file.path)) {
+        converted.push(this.convertModule(file));
+      } else if (/\.(vue|svelte)$/.test(file.path)) {
+        converted.push({ ...file, content: this.convertSfc(file.content) });
+      } else if (file.path === "package.json") {
+        converted.push({
+          ...file,
+          content: this.convertPackageJson(file.content),
+        });
+      } else if (file.path.endsWith(".html")) {
+        converted.push({
+          ...file,
+          content: file.content.replace(
+            /(\/src\/main)\.ts(x?)(["'])/g,
+            (_match, entry, jsx, quote) => `${entry}.js${jsx}${quote}`,
+          ),
+        });
+      } else {
+        converted.push(file);
+      }
+    }
+
+    const jsconfig = this.generateJsConfig(framework);
+    if (jsconfig) {
+      converted.push(jsconfig);
+    }
+
+    return converted;
+  }
+
+  private isTypeScriptOnlyFile(path: string): boolean {
+    const fileName = path.split("/").pop() || path;
+    return (
+      fileName.endsWith(".d.ts") || /^tsconfig(\.\w+)?\.json$/.test(fileName)
+    );
+  }
+
+  private convertModule(file: TextFile): TextFile {
+    const isJsx = file.path.endsWith(".tsx");
+    const { code } = transform(file.content, {
+      transforms: isJsx ? ["typescript", "jsx"] : ["typescript"],
+      jsxRuntime: "preserve",
+      disableESTransforms: true,
+      filePath: file.path,
+    });
+
+    return {
+      path: file.path.replace(/\.(m?)ts(x?)$/, ".$1js$2"),
+      content: this.tidy(this.rewriteImportExtensions(code)),
+      type: isJsx ? "jsx" : "js",
+    };
+  }
+
+  // Single-file components: template identifiers are invisible to the
+  // transform, so unused-looking imports must be kept
+  private convertSfc(content: string): string {
+    return content
+      .replace(
+        /<script([^>]*?)\s+lang="ts"([^>]*)>([\s\S]*?)<\/script>\n*/g,
+        (_match, before: string, after: string, body: string) => {
+          const { code } = transform(this.lowerVueMacros(body), {
+            transforms: ["typescript"],
+            disableESTransforms: true,
+            keepUnusedImports: true,
+          });
+          const script = this.tidy(code);
+          return script.trim()
+            ? `<script${before}${after}>${script}</script>\n\n`
+            : "";
+        },
+      )
+      .replace(/\n{3,}/g, "\n\n")
+      .trimEnd();
+  }
+
+  // Type-only defineProps/defineEmits have no runtime meaning once the types
+  // are gone, so lower them to their runtime declaration forms. Each prop
+  // keeps the runtime type its TypeScript type names, which Vue needs to
+  // cast a bare attribute such as `<ChatMessage own />` to true.
+  private lowerVueMacros(script: string): string {
+    const localTypes = this.getLocalTypes(script);
+    let result = script;
+
+    result = this.replaceMacro(result, "withDefaults(", (inner) => {
+      const match = inner.match(/^\s*defineProps<([\s\S]*)>\(\)\s*,([\s\S]*)$/);
+      if (!match) {
+        return null;
+      }
+      const defaults = new Map(
+        this.splitObjectMembers(match[2].trim().replace(/^\{|\}$/g, "")).map(
+          (member) => {
+            const separator = member.indexOf(":");
+            return [
+              member.slice(0, separator).trim(),
+              member.slice(separator + 1).trim(),
+            ] as [string, string];
+          },
+        ),
+      );
+      return this.declareProps(match[1], defaults, localTypes);
+    });
+
+    result = this.replaceMacro(result, "defineProps<", (inner) =>
+      this.declareProps(inner, new Map(), localTypes),
+    );
+
+    result = this.replaceMacro(result, "defineEmits<", (inner) => {
+      const events = Array.from(
+        inner.matchAll(/\(\s*e\s*:\s*'([^']+)'/g),
+        (match) => `'${match[1]}'`,
+      );
+      return `defineEmits([${events.join(", ")}])`;
+    });
+
+    return result;
+  }
+
+  private declareProps(
+    typeLiteral: string,
+    defaults: Map<string, string>,
+    localTypes: Map<string, string>,
+  ): string {
+    const props = this.getTypeLiteralMembers(typeLiteral).map(
+      ({ key, optional, type }) => {
+        const options = [`type: ${this.getRuntimeType(type, localTypes)}`];
+        if (defaults.has(key)) {
+          options.push(`default: ${defaults.get(key)}`);
+        } else if (!optional) {
+          options.push("required: true");
+        }
+        return `  ${key}: { ${options.join(", ")} }`;
+      },
+    );
+    return `defineProps({\n${props.join(",\n")}\n})`;
+  }
+
+  /**
+   * The constructor Vue checks a prop against, a list of them for a union,
+   * or `null` when the type is imported or otherwise cannot be told from
+   * the script, which leaves the prop unchecked.
+   */
+  private getRuntimeType(
+    type: string,
+    localTypes: Map<string, string>,
+    seen: Set<string> = new Set(),
+  ): string {
+    const constructors = new Set<string>();
+    let nullable = false;
+
+    for (const member of this.splitUnion(type)) {
+      // Parenthesised groups and local aliases resolve to what they contain
+      const nested = /^\(.*\)\s*=>/.test(member)
+        ? undefined
+        : (member.match(/^\(([\s\S]*)\)$/)?.[1] ?? localTypes.get(member));
+      if (nested !== undefined && !seen.has(member)) {
+        const resolved = this.getRuntimeType(
+          nested,
+          localTypes,
+          new Set(seen).add(member),
+        );
+        if (resolved === "null") return "null";
+        resolved
+          .replace(/^\[|\]$/g, "")
+          .split(", ")
+          .forEach((name) =>
+            name === "null" ? (nullable = true) : constructors.add(name),
+          );
+        continue;
+      }
+
+      const constructor = this.getConstructor(member);
+      if (constructor === undefined) return "null";
+      if (constructor === null) nullable = true;
+      else constructors.add(constructor);
+    }
+
+    const names = [...constructors, ...(nullable ? ["null"] : [])];
+    if (constructors.size === 0) return "null";
+    return names.length === 1 ? names[0] : `[${names.join(", ")}]`;
+  }
+
+  // null for the types a missing value has, undefined for a type whose
+  // constructor cannot be named
+  private getConstructor(type: string): string | null | undefined {
+    if (/^(null|undefined|void)$/.test(type)) return null;
+    if (/^(boolean|true|false)$/.test(type)) return "Boolean";
+    if (/^(string|'.*'|".*"|`.*`)$/.test(type)) return "String";
+    if (/^(number|-?\d[\d_.]*)$/.test(type)) return "Number";
+    if (/^(readonly\s|\[)|\[\]$|^(Readonly)?Array</.test(type)) return "Array";
+    if (/^\(.*\)\s*=>/.test(type) || type === "Function") return "Function";
+    if (/^(\{|Record<|Partial<|object$)/.test(type)) return "Object";
+    if (/^(Date|Error|Map|Set|Promise|RegExp)(<.*>)?$/.test(type)) {
+      return type.replace(/<.*>$/, "");
+    }
+    return undefined;
+  }
+
+  // Interfaces and one-line type aliases declared in the script itself
+  private getLocalTypes(script: string): Map<string, string> {
+    const types = new Map<string, string>();
+    for (const [, name] of script.matchAll(/\binterface\s+(\w+)/g)) {
+      types.set(name, "{}");
+    }
+    for (const [, name, type] of script.matchAll(
+      /\btype\s+(\w+)\s*=\s*([^;\n]+)/g,
+    )) {
+      types.set(name, type.trim());
+    }
+    return types;
+  }
+
+  private splitUnion(type: string): string[] {
+    const members: string[] = [];
+    let depth = 0;
+    let current = "";
+
+    for (let index = 0; index < type.length; index++) {
+      const char = type[index];
+      if ("{([<".includes(char)) depth++;
+      if ("})]>".includes(char) && type[index - 1] !== "=") depth--;
+
+      if (depth === 0 && char === "|") {
+        if (current.trim()) members.push(current.trim());
+        current = "";
+      } else {
+        current += char;
+      }
+    }
+    if (current.trim()) members.push(current.trim());
+
+    return members;
+  }
+
+  /**
+   * Replaces every `<opener>...` call whose closing bracket is found by
+   * depth. Generic macros only match when invoked without arguments, and
+   * their trailing `()` is consumed along with the type argument.
+   */
+  private replaceMacro(
+    script: string,
+    opener: string,
+    replace: (inner: string) => string | null,
+  ): string {
+    const isGeneric = opener.endsWith("<");
+    let result = "";
+    let cursor = 0;
+
+    for (;;) {
+      const start = script.indexOf(opener, cursor);
+      if (start === -1) {
+        break;
+      }
+
+      let depth = 1;
+      let index = start + opener.length;
+      while (index < script.length && depth > 0) {
+        const char = script[index];
+        if ("{([<".includes(char)) depth++;
+        if ("})]>".includes(char) && script[index - 1] !== "=") depth--;
+        index++;
+      }
+
+      const inner = script.slice(start + opener.length, index - 1);
+      let end = index;
+      let replacement: string | null = null;
+      if (!isGeneric || script.startsWith("()", end)) {
+        end += isGeneric ? 2 : 0;
+        replacement = replace(inner);
+      }
+
+      result += script.slice(cursor, start);
+      result += replacement ?? script.slice(start, end);
+      cursor = end;
+    }
+
+    return result + script.slice(cursor);
+  }
+
+  private getTypeLiteralMembers(
+    typeLiteral: string,
+  ): { key: string; optional: boolean; type: string }[] {
+    const body = typeLiteral.trim().replace(/^\{|\}$/g, "");
+    return this.splitObjectMembers(body).flatMap((member) => {
+      const match = member.match(/^(\w+)(\?)?\s*:\s*([\s\S]+)$/);
+      return match
+        ? [{ key: match[1], optional: match[2] === "?", type: match[3].trim() }]
+        : [];
+    });
+  }
+
+  private splitObjectMembers(body: string): string[] {
+    const members: string[] = [];
+    let depth = 0;
+    let current = "";
+
+    for (let index = 0; index < body.length; index++) {
+      const char = body[index];
+      if ("{([<".includes(char)) depth++;
+      if ("})]>".includes(char) && body[index - 1] !== "=") depth--;
+
+      if (depth === 0 && (char === "," || char === ";" || char === "\n")) {
+        if (current.trim()) members.push(current.trim());
+        current = "";
+      } else {
+        current += char;
+      }
+    }
+    if (current.trim()) members.push(current.trim());
+
+    return members;
+  }
+
+  private rewriteImportExtensions(code: string): string {
+    return code.replace(
+      /(from\s+|import\s*\(\s*|import\s+)(['"])(\.{1,2}\/[^'"]+)\.ts(x?)\2/g,
+      (_match, prefix, quote, specifier, jsx) =>
+        `${prefix}${quote}${specifier}.js${jsx}${quote}`,
+    );
+  }
+
+  // Stripping inline type specifiers leaves `{ a, }` or empty braces behind
+  private tidy(code: string): string {
+    return code
+      .replace(/,\s*\{\s*\}(\s*from\s)/g, "$1")
+      .replace(/^\s*import\s*\{\s*\}\s*from\s*['"][^'"]+['"];?\n/gm, "")
+      .replace(/,\s*\}(\s*from\s)/g, " }$1")
+      .replace(/[ \t]+$/gm, "")
+      .replace(/\n{3,}/g, "\n\n");
+  }
+
+  private convertPackageJson(content: string): string {
+    const packageJson = JSON.parse(content);
+
+    for (const field of ["dependencies", "devDependencies"]) {
+      const deps = packageJson[field];
+      if (!deps) continue;
+      for (const name of Object.keys(deps)) {
+        if (TYPESCRIPT_DEV_DEPENDENCIES.some((pattern) => pattern.test(name))) {
+          delete deps[name];
+        }
+      }
+    }
+
+    const typeCheck = /^(vue-)?tsc(\s+-b)?(\s+--noEmit)?/;
+    for (const [name, script] of Object.entries<string>(
+      packageJson.scripts || {},
+    )) {
+      if (typeCheck.test(script) && !script.includes("&&")) {
+        delete packageJson.scripts[name];
+        continue;
+      }
+      packageJson.scripts[name] = script
+        .replace(new RegExp(`${typeCheck.source}\\s*&&\\s*`), "")
+        .replace("--ext ts,tsx", "--ext js,jsx")
+        .replace("--tsconfig ./tsconfig.json", "--tsconfig ./jsconfig.json");
+    }
+
+    return JSON.stringify(packageJson, null, 2);
+  }
+
+  private generateJsConfig(framework: string): GeneratedFile | null {
+    let compilerOptions: Record<string, unknown>;
+    let extendsPath: string | undefined;
+
+    switch (framework) {
+      case "nextjs":
+        compilerOptions = { paths: { "@/*": ["./src/*"] } };
+        break;
+      case "svelte":
+        extendsPath = "./.svelte-kit/tsconfig.json";
+        compilerOptions = { allowJs: true, checkJs: false };
+        break;
+      default:
+        return null;
+    }
+
+    return {
+      path: "jsconfig.json",
+      content: JSON.stringify(
+        { ...(extendsPath && { extends: extendsPath }), compilerOptions },
+        null,
+        2,
+      ),
+      type: "json",
+    };
+  }
+}
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import {
+  SUPPORTED_LOCALES,
+  UI_TRANSLATIONS,
+  resolveLocales,
+} from "./LocaleGenerator";
+
+describe("UI_TRANSLATIONS", () => {
+  const englishKeys = Object.keys(UI_TRANSLATIONS.en).sort();
+
+  it.each(SUPPORTED_LOCALES.map(({ code }) => code))(
+    "translates every English interface string into %s",
+    (code) => {
+      expect(Object.keys(UI_TRANSLATIONS[code] ?? {}).sort()).toEqual(
+        englishKeys,
+      );
+    },
+  );
+
+  it("labels the blog and store navigation", () => {
+    expect(englishKeys).toEqual(
+      expect.arrayContaining(["nav.blog", "nav.shop", "nav.cart"]),
+    );
+  });
+});
+
+describe("resolveLocales", () => {
+  it("keeps the selection for frameworks with translation bundles", () => {
+    expect(resolveLocales("nextjs", ["ar", "fr"])).toEqual(["ar", "fr"]);
+  });
+
+  it.each(["vue", "svelte", "angular"])(
+    "generates %s sites in English, the language of their copy",
+    (framework) => {
+      expect(resolveLocales(framework, ["ar", "fr"])).toEqual(["en"]);
+    },
+  );
+});
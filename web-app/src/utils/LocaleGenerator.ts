@@ -0,0 +1,744 @@
+/**
+ * Locale Generator
+ * Makes React and Next.js sites multilingual. The page generators record
+ * every interface string they render in a MessageCatalog and emit `t()`
+ * calls in its place; this module writes the catalog out as
+ * src/locales/<lang>.json, one bundle per language chosen in the wizard,
+ * plus src/i18n.ts, the hook the pages and the Navigation language switcher
+ * read it through. The hook also serves the business copy from
+ * src/content (see ContentGenerator) in the visitor's language.
+ *
+ * Bundles for additional languages start as a copy of the source copy with
+ * the shared interface strings (navigation, buttons, form labels) already
+ * translated; the business copy is left for the site owner to translate.
+ * Vue, SvelteKit and Angular sites stay in the primary language.
+ */
+
+import type { GeneratedFile } from "./GeneratedFile";
+
+export interface SiteLocale {
+  code: string;
+  // Name of the language in that language, as the switcher shows it
+  label: string;
+  dir: "ltr" | "rtl";
+}
+
+export const SUPPORTED_LOCALES: SiteLocale[] = [
+  { code: "en", label: "English", dir: "ltr" },
+  { code: "es", label: "Español", dir: "ltr" },
+  { code: "fr", label: "Français", dir: "ltr" },
+  { code: "de", label: "Deutsch", dir: "ltr" },
+  { code: "pt", label: "Português", dir: "ltr" },
+  { code: "it", label: "Italiano", dir: "ltr" },
+  { code: "ar", label: "العربية", dir: "rtl" },
+  { code: "he", label: "עברית", dir: "rtl" },
+  { code: "fa", label: "فارسی", dir: "rtl" },
+];
+
+const DEFAULT_LOCALE = "en";
+
+// Frameworks whose pages render through the generated i18n hook
+const LOCALIZED_FRAMEWORKS = ["react", "nextjs"];
+
+// The interface strings every site shares, keyed like the catalog. English
+// matches the generators' own labels and sets the keys every other
+// language must translate. Copy written for the business is not
+// translated here.
+export const UI_TRANSLATIONS: Record<string, Record<string, string>> = {
+  en: {
+    "nav.home": "Home",
+    "nav.about": "About",
+    "nav.services": "Services",
+    "nav.contact": "Contact",
+    "nav.gallery": "Gallery",
+    "nav.testimonials": "Testimonials",
+    "nav.login": "Login",
+    "nav.register": "Register",
+    "nav.profile": "Profile",
+    "nav.reviews": "Reviews",
+    "nav.chat": "Chat",
+    "nav.search": "Search",
+    "nav.payments": "Payments",
+    "nav.booking": "Booking",
+    "nav.analytics": "Analytics",
+    "nav.locations": "Locations",
+    "nav.blog": "Blog",
+    "nav.shop": "Shop",
+    "nav.cart": "Cart",
+    "nav.language": "Language",
+    "nav.toggleMenu": "Toggle navigation menu",
+    "common.getStarted": "Get Started",
+    "common.learnMore": "Learn More",
+    "common.contactUs": "Contact Us",
+    "form.name": "Name",
+    "form.fullName": "Full Name",
+    "form.email": "Email",
+    "form.phone": "Phone",
+    "form.password": "Password",
+    "form.confirmPassword": "Confirm Password",
+    "form.message": "Message",
+    "form.send": "Send Message",
+    "form.sending": "Sending...",
+    "auth.signIn": "Sign In",
+    "auth.createAccount": "Create Account",
+    "notFound.title": "404 - Page Not Found",
+    "notFound.message": "The page you're looking for doesn't exist.",
+    "footer.rights": "All rights reserved.",
+  },
+  es: {
+    "nav.home": "Inicio",
+    "nav.about": "Nosotros",
+    "nav.services": "Servicios",
+    "nav.contact": "Contacto",
+    "nav.gallery": "Galería",
+    "nav.testimonials": "Testimonios",
+    "nav.login": "Iniciar sesión",
+    "nav.register": "Registrarse",
+    "nav.profile": "Perfil",
+    "nav.reviews": "Reseñas",
+    "nav.chat": "Chat",
+    "nav.search": "Buscar",
+    "nav.payments": "Pagos",
+    "nav.booking": "Reservas",
+    "nav.analytics": "Analítica",
+    "nav.locations": "Ubicaciones",
+    "nav.blog": "Blog",
+    "nav.shop": "Tienda",
+    "nav.cart": "Carrito",
+    "nav.language": "Idioma",
+    "nav.toggleMenu": "Abrir o cerrar el menú",
+    "common.getStarted": "Empezar",
+    "common.learnMore": "Más información",
+    "common.contactUs": "Contáctanos",
+    "form.name": "Nombre",
+    "form.fullName": "Nombre completo",
+    "form.email": "Correo electrónico",
+    "form.phone": "Teléfono",
+    "form.password": "Contraseña",
+    "form.confirmPassword": "Confirmar contraseña",
+    "form.message": "Mensaje",
+    "form.send": "Enviar mensaje",
+    "form.sending": "Enviando...",
+    "auth.signIn": "Iniciar sesión",
+    "auth.createAccount": "Crear cuenta",
+    "notFound.title": "404 - Página no encontrada",
+    "notFound.message": "La página que buscas no existe.",
+    "footer.rights": "Todos los derechos reservados.",
+  },
+  fr: {
+    "nav.home": "Accueil",
+    "nav.about": "À propos",
+    "nav.services": "Services",
+    "nav.contact": "Contact",
+    "nav.gallery": "Galerie",
+    "nav.testimonials": "Témoignages",
+    "nav.login": "Connexion",
+    "nav.register": "Inscription",
+    "nav.profile": "Profil",
+    "nav.reviews": "Avis",
+    "nav.chat": "Discussion",
+    "nav.search": "Recherche",
+    "nav.payments": "Paiements",
+    "nav.booking": "Réservation",
+    "nav.analytics": "Statistiques",
+    "nav.locations": "Adresses",
+    "nav.blog": "Blog",
+    "nav.shop": "Boutique",
+    "nav.cart": "Panier",
+    "nav.language": "Langue",
+    "nav.toggleMenu": "Afficher ou masquer le menu",
+    "common.getStarted": "Commencer",
+    "common.learnMore": "En savoir plus",
+    "common.contactUs": "Contactez-nous",
+    "form.name": "Nom",
+    "form.fullName": "Nom complet",
+    "form.email": "E-mail",
+    "form.phone": "Téléphone",
+    "form.password": "Mot de passe",
+    "form.confirmPassword": "Confirmer le mot de passe",
+    "form.message": "Message",
+    "form.send": "Envoyer le message",
+    "form.sending": "Envoi...",
+    "auth.signIn": "Se connecter",
+    "auth.createAccount": "Créer un compte",
+    "notFound.title": "404 - Page introuvable",
+    "notFound.message": "La page que vous cherchez n'existe pas.",
+    "footer.rights": "Tous droits réservés.",
+  },
+  de: {
+    "nav.home": "Startseite",
+    "nav.about": "Über uns",
+    "nav.services": "Leistungen",
+    "nav.contact": "Kontakt",
+    "nav.gallery": "Galerie",
+    "nav.testimonials": "Referenzen",
+    "nav.login": "Anmelden",
+    "nav.register": "Registrieren",
+    "nav.profile": "Profil",
+    "nav.reviews": "Bewertungen",
+    "nav.chat": "Chat",
+    "nav.search": "Suche",
+    "nav.payments": "Zahlungen",
+    "nav.booking": "Buchung",
+    "nav.analytics": "Analysen",
+    "nav.locations": "Standorte",
+    "nav.blog": "Blog",
+    "nav.shop": "Shop",
+    "nav.cart": "Warenkorb",
+    "nav.language": "Sprache",
+    "nav.toggleMenu": "Menü ein- oder ausblenden",
+    "common.getStarted": "Jetzt starten",
+    "common.learnMore": "Mehr erfahren",
+    "common.contactUs": "Kontaktieren Sie uns",
+    "form.name": "Name",
+    "form.fullName": "Vollständiger Name",
+    "form.email": "E-Mail",
+    "form.phone": "Telefon",
+    "form.password": "Passwort",
+    "form.confirmPassword": "Passwort bestätigen",
+    "form.message": "Nachricht",
+    "form.send": "Nachricht senden",
+    "form.sending": "Wird gesendet...",
+    "auth.signIn": "Anmelden",
+    "auth.createAccount": "Konto erstellen",
+    "notFound.title": "404 - Seite nicht gefunden",
+    "notFound.message": "Die gesuchte Seite existiert nicht.",
+    "footer.rights": "Alle Rechte vorbehalten.",
+  },
+  pt: {
+    "nav.home": "Início",
+    "nav.about": "Sobre",
+    "nav.services": "Serviços",
+    "nav.contact": "Contato",
+    "nav.gallery": "Galeria",
+    "nav.testimonials": "Depoimentos",
+    "nav.login": "Entrar",
+    "nav.register": "Cadastrar",
+    "nav.profile": "Perfil",
+    "nav.reviews": "Avaliações",
+    "nav.chat": "Chat",
+    "nav.search": "Pesquisar",
+    "nav.payments": "Pagamentos",
+    "nav.booking": "Reservas",
+    "nav.analytics": "Análises",
+    "nav.locations": "Localizações",
+    "nav.blog": "Blog",
+    "nav.shop": "Loja",
+    "nav.cart": "Carrinho",
+    "nav.language": "Idioma",
+    "nav.toggleMenu": "Abrir ou fechar o menu",
+    "common.getStarted": "Começar",
+    "common.learnMore": "Saiba mais",
+    "common.contactUs": "Fale conosco",
+    "form.name": "Nome",
+    "form.fullName": "Nome completo",
+    "form.email": "E-mail",
+    "form.phone": "Telefone",
+    "form.password": "Senha",
+    "form.confirmPassword": "Confirmar senha",
+    "form.message": "Mensagem",
+    "form.send": "Enviar mensagem",
+    "form.sending": "Enviando...",
+    "auth.signIn": "Entrar",
+    "auth.createAccount": "Criar conta",
+    "notFound.title": "404 - Página não encontrada",
+    "notFound.message": "A página que você procura não existe.",
+    "footer.rights": "Todos os direitos reservados.",
+  },
+  it: {
+    "nav.home": "Home",
+    "nav.about": "Chi siamo",
+    "nav.services": "Servizi",
+    "nav.contact": "Contatti",
+    "nav.gallery": "Galleria",
+    "nav.testimonials": "Testimonianze",
+    "nav.login": "Accedi",
+    "nav.register": "Registrati",
+    "nav.profile": "Profilo",
+    "nav.reviews": "Recensioni",
+    "nav.chat": "Chat",
+    "nav.search": "Cerca",
+    "nav.payments": "Pagamenti",
+    "nav.booking": "Prenotazioni",
+    "nav.analytics": "Statistiche",
+    "nav.locations": "Sedi",
+    "nav.blog": "Blog",
+    "nav.shop": "Negozio",
+    "nav.cart": "Carrello",
+    "nav.language": "Lingua",
+    "nav.toggleMenu": "Apri o chiudi il menu",
+    "common.getStarted": "Inizia",
+    "common.learnMore": "Scopri di più",
+    "common.contactUs": "Contattaci",
+    "form.name": "Nome",
+    "form.fullName": "Nome completo",
+    "form.email": "Email",
+    "form.phone": "Telefono",
+    "form.password": "Password",
+    "form.confirmPassword": "Conferma password",
+    "form.message": "Messaggio",
+    "form.send": "Invia messaggio",
+    "form.sending": "Invio...",
+    "auth.signIn": "Accedi",
+    "auth.createAccount": "Crea account",
+    "notFound.title": "404 - Pagina non trovata",
+    "notFound.message": "La pagina che cerchi non esiste.",
+    "footer.rights": "Tutti i diritti riservati.",
+  },
+  ar: {
+    "nav.home": "الرئيسية",
+    "nav.about": "من نحن",
+    "nav.services": "الخدمات",
+    "nav.contact": "اتصل بنا",
+    "nav.gallery": "المعرض",
+    "nav.testimonials": "آراء العملاء",
+    "nav.login": "تسجيل الدخول",
+    "nav.register": "إنشاء حساب",
+    "nav.profile": "الملف الشخصي",
+    "nav.reviews": "التقييمات",
+    "nav.chat": "الدردشة",
+    "nav.search": "بحث",
+    "nav.payments": "المدفوعات",
+    "nav.booking": "الحجز",
+    "nav.analytics": "التحليلات",
+    "nav.locations": "الفروع",
+    "nav.blog": "المدونة",
+    "nav.shop": "المتجر",
+    "nav.cart": "السلة",
+    "nav.language": "اللغة",
+    "nav.toggleMenu": "فتح القائمة أو إغلاقها",
+    "common.getStarted": "ابدأ الآن",
+    "common.learnMore": "اعرف المزيد",
+    "common.contactUs": "تواصل معنا",
+    "form.name": "الاسم",
+    "form.fullName": "الاسم الكامل",
+    "form.email": "البريد الإلكتروني",
+    "form.phone": "الهاتف",
+    "form.password": "كلمة المرور",
+    "form.confirmPassword": "تأكيد كلمة المرور",
+    "form.message": "الرسالة",
+    "form.send": "إرسال الرسالة",
+    "form.sending": "جارٍ الإرسال...",
+    "auth.signIn": "تسجيل الدخول",
+    "auth.createAccount": "إنشاء حساب",
+    "notFound.title": "404 - الصفحة غير موجودة",
+    "notFound.message": "الصفحة التي تبحث عنها غير موجودة.",
+    "footer.rights": "جميع الحقوق محفوظة.",
+  },
+  he: {
+    "nav.home": "בית",
+    "nav.about": "אודות",
+    "nav.services": "שירותים",
+    "nav.contact": "צור קשר",
+    "nav.gallery": "גלריה",
+    "nav.testimonials": "המלצות",
+    "nav.login": "התחברות",
+    "nav.register": "הרשמה",
+    "nav.profile": "פרופיל",
+    "nav.reviews": "ביקורות",
+    "nav.chat": "צ'אט",
+    "nav.search": "חיפוש",
+    "nav.payments": "תשלומים",
+    "nav.booking": "הזמנות",
+    "nav.analytics": "אנליטיקה",
+    "nav.locations": "סניפים",
+    "nav.blog": "בלוג",
+    "nav.shop": "חנות",
+    "nav.cart": "עגלה",
+    "nav.language": "שפה",
+    "nav.toggleMenu": "פתיחה או סגירה של התפריט",
+    "common.getStarted": "להתחיל",
+    "common.learnMore": "מידע נוסף",
+    "common.contactUs": "צרו קשר",
+    "form.name": "שם",
+    "form.fullName": "שם מלא",
+    "form.email": "דוא״ל",
+    "form.phone": "טלפון",
+    "form.password": "סיסמה",
+    "form.confirmPassword": "אימות סיסמה",
+    "form.message": "הודעה",
+    "form.send": "שליחת הודעה",
+    "form.sending": "שולח...",
+    "auth.signIn": "התחברות",
+    "auth.createAccount": "יצירת חשבון",
+    "notFound.title": "404 - הדף לא נמצא",
+    "notFound.message": "הדף שחיפשת אינו קיים.",
+    "footer.rights": "כל הזכויות שמורות.",
+  },
+  fa: {
+    "nav.home": "خانه",
+    "nav.about": "درباره ما",
+    "nav.services": "خدمات",
+    "nav.contact": "تماس",
+    "nav.gallery": "گالری",
+    "nav.testimonials": "نظرات مشتریان",
+    "nav.login": "ورود",
+    "nav.register": "ثبت‌نام",
+    "nav.profile": "نمایه",
+    "nav.reviews": "نقدها",
+    "nav.chat": "گفتگو",
+    "nav.search": "جستجو",
+    "nav.payments": "پرداخت‌ها",
+    "nav.booking": "رزرو",
+    "nav.analytics": "تحلیل‌ها",
+    "nav.locations": "شعبه‌ها",
+    "nav.blog": "وبلاگ",
+    "nav.shop": "فروشگاه",
+    "nav.cart": "سبد خرید",
+    "nav.language": "زبان",
+    "nav.toggleMenu": "باز و بسته کردن منو",
+    "common.getStarted": "شروع کنید",
+    "common.learnMore": "بیشتر بدانید",
+    "common.contactUs": "با ما تماس بگیرید",
+    "form.name": "نام",
+    "form.fullName": "نام کامل",
+    "form.email": "ایمیل",
+    "form.phone": "تلفن",
+    "form.password": "رمز عبور",
+    "form.confirmPassword": "تکرار رمز عبور",
+    "form.message": "پیام",
+    "form.send": "ارسال پیام",
+    "form.sending": "در حال ارسال...",
+    "auth.signIn": "ورود",
+    "auth.createAccount": "ایجاد حساب",
+    "notFound.title": "404 - صفحه پیدا نشد",
+    "notFound.message": "صفحه‌ای که به دنبال آن هستید وجود ندارد.",
+    "footer.rights": "تمامی حقوق محفوظ است.",
+  },
+};
+
+/**
+ * The site's languages from the wizard selection, primary first. Unknown
+ * codes and duplicates are dropped; an empty selection means English, and
+ * so does a framework whose pages are written in English only.
+ */
+export function resolveLocales(
+  framework: string,
+  locales?: string[],
+): string[] {
+  if (!isLocalized(framework)) {
+    return [DEFAULT_LOCALE];
+  }
+  const supported = (locales ?? []).filter(
+    (code, index, list) =>
+      list.indexOf(code) === index &&
+      SUPPORTED_LOCALES.some((locale) => locale.code === code),
+  );
+  return supported.length > 0 ? supported : [DEFAULT_LOCALE];
+}
+
+// Writing direction for the document's dir attribute
+export function getTextDirection(locale: string): "ltr" | "rtl" {
+  return (
+    SUPPORTED_LOCALES.find((candidate) => candidate.code === locale)?.dir ??
+    "ltr"
+  );
+}
+
+// Whether the framework's pages render their copy through src/i18n.ts
+export function isLocalized(framework: string): boolean {
+  return LOCALIZED_FRAMEWORKS.includes(framework);
+}
+
+// Whether the site serves more than one language, with a switcher and
+// hreflang alternates
+export function isMultilingual(framework: string, locales: string[]): boolean {
+  return locales.length > 1 && isLocalized(framework);
+}
+
+/**
+ * The strings of one generated site, keyed by dotted path such as
+ * `home.hero.title`. Keys are registered with their text in the primary
+ * copy; registering a key twice with different text is a generator bug.
+ */
+export class MessageCatalog {
+  private readonly messages = new Map<string, string>();
+
+  add(key: string, text: string): void {
+    const existing = this.messages.get(key);
+    if (existing !== undefined && existing !== text) {
+      throw new Error(`Message "${key}" registered with different text`);
+    }
+    if (existing === undefined) {
+      // Bundles nest on the dots, so a key cannot also be another's prefix
+      for (const other of this.messages.keys()) {
+        if (other.startsWith(`${key}.`) || key.startsWith(`${other}.`)) {
+          throw new Error(`Message "${key}" overlaps "${other}"`);
+        }
+      }
+    }
+    this.messages.set(key, text);
+  }
+
+  /**
+   * Registers the text and returns the `t()` call that renders it.
+   * @param params source of the object literal whose values fill the
+   * `{name}` placeholders at runtime
+   */
+  t(key: string, text: string, params?: string): string {
+    this.add(key, text);
+    return params ? `t('${key}', ${params})` : `t('${key}')`;
+  }
+
+  get(key: string): string | undefined {
+    return this.messages.get(key);
+  }
+
+  entries(): [string, string][] {
+    return Array.from(this.messages.entries());
+  }
+}
+
+export class LocaleGenerator {
+  generateFiles(context: any): GeneratedFile[] {
+    if (!isLocalized(context.framework)) {
+      return [];
+    }
+
+    return [
+      ...context.locales.map((locale: string) => ({
+        path: `src/locales/${locale}.json`,
+        content: JSON.stringify(this.getBundle(context, locale), null, 2),
+        type: "json",
+      })),
+      {
+        path: "src/i18n.ts",
+        content: this.generateI18nModule(context),
+        type: "ts",
+      },
+    ];
+  }
+
+  /**
+   * A string as the site renders it, in the primary language unless another
+   * is given; for files such as tests and server components that cannot
+   * call the hook.
+   */
+  getText(
+    context: any,
+    key: string,
+    locale: string = context.locales[0],
+  ): string {
+    return UI_TRANSLATIONS[locale]?.[key] ?? context.messages.get(key) ?? key;
+  }
+
+  getReadmeSection(context: any): string {
+    // Other frameworks are always English, so they need no section
+    if (!isLocalized(context.framework)) {
+      return "";
+    }
+
+    const names: string[] = context.locales.map(
+      (code: string) =>
+        SUPPORTED_LOCALES.find((locale) => locale.code === code)?.label ?? code,
+    );
+    const rtl = names.filter(
+      (_, index) => getTextDirection(context.locales[index]) === "rtl",
+    );
+    const directionNote =
+      rtl.length > 0
+        ? `
+${rtl.join(" and ")} ${rtl.length > 1 ? "are" : "is"} written right to left: the document gets
+\`dir="rtl"\` with the language, the stylesheets use logical properties such
+as \`margin-inline-start\`, and arrows marked \`icon-directional\` are mirrored.
+`
+        : "";
+
+    const [primary, ...others] = context.locales;
+    const translationNote =
+      others.length > 0
+        ? `
+\`${others.map((code: string) => `src/locales/${code}.json`).join("`, `")}\`
+${others.length > 1 ? "start" : "starts"} as a copy of \`src/locales/${primary}.json\` with the
+navigation, buttons and form labels translated. Translate the remaining
+copy in place; any key a bundle lacks falls back to the primary language.
+
+Visitors get the language in the \`?lang=\` query parameter, then the one
+they last picked in the navigation, then the closest match to their
+browser's languages. Each page lists its other languages as hreflang
+alternates using the \`?lang=\` URLs.
+`
+        : "";
+
+    return `
+## Languages
+
+Languages: ${names.join(", ")}. Every string the pages render lives in
+\`src/locales/${primary}.json\`; components read it through
+\`useTranslation()\` from \`src/i18n.ts\`:
+\`\`\`tsx
+const { t } = useTranslation();
+return <h1>{t('home.hero.title')}</h1>;
+\`\`\`
+${translationNote}${directionNote}`;
+  }
+
+  private getBundle(context: any, locale: string): Record<string, unknown> {
+    const bundle: Record<string, unknown> = {};
+    const translations = UI_TRANSLATIONS[locale] ?? {};
+
+    for (const [key, text] of context.messages.entries()) {
+      const path = key.split(".");
+      const leaf = path.pop()!;
+      let node = bundle;
+      for (const part of path) {
+        node = (node[part] ??= {}) as Record<string, unknown>;
+      }
+      node[leaf] = translations[key] ?? text;
+    }
+
+    return bundle;
+  }
+
+  private generateI18nModule(context: any): string {
+    const locales = context.locales.map((code: string) =>
+      SUPPORTED_LOCALES.find((locale) => locale.code === code),
+    );
+    const [primary, ...others] = context.locales;
+    const contentName = (code: string) =>
+      `site${code.charAt(0).toUpperCase()}${code.slice(1)}`;
+    const imports = [
+      ...context.locales.map(
+        (code: string) => `import ${code} from './locales/${code}.json';`,
+      ),
+      "import site from './content/site.json';",
+      ...(context.multilingual ? others : []).map(
+        (code: string) =>
+          `import ${contentName(code)} from './content/site.${code}.json';`,
+      ),
+    ].join("\n");
+    const content = [
+      `${primary}: site`,
+      ...(context.multilingual ? others : []).map(
+        (code: string) => `${code}: withFallback(site, ${contentName(code)})`,
+      ),
+    ].join(",\n  ");
+
+    return `// Translations for everything the site renders. Each bundle in src/locales
+// has the same keys as the primary language's; a string missing from one
+// falls back to the primary language; so does the business copy in
+// src/content. The visitor's language comes from ?lang=, then their last
+// choice, then their browser's preferences.
+
+import { useCallback, useEffect, useSyncExternalStore } from 'react';
+${imports}
+
+interface Messages {
+  [key: string]: string | Messages;
+}
+
+export const LOCALES = ${JSON.stringify(locales, null, 2)};
+
+export const DEFAULT_LOCALE = '${context.locales[0]}';
+
+export type SiteContent = typeof site;
+
+const MESSAGES: Record<string, Messages> = { ${context.locales.join(", ")} };
+${
+  context.multilingual
+    ? `
+// Fields a translation lacks keep the primary language's copy
+function withFallback<T>(primary: T, translated: unknown): T {
+  if (Array.isArray(primary)) {
+    return (Array.isArray(translated) ? translated : primary) as T;
+  }
+  if (typeof primary === 'object' && primary !== null) {
+    const fields = (typeof translated === 'object' && translated) || {};
+    return Object.fromEntries(
+      Object.entries(primary).map(([key, value]) => [
+        key,
+        withFallback(value, (fields as Record<string, unknown>)[key])
+      ])
+    ) as T;
+  }
+  return (typeof translated === typeof primary ? translated : primary) as T;
+}
+`
+    : ""
+}
+const CONTENT: Record<string, SiteContent> = {
+  ${content}
+};
+
+const STORAGE_KEY = 'locale';
+
+const listeners = new Set<() => void>();
+let currentLocale: string | undefined;
+
+function isLocale(code: string | null | undefined): code is string {
+  return !!code && code in MESSAGES;
+}
+
+function detectLocale(): string {
+  const requested = new URLSearchParams(window.location.search).get('lang');
+  if (isLocale(requested)) return requested;
+
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (isLocale(stored)) return stored;
+
+  const preferred = navigator.languages
+    .map((tag) => tag.split('-')[0])
+    .find(isLocale);
+  return preferred ?? DEFAULT_LOCALE;
+}
+
+function getLocale(): string {
+  currentLocale ??= detectLocale();
+  return currentLocale;
+}
+
+function subscribe(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function setLocale(locale: string): void {
+  if (!isLocale(locale) || locale === currentLocale) return;
+  currentLocale = locale;
+  localStorage.setItem(STORAGE_KEY, locale);
+  listeners.forEach((listener) => listener());
+}
+
+function lookup(messages: Messages, key: string): string | undefined {
+  let node: string | Messages | undefined = messages;
+  for (const part of key.split('.')) {
+    node = typeof node === 'object' ? node[part] : undefined;
+  }
+  return typeof node === 'string' ? node : undefined;
+}
+
+export function translate(
+  locale: string,
+  key: string,
+  params?: Record<string, string | number>
+): string {
+  const message =
+    lookup(MESSAGES[locale] ?? {}, key) ?? lookup(MESSAGES[DEFAULT_LOCALE], key) ?? key;
+  if (!params) return message;
+  return message.replace(/\\{(\\w+)\\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+export function useTranslation() {
+  // Prerendered HTML is in the primary language; the visitor's own is
+  // applied once the page has hydrated
+  const locale = useSyncExternalStore(subscribe, getLocale, () => DEFAULT_LOCALE);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    // Layout uses logical properties, so this is all a switch needs to mirror it
+    document.documentElement.dir =
+      LOCALES.find(({ code }) => code === locale)?.dir ?? 'ltr';
+  }, [locale]);
+
+  const t = useCallback(
+    (key: string, params?: Record<string, string | number>) => translate(locale, key, params),
+    [locale]
+  );
+
+  return { locale, locales: LOCALES, setLocale, t, content: CONTENT[locale] ?? site };
+}
+`;
+  }
+}
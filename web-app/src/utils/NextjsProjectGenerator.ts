@@ -0,0 +1,431 @@
+/**
+ * Next.js Project Generator
+ * Emits a Next.js 14 App Router project configured for static export. Page
+ * and component bodies are the React ones, rendered as client components
+ * from src/views; each page gets its own route segment under src/app with
+ * metadata drawn from the AI SEO strategy. The root layout is rendered from
+ * templates/nextjs/src/app/layout.tsx.hbs. Copy is translated on the
+ * client through src/i18n.ts; server files are written in the primary
+ * language.
+ */
+
+import { BlogGenerator, hasBlog } from "./BlogGenerator";
+import { ChatGenerator } from "./ChatGenerator";
+import { hasStore } from "./StoreGenerator";
+import { catalogVersions } from "./DependencyCatalog";
+import { DevServerProxy } from "./DevServerProxy";
+import type { GeneratedFile, TextFile } from "./GeneratedFile";
+import { LocaleGenerator } from "./LocaleGenerator";
+import { getPackageName } from "./PackageName";
+import { chainScripts } from "./PackageScripts";
+import { getPageComponentName } from "./PageName";
+import { PaymentsGenerator } from "./PaymentsGenerator";
+import { PerformanceBudgetGenerator } from "./PerformanceBudgetGenerator";
+import { SearchIndexGenerator } from "./SearchIndexGenerator";
+import { SeoGenerator } from "./SeoGenerator";
+import { ServiceWorkerGenerator } from "./ServiceWorkerGenerator";
+import { templateResolver } from "./TemplateResolver";
+import { TestSuiteGenerator } from "./TestSuiteGenerator";
+
+interface ReactSources {
+  components: TextFile[];
+  pages: TextFile[];
+}
+
+export class NextjsProjectGenerator {
+  generateFiles(context: any, react: ReactSources): GeneratedFile[] {
+    const files: GeneratedFile[] = [];
+
+    files.push(...this.generatePackageJson(context));
+    files.push(...this.generateAppFiles(context));
+    files.push(...this.generateRoutes(context));
+    files.push(...this.generateComponents(context, react.components));
+    files.push(...this.generateViews(react.pages));
+    files.push(...this.generateConfigFiles(context));
+
+    return files;
+  }
+
+  private generatePackageJson(context: any): GeneratedFile[] {
+    const packageJson = {
+      name: getPackageName(context),
+      version: "1.0.0",
+      description: context.description,
+      private: true,
+      scripts: {
+        dev: "next dev -p 3000",
+        build: "next build",
+        ...chainScripts(
+          {
+            postbuild: new ServiceWorkerGenerator().getPostbuildScript(
+              "nextjs",
+            ),
+          },
+          new PerformanceBudgetGenerator().getScripts(context),
+        ),
+        // next start does not serve static exports
+        start: "npx serve@latest out",
+        ...new TestSuiteGenerator().getScripts(context),
+        ...chainScripts(
+          new BlogGenerator().getScripts(context),
+          new SearchIndexGenerator().getScripts(context),
+        ),
+        ...new PaymentsGenerator().getScripts(context),
+        ...new ChatGenerator().getScripts(context),
+      },
+      dependencies: {
+        ...catalogVersions(["next", "react", "react-dom"]),
+        ...context.packages.dependencies,
+      },
+      devDependencies: {
+        ...catalogVersions([
+          "@types/node",
+          "@types/react",
+          "@types/react-dom",
+          "typescript",
+        ]),
+        ...context.packages.devDependencies,
+      },
+    };
+
+    return [
+      {
+        path: "package.json",
+        content: JSON.stringify(packageJson, null, 2),
+        type: "json",
+      },
+    ];
+  }
+
+  private generateAppFiles(context: any): GeneratedFile[] {
+    const files: GeneratedFile[] = [];
+
+    files.push({
+      path: "src/app/layout.tsx",
+      content: templateResolver.render("nextjs/src/app/layout.tsx", context),
+      type: "tsx",
+    });
+
+    files.push({
+      path: "src/app/loading.tsx",
+      content: `import LoadingSpinner from '@/components/LoadingSpinner';
+
+export default function Loading() {
+  return <LoadingSpinner />;
+}`,
+      type: "tsx",
+    });
+
+    files.push({
+      path: "src/app/error.tsx",
+      content: `'use client';
+
+import ErrorFallback from '@/components/ErrorFallback';
+
+export default function ErrorPage({ error, reset }: { error: Error; reset: () => void }) {
+  return <ErrorFallback error={error} resetError={reset} />;
+}`,
+      type: "tsx",
+    });
+
+    // Server-rendered, so it is written in the primary language
+    const { messages } = context;
+    const locales = new LocaleGenerator();
+    messages.add("notFound.title", "404 - Page Not Found");
+    messages.add(
+      "notFound.message",
+      "The page you're looking for doesn't exist.",
+    );
+
+    files.push({
+      path: "src/app/not-found.tsx",
+      content: `import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Page Not Found'
+};
+
+export default function NotFound() {
+  return (
+    <div className="not-found">
+      <h1>{${JSON.stringify(locales.getText(context, "notFound.title"))}}</h1>
+      <p>{${JSON.stringify(locales.getText(context, "notFound.message"))}}</p>
+    </div>
+  );
+}`,
+      type: "tsx",
+    });
+
+    return files;
+  }
+
+  // Next.js merges metadata one key deep, so each route repeats the whole
+  // alternates, openGraph and twitter objects rather than only the fields it
+  // changes
+  private generateRoutes(context: any): GeneratedFile[] {
+    const seoGenerator = new SeoGenerator();
+    const feed = hasBlog(context)
+      ? `, types: { 'application/rss+xml': '/rss.xml' }`
+      : "";
+    const routes: GeneratedFile[] = seoGenerator
+      .getRoutes(context)
+      .map((route) => {
+        const { page, path } = route;
+        const componentName = getPageComponentName(page);
+        const isHome = page === "home";
+        const title = JSON.stringify(route.title);
+        const description = JSON.stringify(route.description);
+        const languages = seoGenerator.getAlternates(context, path, "");
+
+        const metadata = `export const metadata: Metadata = {
+  title: { absolute: ${title} },
+  description: ${description},
+  alternates: { canonical: '${path}'${
+    context.multilingual ? `, languages: ${JSON.stringify(languages)}` : ""
+  }${feed} },
+  openGraph: {
+    type: 'website',
+    siteName: ${JSON.stringify(context.businessName)},
+    title: ${title},
+    description: ${description},
+    url: '${path}'
+  },
+  twitter: {
+    card: 'summary',
+    title: ${title},
+    description: ${description}
+  }
+};`;
+
+        return {
+          path: isHome ? "src/app/page.tsx" : `src/app/${page}/page.tsx`,
+          content: `import type { Metadata } from 'next';
+import ${componentName} from '@/views/${componentName}';
+
+${metadata}
+
+export default function ${componentName}Page() {
+  return <${componentName} />;
+}`,
+          type: "tsx",
+        };
+      });
+
+    if (hasBlog(context)) {
+      routes.push({
+        path: "src/app/blog/[slug]/page.tsx",
+        content: this.generateBlogPostRoute(context),
+        type: "tsx",
+      });
+    }
+
+    if (hasStore(context)) {
+      routes.push({
+        path: "src/app/shop/[slug]/page.tsx",
+        content: this.generateProductRoute(context, feed),
+        type: "tsx",
+      });
+    }
+
+    return routes;
+  }
+
+  // One static page per product in src/content/products.json
+  private generateProductRoute(context: any, feed: string): string {
+    const siteName = JSON.stringify(context.businessName);
+    const titleSuffix = JSON.stringify(` | ${context.businessName}`);
+
+    return `import type { Metadata } from 'next';
+import Product from '@/views/Product';
+import { getProduct, products } from '@/shop/catalog';
+
+interface Params {
+  params: { slug: string };
+}
+
+// A static export has no server to render products added after the build
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return products.map(({ slug }) => ({ slug }));
+}
+
+export function generateMetadata({ params }: Params): Metadata {
+  const product = getProduct(params.slug);
+  if (!product) return {};
+
+  const title = product.name + ${titleSuffix};
+  const url = \`/shop/\${product.slug}/\`;
+  return {
+    title: { absolute: title },
+    description: product.description,
+    alternates: { canonical: url${feed} },
+    openGraph: {
+      type: 'website',
+      siteName: ${siteName},
+      title,
+      description: product.description,
+      url,
+      images: [product.image]
+    },
+    twitter: {
+      card: 'summary',
+      title,
+      description: product.description
+    }
+  };
+}
+
+export default function ProductPage({ params }: Params) {
+  return <Product slug={params.slug} />;
+}`;
+  }
+
+  // One static page per post compiled into src/blog/posts.json
+  private generateBlogPostRoute(context: any): string {
+    const siteName = JSON.stringify(context.businessName);
+    const titleSuffix = JSON.stringify(` | ${context.businessName}`);
+
+    return `import type { Metadata } from 'next';
+import BlogPost from '@/views/BlogPost';
+import { getPost, posts } from '@/blog/posts';
+
+interface Params {
+  params: { slug: string };
+}
+
+// A static export has no server to render posts added after the build
+export const dynamicParams = false;
+
+export function generateStaticParams() {
+  return posts.map(({ slug }) => ({ slug }));
+}
+
+export function generateMetadata({ params }: Params): Metadata {
+  const post = getPost(params.slug);
+  if (!post) return {};
+
+  const title = post.title + ${titleSuffix};
+  const url = \`/blog/\${post.slug}/\`;
+  return {
+    title: { absolute: title },
+    description: post.excerpt,
+    alternates: { canonical: url, types: { 'application/rss+xml': '/rss.xml' } },
+    openGraph: {
+      type: 'article',
+      siteName: ${siteName},
+      title,
+      description: post.excerpt,
+      url,
+      publishedTime: post.date,
+      tags: post.tags
+    },
+    twitter: {
+      card: 'summary',
+      title,
+      description: post.excerpt
+    }
+  };
+}
+
+export default function BlogPostPage({ params }: Params) {
+  return <BlogPost slug={params.slug} />;
+}`;
+  }
+
+  private generateComponents(context: any, components: TextFile[]): TextFile[] {
+    return components.map((file) =>
+      file.path === "src/components/Navigation.tsx"
+        ? {
+            ...file,
+            content: templateResolver.render(
+              "nextjs/src/components/Navigation.tsx",
+              context,
+            ),
+          }
+        : this.asClientModule(file),
+    );
+  }
+
+  // src/pages is reserved for the Pages Router, so page bodies live in src/views
+  private generateViews(pages: TextFile[]): TextFile[] {
+    return pages.map((file) =>
+      this.asClientModule({
+        ...file,
+        path: file.path.replace(/^src\/pages\//, "src/views/"),
+      }),
+    );
+  }
+
+  private asClientModule(file: TextFile): TextFile {
+    return { ...file, content: `'use client';\n\n${file.content}` };
+  }
+
+  private generateConfigFiles(context: any): GeneratedFile[] {
+    const files: GeneratedFile[] = [];
+
+    files.push({
+      path: "next.config.mjs",
+      content: `/** @type {import('next').NextConfig} */
+const nextConfig = {
+  // Static HTML export: every route is prerendered into out/ for static hosts
+  output: 'export',
+  trailingSlash: true,
+  images: {
+    unoptimized: true
+  }
+};${new DevServerProxy().getNextRewrites(context)}
+
+export default nextConfig;`,
+      type: "js",
+    });
+
+    files.push({
+      path: "netlify.toml",
+      content: `[build]
+  command = "npm run build"
+  publish = "out"`,
+      type: "toml",
+    });
+
+    files.push({
+      path: "tsconfig.json",
+      content: `{
+  "compilerOptions": {
+    "target": "ES2020",
+    "lib": ["dom", "dom.iterable", "esnext"],
+    "allowJs": true,
+    "skipLibCheck": true,
+    "strict": true,
+    "noEmit": true,
+    "esModuleInterop": true,
+    "module": "esnext",
+    "moduleResolution": "bundler",
+    "resolveJsonModule": true,
+    "isolatedModules": true,
+    "jsx": "preserve",
+    "incremental": true,
+    "plugins": [{ "name": "next" }],
+    "paths": {
+      "@/*": ["./src/*"]
+    }
+  },
+  "include": ["next-env.d.ts", "**/*.ts", "**/*.tsx", ".next/types/**/*.ts"],
+  "exclude": ["node_modules"]
+}`,
+      type: "json",
+    });
+
+    files.push({
+      path: "next-env.d.ts",
+      content: `/// <reference types="next" />
+/// <reference types="next/image-types/global" />
+
+// NOTE: This file should not be edited
+// see https://nextjs.org/docs/basic-features/typescript for more information.`,
+      type: "ts",
+    });
+
+    return files;
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * Package Name
+ * Reduces the project name to the lowercase letters, digits and hyphens
+ * that are valid in an npm package name and an Angular project key, and
+ * that pass through shell commands and file paths unquoted.
+ */
+
+export function getPackageName(context: any): string {
+  const name = String(context.projectName ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return name || "my-pwa";
+}
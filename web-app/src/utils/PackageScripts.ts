@@ -0,0 +1,22 @@
+/**
+ * Package Scripts
+ * Combines the npm scripts that features add to a generated package.json.
+ * npm runs a single `pre<name>` script before each command, so when two
+ * features both need a step before the same command, the steps are joined
+ * with `&&` in the order given instead of the later one replacing the
+ * earlier.
+ */
+
+export function chainScripts(
+  ...groups: Record<string, string>[]
+): Record<string, string> {
+  const scripts: Record<string, string> = {};
+  for (const group of groups) {
+    for (const [name, command] of Object.entries(group)) {
+      scripts[name] = scripts[name]
+        ? `${scripts[name]} && ${command}`
+        : command;
+    }
+  }
+  return scripts;
+}
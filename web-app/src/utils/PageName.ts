@@ -0,0 +1,40 @@
+/**
+ * Page Name
+ * Names derived from a page id, a lowercase route segment such as
+ * "wine-list": the PascalCase name its component, class and source file
+ * take, and the label visitors see when the page has none of its own.
+ */
+
+import type { NavigationEntry } from "./FeatureRegistry";
+
+const PAGE_ID_PATTERN = /^[a-z][a-z0-9]*(?:-[a-z0-9]+)*$/;
+
+// Lowercase words joined by hyphens, so every name below is valid
+export function isValidPageId(page: string): boolean {
+  return PAGE_ID_PATTERN.test(page);
+}
+
+// "wine-list" becomes "WineList"
+export function getPageComponentName(page: string): string {
+  return page
+    .split("-")
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join("");
+}
+
+// "wine-list" becomes "Wine list"
+export function getDefaultPageLabel(page: string): string {
+  const words = page.replace(/-/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * The page's name in titles: its navigation label, or the default label
+ * for pages outside the navigation.
+ */
+export function getPageLabel(context: any, page: string): string {
+  return (
+    context.navigation?.find((entry: NavigationEntry) => entry.page === page)
+      ?.label ?? getDefaultPageLabel(page)
+  );
+}
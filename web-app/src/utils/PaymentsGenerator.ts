@@ -0,0 +1,562 @@
+/**
+ * Payments Generator
+ * The Stripe integration behind PaymentForm, for every target that renders
+ * it (the payments page and the store's checkout). Card details are typed
+ * into Stripe's Payment Element, an iframe served by Stripe, so they never
+ * reach the generated app and the business stays out of PCI scope.
+ *
+ * server/payments.mjs is a small Node server that creates the
+ * PaymentIntents the form confirms; it is the only place the secret key is
+ * read, and everything it needs comes from environment variables listed in
+ * .env.example. Checkout sends it the cart's products and quantities rather
+ * than a total, and it prices them from the product catalog. STRIPE_API_BASE points it at stripe-mock, which is how the
+ * generated server test and CI exercise it without a Stripe account. The
+ * dev servers proxy /api/payments to it.
+ *
+ * The browser half is one module per project: React wraps its helpers in
+ * @stripe/react-stripe-js; Vue, Svelte and Angular mount the Payment
+ * Element through mountPaymentElement().
+ */
+
+import type { GeneratedFile } from "./GeneratedFile";
+import { CATALOG_PATH, hasStore } from "./StoreGenerator";
+
+// Stripe modules by framework, beside the other shared modules of each target
+const PAYMENTS_MODULE_PATHS: Record<string, string> = {
+  react: "src/payments/stripe.ts",
+  vue: "src/payments/stripe.ts",
+  svelte: "src/lib/payments/stripe.ts",
+  nextjs: "src/payments/stripe.ts",
+  angular: "src/app/payments/stripe.ts",
+};
+
+export const PAYMENTS_SERVER_PATH = "server/payments.mjs";
+
+export const PAYMENTS_API = "/api/payments";
+
+export const PAYMENTS_PORT = 4242;
+
+// stripe-mock's HTTP port
+export const STRIPE_MOCK_PORT = 12111;
+
+export const STRIPE_MOCK_URL = `http://localhost:${STRIPE_MOCK_PORT}`;
+
+export function hasPayments(context: any): boolean {
+  return context.components.includes("PaymentForm");
+}
+
+export class PaymentsGenerator {
+  generateFiles(context: any): GeneratedFile[] {
+    if (!hasPayments(context)) return [];
+
+    return [
+      {
+        path: PAYMENTS_SERVER_PATH,
+        content: this.generateServer(),
+        type: "js",
+      },
+      {
+        path: ".env.example",
+        content: this.generateEnvExample(),
+        type: "env",
+      },
+      {
+        path:
+          PAYMENTS_MODULE_PATHS[context.framework] ??
+          PAYMENTS_MODULE_PATHS.react,
+        content: this.generateClientModule(context),
+        type: "ts",
+      },
+    ];
+  }
+
+  getScripts(context: any): Record<string, string> {
+    return hasPayments(context)
+      ? { payments: `node --env-file=.env ${PAYMENTS_SERVER_PATH}` }
+      : {};
+  }
+
+  getReadmeSection(context: any): string {
+    if (!hasPayments(context)) return "";
+
+    return `
+## Payments
+
+Payments go through Stripe's Payment Element: card details are entered in
+a form Stripe hosts, so they never touch this app. \`${PAYMENTS_SERVER_PATH}\`
+creates a PaymentIntent for each payment; it is the only code that sees
+your secret key.
+
+1. Copy \`.env.example\` to \`.env\` and fill in your test keys from
+   https://dashboard.stripe.com/test/apikeys. Keep \`.env\` out of version
+   control.
+2. Start the payments server with \`npm run payments\` (Node 20.6 or later)
+   alongside \`npm run ${context.framework === "angular" ? "start" : "dev"}\`. The dev server forwards \`${PAYMENTS_API}\`
+   to it on port ${PAYMENTS_PORT}.
+3. Pay with Stripe's test card \`4242 4242 4242 4242\`, any future expiry
+   date and any CVC.
+${
+  hasStore(context)
+    ? `
+Checkout sends the server the products and quantities in the cart, not a
+total: the server prices them from \`${CATALOG_PATH}\`, so the amount
+cannot be changed in the browser. Keep \`PAYMENT_CURRENCY\` the same as
+the catalog's currency.
+`
+    : ""
+}
+The payment status shows the PaymentIntent's own state: succeeded,
+processing, requires_action and so on. Payment methods that leave the site
+return to the same page, which then looks the payment up again.
+
+To run the server without a Stripe account, start
+[stripe-mock](https://github.com/stripe/stripe-mock):
+
+\`\`\`bash
+docker run --rm -p ${STRIPE_MOCK_PORT}:${STRIPE_MOCK_PORT} stripe/stripe-mock
+\`\`\`
+
+and set \`STRIPE_API_BASE=${STRIPE_MOCK_URL}\` in \`.env\`.${
+      context.testing && context.framework !== "angular"
+        ? ` The server's tests
+also create a PaymentIntent when \`STRIPE_API_BASE\` points at stripe-mock
+and skip that case otherwise.`
+        : ""
+    }
+
+In production, deploy \`${PAYMENTS_SERVER_PATH}\` with the same variables and
+route \`${PAYMENTS_API}\` on your site's domain to it.
+`;
+  }
+
+  private generateEnvExample(): string {
+    return `# Read by ${PAYMENTS_SERVER_PATH}; copy to .env and keep that file private
+
+# API keys: https://dashboard.stripe.com/test/apikeys
+STRIPE_SECRET_KEY=sk_test_replace_me
+STRIPE_PUBLISHABLE_KEY=pk_test_replace_me
+
+# ISO 4217 code of the currency payments are taken in. Amounts are scaled
+# by its decimal places, so zero-decimal currencies such as jpy work too
+PAYMENT_CURRENCY=usd
+
+# Port the payments server listens on; the dev server proxies ${PAYMENTS_API} here
+PAYMENTS_PORT=${PAYMENTS_PORT}
+
+# Send API calls to stripe-mock instead of Stripe
+# STRIPE_API_BASE=${STRIPE_MOCK_URL}
+`;
+  }
+
+  private generateServer(): string {
+    return `/**
+ * Creates the Stripe PaymentIntents the payment form confirms, so the
+ * secret key stays on the server. \`npm run payments\` starts it with the
+ * variables in .env:
+ *
+ *   STRIPE_SECRET_KEY       secret API key, sk_test_... while testing
+ *   STRIPE_PUBLISHABLE_KEY  handed to the browser for Stripe.js
+ *   PAYMENT_CURRENCY        ISO 4217 currency code, usd by default
+ *   PAYMENTS_PORT           port to listen on, ${PAYMENTS_PORT} by default
+ *   STRIPE_API_BASE         stripe-mock's URL, e.g. ${STRIPE_MOCK_URL}, to
+ *                           test without a Stripe account
+ *
+ * GET  ${PAYMENTS_API}/config   the publishable key and currency
+ * POST ${PAYMENTS_API}/intents  { items: [{ productId, quantity }] } from
+ *                               checkout, priced from ${CATALOG_PATH},
+ *                               or { amount } in the currency's smallest
+ *                               unit from the payment page; answers with
+ *                               the intent's client secret
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import { createServer } from 'node:http';
+import { pathToFileURL } from 'node:url';
+import Stripe from 'stripe';
+
+// Stripe's ceiling for one payment, in the currency's smallest unit
+const MAX_AMOUNT = 99999999;
+
+// The cart's own limits
+const MAX_ORDER_LINES = 100;
+const MAX_QUANTITY = 99;
+
+// Stripe's limit for one metadata value
+const MAX_METADATA_LENGTH = 500;
+
+const MAX_BODY_BYTES = 10 * 1024;
+
+class RequestError extends Error {}
+
+// The store's products; a site without a store sells none
+export function loadProducts(path = '${CATALOG_PATH}') {
+  return existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')).products : [];
+}
+
+// Smallest units per whole unit of the currency: 100 for USD, 1 for JPY.
+// Throws a RangeError for a code that is not ISO 4217
+export function getMinorUnitScale(currency) {
+  const { maximumFractionDigits } = new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions();
+  return 10 ** maximumFractionDigits;
+}
+
+// The order's total in the currency's smallest unit, from the catalog's
+// prices rather than anything the browser says the cart costs
+export function priceOrder(items, products, currency = 'usd') {
+  const scale = getMinorUnitScale(currency);
+  if (!Array.isArray(items) || items.length === 0 || items.length > MAX_ORDER_LINES) {
+    throw new RequestError(\`items must list from 1 to \${MAX_ORDER_LINES} products\`);
+  }
+  return items.reduce((total, item) => {
+    const product = products.find((candidate) => candidate.slug === item?.productId);
+    if (!product) throw new RequestError(\`Unknown product: \${item?.productId}\`);
+    if (!product.inStock) throw new RequestError(\`\${product.name} is out of stock\`);
+    if (!Number.isInteger(item.quantity) || item.quantity < 1 || item.quantity > MAX_QUANTITY) {
+      throw new RequestError(\`quantity must be a whole number from 1 to \${MAX_QUANTITY}\`);
+    }
+    return total + Math.round(product.price * scale) * item.quantity;
+  }, 0);
+}
+
+export function createStripe(env = process.env) {
+  if (!env.STRIPE_SECRET_KEY) {
+    throw new Error('STRIPE_SECRET_KEY is not set; copy .env.example to .env and add your keys');
+  }
+  const api = env.STRIPE_API_BASE ? new URL(env.STRIPE_API_BASE) : null;
+  return new Stripe(
+    env.STRIPE_SECRET_KEY,
+    api ? { host: api.hostname, port: api.port, protocol: api.protocol.replace(':', '') } : {}
+  );
+}
+
+export function createPaymentsServer({ stripe, publishableKey, currency = 'usd', products = [] }) {
+  // An unknown currency fails here rather than on the first checkout
+  getMinorUnitScale(currency);
+  return createServer(async (request, response) => {
+    // Next.js sends paths with its trailing slash
+    const pathname = new URL(request.url ?? '/', 'http://localhost').pathname.replace(/\\/+$/, '');
+
+    try {
+      if (request.method === 'GET' && pathname === '${PAYMENTS_API}/config') {
+        send(response, 200, { publishableKey, currency });
+      } else if (request.method === 'POST' && pathname === '${PAYMENTS_API}/intents') {
+        const { items, ...payment } = await readJson(request);
+        // Only the payment page names its own amount
+        const amount = items === undefined ? payment.amount : priceOrder(items, products, currency);
+        if (!Number.isInteger(amount) || amount < 1 || amount > MAX_AMOUNT) {
+          throw new RequestError('amount must be a whole number of the currency\\'s smallest unit');
+        }
+        const intent = await stripe.paymentIntents.create({
+          amount,
+          currency,
+          // The Payment Element offers the methods enabled in the Stripe dashboard
+          automatic_payment_methods: { enabled: true },
+          // What was ordered, for the Stripe dashboard
+          ...(items && {
+            metadata: {
+              order: items
+                .map(({ productId, quantity }) => \`\${quantity} × \${productId}\`)
+                .join(', ')
+                .slice(0, MAX_METADATA_LENGTH)
+            }
+          })
+        });
+        send(response, 200, { clientSecret: intent.client_secret, status: intent.status });
+      } else {
+        send(response, 404, { error: 'Not found' });
+      }
+    } catch (error) {
+      if (error instanceof RequestError || error instanceof Stripe.errors.StripeInvalidRequestError) {
+        // Describes the request, e.g. an amount below the currency's minimum
+        send(response, 400, { error: error.message });
+      } else {
+        console.error(error);
+        send(response, 502, { error: 'The payment could not be started' });
+      }
+    }
+  });
+}
+
+async function readJson(request) {
+  let body = '';
+  for await (const chunk of request) {
+    body += chunk;
+    if (body.length > MAX_BODY_BYTES) throw new RequestError('Request body is too large');
+  }
+  try {
+    const payload = JSON.parse(body || '{}');
+    return payload && typeof payload === 'object' ? payload : {};
+  } catch {
+    throw new RequestError('Request body is not valid JSON');
+  }
+}
+
+function send(response, status, body) {
+  response.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  response.end(JSON.stringify(body));
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = Number(process.env.PAYMENTS_PORT || ${PAYMENTS_PORT});
+  if (!process.env.STRIPE_PUBLISHABLE_KEY) {
+    console.warn('STRIPE_PUBLISHABLE_KEY is not set; the payment form cannot load Stripe.js');
+  }
+  createPaymentsServer({
+    stripe: createStripe(),
+    publishableKey: process.env.STRIPE_PUBLISHABLE_KEY ?? '',
+    currency: (process.env.PAYMENT_CURRENCY || 'usd').toLowerCase(),
+    products: loadProducts()
+  }).listen(port, () => {
+    console.log(\`Payments server listening on http://localhost:\${port}\`);
+  });
+}
+`;
+  }
+
+  private generateClientModule(context: any): string {
+    // The frameworks without an official Stripe binding mount the element
+    // themselves
+    const mount =
+      context.framework === "react" || context.framework === "nextjs"
+        ? ""
+        : `
+
+export interface PaymentElementHandle {
+  // Follows the amount the form will charge
+  update(amount: number): void;
+  pay(order: PaymentOrder, email: string): Promise<PaymentResult>;
+  destroy(): void;
+}
+
+export async function mountPaymentElement(container: HTMLElement, amount: number): Promise<PaymentElementHandle> {
+  const { stripe, currency } = await loadPayments();
+  const elements = stripe.elements(getElementsOptions(amount, currency));
+  const element = elements.create('payment');
+  element.mount(container);
+
+  return {
+    update: (next) => elements.update({ amount: toElementsAmount(next, currency) }),
+    pay: (order, email) => pay(stripe, elements, order, email),
+    destroy: () => element.destroy()
+  };
+}`;
+
+    return `// Stripe Payment Element helpers for the payment form. Card details go from
+// Stripe's iframe straight to Stripe; this app only handles the
+// PaymentIntent that ${PAYMENTS_SERVER_PATH} creates for each payment.
+
+import {
+  loadStripe,
+  type PaymentIntent,
+  type Stripe,
+  type StripeElements,
+  type StripeElementsOptionsMode
+} from '@stripe/stripe-js';
+
+// ${PAYMENTS_SERVER_PATH}, behind the dev server's proxy
+const API_URL = '${PAYMENTS_API}';
+
+// Before the form is sent, while it is, the PaymentIntent's status once
+// Stripe has answered, or an error that stopped the payment
+export type PaymentState = 'idle' | 'submitting' | PaymentIntent.Status | 'failed';
+
+export interface PaymentResult {
+  status: PaymentState;
+  // In the currency's smallest unit, as Stripe reports it
+  amount?: number;
+  currency?: string;
+  // The PaymentIntent id, to quote to support
+  reference?: string;
+  error?: string;
+}
+
+export interface Payments {
+  stripe: Stripe;
+  currency: string;
+}
+
+// A product and how many of it, as checkout orders it
+export interface OrderLine {
+  productId: string;
+  quantity: number;
+}
+
+// Checkout's cart lines, which the server prices itself, or the amount
+// entered on the payment page
+export type PaymentOrder = { items: OrderLine[] } | { amount: number };
+
+export interface PaymentStatusDisplay {
+  icon: string;
+  // Colours the icon: pending, processing, success or error
+  tone: string;
+  title: string;
+  message: string;
+}
+
+// What the payment status panel says in each state
+export const PAYMENT_STATUS_DISPLAY: Record<PaymentState, PaymentStatusDisplay> = {
+  idle: {
+    icon: '⏳',
+    tone: 'pending',
+    title: 'Ready to Pay',
+    message: 'Complete the payment form to pay securely with Stripe'
+  },
+  submitting: {
+    icon: '🔄',
+    tone: 'processing',
+    title: 'Processing Payment',
+    message: 'Please wait while we confirm your payment...'
+  },
+  requires_payment_method: {
+    icon: '❌',
+    tone: 'error',
+    title: 'Payment Declined',
+    message: 'Your payment was not successful. Please try another payment method'
+  },
+  requires_confirmation: {
+    icon: '⏳',
+    tone: 'pending',
+    title: 'Awaiting Confirmation',
+    message: 'The payment has not been confirmed yet'
+  },
+  requires_action: {
+    icon: '🔐',
+    tone: 'pending',
+    title: 'Verification Required',
+    message: 'Complete the check your bank asked for to finish paying'
+  },
+  processing: {
+    icon: '🔄',
+    tone: 'processing',
+    title: 'Payment Processing',
+    message: "Your payment is being processed. We'll email a receipt once it completes"
+  },
+  requires_capture: {
+    icon: '✅',
+    tone: 'success',
+    title: 'Payment Authorized',
+    message: 'Your payment is authorized and will be collected shortly'
+  },
+  succeeded: {
+    icon: '✅',
+    tone: 'success',
+    title: 'Payment Successful',
+    message: 'Your payment has been processed successfully'
+  },
+  canceled: {
+    icon: '✖️',
+    tone: 'error',
+    title: 'Payment Canceled',
+    message: 'This payment was canceled and you have not been charged'
+  },
+  failed: {
+    icon: '❌',
+    tone: 'error',
+    title: 'Payment Failed',
+    message: 'There was an error processing your payment'
+  }
+};
+
+let payments: Promise<Payments> | undefined;
+
+// The server supplies the publishable key and currency, so they are
+// configured in one place; a failed load is retried on the next call
+export function loadPayments(): Promise<Payments> {
+  payments ??= fetch(\`\${API_URL}/config\`)
+    .then((response) => {
+      if (!response.ok) throw new Error(\`Payments config request failed with \${response.status}\`);
+      return response.json() as Promise<{ publishableKey: string; currency: string }>;
+    })
+    .then(async ({ publishableKey, currency }) => {
+      const stripe = await loadStripe(publishableKey);
+      if (!stripe) throw new Error('Stripe.js could not be loaded');
+      return { stripe, currency };
+    })
+    .catch((error) => {
+      payments = undefined;
+      throw error;
+    });
+  return payments;
+}
+
+// Smallest units per whole unit of the currency: 100 for USD, 1 for JPY
+function getMinorUnitScale(currency: string): number {
+  const { maximumFractionDigits } = new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions();
+  return 10 ** (maximumFractionDigits ?? 2);
+}
+
+export function toMinorUnits(amount: number, currency: string): number {
+  return Math.round(amount * getMinorUnitScale(currency));
+}
+
+// Until an amount is entered the element is set up for one unit of the currency
+function toElementsAmount(amount: number, currency: string): number {
+  const minorUnits = toMinorUnits(amount, currency);
+  return minorUnits > 0 ? minorUnits : getMinorUnitScale(currency);
+}
+
+// The intent is only created on submit, once the amount is final
+export function getElementsOptions(amount: number, currency: string): StripeElementsOptionsMode {
+  return { mode: 'payment', amount: toElementsAmount(amount, currency), currency };
+}
+
+// Money has been taken or is on its way
+export function isPaid(status: PaymentState): boolean {
+  return status === 'succeeded' || status === 'processing' || status === 'requires_capture';
+}
+
+export function formatAmount(result: PaymentResult, locale?: string): string {
+  if (result.amount === undefined || !result.currency) return '';
+  return new Intl.NumberFormat(locale, { style: 'currency', currency: result.currency }).format(
+    result.amount / getMinorUnitScale(result.currency)
+  );
+}
+
+function describe(intent: PaymentIntent): PaymentResult {
+  return { status: intent.status, amount: intent.amount, currency: intent.currency, reference: intent.id };
+}
+
+export async function pay(
+  stripe: Stripe,
+  elements: StripeElements,
+  order: PaymentOrder,
+  email: string
+): Promise<PaymentResult> {
+  // Checks the Payment Element's fields before an intent is created
+  const { error: fieldError } = await elements.submit();
+  if (fieldError) return { status: 'failed', error: fieldError.message };
+  const { currency } = await loadPayments();
+
+  const response = await fetch(\`\${API_URL}/intents\`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify('items' in order ? { items: order.items } : { amount: toMinorUnits(order.amount, currency) })
+  }).catch(() => null);
+  const body = response ? await response.json().catch(() => ({})) : {};
+  if (!response?.ok) return { status: 'failed', error: body.error ?? 'The payment could not be started' };
+
+  const result = await stripe.confirmPayment({
+    elements,
+    clientSecret: body.clientSecret,
+    confirmParams: { return_url: window.location.href, receipt_email: email },
+    // Cards finish here; methods that leave the site come back to return_url
+    redirect: 'if_required'
+  });
+  if (result.error) {
+    return { status: 'failed', error: result.error.message, reference: result.error.payment_intent?.id };
+  }
+  return describe(result.paymentIntent);
+}
+
+// After a redirect the intent's client secret is in the query string
+export async function getReturnedPayment(): Promise<PaymentResult | null> {
+  const clientSecret = new URLSearchParams(window.location.search).get('payment_intent_client_secret');
+  if (!clientSecret) return null;
+
+  const { stripe } = await loadPayments();
+  const result = await stripe.retrievePaymentIntent(clientSecret);
+  return result.error ? { status: 'failed', error: result.error.message } : describe(result.paymentIntent);
+}${mount}
+`;
+  }
+}
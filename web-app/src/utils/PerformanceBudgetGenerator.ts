@@ -0,0 +1,319 @@
+/**
+ * Performance Budget Generator
+ * Turns the AI recommendations' Core Web Vitals targets and size budgets
+ * into files that enforce them: a lighthouserc.json whose assertions fail
+ * Lighthouse CI when a page misses them, and a size check that fails
+ * `npm run build` when a script or stylesheet outgrows the budget: a build
+ * plugin for the Vite-based targets, a postbuild script for the Next.js
+ * export and the Angular CLI's own bundle budgets in angular.json.
+ * Projects generated without recommendations get the same defaults the AI
+ * fallback proposes.
+ */
+
+import type { AIRecommendations } from "../services/aiService";
+import type { GeneratedFile } from "./GeneratedFile";
+import { getPackageName } from "./PackageName";
+
+export interface PerformanceBudget {
+  // Largest Contentful Paint, in milliseconds
+  lcpMs: number;
+  // First Input Delay, in milliseconds; Lighthouse checks max-potential-fid
+  fidMs: number;
+  cls: number;
+  // Per-file limits, gzipped
+  javascriptKb: number;
+  cssKb: number;
+}
+
+const DEFAULT_BUDGET: PerformanceBudget = {
+  lcpMs: 2500,
+  fidMs: 100,
+  cls: 0.1,
+  javascriptKb: 200,
+  cssKb: 50,
+};
+
+// Where each framework's production build lands, for Lighthouse CI to serve
+const STATIC_DIST_DIRS: Record<string, (context: any) => string> = {
+  react: () => "./dist",
+  vue: () => "./dist",
+  svelte: () => "./build",
+  nextjs: () => "./out",
+  angular: (context) => `./dist/${getPackageName(context)}/browser`,
+};
+
+export function getStaticDistDir(context: any): string {
+  return (STATIC_DIST_DIRS[context.framework] ?? STATIC_DIST_DIRS.react)(
+    context,
+  );
+}
+
+// The Vite-based targets; Next.js and Angular bundle with their own tooling
+const VITE_FRAMEWORKS = ["react", "vue", "svelte"];
+
+/**
+ * Reads the budget from the recommendations. performanceGoals wins over the
+ * older recommendations.performance targets; anything missing or
+ * unparsable falls back to the defaults.
+ */
+export function resolvePerformanceBudget(
+  recommendations?: AIRecommendations,
+): PerformanceBudget {
+  const vitals = recommendations?.performanceGoals?.coreWebVitals;
+  const targets = recommendations?.recommendations?.performance;
+  const budgets = recommendations?.performanceGoals?.budgets;
+
+  // LCP is given in seconds, FID in milliseconds
+  const lcpSeconds = positive(vitals?.LCP) ?? positive(targets?.lcp);
+  return {
+    lcpMs: lcpSeconds ? Math.round(lcpSeconds * 1000) : DEFAULT_BUDGET.lcpMs,
+    fidMs:
+      positive(vitals?.FID) ?? positive(targets?.fid) ?? DEFAULT_BUDGET.fidMs,
+    cls: positive(vitals?.CLS) ?? positive(targets?.cls) ?? DEFAULT_BUDGET.cls,
+    javascriptKb:
+      parseKilobytes(budgets?.javascript) ?? DEFAULT_BUDGET.javascriptKb,
+    cssKb: parseKilobytes(budgets?.css) ?? DEFAULT_BUDGET.cssKb,
+  };
+}
+
+function positive(value: unknown): number | undefined {
+  return typeof value === "number" && value > 0 ? value : undefined;
+}
+
+// "200KB", "1.5 MB" or "512b"; a bare number is taken as kilobytes
+function parseKilobytes(size: string | undefined): number | undefined {
+  const match = size?.trim().match(/^(\d+(?:\.\d+)?)\s*(b|kb|mb)?$/i);
+  if (!match) return undefined;
+  const value = parseFloat(match[1]);
+  const unit = (match[2] ?? "kb").toLowerCase();
+  const kilobytes =
+    unit === "mb" ? value * 1024 : unit === "b" ? value / 1024 : value;
+  return kilobytes > 0 ? kilobytes : undefined;
+}
+
+export class PerformanceBudgetGenerator {
+  generateFiles(context: any): GeneratedFile[] {
+    const files: GeneratedFile[] = [
+      {
+        path: "lighthouserc.json",
+        content: this.generateLighthouseConfig(context),
+        type: "json",
+      },
+    ];
+
+    if (VITE_FRAMEWORKS.includes(context.framework)) {
+      files.push({
+        path: "scripts/chunk-budget.mjs",
+        content: this.generateChunkBudgetPlugin(),
+        type: "js",
+      });
+    } else if (context.framework === "nextjs") {
+      files.push({
+        path: "scripts/check-bundle-size.mjs",
+        content: this.generateBundleSizeScript(),
+        type: "js",
+      });
+    }
+
+    return files;
+  }
+
+  /**
+   * The import and plugin call the Vite config generators splice into
+   * vite.config.ts.
+   */
+  getVitePlugin(context: any): { importLine: string; call: string } {
+    const { javascriptKb, cssKb } = context.performanceBudget;
+    return {
+      importLine: "import { chunkBudget } from './scripts/chunk-budget.mjs'",
+      call: `chunkBudget({ javascriptKb: ${javascriptKb}, cssKb: ${cssKb} })`,
+    };
+  }
+
+  /**
+   * The postbuild step that checks the Next.js export; package.json
+   * generators chain it with their other postbuild scripts.
+   */
+  getScripts(context: any): Record<string, string> {
+    if (context.framework !== "nextjs") return {};
+
+    const { javascriptKb, cssKb } = context.performanceBudget;
+    return {
+      postbuild: `node scripts/check-bundle-size.mjs out/_next/static ${javascriptKb} ${cssKb}`,
+    };
+  }
+
+  /**
+   * The production budgets for angular.json. The Angular CLI measures files
+   * before compression, so the same numbers are stricter there.
+   */
+  getAngularBudgets(context: any): Record<string, string>[] {
+    const { javascriptKb, cssKb } = context.performanceBudget;
+    return [
+      { type: "anyScript", maximumError: `${Math.ceil(javascriptKb)}kb` },
+      { type: "anyStyle", maximumError: `${Math.ceil(cssKb)}kb` },
+      { type: "anyComponentStyle", maximumError: `${Math.ceil(cssKb)}kb` },
+    ];
+  }
+
+  getReadmeSection(context: any): string {
+    const budget: PerformanceBudget = context.performanceBudget;
+    const buildCheck = VITE_FRAMEWORKS.includes(context.framework)
+      ? `\`npm run build\` fails when any JavaScript chunk is over
+${budget.javascriptKb} KB or any stylesheet over ${budget.cssKb} KB, gzipped
+(\`scripts/chunk-budget.mjs\`; the limits are set in \`vite.config\`).
+Split large routes with dynamic \`import()\` rather than raising them.`
+      : context.framework === "angular"
+        ? `\`npm run build\` fails when any script is over
+${Math.ceil(budget.javascriptKb)} KB or any stylesheet over ${Math.ceil(budget.cssKb)} KB
+(the \`budgets\` of the production configuration in \`angular.json\`). The
+Angular CLI measures files before compression, so this is stricter than the
+gzipped budget above.`
+        : `\`npm run build\` fails when any JavaScript file is over
+${budget.javascriptKb} KB or any stylesheet over ${budget.cssKb} KB, gzipped
+(\`scripts/check-bundle-size.mjs\`, run as \`postbuild\`; the limits are
+set in \`package.json\`).`;
+
+    return `
+## Performance Budgets
+
+| Metric | Budget |
+| --- | --- |
+| Largest Contentful Paint | ${budget.lcpMs / 1000} s |
+| First Input Delay (Lighthouse: max potential FID) | ${budget.fidMs} ms |
+| Cumulative Layout Shift | ${budget.cls} |
+| JavaScript per page | ${budget.javascriptKb} KB |
+| CSS per page | ${budget.cssKb} KB |
+
+${buildCheck}
+
+\`lighthouserc.json\` asserts the same numbers against the production build:
+\`\`\`bash
+npm run build
+npx @lhci/cli autorun
+\`\`\`
+Reports are written to \`.lighthouseci/\`. Max potential FID is a lab
+estimate of the worst case, so it only warns.
+`;
+  }
+
+  private generateLighthouseConfig(context: any): string {
+    const budget: PerformanceBudget = context.performanceBudget;
+    const staticDistDir = getStaticDistDir(context);
+
+    return JSON.stringify(
+      {
+        ci: {
+          collect: { staticDistDir, numberOfRuns: 3 },
+          assert: {
+            assertions: {
+              "largest-contentful-paint": [
+                "error",
+                { maxNumericValue: budget.lcpMs, aggregationMethod: "median" },
+              ],
+              "cumulative-layout-shift": [
+                "error",
+                { maxNumericValue: budget.cls, aggregationMethod: "median" },
+              ],
+              "max-potential-fid": [
+                "warn",
+                { maxNumericValue: budget.fidMs, aggregationMethod: "median" },
+              ],
+              "resource-summary:script:size": [
+                "error",
+                { maxNumericValue: Math.round(budget.javascriptKb * 1024) },
+              ],
+              "resource-summary:stylesheet:size": [
+                "error",
+                { maxNumericValue: Math.round(budget.cssKb * 1024) },
+              ],
+            },
+          },
+          upload: { target: "filesystem", outputDir: ".lighthouseci" },
+        },
+      },
+      null,
+      2,
+    );
+  }
+
+  private generateChunkBudgetPlugin(): string {
+    return `// Fails the production build when a JavaScript chunk or a stylesheet is
+// larger, gzipped, than the performance budget in the README.
+
+import { gzipSync } from 'node:zlib';
+
+/**
+ * @param {{ javascriptKb: number, cssKb: number }} budget
+ * @returns {import('vite').Plugin}
+ */
+export function chunkBudget({ javascriptKb, cssKb }) {
+  let ssr = false;
+
+  return {
+    name: 'chunk-budget',
+    apply: 'build',
+    configResolved(config) {
+      // Server bundles are never downloaded, so only the client build counts
+      ssr = !!config.build.ssr;
+    },
+    generateBundle(_options, bundle) {
+      if (ssr) return;
+
+      const oversized = Object.values(bundle).flatMap((output) => {
+        const isScript = output.type === 'chunk';
+        if (!isScript && !output.fileName.endsWith('.css')) return [];
+
+        const source = isScript ? output.code : output.source;
+        const kilobytes = gzipSync(source).length / 1024;
+        const limit = isScript ? javascriptKb : cssKb;
+        return kilobytes > limit
+          ? [\`\${output.fileName}: \${kilobytes.toFixed(1)} KB (budget \${limit} KB)\`]
+          : [];
+      });
+
+      if (oversized.length > 0) {
+        this.error(\`Over the performance budget:\\n  \${oversized.join('\\n  ')}\`);
+      }
+    }
+  };
+}
+`;
+  }
+
+  private generateBundleSizeScript(): string {
+    return `// Fails the build when a JavaScript file or a stylesheet in the static
+// export is larger, gzipped, than the performance budget in the README.
+// Runs as the postbuild script:
+//   node scripts/check-bundle-size.mjs <dir> <javascriptKb> <cssKb>
+
+import { readFileSync, readdirSync, statSync } from 'node:fs';
+import { join } from 'node:path';
+import { gzipSync } from 'node:zlib';
+
+const [dir, javascriptKb, cssKb] = process.argv.slice(2);
+const limits = { '.js': Number(javascriptKb), '.css': Number(cssKb) };
+
+function listFiles(path) {
+  return statSync(path).isDirectory()
+    ? readdirSync(path).flatMap((entry) => listFiles(join(path, entry)))
+    : [path];
+}
+
+const oversized = listFiles(dir).flatMap((file) => {
+  const limit = limits[file.slice(file.lastIndexOf('.'))];
+  if (!limit) return [];
+
+  const kilobytes = gzipSync(readFileSync(file)).length / 1024;
+  return kilobytes > limit
+    ? [\`\${file}: \${kilobytes.toFixed(1)} KB (budget \${limit} KB)\`]
+    : [];
+});
+
+if (oversized.length > 0) {
+  console.error(\`Over the performance budget:\\n  \${oversized.join('\\n  ')}\`);
+  process.exit(1);
+}
+`;
+  }
+}
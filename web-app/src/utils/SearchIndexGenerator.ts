@@ -0,0 +1,527 @@
+/**
+ * Search Index Generator
+ * The site search behind the Search page. scripts/search-index.mjs builds
+ * search-index.json at build time: one entry (title, excerpt, url, tags)
+ * per generated page, per service in src/content/site.json, per blog post
+ * and per product. On the Vite targets the script is a plugin that serves
+ * the index from the current files in development and writes it next to
+ * the app on every build; Next.js and the Angular CLI run it before each
+ * build instead, writing public/search-index.json.
+ *
+ * The browser fetches the index once and matches it with Fuse.js, so
+ * misspelled words still find results, and the service workers precache
+ * it so searching keeps working offline.
+ */
+
+import { hasBlog } from "./BlogGenerator";
+import type { GeneratedFile } from "./GeneratedFile";
+import { getPageLabel } from "./PageName";
+import { SeoGenerator } from "./SeoGenerator";
+import { hasStore } from "./StoreGenerator";
+
+// Search modules by framework, beside the other shared modules of each target
+const SEARCH_MODULE_DIRS: Record<string, string> = {
+  react: "src/search",
+  vue: "src/search",
+  svelte: "src/lib/search",
+  nextjs: "src/search",
+  angular: "src/app/search",
+};
+
+const VITE_FRAMEWORKS = ["react", "vue", "svelte"];
+
+export const SEARCH_INDEX_FILE = "search-index.json";
+
+// Forms and account pages have nothing to find
+const UNINDEXED_PAGES = [
+  "search",
+  "login",
+  "register",
+  "profile",
+  "cart",
+  "checkout",
+];
+
+// Pages whose copy is not in site.json; the rest fall back to the site
+// description
+const PAGE_EXCERPTS: Record<string, (businessName: string) => string> = {
+  gallery: (name) => `Photos of work by ${name}.`,
+  testimonials: (name) => `What our clients say about ${name}.`,
+  reviews: (name) => `Customer reviews of ${name}.`,
+  chat: () => "Chat with our team and get answers right away.",
+  booking: () => "Book an appointment online at a time that suits you.",
+  payments: () => "Make a secure payment online.",
+  locations: (name) => `Find ${name} near you.`,
+  blog: (name) => `News, tips and insights from ${name}.`,
+  shop: (name) => `Shop the ${name} range online.`,
+};
+
+interface IndexedPage {
+  page: string;
+  title: string;
+  url: string;
+  excerpt: string;
+}
+
+export function hasSearch(context: any): boolean {
+  return context.pages.includes("search");
+}
+
+export function getSearchModuleDir(context: any): string {
+  return SEARCH_MODULE_DIRS[context.framework] ?? SEARCH_MODULE_DIRS.react;
+}
+
+export class SearchIndexGenerator {
+  generateFiles(context: any): GeneratedFile[] {
+    return [
+      {
+        path: "scripts/search-index.mjs",
+        content: this.generateBuildScript(context),
+        type: "js",
+      },
+      {
+        path: `${getSearchModuleDir(context)}/siteSearch.ts`,
+        content: this.generateSearchModule(),
+        type: "ts",
+      },
+    ];
+  }
+
+  /**
+   * The import and plugin call the Vite config generators splice into
+   * vite.config.ts, or null when the project has no search page.
+   */
+  getVitePlugin(context: any): { importLine: string; call: string } | null {
+    return hasSearch(context) && VITE_FRAMEWORKS.includes(context.framework)
+      ? {
+          importLine:
+            "import { searchIndex } from './scripts/search-index.mjs'",
+          call: "searchIndex()",
+        }
+      : null;
+  }
+
+  /**
+   * npm scripts that write the index ahead of the dev server and the build,
+   * for the targets the Vite plugin cannot serve.
+   */
+  getScripts(context: any): Record<string, string> {
+    if (!hasSearch(context)) return {};
+    const build = "node scripts/search-index.mjs";
+    switch (context.framework) {
+      case "nextjs":
+        return { predev: build, prebuild: build };
+      case "angular":
+        return { prestart: build, prebuild: build };
+      default:
+        return {};
+    }
+  }
+
+  getReadmeSection(context: any): string {
+    if (!hasSearch(context)) return "";
+    const viteBuild = VITE_FRAMEWORKS.includes(context.framework);
+    const sources = [
+      "the pages",
+      "the services in `src/content/site.json`",
+      hasBlog(context) && "the blog posts",
+      hasStore(context) && "the products in `src/content/products.json`",
+    ].filter(Boolean);
+
+    return `
+## Site search
+
+The Search page looks through an index of ${sources
+      .slice(0, -1)
+      .join(", ")} and ${sources[sources.length - 1]}. ${
+      viteBuild
+        ? `\`scripts/search-index.mjs\` is a Vite plugin: \`npm run dev\` builds the index
+from the current files on every request, and \`npm run build\` writes
+\`${SEARCH_INDEX_FILE}\` to the output.`
+        : `\`scripts/search-index.mjs\` writes it to \`public/${SEARCH_INDEX_FILE}\` before
+\`npm run ${context.framework === "angular" ? "start" : "dev"}\` and \`npm run build\`; run it yourself to pick up edits
+while the dev server is up.`
+    }
+
+Each entry keeps a title, a short excerpt, its URL and its tags. The
+browser downloads the index once and matches it with Fuse.js, so a typo
+still finds the page, and matched words are highlighted in the results.
+The service worker precaches the index, so search works offline too.
+Page titles and excerpts come from \`scripts/search-index.mjs\`; edit them
+there.
+`;
+  }
+
+  private getPages(context: any): IndexedPage[] {
+    const seo = new SeoGenerator();
+    const description = seo.getStrategy(context).description;
+
+    return seo
+      .getRoutes(context)
+      .filter((route) => !UNINDEXED_PAGES.includes(route.page))
+      .map((route) => ({
+        page: route.page,
+        title: getPageLabel(context, route.page),
+        url: route.path,
+        excerpt:
+          PAGE_EXCERPTS[route.page]?.(context.businessName) ?? description,
+      }));
+  }
+
+  private generateBuildScript(context: any): string {
+    const viteBuild = VITE_FRAMEWORKS.includes(context.framework);
+    const blog = hasBlog(context);
+    const store = hasStore(context);
+    // Next.js exports every page as a directory
+    const trailingSlash = context.framework === "nextjs" ? "/" : "";
+    const servicesUrl = context.pages.includes("services")
+      ? `/services${trailingSlash}`
+      : "/";
+
+    const header = viteBuild
+      ? `// Builds the site search index from the pages, the services and contact
+// details in src/content/site.json${blog ? ", the blog posts in src/posts" : ""}${
+          store ? "\n// and the products in src/content/products.json" : ""
+        }. The dev server answers
+// /${SEARCH_INDEX_FILE} from the current files; builds write it next to the app,
+// where the service worker precaches it for offline searches.`
+      : `// Builds the site search index from the pages, the services and contact
+// details in src/content/site.json${blog ? ", the blog posts in src/posts" : ""}${
+          store ? "\n// and the products in src/content/products.json" : ""
+        }, and writes it to
+// public/${SEARCH_INDEX_FILE}. package.json runs this before the dev server and
+// every build.`;
+
+    const imports = [
+      viteBuild
+        ? `import { existsSync, ${blog ? "readdirSync, " : ""}readFileSync } from 'node:fs';`
+        : `import { existsSync, ${blog ? "readdirSync, " : ""}readFileSync, writeFileSync } from 'node:fs';`,
+      blog && "import { basename, join } from 'node:path';",
+      !viteBuild && "import { pathToFileURL } from 'node:url';",
+      blog && "import matter from 'gray-matter';",
+    ].filter(Boolean);
+
+    const postEntries = blog
+      ? `
+/**
+ * The blog posts, newest first, with the excerpt from their frontmatter or
+ * else their first paragraph
+ * @returns {SearchEntry[]}
+ */
+function postEntries() {
+  if (!existsSync('src/posts')) return [];
+  return readdirSync('src/posts')
+    .filter((file) => file.endsWith('.md'))
+    .map((file) => {
+      const { data, content } = matter(readFileSync(join('src/posts', file), 'utf8'));
+      const slug = basename(file, '.md');
+      return {
+        date: data.date instanceof Date ? data.date.toISOString() : String(data.date ?? ''),
+        entry: /** @type {SearchEntry} */ ({
+          type: 'post',
+          title: String(data.title ?? slug),
+          excerpt: clip(String(data.excerpt ?? firstParagraph(content))),
+          url: \`/blog/\${slug}${trailingSlash}\`,
+          tags: Array.isArray(data.tags) ? data.tags.map(String) : []
+        })
+      };
+    })
+    .sort((a, b) => b.date.localeCompare(a.date))
+    .map(({ entry }) => entry);
+}
+
+/** @param {string} markdown */
+function firstParagraph(markdown) {
+  const paragraph =
+    markdown
+      .split(/\\n\\s*\\n/)
+      .map((block) => block.trim())
+      .find((block) => block && !/^[#>\`|-]/.test(block)) ?? '';
+  return paragraph.replace(/\\[([^\\]]*)\\]\\([^)]*\\)/g, '$1').replace(/[*_\`]/g, '');
+}
+`
+      : "";
+
+    const productEntries = store
+      ? `
+/**
+ * @typedef {object} Product
+ * @property {string} slug
+ * @property {string} name
+ * @property {string} description
+ * @property {string} category
+ */
+
+/** @returns {SearchEntry[]} */
+function productEntries() {
+  /** @type {{ products: Product[] } | null} */
+  const catalog = readJson('src/content/products.json');
+  return (catalog?.products ?? []).map((product) => ({
+    type: 'product',
+    title: product.name,
+    excerpt: clip(product.description),
+    url: \`/shop/\${product.slug}${trailingSlash}\`,
+    tags: [product.category]
+  }));
+}
+`
+      : "";
+
+    const entry = viteBuild
+      ? `/**
+ * Serves the index while developing, rebuilt on every request so edits
+ * show up at once, and writes it next to the app when bundling.
+ * @returns {import('vite').Plugin}
+ */
+export function searchIndex() {
+  let ssr = false;
+
+  return {
+    name: 'search-index',
+    configResolved(config) {
+      // The index belongs with the client build
+      ssr = !!config.build.ssr;
+    },
+    configureServer(server) {
+      server.middlewares.use('/${SEARCH_INDEX_FILE}', (_request, response) => {
+        response.setHeader('Content-Type', 'application/json');
+        response.end(JSON.stringify(buildSearchIndex()));
+      });
+    },
+    generateBundle() {
+      if (ssr) return;
+
+      this.emitFile({ type: 'asset', fileName: '${SEARCH_INDEX_FILE}', source: JSON.stringify(buildSearchIndex()) });
+    }
+  };
+}
+`
+      : `if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const entries = buildSearchIndex();
+  writeFileSync('public/${SEARCH_INDEX_FILE}', JSON.stringify(entries));
+  console.log(\`search-index: indexed \${entries.length} entries\`);
+}
+`;
+
+    const sources = [
+      "...pageEntries(site)",
+      "...serviceEntries(site)",
+      blog && "...postEntries()",
+      store && "...productEntries()",
+    ].filter(Boolean);
+
+    return `${header}
+
+${imports.join("\n")}
+
+// Longer excerpts are cut at a word boundary
+const EXCERPT_LENGTH = 160;
+
+// Every page but the forms and account pages. Home, about, services and
+// contact take their excerpt from site.json instead.
+const PAGES = ${JSON.stringify(this.getPages(context), null, 2)};
+
+const SERVICES_URL = '${servicesUrl}';
+
+/**
+ * @typedef {object} SearchEntry
+ * @property {'page' | 'service' | 'post' | 'product'} type
+ * @property {string} title
+ * @property {string} excerpt
+ * @property {string} url
+ * @property {string[]} tags
+ */
+
+/**
+ * The parts of src/content/site.json the index reads
+ * @typedef {object} SiteContent
+ * @property {{ subtitle: string }} hero
+ * @property {{ subtitle: string }} about
+ * @property {{ title: string, description: string }[]} services
+ * @property {{ email: string, phone: string, address: string }} contact
+ */
+
+/** @returns {SearchEntry[]} */
+export function buildSearchIndex() {
+  const site = readJson('src/content/site.json');
+  return [${sources.join(", ")}];
+}
+
+/**
+ * @param {SiteContent | null} site
+ * @returns {SearchEntry[]}
+ */
+function pageEntries(site) {
+  /** @type {Record<string, string>} */
+  const copy = site
+    ? {
+        home: site.hero.subtitle,
+        about: site.about.subtitle,
+        services: site.services.map((service) => service.title).join(', '),
+        contact: [site.contact.email, site.contact.phone, site.contact.address].join(' · ')
+      }
+    : {};
+
+  return PAGES.map((page) => ({
+    type: 'page',
+    title: page.title,
+    excerpt: clip(copy[page.page] || page.excerpt),
+    url: page.url,
+    tags: []
+  }));
+}
+
+/**
+ * @param {SiteContent | null} site
+ * @returns {SearchEntry[]}
+ */
+function serviceEntries(site) {
+  return (site?.services ?? []).map((service) => ({
+    type: 'service',
+    title: service.title,
+    excerpt: clip(service.description),
+    url: SERVICES_URL,
+    tags: []
+  }));
+}
+${postEntries}${productEntries}
+/** @param {string} path */
+function readJson(path) {
+  return existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : null;
+}
+
+/** @param {string} text */
+function clip(text) {
+  const plain = text.replace(/\\s+/g, ' ').trim();
+  if (plain.length <= EXCERPT_LENGTH) return plain;
+  const end = plain.lastIndexOf(' ', EXCERPT_LENGTH);
+  return \`\${plain.slice(0, end > 0 ? end : EXCERPT_LENGTH)}...\`;
+}
+
+${entry}`;
+  }
+
+  private generateSearchModule(): string {
+    return `// Searches the index scripts/search-index.mjs builds from the pages,
+// services, blog posts and products. The index is fetched once and matched
+// in the browser with Fuse.js, so a misspelled word still finds its page.
+
+import Fuse, { type FuseResultMatch } from 'fuse.js';
+
+export type SearchEntryType = 'page' | 'service' | 'post' | 'product';
+
+export interface SearchEntry {
+  type: SearchEntryType;
+  title: string;
+  excerpt: string;
+  url: string;
+  tags: string[];
+}
+
+// A run of text, marked when the query matched it
+export interface TextPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  entry: SearchEntry;
+  title: TextPart[];
+  excerpt: TextPart[];
+}
+
+export const SEARCH_INDEX_URL = '/${SEARCH_INDEX_FILE}';
+
+export const MAX_RESULTS = 20;
+
+// Titles count most, then tags such as a product's category
+const KEYS = [
+  { name: 'title', weight: 3 },
+  { name: 'tags', weight: 2 },
+  { name: 'excerpt', weight: 1 }
+];
+
+const WORD_CHARACTER = /[\\p{L}\\p{N}]/u;
+
+let loading: Promise<Fuse<SearchEntry>> | null = null;
+
+export function createSearchIndex(entries: SearchEntry[]): Fuse<SearchEntry> {
+  return new Fuse(entries, {
+    keys: KEYS,
+    includeMatches: true,
+    // Words count wherever they appear in a field, not just near its start
+    ignoreLocation: true,
+    // Lets a typo or two through without matching unrelated words
+    threshold: 0.35,
+    minMatchCharLength: 2
+  });
+}
+
+/**
+ * Fetches the index the first time it is needed. The service worker keeps
+ * a copy, so this also works offline; a failed request is retried on the
+ * next call.
+ */
+export function loadSearchIndex(): Promise<Fuse<SearchEntry>> {
+  if (!loading) {
+    const request = fetch(SEARCH_INDEX_URL)
+      .then((response) => {
+        if (!response.ok) {
+          throw new Error(\`Loading the search index failed with status \${response.status}\`);
+        }
+        return response.json() as Promise<SearchEntry[]>;
+      })
+      .then(createSearchIndex);
+    request.catch(() => {
+      if (loading === request) loading = null;
+    });
+    loading = request;
+  }
+  return loading;
+}
+
+// Best matches first; every word of the query has to match, in any field
+// and in any order
+export function searchSite(index: Fuse<SearchEntry>, query: string, limit: number = MAX_RESULTS): SearchResult[] {
+  const words = query.split(/\\s+/).filter(Boolean);
+  if (words.length === 0) return [];
+
+  const results = index.search(
+    { $and: words.map((word) => ({ $or: KEYS.map(({ name }) => ({ [name]: word })) })) },
+    { limit }
+  );
+  return results.map(({ item, matches = [] }) => ({
+    entry: item,
+    title: highlight(item.title, matches, 'title'),
+    excerpt: highlight(item.excerpt, matches, 'excerpt')
+  }));
+}
+
+// Fuzzy matches can skip letters, so each match is widened to whole words
+function highlight(text: string, matches: readonly FuseResultMatch[], key: string): TextPart[] {
+  const marked: boolean[] = new Array(text.length).fill(false);
+  for (const match of matches) {
+    if (match.key !== key) continue;
+    for (const [start, end] of match.indices) {
+      let from = start;
+      let to = end + 1;
+      while (from > 0 && WORD_CHARACTER.test(text[from - 1])) from--;
+      while (to < text.length && WORD_CHARACTER.test(text[to])) to++;
+      marked.fill(true, from, to);
+    }
+  }
+
+  const parts: TextPart[] = [];
+  for (let index = 0; index < text.length; index++) {
+    const last = parts[parts.length - 1];
+    if (last && last.match === marked[index]) {
+      last.text += text[index];
+    } else {
+      parts.push({ text: text[index], match: marked[index] });
+    }
+  }
+  return parts;
+}
+`;
+  }
+}
@@ -0,0 +1,496 @@
+/**
+ * SEO Generator
+ * Emits the search and sharing metadata every target shares: sitemap.xml
+ * and robots.txt built from the generated routes, the default title,
+ * description, Open Graph and Twitter tags for the document head, and
+ * schema.org JSON-LD whose type follows the industry and whose contact
+ * details come from the business data. Client-rendered targets also get a
+ * small head manager, seo.ts, that swaps the per-route title and tags on
+ * navigation; SvelteKit renders the same route table into each prerendered
+ * page and Next.js maps it onto its metadata API.
+ *
+ * Copy comes from the AI SEO strategy when there is one, then from the
+ * generated meta description, then from the business description.
+ */
+
+import type { GeneratedFile } from "./GeneratedFile";
+import {
+  getHeadIcons,
+  type HeadIcon,
+  type ManifestIcon,
+} from "./IconGenerator";
+import { getTextDirection } from "./LocaleGenerator";
+import { getPageLabel } from "./PageName";
+
+export interface SeoStrategy {
+  title: string;
+  description: string;
+  keywords: string[];
+}
+
+// What the layout templates render in the document head
+export interface HeadData extends SeoStrategy {
+  lang: string;
+  dir: "ltr" | "rtl";
+  siteUrl: string;
+  shareImage?: string;
+  favicon: HeadIcon;
+  appleTouchIcon?: HeadIcon;
+  structuredData: Record<string, unknown>;
+}
+
+export interface RouteMeta {
+  page: string;
+  path: string;
+  title: string;
+  description: string;
+}
+
+// Replaced by the business website when one was entered
+const PLACEHOLDER_SITE_URL = "https://example.com";
+
+// schema.org types by industry; anything else is a LocalBusiness
+const SCHEMA_TYPES: Record<string, string> = {
+  restaurant: "Restaurant",
+  ecommerce: "Store",
+  healthcare: "MedicalBusiness",
+  education: "EducationalOrganization",
+  entertainment: "EntertainmentBusiness",
+  photography: "ProfessionalService",
+  realestate: "RealEstateAgent",
+  services: "ProfessionalService",
+  "cyber-security": "ProfessionalService",
+  finance: "FinancialService",
+  technology: "Organization",
+  fitness: "ExerciseGym",
+  legal: "LegalService",
+  beauty: "BeautySalon",
+};
+
+// Where the head manager lives in each client-rendered target
+const HEAD_MANAGER_PATHS: Record<string, string> = {
+  react: "src/seo.ts",
+  vue: "src/seo.ts",
+  svelte: "src/lib/seo.ts",
+  angular: "src/app/seo.ts",
+};
+
+export class SeoGenerator {
+  generateFiles(context: any): GeneratedFile[] {
+    const files: GeneratedFile[] = [
+      {
+        path: "public/sitemap.xml",
+        content: this.generateSitemap(context),
+        type: "xml",
+      },
+      {
+        path: "public/robots.txt",
+        content: this.generateRobots(context),
+        type: "text",
+      },
+    ];
+
+    const headManagerPath = HEAD_MANAGER_PATHS[context.framework];
+    if (headManagerPath) {
+      files.push({
+        path: headManagerPath,
+        content: this.generateHeadManager(context),
+        type: "ts",
+      });
+    }
+
+    return files;
+  }
+
+  getStrategy(context: any): SeoStrategy {
+    const description =
+      context.seoStrategy?.description ||
+      context.metaDescription ||
+      context.description;
+    return {
+      title:
+        context.seoStrategy?.title ||
+        `${context.businessName} - ${description}`,
+      description,
+      keywords: context.seoStrategy?.keywords || [],
+    };
+  }
+
+  /**
+   * The site-wide head of the primary language, for templates; needs the
+   * rendered icons on the context.
+   */
+  getHead(context: any): HeadData {
+    const [favicon, appleTouchIcon] = getHeadIcons(context.icons);
+    return {
+      ...this.getStrategy(context),
+      lang: context.locales[0],
+      dir: getTextDirection(context.locales[0]),
+      siteUrl: this.getSiteUrl(context),
+      shareImage: this.getShareImage(context),
+      favicon,
+      appleTouchIcon,
+      structuredData: this.getStructuredData(context),
+    };
+  }
+
+  /**
+   * The site origin, without a trailing slash, from the business website.
+   * Sitemaps and canonical URLs must be absolute, so projects without one
+   * get a placeholder the README tells the owner to replace.
+   */
+  getSiteUrl(context: any): string {
+    const website = context.businessData?.website?.trim();
+    if (!website) return PLACEHOLDER_SITE_URL;
+    try {
+      const url = new URL(
+        /^https?:\/\//i.test(website) ? website : `https://${website}`,
+      );
+      return `${url.origin}${url.pathname}`.replace(/\/+$/, "");
+    } catch {
+      return PLACEHOLDER_SITE_URL;
+    }
+  }
+
+  getRoutes(context: any): RouteMeta[] {
+    const strategy = this.getStrategy(context);
+    // Next.js exports every page as a directory, so its URLs end in a slash
+    const trailingSlash = context.framework === "nextjs" ? "/" : "";
+
+    return context.pages.map((page: string) => {
+      if (page === "home") {
+        return {
+          page,
+          path: "/",
+          title: strategy.title,
+          description: strategy.description,
+        };
+      }
+      const label = getPageLabel(context, page);
+      return {
+        page,
+        path: `/${page}${trailingSlash}`,
+        title: `${label} | ${context.businessName}`,
+        description: `${label} - ${strategy.description}`,
+      };
+    });
+  }
+
+  getStructuredData(context: any): Record<string, unknown> {
+    const strategy = this.getStrategy(context);
+    const businessData = context.businessData ?? {};
+    const image = this.getShareImage(context);
+
+    const data: Record<string, unknown> = {
+      "@context": "https://schema.org",
+      "@type": SCHEMA_TYPES[context.industry] ?? "LocalBusiness",
+      name: context.businessName,
+      description: strategy.description,
+      url: this.getSiteUrl(context),
+    };
+    if (image) data.image = image;
+    if (businessData.contactEmail) data.email = businessData.contactEmail;
+    if (businessData.contactPhone) data.telephone = businessData.contactPhone;
+    if (businessData.location) {
+      data.address = {
+        "@type": "PostalAddress",
+        addressLocality: businessData.location,
+      };
+    }
+    return data;
+  }
+
+  /**
+   * Every language version of a page, keyed by hreflang. The primary
+   * language keeps the plain URL, which also serves as x-default; the
+   * others add the `?lang=` parameter the i18n module reads on load.
+   * Empty unless the site is multilingual.
+   * @param origin prefix for the URLs; pass "" for site-relative ones
+   */
+  getAlternates(
+    context: any,
+    path: string,
+    origin: string = this.getSiteUrl(context),
+  ): Record<string, string> {
+    if (!context.multilingual) return {};
+    const [primary] = context.locales;
+    const url = `${origin}${path}`;
+    return {
+      ...Object.fromEntries(
+        context.locales.map((locale: string) => [
+          locale,
+          locale === primary ? url : `${url}?lang=${locale}`,
+        ]),
+      ),
+      "x-default": url,
+    };
+  }
+
+  /**
+   * The site-wide tags for a static index.html: description, keywords,
+   * canonical URL, Open Graph and Twitter cards and the JSON-LD block. The
+   * head manager keeps the route-specific ones current after navigation.
+   */
+  getHeadTags(context: any): string {
+    const strategy = this.getStrategy(context);
+    const siteUrl = this.getSiteUrl(context);
+    const image = this.getShareImage(context);
+    const keywords = [context.businessName, ...strategy.keywords].join(", ");
+
+    const tags = [
+      `<meta name="description" content="${this.escapeAttribute(strategy.description)}" />`,
+      `<meta name="keywords" content="${this.escapeAttribute(keywords)}" />`,
+      `<link rel="canonical" href="${siteUrl}/" />`,
+      `<meta property="og:type" content="website" />`,
+      `<meta property="og:site_name" content="${this.escapeAttribute(context.businessName)}" />`,
+      `<meta property="og:title" content="${this.escapeAttribute(strategy.title)}" />`,
+      `<meta property="og:description" content="${this.escapeAttribute(strategy.description)}" />`,
+      `<meta property="og:url" content="${siteUrl}/" />`,
+      ...(image ? [`<meta property="og:image" content="${image}" />`] : []),
+      `<meta name="twitter:card" content="summary" />`,
+      `<meta name="twitter:title" content="${this.escapeAttribute(strategy.title)}" />`,
+      `<meta name="twitter:description" content="${this.escapeAttribute(strategy.description)}" />`,
+      ...Object.entries(this.getAlternates(context, "/")).map(
+        ([hreflang, href]) =>
+          `<link rel="alternate" hreflang="${hreflang}" href="${this.escapeAttribute(href)}" />`,
+      ),
+      ...(context.pages.includes("blog") ? [this.getFeedLink(context)] : []),
+    ];
+
+    return [...tags, this.getStructuredDataScript(context)].join("\n    ");
+  }
+
+  // Lets browsers and feed readers discover the blog's RSS feed
+  getFeedLink(context: any): string {
+    return `<link rel="alternate" type="application/rss+xml" title="${this.escapeAttribute(`${context.businessName} Blog`)}" href="/rss.xml" />`;
+  }
+
+  getStructuredDataScript(context: any): string {
+    // "<" is escaped so no value can close the script element early
+    const json = JSON.stringify(this.getStructuredData(context)).replace(
+      /</g,
+      "\\u003c",
+    );
+    return `<script type="application/ld+json">${json}</script>`;
+  }
+
+  getReadmeSection(context: any): string {
+    const siteUrl = this.getSiteUrl(context);
+    const headManager = HEAD_MANAGER_PATHS[context.framework];
+    const placeholderNote =
+      siteUrl === PLACEHOLDER_SITE_URL
+        ? `
+No website was entered when this project was generated, so the sitemap,
+robots.txt and canonical URLs point at ${PLACEHOLDER_SITE_URL}. Replace it
+with your domain before deploying.
+`
+        : "";
+
+    return `
+## SEO
+
+- \`public/sitemap.xml\` lists every page and \`public/robots.txt\` points
+  crawlers at it. Regenerate or edit both when you add pages.
+- ${
+      headManager
+        ? `\`${headManager}\` holds the title and description of each route
+  and updates the title, Open Graph and Twitter tags and canonical URL on
+  navigation.`
+        : `Each route under \`src/app\` exports its own title, description,
+  Open Graph and Twitter metadata.`
+    }
+- A schema.org JSON-LD block describes the business to search engines.
+${placeholderNote}`;
+  }
+
+  private generateSitemap(context: any): string {
+    const siteUrl = this.getSiteUrl(context);
+    const lastmod = new Date().toISOString().slice(0, 10);
+    const urls = this.getRoutes(context)
+      .flatMap((route) => {
+        const alternates = Object.entries(
+          this.getAlternates(context, route.path),
+        );
+        // Each language version is listed with links to all the others
+        const locations = alternates.length
+          ? alternates
+              .filter(([hreflang]) => hreflang !== "x-default")
+              .map(([, href]) => href)
+          : [`${siteUrl}${route.path}`];
+        const links = alternates.map(
+          ([hreflang, href]) =>
+            `\n    <xhtml:link rel="alternate" hreflang="${hreflang}" href="${this.escapeAttribute(href)}" />`,
+        );
+        return locations.map(
+          (location) => `  <url>
+    <loc>${this.escapeAttribute(location)}</loc>
+    <lastmod>${lastmod}</lastmod>${links.join("")}
+  </url>`,
+        );
+      })
+      .join("\n");
+    const xhtmlNamespace = context.multilingual
+      ? ' xmlns:xhtml="http://www.w3.org/1999/xhtml"'
+      : "";
+
+    return `<?xml version="1.0" encoding="UTF-8"?>
+<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9"${xhtmlNamespace}>
+${urls}
+</urlset>
+`;
+  }
+
+  private generateRobots(context: any): string {
+    const siteUrl = this.getSiteUrl(context);
+    // The blog's sitemap is rebuilt from src/posts with every build
+    const blogSitemap = context.pages.includes("blog")
+      ? `Sitemap: ${siteUrl}/sitemap-blog.xml\n`
+      : "";
+    return `User-agent: *
+Allow: /
+
+Sitemap: ${siteUrl}/sitemap.xml
+${blogSitemap}`;
+  }
+
+  private generateHeadManager(context: any): string {
+    const strategy = this.getStrategy(context);
+    const routes = Object.fromEntries(
+      this.getRoutes(context).map((route) => [
+        route.path,
+        { title: route.title, description: route.description },
+      ]),
+    );
+    const [primaryLocale] = context.locales ?? [];
+    const blog = context.pages.includes("blog");
+    const shop = context.pages.includes("shop");
+    const imports = [
+      blog && "import { getPost } from './blog/posts';",
+      shop && "import { getProduct } from './shop/catalog';",
+    ].filter(Boolean);
+
+    return `// Titles and share tags for each route. index.html carries the site-wide
+// defaults; applyPageMeta swaps in the current route's after navigation.
+${imports.length ? `\n${imports.join("\n")}\n` : ""}
+export interface PageMeta {
+  title: string;
+  description: string;
+}
+
+export const SITE_URL = ${JSON.stringify(this.getSiteUrl(context))};
+
+const DEFAULT_META: PageMeta = ${JSON.stringify(
+      { title: strategy.title, description: strategy.description },
+      null,
+      2,
+    )};
+
+const ROUTE_META: Record<string, PageMeta> = ${JSON.stringify(routes, null, 2)};
+
+export function getPageMeta(path: string): PageMeta {
+  const pathname = path.split(/[?#]/)[0].replace(/\\/+$/, '') || '/';${
+    blog
+      ? `
+  // Blog posts are titled after themselves and described by their excerpt
+  const post = getPost(pathname.match(/^\\/blog\\/([^/]+)$/)?.[1] ?? '');
+  if (post) {
+    return { title: post.title + ${JSON.stringify(` | ${context.businessName}`)}, description: post.excerpt };
+  }`
+      : ""
+  }${
+    shop
+      ? `
+  const product = getProduct(pathname.match(/^\\/shop\\/([^/]+)$/)?.[1] ?? '');
+  if (product) {
+    return { title: product.name + ${JSON.stringify(` | ${context.businessName}`)}, description: product.description };
+  }`
+      : ""
+  }
+  return ROUTE_META[pathname] ?? DEFAULT_META;
+}
+
+export function getCanonicalUrl(path: string): string {
+  const pathname = path.split(/[?#]/)[0].replace(/\\/+$/, '');
+  return SITE_URL + (pathname || '/');
+}
+
+${
+  context.multilingual
+    ? `const LOCALES = ${JSON.stringify(context.locales)};
+
+const DEFAULT_LOCALE = '${primaryLocale}';
+
+// The primary language keeps the plain URL; the others add ?lang=
+export function getLocalizedUrl(path: string, locale: string): string {
+  const url = getCanonicalUrl(path);
+  return locale === DEFAULT_LOCALE ? url : \`\${url}?lang=\${locale}\`;
+}
+
+export function applyPageMeta(path: string, locale: string = DEFAULT_LOCALE): void {
+  const meta = getPageMeta(path);
+  const url = getLocalizedUrl(path, locale);
+
+  for (const hreflang of [...LOCALES, 'x-default']) {
+    setLink(
+      \`link[rel="alternate"][hreflang="\${hreflang}"]\`,
+      { rel: 'alternate', hreflang },
+      getLocalizedUrl(path, hreflang === 'x-default' ? DEFAULT_LOCALE : hreflang),
+    );
+  }
+`
+    : `export function applyPageMeta(path: string): void {
+  const meta = getPageMeta(path);
+  const url = getCanonicalUrl(path);
+`
+}
+  document.title = meta.title;
+  setMeta('name', 'description', meta.description);
+  setMeta('property', 'og:title', meta.title);
+  setMeta('property', 'og:description', meta.description);
+  setMeta('property', 'og:url', url);
+  setMeta('name', 'twitter:title', meta.title);
+  setMeta('name', 'twitter:description', meta.description);
+  setLink('link[rel="canonical"]', { rel: 'canonical' }, url);
+}
+
+function setLink(selector: string, attributes: Record<string, string>, href: string): void {
+  let element = document.head.querySelector<HTMLLinkElement>(selector);
+  if (!element) {
+    element = document.createElement('link');
+    for (const [name, value] of Object.entries(attributes)) {
+      element.setAttribute(name, value);
+    }
+    document.head.appendChild(element);
+  }
+  element.href = href;
+}
+
+function setMeta(attribute: 'name' | 'property', key: string, content: string): void {
+  let element = document.head.querySelector<HTMLMetaElement>(\`meta[\${attribute}="\${key}"]\`);
+  if (!element) {
+    element = document.createElement('meta');
+    element.setAttribute(attribute, key);
+    document.head.appendChild(element);
+  }
+  element.content = content;
+}
+`;
+  }
+
+  // Open Graph needs a raster image; only canvas-rendered icons qualify
+  getShareImage(context: any): string | undefined {
+    const icon = context.icons?.manifestIcons?.find(
+      (candidate: ManifestIcon) =>
+        candidate.purpose === "any" && candidate.sizes === "512x512",
+    );
+    return icon ? `${this.getSiteUrl(context)}${icon.src}` : undefined;
+  }
+
+  private escapeAttribute(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/"/g, "&quot;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;");
+  }
+}
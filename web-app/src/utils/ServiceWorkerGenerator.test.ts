@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { ServiceWorkerGenerator } from "./ServiceWorkerGenerator";
+import type { TextFile } from "./GeneratedFile";
+
+const generateWorker = (projectName: string, framework: string): string => {
+  const files = new ServiceWorkerGenerator().generateFiles({
+    projectName,
+    businessName: projectName,
+    framework,
+    pages: ["home", "about"],
+    locales: ["en"],
+    designTokens: {
+      primaryColor: "#3b82f6",
+      backgroundColor: "#ffffff",
+      textColor: "#1f2937",
+      fontFamily: "system-ui, sans-serif",
+    },
+    icons: {
+      manifestIcons: [
+        {
+          src: "/icon.svg",
+          sizes: "any",
+          type: "image/svg+xml",
+          purpose: "any",
+        },
+      ],
+    },
+  });
+  return (files.find((file) => file.path === "public/sw.js") as TextFile)
+    .content;
+};
+
+describe("ServiceWorkerGenerator", () => {
+  it.each(["react", "vue", "svelte", "nextjs"])(
+    "emits a worker that parses when the name has a quote (%s)",
+    (framework) => {
+      const content = generateWorker("Joe's Pizza", framework);
+
+      expect(content).toContain("const CACHE_PREFIX = 'joe-s-pizza';");
+      expect(() => new Function(content)).not.toThrow();
+    },
+  );
+});
@@ -0,0 +1,398 @@
+/**
+ * Service Worker Generator
+ * Emits the production service worker shared by the React, Vue, SvelteKit
+ * and Next.js targets, its offline fallback page and the post-build script
+ * that stamps the worker with the precache list. Vite-based targets read
+ * the list from the Vite build manifest; Next.js scans its static output.
+ * Angular is not covered here: it ships ngsw-worker.js instead.
+ */
+
+import type { GeneratedFile } from "./GeneratedFile";
+import type { GeneratedIcons, ManifestIcon } from "./IconGenerator";
+import { getTextDirection } from "./LocaleGenerator";
+import { getPackageName } from "./PackageName";
+import { SEARCH_INDEX_FILE, hasSearch } from "./SearchIndexGenerator";
+
+interface PrecacheSource {
+  outDir: string;
+  // A Vite manifest (.json) or a directory inside outDir to scan
+  source: string;
+}
+
+// What the worker itself is built from
+interface ServiceWorkerContext {
+  projectName: string;
+  framework: string;
+  pages: string[];
+  icons: Pick<GeneratedIcons, "manifestIcons">;
+}
+
+const PRECACHE_SOURCES: Record<string, PrecacheSource> = {
+  react: { outDir: "dist", source: "dist/.vite/manifest.json" },
+  vue: { outDir: "dist", source: "dist/.vite/manifest.json" },
+  svelte: {
+    outDir: "build",
+    source: ".svelte-kit/output/client/.vite/manifest.json",
+  },
+  nextjs: { outDir: "out", source: "_next/static" },
+};
+
+export class ServiceWorkerGenerator {
+  generateFiles(context: any): GeneratedFile[] {
+    return [
+      {
+        path: "public/sw.js",
+        content: this.generateServiceWorker(context),
+        type: "js",
+      },
+      {
+        path: "public/offline.html",
+        content: this.generateOfflinePage(context),
+        type: "html",
+      },
+      {
+        path: "scripts/build-sw.mjs",
+        content: this.generateBuildScript(context),
+        type: "js",
+      },
+    ];
+  }
+
+  /**
+   * The npm script that stamps dist/sw.js; package.json generators run it
+   * as postbuild so `npm run build` always produces a versioned worker.
+   */
+  getPostbuildScript(framework: string): string {
+    const { outDir, source } =
+      PRECACHE_SOURCES[framework] || PRECACHE_SOURCES.react;
+    return `node scripts/build-sw.mjs ${outDir} ${source}`;
+  }
+
+  private generateServiceWorker(context: ServiceWorkerContext): string {
+    // Safe inside the quoted string whatever the business is called
+    const cachePrefix = getPackageName(context);
+    // Client-rendered SPAs can boot any route from the cached app shell
+    const spaFallback = ["react", "vue"].includes(context.framework);
+    // Only the install-prompt icons, and only those that were rendered
+    const coreIcons = context.icons.manifestIcons
+      .filter(
+        (icon: ManifestIcon) =>
+          icon.purpose === "any" &&
+          ["any", "192x192", "512x512"].includes(icon.sizes),
+      )
+      .map((icon: ManifestIcon) => `'${icon.src}'`);
+    // The search page reads its index offline as well
+    const searchIndex = hasSearch(context) ? [`'/${SEARCH_INDEX_FILE}'`] : [];
+    const coreAssets = ["'/'", "'/offline.html'", "'/manifest.json'"]
+      .concat(coreIcons, searchIndex)
+      .join(",\n  ");
+
+    return `// Production Service Worker
+// PRECACHE_ASSETS and CACHE_VERSION are stamped by scripts/build-sw.mjs after
+// every build. The unstamped worker served by the dev server caches nothing.
+
+const CACHE_PREFIX = '${cachePrefix}';
+const CACHE_VERSION = 'dev';
+const PRECACHE_ASSETS = [];
+
+const CORE_ASSETS = [
+  ${coreAssets}
+];
+const OFFLINE_URL = '/offline.html';
+const SPA_FALLBACK = ${spaFallback};
+const API_TIMEOUT_MS = 5000;
+const IMAGE_CACHE_LIMIT = 60;
+const FONT_HOSTS = ['fonts.googleapis.com', 'fonts.gstatic.com'];
+
+const CACHES = {
+  precache: \`\${CACHE_PREFIX}-precache-\${CACHE_VERSION}\`,
+  pages: \`\${CACHE_PREFIX}-pages-\${CACHE_VERSION}\`,
+  assets: \`\${CACHE_PREFIX}-assets-\${CACHE_VERSION}\`,
+  images: \`\${CACHE_PREFIX}-images-\${CACHE_VERSION}\`,
+  api: \`\${CACHE_PREFIX}-api-\${CACHE_VERSION}\`
+};
+
+const isDevelopment = CACHE_VERSION === 'dev';
+
+self.addEventListener('install', (event) => {
+  self.skipWaiting();
+  if (isDevelopment) return;
+
+  event.waitUntil(
+    caches
+      .open(CACHES.precache)
+      .then((cache) => cache.addAll([...new Set([...CORE_ASSETS, ...PRECACHE_ASSETS])]))
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  // Drop every cache from previous versions of this app
+  const current = Object.values(CACHES);
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith(\`\${CACHE_PREFIX}-\`) && !current.includes(key))
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (isDevelopment || request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  const sameOrigin = url.origin === self.location.origin;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(event));
+  } else if (sameOrigin && url.pathname.startsWith('/api/')) {
+    event.respondWith(networkFirst(request, CACHES.api));
+  } else if (request.destination === 'image') {
+    event.respondWith(cacheFirst(request, CACHES.images, IMAGE_CACHE_LIMIT));
+  } else if (sameOrigin || FONT_HOSTS.includes(url.hostname)) {
+    event.respondWith(
+      matchPrecache(request).then(
+        (cached) => cached || staleWhileRevalidate(event, CACHES.assets)
+      )
+    );
+  }
+});
+
+// Pages: stale-while-revalidate, falling back to the app shell or offline page
+async function handleNavigation(event) {
+  try {
+    return await staleWhileRevalidate(event, CACHES.pages);
+  } catch {
+    const precache = await caches.open(CACHES.precache);
+    const shell = SPA_FALLBACK ? await precache.match('/') : undefined;
+    const fallback = shell || (await precache.match(OFFLINE_URL));
+    return fallback ? withoutRedirect(fallback) : Response.error();
+  }
+}
+
+// Hosts with clean URLs redirect /offline.html, and the browser rejects a
+// redirected response as the answer to a navigation
+async function withoutRedirect(response) {
+  if (!response.redirected) return response;
+  return new Response(await response.blob(), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  });
+}
+
+async function matchPrecache(request) {
+  const cache = await caches.open(CACHES.precache);
+  return cache.match(request);
+}
+
+async function staleWhileRevalidate(event, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(event.request);
+  const network = fetch(event.request).then((response) => {
+    if (response.ok) {
+      cache.put(event.request, response.clone());
+    }
+    return response;
+  });
+
+  if (cached) {
+    event.waitUntil(network.catch(() => undefined));
+    return cached;
+  }
+  return network;
+}
+
+// Images: cache-first with a bounded cache
+async function cacheFirst(request, cacheName, maxEntries) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok || response.type === 'opaque') {
+    await cache.put(request, response.clone());
+    const keys = await cache.keys();
+    await Promise.all(
+      keys.slice(0, Math.max(0, keys.length - maxEntries)).map((key) => cache.delete(key))
+    );
+  }
+  return response;
+}
+
+// API calls: network-first so data stays fresh, cached copy when offline
+async function networkFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await Promise.race([
+      fetch(request),
+      new Promise((_, reject) =>
+        setTimeout(() => reject(new Error('Network timeout')), API_TIMEOUT_MS)
+      )
+    ]);
+    if (response.ok) {
+      cache.put(request, response.clone());
+    }
+    return response;
+  } catch {
+    const cached = await cache.match(request);
+    return (
+      cached ||
+      new Response(JSON.stringify({ error: 'offline' }), {
+        status: 503,
+        headers: { 'Content-Type': 'application/json' }
+      })
+    );
+  }
+}`;
+  }
+
+  private generateOfflinePage(context: any): string {
+    const { primaryColor, backgroundColor, textColor, fontFamily } =
+      context.designTokens;
+
+    // Inline styles only: the hashed stylesheets may not be cached yet
+    return `<!doctype html>
+<html lang="${context.locales[0]}" dir="${getTextDirection(context.locales[0])}">
+  <head>
+    <meta charset="UTF-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1.0" />
+    <meta name="theme-color" content="${primaryColor}" />
+    <title>Offline - ${context.businessName}</title>
+    <style>
+      body {
+        margin: 0;
+        min-height: 100vh;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        font-family: ${fontFamily};
+        background: ${backgroundColor};
+        color: ${textColor};
+        text-align: center;
+      }
+      main {
+        max-width: 28rem;
+        padding: 2rem;
+      }
+      h1 {
+        font-size: 1.75rem;
+        margin-bottom: 0.5rem;
+      }
+      p {
+        line-height: 1.6;
+        opacity: 0.8;
+      }
+      button {
+        margin-top: 1.5rem;
+        padding: 0.75rem 1.5rem;
+        border: none;
+        border-radius: 0.5rem;
+        background: ${primaryColor};
+        color: #ffffff;
+        font: inherit;
+        font-weight: 600;
+        cursor: pointer;
+      }
+    </style>
+  </head>
+  <body>
+    <main>
+      <h1>You're offline</h1>
+      <p>
+        ${context.businessName} can't reach the network right now. Pages you've
+        already visited are still available; this page will reload once you're
+        back online.
+      </p>
+      <button type="button" onclick="location.reload()">Try again</button>
+    </main>
+    <script>
+      window.addEventListener('online', () => location.reload());
+    </script>
+  </body>
+</html>`;
+  }
+
+  private generateBuildScript(context: any): string {
+    // Files the worker precaches under a fixed name, whose content the
+    // cache version has to follow
+    const unhashedFiles = ["index.html"]
+      .concat(hasSearch(context) ? [SEARCH_INDEX_FILE] : [])
+      .map((file) => `'${file}'`)
+      .join(", ");
+
+    return `// Stamps the built service worker with the precache list and a cache
+// version derived from it. Runs as the postbuild script:
+//   node scripts/build-sw.mjs <outDir> <vite-manifest.json | static dir in outDir>
+
+import { createHash } from 'node:crypto';
+import { existsSync, readFileSync, readdirSync, statSync, writeFileSync } from 'node:fs';
+import { join, relative, sep } from 'node:path';
+
+const [outDir = 'dist', source = join(outDir, '.vite/manifest.json')] = process.argv.slice(2);
+const swPath = join(outDir, 'sw.js');
+
+function fromViteManifest(manifestPath) {
+  const manifest = JSON.parse(readFileSync(manifestPath, 'utf8'));
+  const files = new Set();
+  for (const chunk of Object.values(manifest)) {
+    files.add(chunk.file);
+    (chunk.css || []).forEach((file) => files.add(file));
+    (chunk.assets || []).forEach((file) => files.add(file));
+  }
+  return [...files];
+}
+
+function fromDirectory(dir) {
+  return readdirSync(dir).flatMap((entry) => {
+    const path = join(dir, entry);
+    return statSync(path).isDirectory()
+      ? fromDirectory(path)
+      : [relative(outDir, path).split(sep).join('/')];
+  });
+}
+
+if (!existsSync(swPath)) {
+  console.error(\`build-sw: \${swPath} not found, run the build first\`);
+  process.exit(1);
+}
+
+const assets = (
+  source.endsWith('.json') ? fromViteManifest(source) : fromDirectory(join(outDir, source))
+)
+  .filter((file) => !file.endsWith('.map'))
+  .map((file) => '/' + file)
+  .sort();
+
+// Hashed file names change with their content; the shell and any other
+// file precached under a fixed name cover the rest
+const hash = createHash('sha256').update(assets.join('\\n'));
+for (const file of [${unhashedFiles}]) {
+  const path = join(outDir, file);
+  if (existsSync(path)) {
+    hash.update(readFileSync(path));
+  }
+}
+const version = hash.digest('hex').slice(0, 12);
+
+const worker = readFileSync(swPath, 'utf8');
+const stamped = worker
+  .replace("const CACHE_VERSION = 'dev';", \`const CACHE_VERSION = '\${version}';\`)
+  .replace('const PRECACHE_ASSETS = [];', \`const PRECACHE_ASSETS = \${JSON.stringify(assets)};\`);
+
+if (stamped === worker) {
+  console.error('build-sw: sw.js has no placeholders to stamp');
+  process.exit(1);
+}
+
+writeFileSync(swPath, stamped);
+console.log(\`build-sw: precached \${assets.length} assets, cache version \${version}\`);
+`;
+  }
+}
@@ -0,0 +1,659 @@
+/**
+ * Store Generator
+ * The files the e-commerce feature adds to every target: the product
+ * catalog in src/content/products.json, seeded for the business's
+ * industry, a placeholder image per product, and the two modules the shop
+ * pages share. The catalog module searches, filters and sorts products with
+ * the controls of the templates/components/e-commerce starter; the cart
+ * module keeps the cart in localStorage.
+ *
+ * The cart is a plain module rather than framework state so every target
+ * reads the same code: its `cart.subscribe` follows the Svelte store
+ * contract, which React's useSyncExternalStore and a few lines of Vue or
+ * Angular adapt to as well.
+ */
+
+import type { GeneratedFile } from "./GeneratedFile";
+
+// Shop modules by framework, beside the other shared modules of each target
+const SHOP_MODULE_DIRS: Record<string, string> = {
+  react: "src/shop",
+  vue: "src/shop",
+  svelte: "src/lib/shop",
+  nextjs: "src/shop",
+  angular: "src/app/shop",
+};
+
+export const CATALOG_PATH = "src/content/products.json";
+
+const CURRENCY = "USD";
+
+interface SeedProduct {
+  name: string;
+  category: string;
+  price: number;
+  description: string;
+  inStock?: boolean;
+}
+
+// Enough products per industry to try every filter; the first two are featured
+const SEED_CATALOGS: Record<string, SeedProduct[]> = {
+  ecommerce: [
+    {
+      name: "Everyday Canvas Tote",
+      category: "Accessories",
+      price: 24,
+      description:
+        "A sturdy cotton canvas tote with an inside pocket, roomy enough for a laptop and the weekly shop.",
+    },
+    {
+      name: "Merino Crew Sweater",
+      category: "Clothing",
+      price: 89,
+      description:
+        "Soft, breathable merino wool in a relaxed fit that works from the office to the weekend.",
+    },
+    {
+      name: "Organic Cotton Tee",
+      category: "Clothing",
+      price: 28,
+      description:
+        "A heavyweight tee cut from organic cotton, pre-washed so it keeps its shape.",
+    },
+    {
+      name: "Stoneware Mug Set",
+      category: "Home",
+      price: 42,
+      description:
+        "Four hand-glazed stoneware mugs, each one slightly different. Dishwasher safe.",
+    },
+    {
+      name: "Linen Throw Blanket",
+      category: "Home",
+      price: 119,
+      description:
+        "Stonewashed European linen that gets softer with every wash.",
+      inStock: false,
+    },
+    {
+      name: "Leather Card Wallet",
+      category: "Accessories",
+      price: 18,
+      description:
+        "Slim vegetable-tanned leather with room for six cards and a few notes.",
+    },
+  ],
+  restaurant: [
+    {
+      name: "Gift Card",
+      category: "Gift Cards",
+      price: 50,
+      description:
+        "Treat someone to a meal on us. Delivered by email and valid for twelve months.",
+    },
+    {
+      name: "House Hot Sauce",
+      category: "Pantry",
+      price: 12,
+      description:
+        "The sauce from our tables, bottled in small batches from fermented chillies.",
+    },
+    {
+      name: "Signature Spice Blend",
+      category: "Pantry",
+      price: 9,
+      description:
+        "Our kitchen's go-to rub for grilled meat and roast vegetables.",
+    },
+    {
+      name: "Chef's Apron",
+      category: "Merchandise",
+      price: 32,
+      description:
+        "The heavy cotton apron our cooks wear, with a towel loop and two pockets.",
+    },
+    {
+      name: "Family Cookbook",
+      category: "Merchandise",
+      price: 38,
+      description: "Forty recipes from our menu, written for home kitchens.",
+      inStock: false,
+    },
+    {
+      name: "Tasting Menu for Two",
+      category: "Gift Cards",
+      price: 140,
+      description:
+        "Seven courses from the chef with paired wines, for two guests.",
+    },
+  ],
+  fitness: [
+    {
+      name: "10-Class Pass",
+      category: "Memberships",
+      price: 150,
+      description:
+        "Ten classes of your choice, valid for three months from the first visit.",
+    },
+    {
+      name: "Monthly Membership",
+      category: "Memberships",
+      price: 79,
+      description: "Unlimited classes and open gym access for one month.",
+    },
+    {
+      name: "Resistance Band Set",
+      category: "Equipment",
+      price: 29,
+      description:
+        "Five bands from light to extra heavy, with a carry bag and door anchor.",
+    },
+    {
+      name: "Cork Yoga Block",
+      category: "Equipment",
+      price: 19,
+      description: "A firm, grippy cork block for support and alignment.",
+    },
+    {
+      name: "Insulated Water Bottle",
+      category: "Accessories",
+      price: 24,
+      description:
+        "Keeps drinks cold for 24 hours. Leak-proof and fits most cup holders.",
+    },
+    {
+      name: "Training Towel",
+      category: "Accessories",
+      price: 14,
+      description: "A quick-drying microfibre towel that packs down small.",
+      inStock: false,
+    },
+  ],
+  beauty: [
+    {
+      name: "Hydrating Face Serum",
+      category: "Skincare",
+      price: 38,
+      description:
+        "Hyaluronic acid and niacinamide for plump, even-toned skin.",
+    },
+    {
+      name: "Treatment Gift Voucher",
+      category: "Gift Cards",
+      price: 75,
+      description:
+        "Redeemable against any treatment in the salon. Valid for a year.",
+    },
+    {
+      name: "Daily Moisturiser",
+      category: "Skincare",
+      price: 32,
+      description: "A lightweight, fragrance-free cream for every skin type.",
+    },
+    {
+      name: "Repairing Hair Mask",
+      category: "Haircare",
+      price: 26,
+      description:
+        "A weekly treatment that restores shine to dry and coloured hair.",
+    },
+    {
+      name: "Sulphate-Free Shampoo",
+      category: "Haircare",
+      price: 22,
+      description: "A gentle cleanser that protects colour and natural oils.",
+    },
+    {
+      name: "Nail Care Kit",
+      category: "Skincare",
+      price: 45,
+      description: "Everything for a salon finish at home, in a travel case.",
+      inStock: false,
+    },
+  ],
+  photography: [
+    {
+      name: "Fine Art Print",
+      category: "Prints",
+      price: 65,
+      description: "A signed archival print on cotton rag paper, 30 x 40 cm.",
+    },
+    {
+      name: "Portrait Session",
+      category: "Sessions",
+      price: 250,
+      description:
+        "One hour in the studio or on location, with twenty edited images.",
+    },
+    {
+      name: "Framed Canvas",
+      category: "Prints",
+      price: 180,
+      description:
+        "Gallery-wrapped canvas in a floating oak frame, ready to hang.",
+    },
+    {
+      name: "Mini Session",
+      category: "Sessions",
+      price: 120,
+      description:
+        "Twenty minutes and five edited images, ideal for headshots.",
+    },
+    {
+      name: "Photo Book",
+      category: "Albums",
+      price: 95,
+      description: "A 40-page lay-flat book designed from your session images.",
+    },
+    {
+      name: "Lightroom Preset Pack",
+      category: "Digital",
+      price: 15,
+      description: "The twelve presets we use for our own edits.",
+    },
+  ],
+  technology: [
+    {
+      name: "Starter Licence",
+      category: "Software",
+      price: 49,
+      description: "One seat with every core feature and a year of updates.",
+    },
+    {
+      name: "Team Licence",
+      category: "Software",
+      price: 199,
+      description: "Five seats with shared workspaces and admin controls.",
+    },
+    {
+      name: "Setup Session",
+      category: "Services",
+      price: 120,
+      description:
+        "Two hours with an engineer to install, configure and train your team.",
+    },
+    {
+      name: "Priority Support",
+      category: "Services",
+      price: 79,
+      description: "Same-day responses from our support team for a month.",
+    },
+    {
+      name: "USB-C Docking Station",
+      category: "Hardware",
+      price: 139,
+      description:
+        "Two displays, gigabit ethernet and 100 W charging from one cable.",
+      inStock: false,
+    },
+    {
+      name: "Laptop Stand",
+      category: "Hardware",
+      price: 45,
+      description: "Folding aluminium stand with six height settings.",
+    },
+  ],
+};
+
+// Anything that does not sell physical goods still sells time and vouchers
+const DEFAULT_CATALOG: SeedProduct[] = [
+  {
+    name: "Consultation",
+    category: "Services",
+    price: 90,
+    description:
+      "A one-hour session to talk through your goals and plan the next steps.",
+  },
+  {
+    name: "Gift Voucher",
+    category: "Gift Cards",
+    price: 50,
+    description:
+      "Give any of our services as a gift. Delivered by email and valid for a year.",
+  },
+  {
+    name: "Half-Day Workshop",
+    category: "Services",
+    price: 240,
+    description:
+      "Four hours of hands-on work with our team, for up to six people.",
+  },
+  {
+    name: "Starter Guide",
+    category: "Resources",
+    price: 19,
+    description: "Our practical guide to getting started, as a PDF download.",
+  },
+  {
+    name: "Follow-Up Session",
+    category: "Services",
+    price: 60,
+    description: "Thirty minutes to review progress and adjust the plan.",
+  },
+  {
+    name: "Branded Notebook",
+    category: "Resources",
+    price: 12,
+    description: "A lined A5 notebook with our logo on the cover.",
+    inStock: false,
+  },
+];
+
+export function hasStore(context: any): boolean {
+  return context.pages.includes("shop");
+}
+
+export class StoreGenerator {
+  generateFiles(context: any): GeneratedFile[] {
+    const seeds = SEED_CATALOGS[context.industry] ?? DEFAULT_CATALOG;
+    const products = seeds.map((seed, index) => {
+      const slug = this.slugify(seed.name);
+      return {
+        slug,
+        name: seed.name,
+        category: seed.category,
+        price: seed.price,
+        description: seed.description,
+        image: `/images/products/${slug}.svg`,
+        inStock: seed.inStock ?? true,
+        featured: index < 2,
+      };
+    });
+    const moduleDir = this.getModuleDir(context);
+
+    return [
+      {
+        path: CATALOG_PATH,
+        content: `${JSON.stringify({ currency: CURRENCY, products }, null, 2)}\n`,
+        type: "json",
+      },
+      ...products.map((product, index) => ({
+        path: `public${product.image}`,
+        content: this.renderPlaceholderImage(product.name, index, context),
+        type: "svg",
+      })),
+      {
+        path: `${moduleDir}/catalog.ts`,
+        content: this.generateCatalogModule(moduleDir),
+        type: "ts",
+      },
+      {
+        path: `${moduleDir}/cart.ts`,
+        content: this.generateCartModule(),
+        type: "ts",
+      },
+    ];
+  }
+
+  getReadmeSection(context: any): string {
+    if (!hasStore(context)) return "";
+
+    return `
+## Online Store
+
+Products live in \`${CATALOG_PATH}\`; each is served at \`/shop/<slug>\`.
+Prices are in the catalog's \`currency\` (an ISO 4217 code), and products
+with \`"inStock": false\` stay listed but cannot be added to the cart.
+Replace the placeholder images in \`public/images/products\` with your own.
+
+The cart is kept in the browser's localStorage, so it survives reloads and
+is shared between tabs. Checkout charges the cart total through the payment
+form described under Payments below; set \`PAYMENT_CURRENCY\` in \`.env\` to
+the catalog's currency.
+`;
+  }
+
+  private getModuleDir(context: any): string {
+    return SHOP_MODULE_DIRS[context.framework] ?? SHOP_MODULE_DIRS.react;
+  }
+
+  private generateCatalogModule(moduleDir: string): string {
+    // src/content, seen from the module
+    const contentDir = `${"../".repeat(moduleDir.split("/").length - 1)}content`;
+
+    return `// The products in ${CATALOG_PATH} and the search, filters and sort
+// orders of the shop page
+
+import catalog from '${contentDir}/products.json';
+
+export interface Product {
+  slug: string;
+  name: string;
+  category: string;
+  // In the catalog currency's major unit, e.g. dollars
+  price: number;
+  description: string;
+  image: string;
+  inStock: boolean;
+  featured: boolean;
+}
+
+export interface PriceRange {
+  id: string;
+  min: number;
+  // Open-ended when missing
+  max?: number;
+}
+
+export type SortOrder = 'featured' | 'name-asc' | 'name-desc' | 'price-asc' | 'price-desc';
+
+export interface CatalogFilters {
+  query: string;
+  // Empty for every category or price
+  category: string;
+  price: string;
+  sort: SortOrder;
+}
+
+export const CURRENCY: string = catalog.currency;
+
+export const products: Product[] = catalog.products;
+
+export const categories: string[] = Array.from(new Set(products.map((product) => product.category))).sort();
+
+export const PRICE_RANGES: PriceRange[] = [
+  { id: '0-25', min: 0, max: 25 },
+  { id: '25-50', min: 25, max: 50 },
+  { id: '50-100', min: 50, max: 100 },
+  { id: '100+', min: 100 },
+];
+
+export const SORT_ORDERS: { id: SortOrder; label: string }[] = [
+  { id: 'featured', label: 'Featured' },
+  { id: 'name-asc', label: 'Name A-Z' },
+  { id: 'name-desc', label: 'Name Z-A' },
+  { id: 'price-asc', label: 'Price Low to High' },
+  { id: 'price-desc', label: 'Price High to Low' },
+];
+
+export const DEFAULT_FILTERS: CatalogFilters = { query: '', category: '', price: '', sort: 'featured' };
+
+export function getProduct(slug: string): Product | undefined {
+  return products.find((product) => product.slug === slug);
+}
+
+export function filterProducts(filters: CatalogFilters): Product[] {
+  const query = filters.query.trim().toLowerCase();
+  const range = PRICE_RANGES.find(({ id }) => id === filters.price);
+
+  const matches = products.filter(
+    (product) =>
+      (!query || [product.name, product.category, product.description].some((text) => text.toLowerCase().includes(query))) &&
+      (!filters.category || product.category === filters.category) &&
+      (!range || (product.price >= range.min && (range.max === undefined || product.price < range.max)))
+  );
+
+  // Sorting is stable, so ties keep their catalog order
+  switch (filters.sort) {
+    case 'name-asc':
+      return matches.sort((a, b) => a.name.localeCompare(b.name));
+    case 'name-desc':
+      return matches.sort((a, b) => b.name.localeCompare(a.name));
+    case 'price-asc':
+      return matches.sort((a, b) => a.price - b.price);
+    case 'price-desc':
+      return matches.sort((a, b) => b.price - a.price);
+    default:
+      return matches.sort((a, b) => Number(b.featured) - Number(a.featured));
+  }
+}
+
+export function formatPrice(amount: number, locale?: string): string {
+  return new Intl.NumberFormat(locale, { style: 'currency', currency: CURRENCY }).format(amount);
+}
+
+// Figures only, e.g. "$25 - $50" or "$100+", so the labels need no translation
+export function formatPriceRange(range: PriceRange, locale?: string): string {
+  const whole = (amount: number) =>
+    new Intl.NumberFormat(locale, { style: 'currency', currency: CURRENCY, maximumFractionDigits: 0 }).format(amount);
+  return range.max === undefined ? \`\${whole(range.min)}+\` : \`\${whole(range.min)} - \${whole(range.max)}\`;
+}
+`;
+  }
+
+  private generateCartModule(): string {
+    return `// The shopping cart, kept in localStorage so it survives reloads and is
+// shared between tabs. cart.subscribe follows the Svelte store contract:
+// a listener is called straight away and again after every change.
+
+import { getProduct, type Product } from './catalog';
+
+export interface CartLine {
+  slug: string;
+  quantity: number;
+}
+
+export interface CartItem extends CartLine {
+  product: Product;
+  total: number;
+}
+
+type Listener = (lines: CartLine[]) => void;
+
+const STORAGE_KEY = 'cart';
+
+export const MAX_QUANTITY = 99;
+
+// The cart while rendering on a server, which has no storage
+export const EMPTY_CART: CartLine[] = [];
+
+const listeners = new Set<Listener>();
+let lines = read();
+
+// Products dropped from the catalog since the visit fall out of the cart
+function read(): CartLine[] {
+  if (typeof localStorage === 'undefined') return EMPTY_CART;
+  try {
+    const stored: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored)
+      ? stored.filter((line): line is CartLine => !!getProduct(line?.slug) && Number.isInteger(line.quantity) && line.quantity > 0)
+      : EMPTY_CART;
+  } catch {
+    return EMPTY_CART;
+  }
+}
+
+function publish(next: CartLine[]): void {
+  lines = next;
+  listeners.forEach((listener) => listener(lines));
+}
+
+function save(next: CartLine[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  publish(next);
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key === STORAGE_KEY) publish(read());
+  });
+}
+
+export const cart = {
+  subscribe(listener: Listener): () => void {
+    listeners.add(listener);
+    listener(lines);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
+
+export function getCart(): CartLine[] {
+  return lines;
+}
+
+export function addToCart(slug: string, quantity = 1): void {
+  const current = lines.find((line) => line.slug === slug)?.quantity ?? 0;
+  setQuantity(slug, current + quantity);
+}
+
+// Zero or less removes the line
+export function setQuantity(slug: string, quantity: number): void {
+  if (quantity <= 0) {
+    removeFromCart(slug);
+    return;
+  }
+  // Products that sold out can still be removed, but not added
+  if (!getProduct(slug)?.inStock) return;
+  const clamped = Math.min(Math.floor(quantity), MAX_QUANTITY);
+  save(
+    lines.some((line) => line.slug === slug)
+      ? lines.map((line) => (line.slug === slug ? { slug, quantity: clamped } : line))
+      : [...lines, { slug, quantity: clamped }]
+  );
+}
+
+export function removeFromCart(slug: string): void {
+  save(lines.filter((line) => line.slug !== slug));
+}
+
+export function clearCart(): void {
+  save([]);
+}
+
+export function getCartItems(current: CartLine[]): CartItem[] {
+  return current.flatMap((line) => {
+    const product = getProduct(line.slug);
+    return product ? [{ ...line, product, total: product.price * line.quantity }] : [];
+  });
+}
+
+export function getCartTotal(current: CartLine[]): number {
+  return getCartItems(current).reduce((sum, item) => sum + item.total, 0);
+}
+
+// What checkout asks the payments server to charge for; the server looks up
+// the prices itself
+export function getOrderLines(current: CartLine[]): { productId: string; quantity: number }[] {
+  return getCartItems(current).map(({ slug, quantity }) => ({ productId: slug, quantity }));
+}
+
+export function getCartCount(current: CartLine[]): number {
+  return current.reduce((sum, line) => sum + line.quantity, 0);
+}
+`;
+  }
+
+  private renderPlaceholderImage(
+    name: string,
+    index: number,
+    context: any,
+  ): string {
+    const color = context.designTokens?.primaryColor ?? "#3b82f6";
+    const label = name.replace(/&/g, "&amp;").replace(/</g, "&lt;");
+    return `<svg xmlns="http://www.w3.org/2000/svg" width="600" height="600" viewBox="0 0 600 600">
+  <rect width="600" height="600" fill="${color}" opacity="${0.5 + (index % 3) * 0.2}"/>
+  <text x="300" y="300" fill="#ffffff" font-family="system-ui, sans-serif" font-size="40" text-anchor="middle" dominant-baseline="middle">${label}</text>
+</svg>
+`;
+  }
+
+  private slugify(value: string): string {
+    return value
+      .toLowerCase()
+      .replace(/['\u2019]/g, "")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "");
+  }
+}
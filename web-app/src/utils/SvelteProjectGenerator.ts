@@ -0,0 +1,345 @@
+/**
+ * SvelteKit Project Generator
+ * Maps the generator's pages to SvelteKit routes and its components to
+ * .svelte files under src/lib. The markup of the layout, pages and
+ * components lives in templates/svelte/ (see TemplateResolver); pages
+ * without a template come from the feature registry or the generic
+ * svelte/partials/Page.svelte. Static assets are served from public/ so the
+ * shared manifest, service worker and icons need no changes.
+ */
+
+import { BlogGenerator, hasBlog } from "./BlogGenerator";
+import { ChatGenerator } from "./ChatGenerator";
+import { catalogVersions } from "./DependencyCatalog";
+import { DevServerProxy } from "./DevServerProxy";
+import { featureRegistry } from "./FeatureRegistry";
+import type { GeneratedFile } from "./GeneratedFile";
+import { getIconLinks } from "./IconGenerator";
+import { getTextDirection } from "./LocaleGenerator";
+import { getPackageName } from "./PackageName";
+import { getPageComponentName, getPageLabel } from "./PageName";
+import { PaymentsGenerator } from "./PaymentsGenerator";
+import { PerformanceBudgetGenerator } from "./PerformanceBudgetGenerator";
+import { SeoGenerator } from "./SeoGenerator";
+import { SearchIndexGenerator } from "./SearchIndexGenerator";
+import { ServiceWorkerGenerator } from "./ServiceWorkerGenerator";
+import { hasStore } from "./StoreGenerator";
+import { templateResolver } from "./TemplateResolver";
+import { TestSuiteGenerator } from "./TestSuiteGenerator";
+
+export class SvelteProjectGenerator {
+  generateFiles(context: any): GeneratedFile[] {
+    const files: GeneratedFile[] = [];
+
+    files.push(...this.generatePackageJson(context));
+    files.push(...this.generateMainFiles(context));
+    files.push(...this.generateComponents(context));
+    files.push(...this.generatePages(context));
+    files.push(...this.generateConfigFiles(context));
+
+    return files;
+  }
+
+  private generatePackageJson(context: any): GeneratedFile[] {
+    const packageJson = {
+      name: getPackageName(context),
+      version: "1.0.0",
+      description: context.description,
+      type: "module",
+      private: true,
+      scripts: {
+        dev: "vite dev",
+        build: "vite build",
+        postbuild: new ServiceWorkerGenerator().getPostbuildScript("svelte"),
+        preview: "vite preview",
+        check: "svelte-kit sync && svelte-check --tsconfig ./tsconfig.json",
+        ...new TestSuiteGenerator().getScripts(context),
+        ...new PaymentsGenerator().getScripts(context),
+        ...new ChatGenerator().getScripts(context),
+      },
+      // SvelteKit needs no runtime packages of its own
+      ...(Object.keys(context.packages.dependencies).length > 0 && {
+        dependencies: context.packages.dependencies,
+      }),
+      devDependencies: {
+        ...catalogVersions([
+          "@sveltejs/adapter-static",
+          "@sveltejs/kit",
+          "@sveltejs/vite-plugin-svelte",
+          // scripts/chunk-budget.mjs is type-checked with the app
+          "@types/node",
+          "svelte",
+          "svelte-check",
+          "tslib",
+          "typescript",
+          "vite",
+        ]),
+        ...context.packages.devDependencies,
+      },
+    };
+
+    return [
+      {
+        path: "package.json",
+        content: JSON.stringify(packageJson, null, 2),
+        type: "json",
+      },
+    ];
+  }
+
+  private generateMainFiles(context: any): GeneratedFile[] {
+    const files: GeneratedFile[] = [];
+
+    files.push({
+      path: "src/app.html",
+      content: `<!doctype html>
+<html lang="${context.locales[0]}" dir="${getTextDirection(context.locales[0])}">
+  <head>
+    <meta charset="utf-8" />
+    ${getIconLinks(context.icons, "%sveltekit.assets%")}
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+
+    <!-- PWA Meta Tags -->
+    <link rel="manifest" href="%sveltekit.assets%/manifest.json" />
+    <meta name="theme-color" content="${context.designTokens.primaryColor}" />
+    <meta name="apple-mobile-web-app-capable" content="yes" />
+    <meta name="apple-mobile-web-app-status-bar-style" content="default" />
+    <meta name="apple-mobile-web-app-title" content="${context.businessName}" />${
+      hasBlog(context) ? `\n    ${new SeoGenerator().getFeedLink(context)}` : ""
+    }
+
+    <!-- Describes the business to search engines; +layout.svelte adds the per-route tags -->
+    ${new SeoGenerator().getStructuredDataScript(context)}
+    %sveltekit.head%
+  </head>
+  <body data-sveltekit-preload-data="hover">
+    <div style="display: contents">%sveltekit.body%</div>
+  </body>
+</html>`,
+      type: "html",
+    });
+
+    files.push({
+      path: "src/app.d.ts",
+      content: `// See https://kit.svelte.dev/docs/types#app
+declare global {
+  namespace App {
+    // interface Error {}
+    // interface Locals {}
+    // interface PageData {}
+    // interface Platform {}
+  }
+}
+
+export {};`,
+      type: "ts",
+    });
+
+    files.push({
+      path: "src/routes/+layout.ts",
+      content: `// Every route is prerendered to static HTML by adapter-static
+export const prerender = true;`,
+      type: "ts",
+    });
+
+    files.push({
+      path: "src/routes/+layout.svelte",
+      content: templateResolver.render(
+        "svelte/src/routes/+layout.svelte",
+        context,
+      ),
+      type: "svelte",
+    });
+
+    files.push({
+      path: "src/routes/+error.svelte",
+      content: templateResolver.render(
+        "svelte/src/routes/+error.svelte",
+        context,
+      ),
+      type: "svelte",
+    });
+
+    return files;
+  }
+
+  private generateComponents(context: any): GeneratedFile[] {
+    const files: GeneratedFile[] = [];
+
+    context.components.forEach((componentName: string) => {
+      const path = `src/lib/components/${componentName}.svelte`;
+      const content =
+        templateResolver.tryRender(`svelte/${path}`, context) ??
+        featureRegistry.renderComponent(componentName, "svelte", context);
+      if (content) {
+        files.push({ path, content, type: "svelte" });
+      }
+    });
+
+    return files;
+  }
+
+  private generatePages(context: any): GeneratedFile[] {
+    const files: GeneratedFile[] = [];
+
+    context.pages.forEach((page: string) => {
+      const path =
+        page === "home"
+          ? "src/routes/+page.svelte"
+          : `src/routes/${page}/+page.svelte`;
+      files.push({
+        path,
+        content:
+          templateResolver.tryRender(`svelte/${path}`, context) ??
+          featureRegistry.renderPage(page, "svelte", context) ??
+          templateResolver.render("svelte/partials/Page.svelte", {
+            ...context,
+            page,
+            label: getPageLabel(context, page),
+          }),
+        type: "svelte",
+      });
+    });
+
+    if (hasBlog(context)) {
+      files.push(...this.generateBlogPostRoute(context));
+    }
+
+    if (hasStore(context)) {
+      files.push(...this.generateProductRoute(context));
+    }
+
+    return files;
+  }
+
+  // entries() lists every post so each one is prerendered
+  private generateBlogPostRoute(context: any): GeneratedFile[] {
+    return [
+      {
+        path: "src/routes/blog/[slug]/+page.ts",
+        content: `import { error } from '@sveltejs/kit';
+import { getPost, posts } from '$lib/blog/posts';
+import type { EntryGenerator, PageLoad } from './$types';
+
+export const entries: EntryGenerator = () => posts.map(({ slug }) => ({ slug }));
+
+export const load: PageLoad = ({ params }) => {
+  const post = getPost(params.slug);
+  if (!post) error(404, 'Post not found');
+  return { post };
+};`,
+        type: "ts",
+      },
+      {
+        path: "src/routes/blog/[slug]/+page.svelte",
+        content: templateResolver.render(
+          "svelte/src/routes/blog/[slug]/+page.svelte",
+          context,
+        ),
+        type: "svelte",
+      },
+    ];
+  }
+
+  // entries() lists every product so each one is prerendered
+  private generateProductRoute(context: any): GeneratedFile[] {
+    return [
+      {
+        path: "src/routes/shop/[slug]/+page.ts",
+        content: `import { error } from '@sveltejs/kit';
+import { getProduct, products } from '$lib/shop/catalog';
+import type { EntryGenerator, PageLoad } from './$types';
+
+export const entries: EntryGenerator = () => products.map(({ slug }) => ({ slug }));
+
+export const load: PageLoad = ({ params }) => {
+  const product = getProduct(params.slug);
+  if (!product) error(404, 'Product not found');
+  return { product };
+};`,
+        type: "ts",
+      },
+      {
+        path: "src/routes/shop/[slug]/+page.svelte",
+        content: templateResolver.render(
+          "svelte/src/routes/shop/[slug]/+page.svelte",
+          context,
+        ),
+        type: "svelte",
+      },
+    ];
+  }
+
+  private generateConfigFiles(context: any): GeneratedFile[] {
+    const files: GeneratedFile[] = [];
+
+    files.push({
+      path: "svelte.config.js",
+      content: `import adapter from '@sveltejs/adapter-static';
+import { vitePreprocess } from '@sveltejs/vite-plugin-svelte';
+
+/** @type {import('@sveltejs/kit').Config} */
+const config = {
+  preprocess: vitePreprocess(),
+  kit: {
+    adapter: adapter({
+      fallback: '404.html'
+    }),
+    files: {
+      // Manifest, service worker and icons live in public/ like the other targets
+      assets: 'public'
+    },
+    prerender: {
+      // Shared footer links and placeholder images may point at pages or assets
+      // that were not generated for the selected features
+      handleHttpError: 'warn'
+    }
+  }
+};
+
+export default config;`,
+      type: "js",
+    });
+
+    const plugins = [
+      new PerformanceBudgetGenerator().getVitePlugin(context),
+      new BlogGenerator().getVitePlugin(context),
+      new SearchIndexGenerator().getVitePlugin(context),
+    ].filter((plugin) => plugin !== null);
+    files.push({
+      path: "vite.config.ts",
+      content: `import { sveltekit } from '@sveltejs/kit/vite';
+import { defineConfig } from 'vite';
+${plugins.map((plugin) => `${plugin.importLine};`).join("\n")}
+
+export default defineConfig({
+  plugins: [sveltekit(), ${plugins.map((plugin) => plugin.call).join(", ")}],
+  server: {
+    port: 3000${new DevServerProxy().getViteProxy(context)}
+  }
+});`,
+      type: "ts",
+    });
+
+    files.push({
+      path: "tsconfig.json",
+      content: `{
+  "extends": "./.svelte-kit/tsconfig.json",
+  "compilerOptions": {
+    "allowJs": true,
+    "checkJs": true,
+    "esModuleInterop": true,
+    "forceConsistentCasingInFileNames": true,
+    "resolveJsonModule": true,
+    "skipLibCheck": true,
+    "sourceMap": true,
+    "strict": true,
+    "moduleResolution": "bundler"
+  }
+}`,
+      type: "json",
+    });
+
+    return files;
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { MessageCatalog } from "./LocaleGenerator";
+import { TemplateResolver } from "./TemplateResolver";
+
+const TEMPLATES = {
+  "vue/partials/Footer.vue": "<footer>{{businessName}}</footer>\n",
+  "vue/src/pages/About.vue":
+    "<template>\n  <main></main>\n  {{> vue/partials/Footer.vue}}\n</template>",
+  "react/src/pages/About.tsx": '<h1>{{t "about.title" "About us"}}</h1>',
+};
+
+describe("TemplateResolver", () => {
+  it("includes every template as a partial, keeping its indentation", () => {
+    const resolver = new TemplateResolver(TEMPLATES);
+
+    expect(
+      resolver.render("vue/src/pages/About.vue", { businessName: "Trattoria" }),
+    ).toBe(
+      "<template>\n  <main></main>\n  <footer>Trattoria</footer>\n</template>",
+    );
+  });
+
+  it("changes every including file when a partial is overridden", () => {
+    const resolver = new TemplateResolver(
+      {
+        ...TEMPLATES,
+        "overrides/acme/vue/partials/Footer.vue": "<footer>Acme</footer>\n",
+      },
+      "acme",
+    );
+
+    expect(resolver.render("vue/src/pages/About.vue", {})).toContain(
+      "<footer>Acme</footer>",
+    );
+  });
+
+  it("registers React copy with the message catalog", () => {
+    const resolver = new TemplateResolver(TEMPLATES);
+    const messages = new MessageCatalog();
+
+    expect(resolver.render("react/src/pages/About.tsx", { messages })).toBe(
+      "<h1>{t('about.title')}</h1>",
+    );
+    expect(messages.get("about.title")).toBe("About us");
+  });
+
+  it("renders nothing for a file without a template", () => {
+    expect(
+      new TemplateResolver(TEMPLATES).tryRender("vue/src/pages/Shop.vue", {}),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Template Resolver
+ * Loads the Handlebars templates under /templates, which Vite bundles at
+ * build time, and renders them with the generation context. A template named
+ * after a generated file, e.g. `react/src/components/Navigation.tsx.hbs`,
+ * supplies that file's content, so markup can change without touching the
+ * generators. Stylesheets every framework shares live under `styles/`.
+ *
+ * Teams replace any template by dropping a file with the same relative path
+ * into templates/overrides/<team>/ and building with VITE_TEMPLATE_TEAM set
+ * to the team name. Overrides registered at runtime win over both.
+ *
+ * Every template is also a partial under its name, so markup shared by
+ * several files, such as a page footer, is included with
+ * `{{> vue/partials/Footer.vue}}` and overridden in one place.
+ *
+ * Templates render without HTML escaping because they produce source code;
+ * write `\{{` for a literal double brace such as a JSX style object or a Vue
+ * interpolation, and close a tag with `~}}` when the output continues with
+ * `}`.
+ */
+
+import Handlebars from "handlebars";
+import { isTextFile, type GeneratedFile } from "./GeneratedFile";
+
+const TEMPLATE_ROOT = "../../../templates/";
+const OVERRIDES_DIR = "overrides/";
+
+const BUNDLED_TEMPLATES = Object.fromEntries(
+  Object.entries(
+    import.meta.glob<string>("../../../templates/**/*.hbs", {
+      query: "?raw",
+      import: "default",
+      eager: true,
+    }),
+  ).map(([modulePath, source]) => [
+    modulePath.slice(TEMPLATE_ROOT.length).replace(/\.hbs$/, ""),
+    source,
+  ]),
+);
+
+export class TemplateResolver {
+  private readonly templates = new Map<string, string>();
+  private readonly overrides = new Map<string, string>();
+  private readonly compiled = new Map<string, HandlebarsTemplateDelegate>();
+  private readonly handlebars = Handlebars.create();
+
+  /**
+   * @param sources template sources keyed by path relative to /templates,
+   * without the .hbs extension
+   * @param team name of the overrides/<team> directory to layer on top
+   */
+  constructor(sources: Record<string, string>, team?: string) {
+    const entries = Object.entries(sources);
+    entries
+      .filter(([name]) => !name.startsWith(OVERRIDES_DIR))
+      .forEach(([name, source]) => this.templates.set(name, source));
+
+    if (team) {
+      const teamDir = `${OVERRIDES_DIR}${team}/`;
+      entries
+        .filter(([name]) => name.startsWith(teamDir))
+        .forEach(([name, source]) =>
+          this.templates.set(name.slice(teamDir.length), source),
+        );
+    }
+
+    this.templates.forEach((source, name) =>
+      this.handlebars.registerPartial(name, source),
+    );
+    this.registerHelpers();
+  }
+
+  has(name: string): boolean {
+    return this.overrides.has(name) || this.templates.has(name);
+  }
+
+  resolve(name: string): string | null {
+    return this.overrides.get(name) ?? this.templates.get(name) ?? null;
+  }
+
+  render(name: string, context: any): string {
+    let template = this.compiled.get(name);
+    if (!template) {
+      const source = this.resolve(name);
+      if (source === null) {
+        throw new Error(`Template not found: ${name}`);
+      }
+      // Partials keep the indentation of their own source
+      template = this.handlebars.compile(source, {
+        noEscape: true,
+        preventIndent: true,
+      });
+      this.compiled.set(name, template);
+    }
+    return template(context);
+  }
+
+  // Renders the template if there is one, for files with a fallback
+  tryRender(name: string, context: any): string | null {
+    return this.has(name) ? this.render(name, context) : null;
+  }
+
+  override(name: string, source: string): void {
+    this.overrides.set(name, source);
+    this.compiled.delete(name);
+    this.handlebars.registerPartial(name, source);
+  }
+
+  removeOverride(name: string): boolean {
+    this.compiled.delete(name);
+    const source = this.templates.get(name);
+    if (source === undefined) {
+      this.handlebars.unregisterPartial(name);
+    } else {
+      this.handlebars.registerPartial(name, source);
+    }
+    return this.overrides.delete(name);
+  }
+
+  /**
+   * Re-renders every text file that has a template at
+   * `${framework}/${file.path}`, leaving the rest untouched.
+   */
+  applyTo(
+    files: GeneratedFile[],
+    framework: string,
+    context: any,
+  ): GeneratedFile[] {
+    return files.map((file) => {
+      const name = `${framework}/${file.path}`;
+      return isTextFile(file) && this.has(name)
+        ? { ...file, content: this.render(name, context) }
+        : file;
+    });
+  }
+
+  private registerHelpers(): void {
+    this.handlebars.registerHelper("eq", (a: unknown, b: unknown) => a === b);
+    this.handlebars.registerHelper("json", (value: unknown) =>
+      JSON.stringify(value, null, 2),
+    );
+    this.handlebars.registerHelper("capitalize", (value: string) =>
+      value ? value.charAt(0).toUpperCase() + value.slice(1) : "",
+    );
+    this.handlebars.registerHelper(
+      "includes",
+      (list: unknown, value: unknown) =>
+        Array.isArray(list) && list.includes(value),
+    );
+    this.handlebars.registerHelper("lowercase", (value: string) =>
+      value ? value.toLowerCase() : "",
+    );
+    this.handlebars.registerHelper("concat", (...args: unknown[]) =>
+      args.slice(0, -1).join(""),
+    );
+
+    // Copy in localized pages: `{{t "home.title" "Welcome"}}` registers the
+    // text with the context's message catalog and renders `{t('home.title')}`
+    // for a JSX child or attribute; tCall renders the bare `t()` call for use
+    // inside an expression. An optional third argument is the source of the
+    // placeholder values, e.g. "{ name: product.name }".
+    const translate = (args: unknown[]): string => {
+      const options = args.pop() as Handlebars.HelperOptions;
+      const [key, text, params] = args as [string, string, string?];
+      return options.data.root.messages.t(key, text, params);
+    };
+    this.handlebars.registerHelper(
+      "t",
+      (...args: unknown[]) => `{${translate(args)}}`,
+    );
+    this.handlebars.registerHelper("tCall", (...args: unknown[]) =>
+      translate(args),
+    );
+    // Registers text the page looks up by a key built at runtime, e.g.
+    // `{{message "gallery.items.1.title" "Project 1"~}}`; renders nothing
+    this.handlebars.registerHelper(
+      "message",
+      (key: string, text: string, options: Handlebars.HelperOptions) => {
+        options.data.root.messages.add(key, text);
+        return "";
+      },
+    );
+  }
+}
+
+export const templateResolver = new TemplateResolver(
+  BUNDLED_TEMPLATES,
+  import.meta.env.VITE_TEMPLATE_TEAM,
+);
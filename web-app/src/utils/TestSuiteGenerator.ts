@@ -0,0 +1,4354 @@
+/**
+ * Test Suite Generator
+ * Emits the Vitest and Testing Library suite a generated project gets when
+ * Deployment.testing is on: the Vitest config, a setup file that registers
+ * the jest-dom matchers and fills in browser APIs jsdom lacks, a smoke test
+ * for every page, a behaviour test for every built-in component, API
+ * tests for the payments and chat servers when there are any and tests for
+ * the site search and its index builder. Tests sit next to the file
+ * they cover. React and Next.js share the React tests; Vue, SvelteKit
+ * and Angular get their own. Angular components are compiled for Vitest by
+ * Analog's Vite plugin and rendered through TestBed.
+ */
+
+import { hasBlog } from "./BlogGenerator";
+import { CHAT_SERVER_PATH, getChatModuleDir } from "./ChatGenerator";
+import { hasEndToEndTests } from "./EndToEndTestGenerator";
+import { featureRegistry, type NavigationEntry } from "./FeatureRegistry";
+import type { GeneratedFile } from "./GeneratedFile";
+import {
+  getTextDirection,
+  isLocalized,
+  LocaleGenerator,
+} from "./LocaleGenerator";
+import { getPageComponentName } from "./PageName";
+import { PAYMENTS_SERVER_PATH } from "./PaymentsGenerator";
+import { getSearchModuleDir } from "./SearchIndexGenerator";
+import { hasStore } from "./StoreGenerator";
+
+type TestRenderer = (context: any) => string;
+
+// How one framework's project is laid out and its tests are written
+interface TestKit {
+  configPath: string;
+  config: string;
+  // Testing Library package whose cleanup the setup file runs after every
+  // test; Angular's registers its own through Vitest's globals
+  library: string | null;
+  // Imports and statements that prepare the framework in the setup file
+  environment?: { imports: string; setup: string };
+  testExtension: string;
+  pagePath: (page: string, componentName: string) => string;
+  componentPath: (name: string) => string;
+  // Imports and a renderPage() helper that mounts the page as the app does
+  pageHarness: (page: string, componentName: string) => string[];
+  // Angular renders asynchronously, so its tests await renderPage()
+  asyncRender?: boolean;
+  // src/content/site.json as the pages import it
+  siteContent: string;
+  componentTests: Record<string, TestRenderer>;
+}
+
+const JSDOM_POLYFILLS = `// jsdom does not implement scrolling or media queries
+Element.prototype.scrollIntoView = vi.fn()
+window.scrollTo = vi.fn() as unknown as typeof window.scrollTo
+window.matchMedia = vi.fn((query: string) => ({
+  matches: false,
+  media: query,
+  onchange: null,
+  addListener: vi.fn(),
+  removeListener: vi.fn(),
+  addEventListener: vi.fn(),
+  removeEventListener: vi.fn(),
+  dispatchEvent: vi.fn()
+}))`;
+
+const VITE_VITEST_CONFIG = `import { configDefaults, defineConfig, mergeConfig } from 'vitest/config'
+import viteConfig from './vite.config'
+
+export default mergeConfig(
+  viteConfig,
+  defineConfig({
+    test: {
+      environment: 'jsdom',
+      setupFiles: ['./src/test/setup'],
+      // e2e/ holds the Playwright specs
+      exclude: [...configDefaults.exclude, 'e2e/**'],
+      css: false
+    }
+  })
+)
+`;
+
+const NEXTJS_VITEST_CONFIG = `import { fileURLToPath } from 'node:url'
+import react from '@vitejs/plugin-react'
+import { configDefaults, defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  plugins: [react()],
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('./src', import.meta.url))
+    }
+  },
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['./src/test/setup'],
+    // e2e/ holds the Playwright specs
+    exclude: [...configDefaults.exclude, 'e2e/**'],
+    css: false,
+    // next/link reads trailingSlash from next.config.mjs through this variable
+    env: {
+      __NEXT_TRAILING_SLASH: 'true'
+    }
+  }
+})
+`;
+
+// svelteTesting() resolves Svelte's browser build, which jsdom needs to mount;
+// the chat server's test still needs ws's Node build, which ws hides from
+// browsers
+const SVELTEKIT_VITEST_CONFIG = (chatServer: boolean) => `${
+  chatServer ? "import { fileURLToPath } from 'node:url'\n" : ""
+}import { svelteTesting } from '@testing-library/svelte/vite'
+import { configDefaults, defineConfig, mergeConfig } from 'vitest/config'
+import viteConfig from './vite.config'
+
+export default mergeConfig(
+  viteConfig,
+  defineConfig({
+    plugins: [svelteTesting()],${
+      chatServer
+        ? `
+    resolve: {
+      alias: {
+        ws: fileURLToPath(new URL('./node_modules/ws/wrapper.mjs', import.meta.url))
+      }
+    },`
+        : ""
+    }
+    test: {
+      environment: 'jsdom',
+      setupFiles: ['./src/test/setup'],
+      // e2e/ holds the Playwright specs
+      exclude: [...configDefaults.exclude, 'e2e/**'],
+      css: false
+    }
+  })
+)
+`;
+
+// Analog's plugin compiles components the way TestBed expects. Angular
+// projects are CommonJS packages, so the config opts into ESM; zone.js and
+// Testing Library's cleanup hook into Vitest's globals. Analog would move
+// the tests into VM threads, which crash under zone.js, so they keep to
+// Vitest's forked workers.
+const ANGULAR_VITEST_CONFIG = `import angular from '@analogjs/vite-plugin-angular'
+import { configDefaults, defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  plugins: [angular({ tsconfig: 'tsconfig.spec.json' })],
+  test: {
+    environment: 'jsdom',
+    setupFiles: ['./src/test/setup'],
+    // e2e/ holds the Playwright specs
+    exclude: [...configDefaults.exclude, 'e2e/**'],
+    css: false,
+    globals: true,
+    pool: 'forks'
+  }
+})
+`;
+
+const ANGULAR_TEST_ENVIRONMENT = {
+  imports: `import '@analogjs/vitest-angular/setup-zone'
+import { getTestBed } from '@angular/core/testing'
+import { BrowserDynamicTestingModule, platformBrowserDynamicTesting } from '@angular/platform-browser-dynamic/testing'`,
+  setup: `// Components render through TestBed, compiled just in time
+getTestBed().initTestEnvironment(BrowserDynamicTestingModule, platformBrowserDynamicTesting())`,
+};
+
+// Runs against the real Stripe library: validation and config are answered
+// before Stripe is called, creating an intent needs stripe-mock. Checkout
+// pricing is checked against a stand-in that records the intents asked for.
+const PAYMENTS_SERVER_TEST = `import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { createPaymentsServer, createStripe, priceOrder } from './payments.mjs'
+
+const STRIPE_API_BASE = process.env.STRIPE_API_BASE
+
+describe('payments server', () => {
+  let server
+  let api
+
+  beforeAll(async () => {
+    server = createPaymentsServer({
+      stripe: createStripe({ STRIPE_SECRET_KEY: 'sk_test_123', STRIPE_API_BASE }),
+      publishableKey: 'pk_test_123',
+      currency: 'usd'
+    })
+    await new Promise((resolve) => server.listen(0, resolve))
+    api = \`http://localhost:\${server.address().port}/api/payments\`
+  })
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)))
+
+  const createIntent = (body) =>
+    fetch(\`\${api}/intents\`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+
+  it('hands the browser the publishable key and currency', async () => {
+    const response = await fetch(\`\${api}/config\`)
+
+    expect(await response.json()).toEqual({ publishableKey: 'pk_test_123', currency: 'usd' })
+  })
+
+  it.each([0, -100, 49.99, '4999'])('rejects an amount of %s', async (amount) => {
+    const response = await createIntent({ amount })
+
+    expect(response.status).toBe(400)
+  })
+
+  it('answers unknown routes with 404', async () => {
+    const response = await fetch(\`\${api}/refunds\`)
+
+    expect(response.status).toBe(404)
+  })
+
+  it.skipIf(!STRIPE_API_BASE)('creates a PaymentIntent for the amount', async () => {
+    const response = await createIntent({ amount: 4999 })
+
+    expect(response.status).toBe(200)
+    const { clientSecret, status } = await response.json()
+    expect(clientSecret).toContain('_secret_')
+    expect(status).toBe('requires_payment_method')
+  })
+})
+
+describe('checkout payments', () => {
+  const products = [
+    { slug: 'mug', name: 'Mug', price: 12.5, inStock: true },
+    { slug: 'poster', name: 'Poster', price: 20, inStock: false }
+  ]
+  const paymentIntents = {
+    create: vi.fn(async () => ({ client_secret: 'pi_123_secret_456', status: 'requires_payment_method' }))
+  }
+  let server
+  let api
+
+  beforeAll(async () => {
+    server = createPaymentsServer({ stripe: { paymentIntents }, publishableKey: 'pk_test_123', products })
+    await new Promise((resolve) => server.listen(0, resolve))
+    api = \`http://localhost:\${server.address().port}/api/payments\`
+  })
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)))
+
+  const checkout = (body) =>
+    fetch(\`\${api}/intents\`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    })
+
+  it('charges the catalog price whatever amount the browser sends', async () => {
+    const response = await checkout({ amount: 1, items: [{ productId: 'mug', quantity: 3 }] })
+
+    expect(response.status).toBe(200)
+    expect(paymentIntents.create).toHaveBeenLastCalledWith(
+      expect.objectContaining({ amount: 3750, metadata: { order: '3 × mug' } })
+    )
+  })
+
+  it('prices zero-decimal currencies in whole units', () => {
+    const yenProducts = [{ ...products[0], price: 1200 }]
+
+    expect(priceOrder([{ productId: 'mug', quantity: 2 }], yenProducts, 'jpy')).toBe(2400)
+  })
+
+  it.each([
+    ['an unknown product', [{ productId: 'lamp', quantity: 1 }]],
+    ['a product out of stock', [{ productId: 'poster', quantity: 1 }]],
+    ['a quantity of 0', [{ productId: 'mug', quantity: 0 }]],
+    ['a fractional quantity', [{ productId: 'mug', quantity: 1.5 }]],
+    ['no lines', []]
+  ])('rejects %s', async (_case, items) => {
+    paymentIntents.create.mockClear()
+
+    const response = await checkout({ items })
+
+    expect(response.status).toBe(400)
+    expect(paymentIntents.create).not.toHaveBeenCalled()
+  })
+})
+`;
+
+// Talks to the real server over real sockets on a free port
+const CHAT_SERVER_TEST = `import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { WebSocket } from 'ws'
+import { createChatServer } from './chat.mjs'
+
+describe('chat server', () => {
+  let server
+  let url
+
+  beforeAll(async () => {
+    server = createChatServer({ historyLimit: 3, log: () => {} })
+    await new Promise((resolve) => server.listen(0, resolve))
+    url = \`ws://localhost:\${server.address().port}/api/chat\`
+  })
+
+  afterAll(() => new Promise((resolve) => server.close(resolve)))
+
+  // Connects, joins the room and collects every event the server sends back
+  const join = async (room, author, at = url) => {
+    const socket = new WebSocket(at)
+    const events = []
+    socket.on('message', (data) => events.push(JSON.parse(String(data))))
+    await new Promise((resolve, reject) => {
+      socket.once('open', resolve)
+      socket.once('error', reject)
+    })
+    socket.send(JSON.stringify({ type: 'join', room, author, senderId: \`\${author.toLowerCase()}-1\` }))
+    await vi.waitFor(() => expect(events).toContainEqual(expect.objectContaining({ type: 'history' })))
+
+    return {
+      events,
+      send: (event) => socket.send(JSON.stringify(event)),
+      close: () =>
+        new Promise((resolve) => {
+          socket.once('close', resolve)
+          socket.close()
+        })
+    }
+  }
+
+  const messagesIn = (events) => events.filter((event) => event.type === 'message').map((event) => event.message.text)
+
+  it('sends a message to everyone in its room and no one else', async () => {
+    const jane = await join('shipping', 'Jane')
+    const sam = await join('shipping', 'Sam')
+    const other = await join('returns', 'Alex')
+
+    jane.send({ type: 'message', id: 'm1', text: 'Where is my order?' })
+
+    await vi.waitFor(() => expect(messagesIn(sam.events)).toEqual(['Where is my order?']))
+    expect(messagesIn(jane.events)).toEqual(['Where is my order?'])
+    expect(sam.events.at(-1).message).toMatchObject({ id: 'm1', author: 'Jane', senderId: 'jane-1', room: 'shipping' })
+    expect(messagesIn(other.events)).toEqual([])
+    await Promise.all([jane.close(), sam.close(), other.close()])
+  })
+
+  it('gives newcomers the latest messages', async () => {
+    const jane = await join('history', 'Jane')
+    for (const id of ['m1', 'm2', 'm3', 'm4']) {
+      jane.send({ type: 'message', id, text: \`Message \${id}\` })
+    }
+    await vi.waitFor(() => expect(messagesIn(jane.events)).toHaveLength(4))
+
+    const sam = await join('history', 'Sam')
+
+    expect(sam.events[0].messages.map((message) => message.id)).toEqual(['m2', 'm3', 'm4'])
+    await Promise.all([jane.close(), sam.close()])
+  })
+
+  it('ignores a message it already has', async () => {
+    const jane = await join('resend', 'Jane')
+
+    jane.send({ type: 'message', id: 'm1', text: 'Hello' })
+    jane.send({ type: 'message', id: 'm1', text: 'Hello' })
+    jane.send({ type: 'message', id: 'm2', text: 'Anyone there?' })
+
+    await vi.waitFor(() => expect(messagesIn(jane.events)).toEqual(['Hello', 'Anyone there?']))
+    await jane.close()
+  })
+
+  it('tells the rest of the room who is typing', async () => {
+    const jane = await join('typing', 'Jane')
+    const sam = await join('typing', 'Sam')
+
+    jane.send({ type: 'typing', typing: true })
+    await vi.waitFor(() =>
+      expect(sam.events).toContainEqual({ type: 'typing', senderId: 'jane-1', author: 'Jane', typing: true })
+    )
+    expect(jane.events.some((event) => event.type === 'typing')).toBe(false)
+
+    // Leaving clears the indicator
+    await jane.close()
+    await vi.waitFor(() => expect(sam.events.at(-1)).toMatchObject({ type: 'typing', senderId: 'jane-1', typing: false }))
+    await sam.close()
+  })
+
+  it('turns away a room name longer than 32 characters', async () => {
+    const socket = new WebSocket(url)
+    await new Promise((resolve) => socket.once('open', resolve))
+    const closed = new Promise((resolve) => socket.once('close', resolve))
+
+    socket.send(JSON.stringify({ type: 'join', room: 'r'.repeat(33), author: 'Jane', senderId: 'jane-1' }))
+
+    expect(await closed).toBe(1008)
+  })
+
+  it('forgets a room once it is empty and its history has expired', async () => {
+    const log = vi.fn()
+    const expiring = createChatServer({ historyLimit: 3, roomTtl: 50, log })
+    await new Promise((resolve) => expiring.listen(0, resolve))
+    const at = \`ws://localhost:\${expiring.address().port}/api/chat\`
+
+    const jane = await join('expiring', 'Jane', at)
+    jane.send({ type: 'message', id: 'm1', text: 'Hello' })
+    await vi.waitFor(() => expect(messagesIn(jane.events)).toEqual(['Hello']))
+    await jane.close()
+    await new Promise((resolve) => setTimeout(resolve, 100))
+    const sam = await join('expiring', 'Sam', at)
+
+    expect(sam.events[0].messages).toEqual([])
+    expect(log).toHaveBeenCalledTimes(2)
+    await sam.close()
+    await new Promise((resolve) => expiring.close(resolve))
+  })
+})
+`;
+
+// Stands in for the browser's WebSocket in the chat tests, which play the
+// server: open() connects, receive() delivers an event, close() drops it
+const FAKE_WEB_SOCKET = `export class FakeWebSocket extends EventTarget {
+  static CONNECTING = 0
+  static OPEN = 1
+  static CLOSED = 3
+  static instances: FakeWebSocket[] = []
+
+  // The socket opened last
+  static get latest(): FakeWebSocket {
+    return FakeWebSocket.instances[FakeWebSocket.instances.length - 1]
+  }
+
+  url: string
+  readyState = FakeWebSocket.CONNECTING
+  // What the client sent, parsed
+  sent: Record<string, unknown>[] = []
+
+  constructor(url: string) {
+    super()
+    this.url = url
+    FakeWebSocket.instances.push(this)
+  }
+
+  send(data: string) {
+    this.sent.push(JSON.parse(data))
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN
+    this.dispatchEvent(new Event('open'))
+  }
+
+  receive(event: object) {
+    this.dispatchEvent(new MessageEvent('message', { data: JSON.stringify(event) }))
+  }
+
+  close() {
+    if (this.readyState === FakeWebSocket.CLOSED) return
+    this.readyState = FakeWebSocket.CLOSED
+    this.dispatchEvent(new Event('close'))
+  }
+}
+`;
+
+const CHAT_CLIENT_TEST = (
+  fakeWebSocketPath: string,
+) => `import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { FakeWebSocket } from '${fakeWebSocketPath}'
+import { ChatClient, type ChatState, type Message } from './client'
+
+const reply = (text: string): Message => ({
+  id: 'reply-1',
+  room: 'help',
+  author: 'Sam',
+  senderId: 'sam',
+  text,
+  sentAt: new Date().toISOString()
+})
+
+describe('ChatClient', () => {
+  let client: ChatClient
+  let state: ChatState
+  let unsubscribe: () => void
+
+  beforeEach(() => {
+    client = new ChatClient({ room: 'help', name: 'Jane' })
+    unsubscribe = client.subscribe((next) => {
+      state = next
+    })
+  })
+
+  afterEach(() => {
+    unsubscribe()
+    localStorage.clear()
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+  })
+
+  it('joins its room once connected', () => {
+    expect(state.status).toBe('connecting')
+
+    FakeWebSocket.latest.open()
+
+    expect(state.status).toBe('online')
+    expect(FakeWebSocket.latest.sent).toEqual([
+      { type: 'join', room: 'help', author: 'Jane', senderId: state.senderId }
+    ])
+  })
+
+  it('keeps messages written offline until the server has them', () => {
+    client.send('Are you open today?')
+    expect(state.pending).toMatchObject([{ text: 'Are you open today?' }])
+    expect(FakeWebSocket.latest.sent).toEqual([])
+
+    // Still waiting after a reload
+    unsubscribe()
+    unsubscribe = new ChatClient({ room: 'help', name: 'Jane' }).subscribe((next) => {
+      state = next
+    })
+    expect(state.pending).toMatchObject([{ text: 'Are you open today?' }])
+
+    const socket = FakeWebSocket.latest
+    socket.open()
+    const [queued] = state.pending
+    expect(socket.sent).toContainEqual({ type: 'message', id: queued.id, text: 'Are you open today?' })
+
+    socket.receive({ type: 'message', message: { ...queued, sentAt: new Date().toISOString() } })
+    expect(state.pending).toEqual([])
+    expect(state.messages).toMatchObject([{ text: 'Are you open today?' }])
+    expect(localStorage.getItem('chat-outbox:help')).toBeNull()
+  })
+
+  it('reconnects after growing delays', () => {
+    vi.useFakeTimers()
+    // The longest delay each time
+    vi.spyOn(Math, 'random').mockReturnValue(1)
+
+    FakeWebSocket.latest.close()
+    expect(state.status).toBe('offline')
+    vi.advanceTimersByTime(999)
+    expect(FakeWebSocket.instances).toHaveLength(1)
+    vi.advanceTimersByTime(1)
+    expect(FakeWebSocket.instances).toHaveLength(2)
+
+    FakeWebSocket.latest.close()
+    vi.advanceTimersByTime(1999)
+    expect(FakeWebSocket.instances).toHaveLength(2)
+    vi.advanceTimersByTime(1)
+    expect(FakeWebSocket.instances).toHaveLength(3)
+
+    // A successful connection starts the delays over
+    FakeWebSocket.latest.open()
+    FakeWebSocket.latest.close()
+    vi.advanceTimersByTime(1000)
+    expect(FakeWebSocket.instances).toHaveLength(4)
+  })
+
+  it('reconnects at once when the browser comes back online', () => {
+    vi.useFakeTimers()
+    FakeWebSocket.latest.close()
+
+    window.dispatchEvent(new Event('online'))
+
+    expect(FakeWebSocket.instances).toHaveLength(2)
+    expect(state.status).toBe('connecting')
+  })
+
+  it('shows who else is typing until their message arrives', () => {
+    const socket = FakeWebSocket.latest
+    socket.open()
+
+    socket.receive({ type: 'typing', senderId: 'sam', author: 'Sam', typing: true })
+    expect(state.typing).toEqual(['Sam'])
+
+    socket.receive({ type: 'message', message: reply('We are open until 6pm.') })
+    expect(state.typing).toEqual([])
+    expect(state.messages).toMatchObject([{ author: 'Sam', text: 'We are open until 6pm.' }])
+  })
+})
+`;
+
+// A small index whose entries differ enough to check the ranking
+const SITE_SEARCH_TEST = `import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createSearchIndex, searchSite, type SearchEntry } from './siteSearch'
+
+const entries: SearchEntry[] = [
+  { type: 'page', title: 'About Us', excerpt: 'Our story, our values and the people behind them.', url: '/about', tags: [] },
+  { type: 'service', title: 'Wedding Planning', excerpt: 'Relaxed, personal planning for your whole day.', url: '/services', tags: [] },
+  { type: 'post', title: 'Choosing a Venue', excerpt: 'Questions to ask before you book a wedding venue.', url: '/blog/choosing-a-venue', tags: ['tips'] },
+  { type: 'product', title: 'Guest Book', excerpt: 'Linen-bound pages for messages from your guests.', url: '/shop/guest-book', tags: ['Stationery'] }
+]
+
+const index = createSearchIndex(entries)
+const titlesFor = (query: string) => searchSite(index, query).map(({ entry }) => entry.title)
+
+describe('searchSite', () => {
+  it('still finds a misspelled word', () => {
+    expect(titlesFor('weding planing')).toEqual(['Wedding Planning'])
+  })
+
+  it('needs every word to match, in any order', () => {
+    expect(titlesFor('planning wedding')).toEqual(['Wedding Planning'])
+    expect(titlesFor('wedding stationery')).toEqual([])
+  })
+
+  it('ranks matching titles above matching excerpts', () => {
+    expect(titlesFor('wedding')).toEqual(['Wedding Planning', 'Choosing a Venue'])
+  })
+
+  it('matches tags', () => {
+    expect(titlesFor('stationery')).toEqual(['Guest Book'])
+  })
+
+  it('marks the matched words', () => {
+    const [result] = searchSite(index, 'personal')
+
+    expect(result.excerpt).toEqual([
+      { text: 'Relaxed, ', match: false },
+      { text: 'personal', match: true },
+      { text: ' planning for your whole day.', match: false }
+    ])
+    expect(result.title).toEqual([{ text: 'Wedding Planning', match: false }])
+  })
+
+  it('finds nothing for a blank query', () => {
+    expect(searchSite(index, '   ')).toEqual([])
+  })
+})
+
+describe('loadSearchIndex', () => {
+  beforeEach(() => {
+    // Each test starts without a downloaded index
+    vi.resetModules()
+  })
+
+  it('downloads the index once', async () => {
+    const fetchIndex = vi.fn().mockResolvedValue({ ok: true, json: async () => entries })
+    vi.stubGlobal('fetch', fetchIndex)
+    const { loadSearchIndex } = await import('./siteSearch')
+
+    await loadSearchIndex()
+    await loadSearchIndex()
+
+    expect(fetchIndex).toHaveBeenCalledTimes(1)
+    expect(fetchIndex).toHaveBeenCalledWith('/search-index.json')
+  })
+
+  it('tries again after a failed download', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi
+        .fn()
+        .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+        .mockResolvedValue({ ok: true, json: async () => entries })
+    )
+    const { loadSearchIndex } = await import('./siteSearch')
+
+    await expect(loadSearchIndex()).rejects.toThrow('Failed to fetch')
+    expect(searchSite(await loadSearchIndex(), 'linen')).toHaveLength(1)
+  })
+})
+`;
+
+// Builds the index from the project's own files, as a build would
+const SEARCH_INDEX_SCRIPT_TEST = (
+  blog: boolean,
+  store: boolean,
+) => `import { readFileSync } from 'node:fs'
+import { describe, expect, it } from 'vitest'
+import { buildSearchIndex } from './search-index.mjs'
+
+const site = JSON.parse(readFileSync('src/content/site.json', 'utf8'))
+const entries = buildSearchIndex()
+const ofType = (type) => entries.filter((entry) => entry.type === type)
+
+describe('buildSearchIndex', () => {
+  it('indexes every service in the site content', () => {
+    expect(ofType('service').map((entry) => entry.title)).toEqual(site.services.map((service) => service.title))
+  })
+
+  it('leaves the search page itself out', () => {
+    const pages = ofType('page').map((entry) => entry.url)
+
+    expect(pages.length).toBeGreaterThan(0)
+    expect(pages.some((url) => url.startsWith('/search'))).toBe(false)
+  })
+${
+  blog
+    ? `
+  it('indexes the blog posts with their tags', () => {
+    const posts = ofType('post')
+
+    expect(posts.length).toBeGreaterThan(0)
+    expect(posts.every((post) => post.url.startsWith('/blog/') && post.tags.length > 0)).toBe(true)
+  })
+`
+    : ""
+}${
+  store
+    ? `
+  it('indexes the products under their category', () => {
+    const catalog = JSON.parse(readFileSync('src/content/products.json', 'utf8'))
+
+    expect(ofType('product').map((entry) => entry.tags)).toEqual(
+      catalog.products.map((product) => [product.category])
+    )
+  })
+`
+    : ""
+}
+  it('keeps excerpts short', () => {
+    for (const entry of entries) {
+      expect(entry.excerpt.length).toBeLessThanOrEqual(163)
+    }
+  })
+})
+`;
+
+const ROUTER_FUTURE =
+  "const ROUTER_FUTURE = { v7_startTransition: true, v7_relativeSplatPath: true }";
+
+export class TestSuiteGenerator {
+  /**
+   * The test files for a project whose other files are already generated;
+   * pages and components get a test only when their source file exists.
+   */
+  generateFiles(context: any, files: GeneratedFile[]): GeneratedFile[] {
+    const paths = new Set(files.map((file) => file.path));
+    const kit = context.testing
+      ? this.getKit(context.framework, paths.has(CHAT_SERVER_PATH))
+      : null;
+    if (!kit) {
+      return [];
+    }
+
+    // Next to the source; SvelteKit reserves the + prefix for route files
+    const testPath = (sourcePath: string) =>
+      sourcePath.replace(
+        /\+?([^/]+)\.\w+$/,
+        (_match, name) => `${name}.test.${kit.testExtension}`,
+      );
+    // Tests expect the primary language whatever jsdom's navigator reports
+    const localized = isLocalized(context.framework);
+    const chatModuleDir = getChatModuleDir(context);
+    const chat = paths.has(`${chatModuleDir}/client.ts`);
+    const cleanups = [
+      kit.library && "cleanup()",
+      chat && "FakeWebSocket.instances = []",
+    ].filter(Boolean);
+    const vitestImports = [
+      cleanups.length > 0 && "afterEach",
+      localized && "beforeEach",
+      "vi",
+    ].filter(Boolean);
+    const suite: GeneratedFile[] = [
+      { path: kit.configPath, content: kit.config, type: "ts" },
+      {
+        path: "src/test/setup.ts",
+        content: `${kit.environment ? `${kit.environment.imports}\n` : ""}import '@testing-library/jest-dom/vitest'
+${kit.library ? `import { cleanup } from '${kit.library}'\n` : ""}import { ${vitestImports.join(", ")} } from 'vitest'${
+          localized
+            ? "\nimport { DEFAULT_LOCALE, setLocale } from '../i18n'"
+            : ""
+        }${chat ? "\nimport { FakeWebSocket } from './FakeWebSocket'" : ""}
+${kit.environment ? `\n${kit.environment.setup}\n` : ""}
+${JSDOM_POLYFILLS}
+${
+  chat
+    ? `
+// The chat connects as soon as it renders; tests play its server instead
+vi.stubGlobal('WebSocket', FakeWebSocket)
+`
+    : ""
+}${
+          localized
+            ? `
+beforeEach(() => {
+  setLocale(DEFAULT_LOCALE)
+})
+`
+            : ""
+        }${
+          cleanups.length > 0
+            ? `
+afterEach(() => {
+  ${cleanups.join("\n  ")}
+})
+`
+            : ""
+        }`,
+        type: "ts",
+      },
+    ];
+
+    context.pages.forEach((page: string) => {
+      const componentName = getPageComponentName(page);
+      const pagePath = kit.pagePath(page, componentName);
+      if (paths.has(pagePath)) {
+        suite.push({
+          path: testPath(pagePath),
+          content: this.generatePageTest(kit, page, componentName, context),
+          type: kit.testExtension,
+        });
+      }
+    });
+
+    context.components.forEach((name: string) => {
+      const componentPath = kit.componentPath(name);
+      const render = kit.componentTests[name];
+      if (render && paths.has(componentPath)) {
+        suite.push({
+          path: testPath(componentPath),
+          content: render(context),
+          type: kit.testExtension,
+        });
+      }
+    });
+
+    if (chat) {
+      suite.push(
+        {
+          path: "src/test/FakeWebSocket.ts",
+          content: FAKE_WEB_SOCKET,
+          type: "ts",
+        },
+        {
+          path: `${chatModuleDir}/client.test.ts`,
+          content: CHAT_CLIENT_TEST(
+            `${"../".repeat(chatModuleDir.split("/").length - 1)}test/FakeWebSocket`,
+          ),
+          type: "ts",
+        },
+      );
+    }
+
+    if (paths.has(PAYMENTS_SERVER_PATH)) {
+      suite.push({
+        path: PAYMENTS_SERVER_PATH.replace(/\.mjs$/, ".test.mjs"),
+        content: PAYMENTS_SERVER_TEST,
+        type: "js",
+      });
+    }
+
+    if (paths.has(CHAT_SERVER_PATH)) {
+      suite.push({
+        path: CHAT_SERVER_PATH.replace(/\.mjs$/, ".test.mjs"),
+        content: CHAT_SERVER_TEST,
+        type: "js",
+      });
+    }
+
+    const searchModuleDir = getSearchModuleDir(context);
+    if (paths.has(`${searchModuleDir}/siteSearch.ts`)) {
+      suite.push(
+        {
+          path: `${searchModuleDir}/siteSearch.test.ts`,
+          content: SITE_SEARCH_TEST,
+          type: "ts",
+        },
+        {
+          path: "scripts/search-index.test.mjs",
+          content: SEARCH_INDEX_SCRIPT_TEST(
+            hasBlog(context),
+            hasStore(context),
+          ),
+          type: "js",
+        },
+      );
+    }
+
+    return suite;
+  }
+
+  /**
+   * The npm scripts package.json generators add for this suite and the
+   * Playwright one; `npm test` runs once and exits so CI can call it
+   * directly.
+   */
+  getScripts(context: any): Record<string, string> {
+    return context.testing
+      ? {
+          test: "vitest run",
+          "test:watch": "vitest",
+          ...(hasEndToEndTests(context) && { "test:e2e": "playwright test" }),
+        }
+      : {};
+  }
+
+  private getKit(framework: string, chatServer: boolean): TestKit | null {
+    switch (framework) {
+      case "react":
+        return {
+          configPath: "vitest.config.ts",
+          config: VITE_VITEST_CONFIG,
+          library: "@testing-library/react",
+          testExtension: "tsx",
+          pagePath: (_page, componentName) => `src/pages/${componentName}.tsx`,
+          componentPath: (name) => `src/components/${name}.tsx`,
+          siteContent: "../content/site.json",
+          // Pages render inside the app's router, with the same future flags
+          pageHarness: (_page, componentName) => [
+            "import { render, screen } from '@testing-library/react'",
+            "import { MemoryRouter } from 'react-router-dom'",
+            `import ${componentName} from './${componentName}'`,
+            "",
+            ROUTER_FUTURE,
+            "",
+            `const renderPage = () =>
+  render(
+    <MemoryRouter future={ROUTER_FUTURE}>
+      <${componentName} />
+    </MemoryRouter>
+  )`,
+          ],
+          componentTests: {
+            ...REACT_COMPONENT_TESTS,
+            Navigation: (context) => this.generateReactNavigationTest(context),
+          },
+        };
+      case "nextjs":
+        return {
+          // Next.js projects are CommonJS packages, so the config opts into ESM
+          configPath: "vitest.config.mts",
+          config: NEXTJS_VITEST_CONFIG,
+          library: "@testing-library/react",
+          testExtension: "tsx",
+          // src/pages is reserved for the Pages Router, so views live apart
+          pagePath: (_page, componentName) => `src/views/${componentName}.tsx`,
+          componentPath: (name) => `src/components/${name}.tsx`,
+          siteContent: "../content/site.json",
+          pageHarness: (_page, componentName) => [
+            "import { render, screen } from '@testing-library/react'",
+            `import ${componentName} from './${componentName}'`,
+            "",
+            `const renderPage = () => render(<${componentName} />)`,
+          ],
+          componentTests: {
+            ...REACT_COMPONENT_TESTS,
+            Navigation: (context) => this.generateNextjsNavigationTest(context),
+          },
+        };
+      case "vue":
+        return {
+          configPath: "vitest.config.ts",
+          config: VITE_VITEST_CONFIG,
+          library: "@testing-library/vue",
+          testExtension: "ts",
+          pagePath: (_page, componentName) => `src/pages/${componentName}.vue`,
+          componentPath: (name) => `src/components/${name}.vue`,
+          siteContent: "../content/site.json",
+          pageHarness: (_page, componentName) => [
+            "import { render, screen } from '@testing-library/vue'",
+            "import router from '../router'",
+            `import ${componentName} from './${componentName}.vue'`,
+            "",
+            `const renderPage = () => render(${componentName}, { global: { plugins: [router] } })`,
+          ],
+          componentTests: {
+            ...VUE_COMPONENT_TESTS,
+            Navigation: (context) => this.generateVueNavigationTest(context),
+          },
+        };
+      case "svelte":
+        return {
+          configPath: "vitest.config.ts",
+          config: SVELTEKIT_VITEST_CONFIG(chatServer),
+          library: "@testing-library/svelte",
+          testExtension: "ts",
+          pagePath: (page) =>
+            page === "home"
+              ? "src/routes/+page.svelte"
+              : `src/routes/${page}/+page.svelte`,
+          componentPath: (name) => `src/lib/components/${name}.svelte`,
+          siteContent: "../content/site.json",
+          pageHarness: () => [
+            "import { render, screen } from '@testing-library/svelte'",
+            "import Page from './+page.svelte'",
+            "",
+            "const renderPage = () => render(Page)",
+          ],
+          componentTests: {
+            ...SVELTE_COMPONENT_TESTS,
+            Navigation: (context) => this.generateSvelteNavigationTest(context),
+          },
+        };
+      case "angular":
+        return {
+          configPath: "vitest.config.mts",
+          config: ANGULAR_VITEST_CONFIG,
+          library: null,
+          environment: ANGULAR_TEST_ENVIRONMENT,
+          testExtension: "ts",
+          pagePath: (page) => `src/app/pages/${page}.component.ts`,
+          componentPath: (name) =>
+            `src/app/components/${this.toKebabCase(name)}.component.ts`,
+          siteContent: "../../content/site.json",
+          // Pages render inside the app's router
+          pageHarness: (page, componentName) => [
+            "import { render, screen } from '@testing-library/angular'",
+            "import { provideRouter } from '@angular/router'",
+            "import { routes } from '../app.routes'",
+            `import { ${componentName}Component } from './${page}.component'`,
+            "",
+            `const renderPage = () => render(${componentName}Component, { providers: [provideRouter(routes)] })`,
+          ],
+          asyncRender: true,
+          componentTests: {
+            ...ANGULAR_COMPONENT_TESTS,
+            Navigation: (context) =>
+              this.generateAngularNavigationTest(context),
+          },
+        };
+      default:
+        return null;
+    }
+  }
+
+  private generatePageTest(
+    kit: TestKit,
+    page: string,
+    componentName: string,
+    context: any,
+  ): string {
+    const [libraryImport, ...harness] = kit.pageHarness(page, componentName);
+    const imports =
+      page === "booking"
+        ? [
+            libraryImport.replace("screen }", "screen, waitFor }"),
+            "import userEvent from '@testing-library/user-event'",
+            "import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'",
+          ]
+        : [
+            libraryImport,
+            ["contact", "blog", "shop", "search"].includes(page) &&
+              "import userEvent from '@testing-library/user-event'",
+            page === "search"
+              ? "import { describe, expect, it, vi } from 'vitest'"
+              : "import { describe, expect, it } from 'vitest'",
+          ].filter(Boolean);
+
+    // Pages from feature modules promise no particular markup
+    const rendersHeading =
+      featureRegistry.renderPage(page, context.framework, context) === null;
+    const contentTest = rendersHeading && page === "home";
+    if (contentTest) {
+      // Beside the page's own import, which closes the import block
+      harness.splice(
+        harness.indexOf("") - 1,
+        0,
+        `import site from '${kit.siteContent}'`,
+      );
+    }
+    if (page === "blog") {
+      const postsModule =
+        context.framework === "svelte" ? "$lib/blog/posts" : "../blog/posts";
+      harness.splice(
+        harness.indexOf("") - 1,
+        0,
+        `import { POSTS_PER_PAGE, posts, tags } from '${postsModule}'`,
+      );
+    }
+    if (page === "shop") {
+      const catalogModule =
+        context.framework === "svelte"
+          ? "$lib/shop/catalog"
+          : "../shop/catalog";
+      harness.splice(
+        harness.indexOf("") - 1,
+        0,
+        `import { DEFAULT_FILTERS, categories, filterProducts, products } from '${catalogModule}'`,
+      );
+    }
+    if (page === "booking") {
+      const bookingDir =
+        context.framework === "svelte" ? "$lib/booking" : "../booking";
+      harness.splice(
+        harness.indexOf("") - 1,
+        0,
+        `import { findNextOpenDay, formatDay, getSlots, zonedTime } from '${bookingDir}/availability'`,
+        `import { SlotTakenError, localStorageStore, setBookingStore } from '${bookingDir}/bookings'`,
+      );
+    }
+    const smokeTest = rendersHeading
+      ? `  it('renders a heading', () => {
+    renderPage()
+
+    expect(screen.getAllByRole('heading')[0]).toBeVisible()
+  })`
+      : `  it('renders', () => {
+    const { container } = renderPage()
+
+    expect(container).not.toBeEmptyDOMElement()
+  })`;
+
+    const text = (key: string, english: string) =>
+      JSON.stringify(this.getText(context, key, english));
+    const [name, email, message] = [
+      text("form.name", "Name"),
+      text("form.email", "Email"),
+      text("form.message", "Message"),
+    ];
+    const send = text("form.send", "Send Message");
+    const contactTests =
+      page === "contact"
+        ? `
+
+  it('does not send the form until the required fields are filled in', async () => {
+    const user = userEvent.setup()
+    renderPage()
+
+    for (const label of [${name}, ${email}, ${message}]) {
+      expect(screen.getByLabelText(label)).toBeRequired()
+    }
+    await user.click(screen.getByRole('button', { name: ${send} }))
+
+    expect(screen.getByLabelText(${name})).toBeInvalid()
+    expect(screen.queryByText(${text("contact.success.title", "Thank you for your message!")})).not.toBeInTheDocument()
+  })
+
+  it('confirms a completed message', async () => {
+    const user = userEvent.setup()
+    renderPage()
+
+    await user.type(screen.getByLabelText(${name}), 'Jane Doe')
+    await user.type(screen.getByLabelText(${email}), 'jane@example.com')
+    await user.type(screen.getByLabelText(${message}), 'Hello there')
+    await user.click(screen.getByRole('button', { name: ${send} }))
+
+    expect(
+      await screen.findByText(${text("contact.success.title", "Thank you for your message!")}, {}, { timeout: 3000 })
+    ).toBeInTheDocument()
+  })`
+        : "";
+
+    const heroTest = contentTest
+      ? `
+
+  it('renders the hero from the site content', () => {
+    renderPage()
+
+    expect(screen.getByRole('heading', { level: 1, name: site.hero.title })).toBeVisible()
+  })`
+      : "";
+
+    const blogTests =
+      page === "blog"
+        ? `
+
+  it('lists the newest posts first', () => {
+    renderPage()
+
+    expect(screen.getAllByRole('heading', { level: 2 })[0]).toHaveTextContent(posts[0].title)
+  })
+
+  it('shows only the posts with the chosen tag', async () => {
+    const user = userEvent.setup()
+    renderPage()
+
+    const [tag] = tags
+    await user.click(screen.getByRole('button', { name: \`#\${tag}\` }))
+
+    const tagged = posts.filter((post) => post.tags.includes(tag))
+    expect(screen.getAllByRole('article')).toHaveLength(Math.min(tagged.length, POSTS_PER_PAGE))
+    expect(screen.getByRole('button', { name: \`#\${tag}\` })).toHaveAttribute('aria-pressed', 'true')
+  })`
+        : "";
+
+    const shopTests =
+      page === "shop"
+        ? `
+
+  it('shows only the products in the chosen category', async () => {
+    const user = userEvent.setup()
+    renderPage()
+
+    const [category] = categories
+    await user.selectOptions(screen.getByLabelText(${text("shop.category", "Category")}), category)
+
+    expect(screen.getAllByRole('article')).toHaveLength(
+      products.filter((product) => product.category === category).length
+    )
+  })
+
+  it('keeps added products in the cart', async () => {
+    const user = userEvent.setup()
+    renderPage()
+
+    const [product] = filterProducts(DEFAULT_FILTERS).filter((candidate) => candidate.inStock)
+    await user.click(screen.getAllByRole('button', { name: ${text("shop.addToCart", "Add to Cart")} })[0])
+
+    expect(JSON.parse(localStorage.getItem('cart') ?? '[]')).toEqual([{ slug: product.slug, quantity: 1 }])
+  })`
+        : "";
+
+    const bookingTests =
+      page === "booking"
+        ? `
+
+  // The first day the calendar offers
+  const day = findNextOpenDay()!
+
+  const bookFirstFreeTime = async (user: ReturnType<typeof userEvent.setup>, container: Element) => {
+    await user.click(screen.getByRole('button', { name: formatDay(day) }))
+    await user.click(container.querySelector<HTMLButtonElement>('.time-slot:enabled')!)
+    await user.type(screen.getByLabelText('Full Name'), 'Jane Doe')
+    await user.type(screen.getByLabelText('Email'), 'jane@example.com')
+    await user.type(screen.getByLabelText('Phone'), '555 123 4567')
+    await user.selectOptions(screen.getByLabelText('Service'), 'Consultation')
+    await user.click(screen.getByRole('button', { name: /confirm booking/i }))
+  }
+
+  beforeEach(() => {
+    // Midnight at the start of that day, while all of its times are still free
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(zonedTime(day, '00:00'))
+    localStorage.removeItem('bookings')
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    setBookingStore(localStorageStore)
+  })
+
+  it('books a free time and offers it as a calendar file', async () => {
+    const user = userEvent.setup()
+    const { container } = renderPage()
+
+    await bookFirstFreeTime(user, container)
+
+    expect(await screen.findByRole('link', { name: ${text("booking.addToCalendar", "Add to calendar")} })).toHaveAttribute(
+      'href',
+      expect.stringMatching(/^data:text\\/calendar/)
+    )
+    expect(JSON.parse(localStorage.getItem('bookings') ?? '[]')).toHaveLength(1)
+  })
+
+  it('greys out times that are already booked', async () => {
+    const user = userEvent.setup()
+    const [booked, ...free] = getSlots(day)
+    localStorage.setItem(
+      'bookings',
+      JSON.stringify([
+        {
+          id: 'booked',
+          name: 'Sam Lee',
+          email: 'sam@example.com',
+          phone: '555 987 6543',
+          service: 'Consultation',
+          notes: '',
+          start: booked.start.toISOString(),
+          end: booked.end.toISOString()
+        }
+      ])
+    )
+    const { container } = renderPage()
+
+    await user.click(screen.getByRole('button', { name: formatDay(day) }))
+
+    await waitFor(() => expect(container.querySelectorAll('.time-slot:disabled')).toHaveLength(1))
+    expect(container.querySelectorAll('.time-slot:enabled')).toHaveLength(free.length)
+  })
+
+  it('asks for another time when the chosen one has just been taken', async () => {
+    setBookingStore({
+      list: async () => [],
+      create: async () => {
+        throw new SlotTakenError()
+      }
+    })
+    const user = userEvent.setup()
+    const { container } = renderPage()
+
+    await bookFirstFreeTime(user, container)
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(${text("booking.slotTaken", "Sorry, that time has just been booked. Please choose another.")})
+    expect(container.querySelector('.time-slot')).toBeInTheDocument()
+  })`
+        : "";
+
+    const searchTests =
+      page === "search"
+        ? `
+
+  it('finds pages despite a typo and marks the matching word', async () => {
+    const entries = [
+      { type: 'page', title: 'Opening Hours', excerpt: 'When to find us.', url: '/contact', tags: [] },
+      { type: 'page', title: 'About Us', excerpt: 'Our story.', url: '/about', tags: [] }
+    ]
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: true, json: async () => entries }))
+    const user = userEvent.setup()
+    renderPage()
+
+    await user.type(screen.getByPlaceholderText(/search/i), 'opning{Enter}')
+
+    expect(await screen.findByRole('link', { name: 'Opening Hours' })).toHaveAttribute('href', '/contact')
+    expect(screen.getByText('Opening', { selector: 'mark' })).toBeInTheDocument()
+    expect(screen.queryByRole('link', { name: 'About Us' })).not.toBeInTheDocument()
+  })`
+        : "";
+
+    const tests = `${smokeTest}${heroTest}${contactTests}${blogTests}${shopTests}${bookingTests}${searchTests}`;
+
+    return `${imports.join("\n")}
+${harness.join("\n")}
+
+describe('${componentName} page', () => {
+${
+  kit.asyncRender
+    ? tests
+        .replace(/(it\('[^']*', )\(\) =>/g, "$1async () =>")
+        .replace(/(^ +|= )renderPage\(\)/gm, "$1await renderPage()")
+    : tests
+}
+})
+`;
+  }
+
+  private generateReactNavigationTest(context: any): string {
+    const routes = context.navigation.map(({ page }: NavigationEntry) => ({
+      label: this.getText(context, `nav.${page}`, ""),
+      href: page === "home" ? "/" : `/${page}`,
+    }));
+
+    return `import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { MemoryRouter } from 'react-router-dom'
+import { describe, expect, it } from 'vitest'
+import Navigation from './Navigation'
+
+${ROUTER_FUTURE}
+
+const routes = ${JSON.stringify(routes, null, 2)}
+
+const renderNavigation = () =>
+  render(
+    <MemoryRouter future={ROUTER_FUTURE}>
+      <Navigation />
+    </MemoryRouter>
+  )
+
+describe('Navigation', () => {
+  it('links to every route', () => {
+    renderNavigation()
+
+    for (const { label, href } of routes) {
+      expect(screen.getByRole('link', { name: label })).toHaveAttribute('href', href)
+    }
+  })
+
+  it('opens the mobile menu', async () => {
+    const user = userEvent.setup()
+    renderNavigation()
+
+    const toggle = screen.getByRole('button', { name: ${JSON.stringify(this.getText(context, "nav.toggleMenu", ""))} })
+    await user.click(toggle)
+
+    expect(toggle).toHaveClass('active')
+  })${this.generateLanguageSwitchTest(context, "renderNavigation()")}
+})
+`;
+  }
+
+  private generateNextjsNavigationTest(context: any): string {
+    const routes = context.navigation.map(({ page }: NavigationEntry) => ({
+      label: this.getText(context, `nav.${page}`, ""),
+      href: page === "home" ? "/" : `/${page}/`,
+    }));
+    const current = routes.find(
+      (route: { href: string }) => route.href !== "/",
+    );
+    const activeTest = current
+      ? `
+
+  it('marks the current route as active', () => {
+    pathname.mockReturnValue(${JSON.stringify(current.href)})
+    render(<Navigation />)
+
+    expect(screen.getByRole('link', { name: ${JSON.stringify(current.label)} })).toHaveClass('active')
+  })`
+      : "";
+
+    return `import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import Navigation from './Navigation'
+
+const pathname = vi.hoisted(() => vi.fn(() => '/'))
+
+vi.mock('next/navigation', () => ({
+  usePathname: pathname
+}))
+
+const routes = ${JSON.stringify(routes, null, 2)}
+
+describe('Navigation', () => {
+  beforeEach(() => {
+    pathname.mockReturnValue('/')
+  })
+
+  it('links to every route', () => {
+    render(<Navigation />)
+
+    for (const { label, href } of routes) {
+      expect(screen.getByRole('link', { name: label })).toHaveAttribute('href', href)
+    }
+  })${activeTest}
+
+  it('opens the mobile menu', async () => {
+    const user = userEvent.setup()
+    render(<Navigation />)
+
+    const toggle = screen.getByRole('button', { name: ${JSON.stringify(this.getText(context, "nav.toggleMenu", ""))} })
+    await user.click(toggle)
+
+    expect(toggle).toHaveClass('active')
+  })${this.generateLanguageSwitchTest(context, "render(<Navigation />)")}
+})
+`;
+  }
+
+  /**
+   * Picking the second language relabels the links and the document; only
+   * multilingual sites have the switcher.
+   */
+  private generateLanguageSwitchTest(context: any, render: string): string {
+    if (!context.multilingual) {
+      return "";
+    }
+    const [primary, other] = context.locales;
+    const home =
+      context.navigation.find(
+        (entry: NavigationEntry) => entry.page === "home",
+      ) ?? context.navigation[0];
+    const locales = new LocaleGenerator();
+    const label = (locale: string) =>
+      JSON.stringify(locales.getText(context, `nav.${home.page}`, locale));
+
+    return `
+
+  it('switches the language', async () => {
+    const user = userEvent.setup()
+    ${render}
+
+    await user.selectOptions(
+      screen.getByRole('combobox', { name: ${JSON.stringify(locales.getText(context, "nav.language", primary))} }),
+      '${other}'
+    )
+
+    expect(screen.getByRole('link', { name: ${label(other)} })).toBeInTheDocument()
+    expect(document.documentElement).toHaveAttribute('lang', '${other}')
+    expect(document.documentElement).toHaveAttribute('dir', '${getTextDirection(other)}')
+  })`;
+  }
+
+  // React and Next.js pages render the locale bundles; the others are English
+  private getText(context: any, key: string, english: string): string {
+    return isLocalized(context.framework)
+      ? new LocaleGenerator().getText(context, key)
+      : english;
+  }
+
+  private generateVueNavigationTest(context: any): string {
+    const routes = context.navigation.map(
+      ({ page, label }: NavigationEntry) => ({
+        label,
+        href: page === "home" ? "/" : `/${page}`,
+      }),
+    );
+
+    return `import { render, screen } from '@testing-library/vue'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import router from '../router'
+import Navigation from './Navigation.vue'
+
+const routes = ${JSON.stringify(routes, null, 2)}
+
+const renderNavigation = () => render(Navigation, { global: { plugins: [router] } })
+
+describe('Navigation', () => {
+  it('links to every route', () => {
+    renderNavigation()
+
+    for (const { label, href } of routes) {
+      expect(screen.getByRole('link', { name: label })).toHaveAttribute('href', href)
+    }
+  })
+
+  it('opens the mobile menu', async () => {
+    const user = userEvent.setup()
+    renderNavigation()
+
+    const toggle = screen.getByRole('button', { name: /toggle navigation menu/i })
+    await user.click(toggle)
+
+    expect(toggle).toHaveClass('active')
+  })
+})
+`;
+  }
+
+  private generateSvelteNavigationTest(context: any): string {
+    const routes = context.navigation.map(
+      ({ page, label }: NavigationEntry) => ({
+        label,
+        href: page === "home" ? "/" : `/${page}`,
+      }),
+    );
+
+    return `import { render, screen } from '@testing-library/svelte'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import Navigation from './Navigation.svelte'
+
+const routes = ${JSON.stringify(routes, null, 2)}
+
+describe('Navigation', () => {
+  it('links to every route', () => {
+    render(Navigation)
+
+    for (const { label, href } of routes) {
+      expect(screen.getByRole('link', { name: label })).toHaveAttribute('href', href)
+    }
+  })
+
+  it('opens the mobile menu', async () => {
+    const user = userEvent.setup()
+    render(Navigation)
+
+    const toggle = screen.getByRole('button', { name: /toggle navigation menu/i })
+    await user.click(toggle)
+
+    expect(toggle).toHaveClass('active')
+  })
+})
+`;
+  }
+
+  private generateAngularNavigationTest(context: any): string {
+    const routes = context.navigation.map(
+      ({ page, label }: NavigationEntry) => ({
+        label,
+        href: page === "home" ? "/" : `/${page}`,
+      }),
+    );
+
+    return `import { provideRouter } from '@angular/router'
+import { render, screen } from '@testing-library/angular'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import { NavigationComponent } from './navigation.component'
+
+const routes = ${JSON.stringify(routes, null, 2)}
+
+const renderNavigation = () => render(NavigationComponent, { providers: [provideRouter([])] })
+
+describe('Navigation', () => {
+  it('links to every route', async () => {
+    await renderNavigation()
+
+    for (const { label, href } of routes) {
+      expect(screen.getByRole('link', { name: label })).toHaveAttribute('href', href)
+    }
+  })
+
+  it('opens the mobile menu', async () => {
+    const user = userEvent.setup()
+    await renderNavigation()
+
+    const toggle = screen.getByRole('button', { name: /toggle navigation menu/i })
+    await user.click(toggle)
+
+    expect(toggle).toHaveClass('active')
+  })
+})
+`;
+  }
+
+  private toKebabCase(str: string): string {
+    return str.replace(/([a-z0-9])([A-Z])/g, "$1-$2").toLowerCase();
+  }
+}
+
+// Behaviour tests for the built-in React components, keyed by component
+const REACT_COMPONENT_TESTS: Record<string, TestRenderer> = {
+  LoadingSpinner: () => `import { render, screen } from '@testing-library/react'
+import { describe, expect, it } from 'vitest'
+import LoadingSpinner from './LoadingSpinner'
+
+describe('LoadingSpinner', () => {
+  it('tells the user content is loading', () => {
+    render(<LoadingSpinner />)
+
+    expect(screen.getByText(/loading/i)).toBeInTheDocument()
+  })
+})
+`,
+
+  ErrorFallback: () => `import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import ErrorFallback from './ErrorFallback'
+
+describe('ErrorFallback', () => {
+  it('shows the error message', () => {
+    render(<ErrorFallback error={new Error('Network unavailable')} />)
+
+    expect(screen.getByText('Network unavailable')).toBeInTheDocument()
+  })
+
+  it('retries when asked to', async () => {
+    const user = userEvent.setup()
+    const resetError = vi.fn()
+    render(<ErrorFallback resetError={resetError} />)
+
+    await user.click(screen.getByRole('button', { name: /try again/i }))
+
+    expect(resetError).toHaveBeenCalledOnce()
+  })
+})
+`,
+
+  LiveChat: () => `import { act, render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { afterEach, describe, expect, it } from 'vitest'
+import { FakeWebSocket } from '../test/FakeWebSocket'
+import LiveChat from './LiveChat'
+
+const REPLY = {
+  id: 'reply-1',
+  room: 'help',
+  author: 'Sam',
+  senderId: 'sam',
+  text: 'We are open until 6pm.',
+  sentAt: new Date().toISOString()
+}
+
+const openChat = async () => {
+  const user = userEvent.setup()
+  render(<LiveChat />)
+  await user.click(screen.getByRole('button', { name: '💬' }))
+  return user
+}
+
+describe('LiveChat', () => {
+  afterEach(() => {
+    localStorage.clear()
+  })
+
+  it('greets the visitor when opened', async () => {
+    await openChat()
+
+    expect(screen.getByText(/how can I help you/i)).toBeInTheDocument()
+  })
+
+  it('holds a message until the chat server is reachable', async () => {
+    const user = await openChat()
+
+    await user.type(screen.getByPlaceholderText(/type your message/i), 'Are you open today?')
+    await user.click(screen.getByRole('button', { name: /send/i }))
+
+    expect(screen.getByText('Are you open today?')).toBeInTheDocument()
+    expect(screen.getByText('Sending...')).toBeInTheDocument()
+    expect(screen.getByPlaceholderText(/type your message/i)).toHaveValue('')
+
+    act(() => FakeWebSocket.latest.open())
+
+    expect(FakeWebSocket.latest.sent).toContainEqual(
+      expect.objectContaining({ type: 'message', text: 'Are you open today?' })
+    )
+  })
+
+  it('shows who is typing and their reply', async () => {
+    await openChat()
+    const socket = FakeWebSocket.latest
+
+    act(() => {
+      socket.open()
+      socket.receive({ type: 'typing', senderId: 'sam', author: 'Sam', typing: true })
+    })
+    expect(screen.getByText('Sam is typing...')).toBeInTheDocument()
+
+    act(() => socket.receive({ type: 'message', message: REPLY }))
+    expect(screen.getByText(REPLY.text)).toBeInTheDocument()
+    expect(screen.queryByText(/is typing/)).not.toBeInTheDocument()
+  })
+
+  it('says when the chat is offline', async () => {
+    await openChat()
+
+    act(() => FakeWebSocket.latest.close())
+
+    expect(screen.getByRole('status')).toHaveTextContent(/offline/i)
+  })
+})
+`,
+
+  ChatMessage: () => `import { render, screen } from '@testing-library/react'
+import { describe, expect, it } from 'vitest'
+import ChatMessage from './ChatMessage'
+
+const REPLY = {
+  id: 'reply-1',
+  room: 'help',
+  author: 'Sam',
+  senderId: 'sam',
+  text: 'We are open until 6pm.',
+  sentAt: new Date().toISOString()
+}
+
+describe('ChatMessage', () => {
+  it('shows who sent a reply', () => {
+    render(<ChatMessage message={REPLY} own={false} />)
+
+    expect(screen.getByText(REPLY.text)).toBeInTheDocument()
+    expect(screen.getByText('Sam')).toBeInTheDocument()
+  })
+
+  it('marks a message the server has not received', () => {
+    render(<ChatMessage message={REPLY} own pending />)
+
+    expect(screen.getByText('Sending...')).toBeInTheDocument()
+    expect(screen.queryByText('Sam')).not.toBeInTheDocument()
+  })
+})
+`,
+
+  ChatWidget:
+    () => `import { act, render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import { FakeWebSocket } from '../test/FakeWebSocket'
+import ChatWidget from './ChatWidget'
+
+describe('ChatWidget', () => {
+  it('can be dismissed', async () => {
+    const user = userEvent.setup()
+    render(<ChatWidget />)
+    expect(screen.getByText(/need help/i)).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: '×' }))
+
+    expect(screen.queryByText(/need help/i)).not.toBeInTheDocument()
+  })
+
+  it('says when the chat is offline', () => {
+    render(<ChatWidget />)
+    // The widget and its chat share one connection
+    expect(FakeWebSocket.instances).toHaveLength(1)
+
+    act(() => FakeWebSocket.latest.close())
+
+    expect(screen.getByText(/chat is offline/i)).toBeInTheDocument()
+  })
+})
+`,
+
+  SearchBox: () => `import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import SearchBox from './SearchBox'
+
+describe('SearchBox', () => {
+  it('searches for the trimmed query', async () => {
+    const user = userEvent.setup()
+    const onSearch = vi.fn()
+    render(<SearchBox onSearch={onSearch} />)
+
+    await user.type(screen.getByPlaceholderText(/search/i), '  opening hours  ')
+    await user.click(screen.getByRole('button'))
+
+    expect(onSearch).toHaveBeenCalledWith('opening hours')
+  })
+
+  it('ignores an empty query', async () => {
+    const user = userEvent.setup()
+    const onSearch = vi.fn()
+    render(<SearchBox onSearch={onSearch} />)
+
+    await user.click(screen.getByRole('button'))
+
+    expect(onSearch).not.toHaveBeenCalled()
+  })
+})
+`,
+
+  SearchResults: () => `import { render, screen } from '@testing-library/react'
+import { describe, expect, it } from 'vitest'
+import type { SearchResult } from '../search/siteSearch'
+import SearchResults from './SearchResults'
+
+const result: SearchResult = {
+  entry: { type: 'page', title: 'Opening hours', excerpt: 'When we are open', url: '/about', tags: [] },
+  title: [
+    { text: 'Opening ', match: false },
+    { text: 'hours', match: true }
+  ],
+  excerpt: [{ text: 'When we are open', match: false }]
+}
+
+describe('SearchResults', () => {
+  it('shows a loading state', () => {
+    render(<SearchResults results={[]} query="hours" isLoading />)
+
+    expect(screen.getByText(/searching/i)).toBeInTheDocument()
+  })
+
+  it('lists matching results', () => {
+    render(<SearchResults results={[result]} query="hours" isLoading={false} />)
+
+    expect(screen.getByRole('link', { name: 'Opening hours' })).toHaveAttribute('href', '/about')
+    expect(screen.getByText('Page')).toBeInTheDocument()
+  })
+
+  it('marks the words that matched', () => {
+    render(<SearchResults results={[result]} query="hours" isLoading={false} />)
+
+    expect(screen.getByText('hours', { selector: 'mark' })).toBeInTheDocument()
+  })
+
+  it('says when nothing matched', () => {
+    render(<SearchResults results={[]} query="hours" isLoading={false} />)
+
+    expect(screen.getByText(/no results found/i)).toBeInTheDocument()
+  })
+})
+`,
+
+  PaymentForm: () => `import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import type { ReactNode } from 'react'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { loadPayments, pay } from '../payments/stripe'
+import PaymentForm from './PaymentForm'
+
+// Stripe's iframe cannot load in jsdom, so the form is tested around it
+vi.mock('@stripe/react-stripe-js', () => ({
+  Elements: ({ children }: { children: ReactNode }) => children,
+  PaymentElement: () => <div data-testid="payment-element" />,
+  useStripe: () => ({}),
+  useElements: () => ({})
+}))
+
+vi.mock('../payments/stripe', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../payments/stripe')>()),
+  loadPayments: vi.fn(),
+  pay: vi.fn()
+}))
+
+describe('PaymentForm', () => {
+  beforeEach(() => {
+    vi.mocked(loadPayments).mockResolvedValue({ stripe: {} as never, currency: 'usd' })
+    vi.mocked(pay).mockResolvedValue({ status: 'succeeded', amount: 4999, currency: 'usd', reference: 'pi_123' })
+  })
+
+  it('does not pay until the amount and email are filled in', async () => {
+    const user = userEvent.setup()
+    render(<PaymentForm onStatusChange={vi.fn()} />)
+
+    await user.click(await screen.findByRole('button', { name: /process payment/i }))
+
+    expect(screen.getByLabelText('Amount')).toBeInvalid()
+    expect(pay).not.toHaveBeenCalled()
+  })
+
+  it('pays through Stripe and reports the outcome', async () => {
+    const user = userEvent.setup()
+    const onStatusChange = vi.fn()
+    render(<PaymentForm onStatusChange={onStatusChange} />)
+
+    await user.type(await screen.findByLabelText('Amount'), '49.99')
+    await user.type(screen.getByLabelText('Email'), 'jane@example.com')
+    await user.click(screen.getByRole('button', { name: /process payment/i }))
+
+    expect(pay).toHaveBeenCalledWith(expect.anything(), expect.anything(), { amount: 49.99 }, 'jane@example.com')
+    expect(onStatusChange).toHaveBeenNthCalledWith(1, { status: 'submitting' })
+    expect(onStatusChange).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'succeeded' }))
+  })
+
+  it('keeps a fixed amount', async () => {
+    render(<PaymentForm amount={25} onStatusChange={vi.fn()} />)
+
+    const amount = await screen.findByLabelText('Amount')
+    expect(amount).toHaveValue(25)
+    expect(amount).toHaveAttribute('readonly')
+  })
+
+  it('sends cart lines for the server to price instead of the amount', async () => {
+    const user = userEvent.setup()
+    const items = [{ productId: 'gift-card', quantity: 2 }]
+    render(<PaymentForm amount={100} items={items} onStatusChange={vi.fn()} />)
+
+    await user.type(await screen.findByLabelText('Email'), 'jane@example.com')
+    await user.click(screen.getByRole('button', { name: /process payment/i }))
+
+    expect(pay).toHaveBeenCalledWith(expect.anything(), expect.anything(), { items }, 'jane@example.com')
+  })
+
+  it('says so when payments cannot be loaded', async () => {
+    vi.mocked(loadPayments).mockRejectedValue(new Error('offline'))
+    render(<PaymentForm onStatusChange={vi.fn()} />)
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(/unavailable/i)
+  })
+})
+`,
+
+  PaymentStatus: () => `import { render, screen } from '@testing-library/react'
+import { describe, expect, it } from 'vitest'
+import PaymentStatus from './PaymentStatus'
+
+describe('PaymentStatus', () => {
+  it.each([
+    ['idle', /ready to pay/i],
+    ['submitting', /processing payment/i],
+    ['requires_action', /verification required/i],
+    ['processing', /payment processing/i],
+    ['succeeded', /payment successful/i],
+    ['requires_payment_method', /payment declined/i],
+    ['failed', /payment failed/i]
+  ] as const)('describes the %s state', (status, title) => {
+    render(<PaymentStatus status={status} />)
+
+    expect(screen.getByRole('heading', { name: title })).toBeInTheDocument()
+  })
+
+  it('shows the amount and reference of a payment', () => {
+    render(
+      <PaymentStatus
+        status="succeeded"
+        data={{ status: 'succeeded', amount: 4999, currency: 'usd', reference: 'pi_123' }}
+      />
+    )
+
+    expect(screen.getByText('$49.99')).toBeInTheDocument()
+    expect(screen.getByText('pi_123')).toBeInTheDocument()
+  })
+
+  it('explains why a payment failed', () => {
+    render(<PaymentStatus status="failed" data={{ status: 'failed', error: 'Your card was declined.' }} />)
+
+    expect(screen.getByText('Your card was declined.')).toBeInTheDocument()
+  })
+})
+`,
+
+  BookingForm: () => `import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import type { Slot } from '../booking/availability'
+import BookingForm from './BookingForm'
+
+const hoursFromNow = (hours: number): Slot => {
+  const start = new Date(Date.now() + hours * 3600000)
+  return { start, end: new Date(start.getTime() + 3600000), available: true }
+}
+
+const fillInDetails = async (user: ReturnType<typeof userEvent.setup>) => {
+  await user.type(screen.getByLabelText('Full Name'), 'Jane Doe')
+  await user.type(screen.getByLabelText('Email'), 'jane@example.com')
+  await user.type(screen.getByLabelText('Phone'), '555 123 4567')
+  await user.selectOptions(screen.getByLabelText('Service'), 'Consultation')
+}
+
+describe('BookingForm', () => {
+  it('rejects times that have passed', async () => {
+    const user = userEvent.setup()
+    const onSubmit = vi.fn()
+    render(<BookingForm slot={hoursFromNow(-1)} onSubmit={onSubmit} />)
+
+    await fillInDetails(user)
+    await user.click(screen.getByRole('button', { name: /confirm booking/i }))
+
+    expect(screen.getByRole('alert')).toHaveTextContent(/already passed/i)
+    expect(onSubmit).not.toHaveBeenCalled()
+  })
+
+  it('requires a time', async () => {
+    const user = userEvent.setup()
+    const onSubmit = vi.fn()
+    render(<BookingForm slot={null} onSubmit={onSubmit} />)
+
+    await fillInDetails(user)
+    await user.click(screen.getByRole('button', { name: /confirm booking/i }))
+
+    expect(screen.getByRole('alert')).toHaveTextContent(/choose a time/i)
+    expect(onSubmit).not.toHaveBeenCalled()
+  })
+
+  it('books a future time', async () => {
+    const user = userEvent.setup()
+    const onSubmit = vi.fn()
+    render(<BookingForm slot={hoursFromNow(24)} onSubmit={onSubmit} />)
+
+    await fillInDetails(user)
+    await user.click(screen.getByRole('button', { name: /confirm booking/i }))
+
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument()
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Jane Doe', service: 'Consultation' })
+    )
+  })
+})
+`,
+
+  BookingCalendar:
+    () => `import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import { findNextOpenDay, formatDay, getSlots } from '../booking/availability'
+import BookingCalendar from './BookingCalendar'
+
+describe('BookingCalendar', () => {
+  it('lets the user pick the first day with a free time', async () => {
+    const user = userEvent.setup()
+    const onDateSelect = vi.fn()
+    render(<BookingCalendar bookings={[]} onDateSelect={onDateSelect} />)
+
+    const day = findNextOpenDay()!
+    await user.click(screen.getByRole('button', { name: formatDay(day) }))
+
+    expect(onDateSelect).toHaveBeenCalledWith(day)
+  })
+
+  it('greys out a day once all its times are booked', async () => {
+    const user = userEvent.setup()
+    const onDateSelect = vi.fn()
+    const { rerender } = render(<BookingCalendar bookings={[]} onDateSelect={onDateSelect} />)
+
+    const day = findNextOpenDay()!
+    const bookings = getSlots(day).map((slot) => ({ start: slot.start.toISOString(), end: slot.end.toISOString() }))
+    rerender(<BookingCalendar bookings={bookings} onDateSelect={onDateSelect} />)
+    await user.click(screen.getByRole('button', { name: formatDay(day) }))
+
+    expect(screen.getByRole('button', { name: formatDay(day) })).toBeDisabled()
+    expect(onDateSelect).not.toHaveBeenCalled()
+  })
+})
+`,
+
+  AnalyticsChart: () => `import { render, screen } from '@testing-library/react'
+import { describe, expect, it } from 'vitest'
+import AnalyticsChart from './AnalyticsChart'
+
+describe('AnalyticsChart', () => {
+  it('plots one bar per day of the range', () => {
+    render(<AnalyticsChart type="visitors" timeRange="7d" />)
+
+    expect(screen.getByRole('heading', { name: /visitors - 7d/i })).toBeInTheDocument()
+    expect(screen.getByText('Day 7')).toBeInTheDocument()
+    expect(screen.queryByText('Day 8')).not.toBeInTheDocument()
+  })
+})
+`,
+
+  AnalyticsMetrics:
+    () => `import { render, screen } from '@testing-library/react'
+import { describe, expect, it } from 'vitest'
+import AnalyticsMetrics from './AnalyticsMetrics'
+
+describe('AnalyticsMetrics', () => {
+  it('formats each metric', () => {
+    render(
+      <AnalyticsMetrics
+        metrics={{ visitors: 120, pageViews: 480, bounceRate: 42, avgSessionDuration: 125 }}
+      />
+    )
+
+    expect(screen.getByText('42%')).toBeInTheDocument()
+    expect(screen.getByText('2m 5s')).toBeInTheDocument()
+  })
+})
+`,
+
+  LocationMap: () => `import { render, screen } from '@testing-library/react'
+import { describe, expect, it, vi } from 'vitest'
+import LocationMap from './LocationMap'
+
+const locations = [
+  { id: 1, name: 'Main Office', address: '1 Main St', coordinates: { lat: 40.71, lng: -74.0 } },
+  { id: 2, name: 'Branch Office', address: '2 High St', coordinates: { lat: 40.72, lng: -74.01 } }
+]
+
+describe('LocationMap', () => {
+  it('marks every location and the user', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    render(<LocationMap locations={locations} userLocation={{ lat: 40.7, lng: -74.0 }} />)
+
+    expect(screen.getByText(/main office/i)).toBeInTheDocument()
+    expect(screen.getByText(/branch office/i)).toBeInTheDocument()
+    expect(screen.getByText(/your location/i)).toBeInTheDocument()
+  })
+})
+`,
+
+  LocationPicker: () => `import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import LocationPicker from './LocationPicker'
+
+describe('LocationPicker', () => {
+  it('uses the current position', async () => {
+    const user = userEvent.setup()
+    const onLocationSelect = vi.fn()
+    vi.stubGlobal('navigator', {
+      ...navigator,
+      geolocation: {
+        getCurrentPosition: (success: PositionCallback) =>
+          success({ coords: { latitude: 51.5074, longitude: -0.1278 } } as GeolocationPosition)
+      }
+    })
+    render(<LocationPicker onLocationSelect={onLocationSelect} />)
+
+    await user.click(screen.getByRole('button', { name: /use current location/i }))
+
+    expect(onLocationSelect).toHaveBeenCalledWith({ lat: 51.5074, lng: -0.1278 })
+    expect(screen.getByText(/lat: 51.5074/i)).toBeInTheDocument()
+    vi.unstubAllGlobals()
+  })
+})
+`,
+
+  NotificationBanner:
+    () => `import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import NotificationBanner from './NotificationBanner'
+
+describe('NotificationBanner', () => {
+  it('closes a notification', async () => {
+    const user = userEvent.setup()
+    const onClose = vi.fn()
+    render(
+      <NotificationBanner
+        notifications={[{ id: 'saved', type: 'success', message: 'Changes saved' }]}
+        onClose={onClose}
+      />
+    )
+    expect(screen.getByText('Changes saved')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: '×' }))
+
+    expect(onClose).toHaveBeenCalledWith('saved')
+  })
+})
+`,
+
+  NotificationList:
+    () => `import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import NotificationList from './NotificationList'
+
+const notifications = [
+  { id: '1', title: 'Welcome', message: 'Thanks for joining', timestamp: new Date(), read: false, type: 'info' as const },
+  { id: '2', title: 'Order shipped', message: 'On its way', timestamp: new Date(), read: true, type: 'success' as const }
+]
+
+describe('NotificationList', () => {
+  it('counts unread notifications and marks them all as read', async () => {
+    const user = userEvent.setup()
+    const onMarkAllAsRead = vi.fn()
+    render(
+      <NotificationList
+        notifications={notifications}
+        onMarkAsRead={vi.fn()}
+        onMarkAllAsRead={onMarkAllAsRead}
+      />
+    )
+
+    expect(screen.getByText('1 unread')).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: /mark all as read/i }))
+
+    expect(onMarkAllAsRead).toHaveBeenCalledOnce()
+  })
+
+  it('says when there is nothing to show', () => {
+    render(<NotificationList notifications={[]} onMarkAsRead={vi.fn()} onMarkAllAsRead={vi.fn()} />)
+
+    expect(screen.getByText(/no notifications yet/i)).toBeInTheDocument()
+  })
+})
+`,
+
+  SocialShare: () => `import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import SocialShare from './SocialShare'
+
+describe('SocialShare', () => {
+  it('shares the page on Facebook', async () => {
+    const user = userEvent.setup()
+    const open = vi.spyOn(window, 'open').mockImplementation(() => null)
+    render(<SocialShare url="https://example.com/" title="Example" />)
+
+    await user.click(screen.getByRole('button', { name: /facebook/i }))
+
+    expect(open).toHaveBeenCalledWith(
+      expect.stringContaining(encodeURIComponent('https://example.com/')),
+      '_blank',
+      expect.any(String)
+    )
+    open.mockRestore()
+  })
+})
+`,
+
+  SocialLogin: () => `import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import SocialLogin from './SocialLogin'
+
+describe('SocialLogin', () => {
+  it('signs in with the chosen provider', async () => {
+    const user = userEvent.setup()
+    const onSocialLogin = vi.fn()
+    render(<SocialLogin onSocialLogin={onSocialLogin} />)
+
+    await user.click(screen.getByRole('button', { name: /continue with google/i }))
+
+    expect(onSocialLogin).toHaveBeenCalledWith('google')
+  })
+})
+`,
+
+  ProfileForm: () => `import { render, screen } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import ProfileForm from './ProfileForm'
+
+describe('ProfileForm', () => {
+  it('requires a name and email', async () => {
+    const user = userEvent.setup()
+    const onSave = vi.fn()
+    render(<ProfileForm onSave={onSave} />)
+
+    await user.click(screen.getByRole('button', { name: /save profile/i }))
+
+    expect(screen.getByLabelText('Full Name')).toBeInvalid()
+    expect(onSave).not.toHaveBeenCalled()
+  })
+
+  it('saves the edited profile', async () => {
+    const user = userEvent.setup()
+    const onSave = vi.fn()
+    render(<ProfileForm initialData={{ name: 'Jane Doe', email: 'jane@example.com' }} onSave={onSave} />)
+
+    await user.type(screen.getByLabelText('Company/Organization'), 'Acme')
+    await user.click(screen.getByRole('button', { name: /save profile/i }))
+
+    expect(onSave).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Jane Doe', company: 'Acme' })
+    )
+  })
+})
+`,
+};
+
+// The same behaviours for the Vue components, which emit events instead of
+// taking callback props
+const VUE_COMPONENT_TESTS: Record<string, TestRenderer> = {
+  LoadingSpinner: () => `import { render, screen } from '@testing-library/vue'
+import { describe, expect, it } from 'vitest'
+import LoadingSpinner from './LoadingSpinner.vue'
+
+describe('LoadingSpinner', () => {
+  it('tells the user content is loading', () => {
+    render(LoadingSpinner)
+
+    expect(screen.getByText(/loading/i)).toBeInTheDocument()
+  })
+})
+`,
+
+  ErrorFallback: () => `import { render, screen } from '@testing-library/vue'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import ErrorFallback from './ErrorFallback.vue'
+
+describe('ErrorFallback', () => {
+  it('shows the error message', () => {
+    render(ErrorFallback, { props: { error: new Error('Network unavailable') } })
+
+    expect(screen.getByText('Network unavailable')).toBeInTheDocument()
+  })
+
+  it('retries when asked to', async () => {
+    const user = userEvent.setup()
+    const { emitted } = render(ErrorFallback)
+
+    await user.click(screen.getByRole('button', { name: /try again/i }))
+
+    expect(emitted().reset).toHaveLength(1)
+  })
+})
+`,
+
+  LiveChat: () => `import { render, screen } from '@testing-library/vue'
+import userEvent from '@testing-library/user-event'
+import { afterEach, describe, expect, it } from 'vitest'
+import { FakeWebSocket } from '../test/FakeWebSocket'
+import LiveChat from './LiveChat.vue'
+
+const REPLY = {
+  id: 'reply-1',
+  room: 'help',
+  author: 'Sam',
+  senderId: 'sam',
+  text: 'We are open until 6pm.',
+  sentAt: new Date().toISOString()
+}
+
+const openChat = async () => {
+  const user = userEvent.setup()
+  render(LiveChat)
+  await user.click(screen.getByRole('button', { name: '💬' }))
+  return user
+}
+
+describe('LiveChat', () => {
+  afterEach(() => {
+    localStorage.clear()
+  })
+
+  it('greets the visitor when opened', async () => {
+    await openChat()
+
+    expect(screen.getByText(/how can I help you/i)).toBeInTheDocument()
+  })
+
+  it('holds a message until the chat server is reachable', async () => {
+    const user = await openChat()
+
+    await user.type(screen.getByPlaceholderText(/type your message/i), 'Are you open today?')
+    await user.click(screen.getByRole('button', { name: /send/i }))
+
+    expect(screen.getByText('Are you open today?')).toBeInTheDocument()
+    expect(screen.getByText('Sending...')).toBeInTheDocument()
+    expect(screen.getByPlaceholderText(/type your message/i)).toHaveValue('')
+
+    FakeWebSocket.latest.open()
+
+    expect(FakeWebSocket.latest.sent).toContainEqual(
+      expect.objectContaining({ type: 'message', text: 'Are you open today?' })
+    )
+  })
+
+  it('shows who is typing and their reply', async () => {
+    await openChat()
+    const socket = FakeWebSocket.latest
+
+    socket.open()
+    socket.receive({ type: 'typing', senderId: 'sam', author: 'Sam', typing: true })
+    expect(await screen.findByText('Sam is typing...')).toBeInTheDocument()
+
+    socket.receive({ type: 'message', message: REPLY })
+    expect(await screen.findByText(REPLY.text)).toBeInTheDocument()
+    expect(screen.queryByText(/is typing/)).not.toBeInTheDocument()
+  })
+
+  it('says when the chat is offline', async () => {
+    await openChat()
+
+    FakeWebSocket.latest.close()
+
+    expect(await screen.findByRole('status')).toHaveTextContent(/offline/i)
+  })
+})
+`,
+
+  ChatMessage: () => `import { render, screen } from '@testing-library/vue'
+import { describe, expect, it } from 'vitest'
+import ChatMessage from './ChatMessage.vue'
+
+const REPLY = {
+  id: 'reply-1',
+  room: 'help',
+  author: 'Sam',
+  senderId: 'sam',
+  text: 'We are open until 6pm.',
+  sentAt: new Date().toISOString()
+}
+
+describe('ChatMessage', () => {
+  it('shows who sent a reply', () => {
+    render(ChatMessage, { props: { message: REPLY, own: false } })
+
+    expect(screen.getByText(REPLY.text)).toBeInTheDocument()
+    expect(screen.getByText('Sam')).toBeInTheDocument()
+  })
+
+  it('marks a message the server has not received', () => {
+    render(ChatMessage, { props: { message: REPLY, own: true, pending: true } })
+
+    expect(screen.getByText('Sending...')).toBeInTheDocument()
+    expect(screen.queryByText('Sam')).not.toBeInTheDocument()
+  })
+})
+`,
+
+  ChatWidget: () => `import { render, screen } from '@testing-library/vue'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import { FakeWebSocket } from '../test/FakeWebSocket'
+import ChatWidget from './ChatWidget.vue'
+
+describe('ChatWidget', () => {
+  it('can be dismissed', async () => {
+    const user = userEvent.setup()
+    render(ChatWidget)
+    expect(screen.getByText(/need help/i)).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: '×' }))
+
+    expect(screen.queryByText(/need help/i)).not.toBeInTheDocument()
+  })
+
+  it('says when the chat is offline', async () => {
+    render(ChatWidget)
+    // The widget and its chat share one connection
+    expect(FakeWebSocket.instances).toHaveLength(1)
+
+    FakeWebSocket.latest.close()
+
+    expect(await screen.findByText(/chat is offline/i)).toBeInTheDocument()
+  })
+})
+`,
+
+  SearchBox: () => `import { render, screen } from '@testing-library/vue'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import SearchBox from './SearchBox.vue'
+
+describe('SearchBox', () => {
+  it('searches for the trimmed query', async () => {
+    const user = userEvent.setup()
+    const { emitted } = render(SearchBox)
+
+    await user.type(screen.getByPlaceholderText(/search/i), '  opening hours  ')
+    await user.click(screen.getByRole('button'))
+
+    expect(emitted().search).toEqual([['opening hours']])
+  })
+
+  it('ignores an empty query', async () => {
+    const user = userEvent.setup()
+    const { emitted } = render(SearchBox)
+
+    await user.click(screen.getByRole('button'))
+
+    expect(emitted().search).toBeUndefined()
+  })
+})
+`,
+
+  SearchResults: () => `import { render, screen } from '@testing-library/vue'
+import { describe, expect, it } from 'vitest'
+import router from '../router'
+import type { SearchResult } from '../search/siteSearch'
+import SearchResults from './SearchResults.vue'
+
+const result: SearchResult = {
+  entry: { type: 'page', title: 'Opening hours', excerpt: 'When we are open', url: '/about', tags: [] },
+  title: [
+    { text: 'Opening ', match: false },
+    { text: 'hours', match: true }
+  ],
+  excerpt: [{ text: 'When we are open', match: false }]
+}
+
+const renderResults = (props: { results: SearchResult[]; isLoading: boolean }) =>
+  render(SearchResults, {
+    props: { query: 'hours', ...props },
+    global: { plugins: [router] }
+  })
+
+describe('SearchResults', () => {
+  it('shows a loading state', () => {
+    renderResults({ results: [], isLoading: true })
+
+    expect(screen.getByText(/searching/i)).toBeInTheDocument()
+  })
+
+  it('lists matching results', () => {
+    renderResults({ results: [result], isLoading: false })
+
+    expect(screen.getByRole('link', { name: 'Opening hours' })).toHaveAttribute('href', '/about')
+    expect(screen.getByText('Page')).toBeInTheDocument()
+  })
+
+  it('marks the words that matched', () => {
+    renderResults({ results: [result], isLoading: false })
+
+    expect(screen.getByText('hours', { selector: 'mark' })).toBeInTheDocument()
+  })
+
+  it('says when nothing matched', () => {
+    renderResults({ results: [], isLoading: false })
+
+    expect(screen.getByText(/no results found/i)).toBeInTheDocument()
+  })
+})
+`,
+
+  PaymentForm:
+    () => `import { render, screen, waitFor } from '@testing-library/vue'
+import userEvent from '@testing-library/user-event'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { mountPaymentElement, type OrderLine, type PaymentElementHandle } from '../payments/stripe'
+import PaymentForm from './PaymentForm.vue'
+
+// Stripe's iframe cannot load in jsdom, so the form is tested around it
+vi.mock('../payments/stripe', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../payments/stripe')>()),
+  mountPaymentElement: vi.fn()
+}))
+
+let handle: { [K in keyof PaymentElementHandle]: ReturnType<typeof vi.fn> }
+
+const renderPaymentForm = async (props: { amount?: number; items?: OrderLine[] } = {}) => {
+  const result = render(PaymentForm, { props })
+  await waitFor(() => expect(screen.getByRole('button', { name: /process payment/i })).toBeEnabled())
+  return result
+}
+
+describe('PaymentForm', () => {
+  beforeEach(() => {
+    handle = {
+      update: vi.fn(),
+      pay: vi.fn().mockResolvedValue({ status: 'succeeded', amount: 4999, currency: 'usd', reference: 'pi_123' }),
+      destroy: vi.fn()
+    }
+    vi.mocked(mountPaymentElement).mockResolvedValue(handle)
+  })
+
+  it('does not pay until the amount and email are filled in', async () => {
+    const user = userEvent.setup()
+    const { emitted } = await renderPaymentForm()
+
+    await user.click(screen.getByRole('button', { name: /process payment/i }))
+
+    expect(screen.getByLabelText('Amount')).toBeInvalid()
+    expect(emitted().statusChange).toBeUndefined()
+  })
+
+  it('pays through Stripe and reports the outcome', async () => {
+    const user = userEvent.setup()
+    const { emitted } = await renderPaymentForm()
+
+    await user.type(screen.getByLabelText('Amount'), '49.99')
+    await user.type(screen.getByLabelText('Email'), 'jane@example.com')
+    await user.click(screen.getByRole('button', { name: /process payment/i }))
+
+    expect(handle.update).toHaveBeenLastCalledWith(49.99)
+    expect(handle.pay).toHaveBeenCalledWith({ amount: 49.99 }, 'jane@example.com')
+    expect(emitted().statusChange).toEqual([
+      [{ status: 'submitting' }],
+      [expect.objectContaining({ status: 'succeeded' })]
+    ])
+  })
+
+  it('keeps a fixed amount', async () => {
+    await renderPaymentForm({ amount: 25 })
+
+    const amount = screen.getByLabelText('Amount')
+    expect(amount).toHaveValue(25)
+    expect(amount).toHaveAttribute('readonly')
+    expect(mountPaymentElement).toHaveBeenCalledWith(expect.any(HTMLElement), 25)
+  })
+
+  it('sends cart lines for the server to price instead of the amount', async () => {
+    const user = userEvent.setup()
+    const items = [{ productId: 'gift-card', quantity: 2 }]
+    await renderPaymentForm({ amount: 100, items })
+
+    await user.type(screen.getByLabelText('Email'), 'jane@example.com')
+    await user.click(screen.getByRole('button', { name: /process payment/i }))
+
+    expect(handle.pay).toHaveBeenCalledWith({ items }, 'jane@example.com')
+  })
+
+  it('removes the Payment Element when it unmounts', async () => {
+    const { unmount } = await renderPaymentForm()
+
+    unmount()
+
+    expect(handle.destroy).toHaveBeenCalled()
+  })
+
+  it('says so when payments cannot be loaded', async () => {
+    vi.mocked(mountPaymentElement).mockRejectedValue(new Error('offline'))
+    render(PaymentForm)
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(/unavailable/i)
+  })
+})
+`,
+
+  PaymentStatus: () => `import { render, screen } from '@testing-library/vue'
+import { describe, expect, it } from 'vitest'
+import PaymentStatus from './PaymentStatus.vue'
+
+describe('PaymentStatus', () => {
+  it.each([
+    ['idle', /ready to pay/i],
+    ['submitting', /processing payment/i],
+    ['requires_action', /verification required/i],
+    ['processing', /payment processing/i],
+    ['succeeded', /payment successful/i],
+    ['requires_payment_method', /payment declined/i],
+    ['failed', /payment failed/i]
+  ] as const)('describes the %s state', (status, title) => {
+    render(PaymentStatus, { props: { status } })
+
+    expect(screen.getByRole('heading', { name: title })).toBeInTheDocument()
+  })
+
+  it('shows the amount and reference of a payment', () => {
+    render(PaymentStatus, {
+      props: {
+        status: 'succeeded',
+        data: { status: 'succeeded', amount: 4999, currency: 'usd', reference: 'pi_123' }
+      }
+    })
+
+    expect(screen.getByText('$49.99')).toBeInTheDocument()
+    expect(screen.getByText('pi_123')).toBeInTheDocument()
+  })
+
+  it('explains why a payment failed', () => {
+    render(PaymentStatus, {
+      props: { status: 'failed', data: { status: 'failed', error: 'Your card was declined.' } }
+    })
+
+    expect(screen.getByText('Your card was declined.')).toBeInTheDocument()
+  })
+})
+`,
+
+  BookingForm: () => `import { render, screen } from '@testing-library/vue'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import type { Slot } from '../booking/availability'
+import BookingForm from './BookingForm.vue'
+
+const hoursFromNow = (hours: number): Slot => {
+  const start = new Date(Date.now() + hours * 3600000)
+  return { start, end: new Date(start.getTime() + 3600000), available: true }
+}
+
+const fillInDetails = async (user: ReturnType<typeof userEvent.setup>) => {
+  await user.type(screen.getByLabelText('Full Name'), 'Jane Doe')
+  await user.type(screen.getByLabelText('Email'), 'jane@example.com')
+  await user.type(screen.getByLabelText('Phone'), '555 123 4567')
+  await user.selectOptions(screen.getByLabelText('Service'), 'Consultation')
+}
+
+describe('BookingForm', () => {
+  it('rejects times that have passed', async () => {
+    const user = userEvent.setup()
+    const { emitted } = render(BookingForm, { props: { slot: hoursFromNow(-1) } })
+
+    await fillInDetails(user)
+    await user.click(screen.getByRole('button', { name: /confirm booking/i }))
+
+    expect(screen.getByRole('alert')).toHaveTextContent(/already passed/i)
+    expect(emitted().submit).toBeUndefined()
+  })
+
+  it('requires a time', async () => {
+    const user = userEvent.setup()
+    const { emitted } = render(BookingForm, { props: { slot: null } })
+
+    await fillInDetails(user)
+    await user.click(screen.getByRole('button', { name: /confirm booking/i }))
+
+    expect(screen.getByRole('alert')).toHaveTextContent(/choose a time/i)
+    expect(emitted().submit).toBeUndefined()
+  })
+
+  it('books a future time', async () => {
+    const user = userEvent.setup()
+    const { emitted } = render(BookingForm, { props: { slot: hoursFromNow(24) } })
+
+    await fillInDetails(user)
+    await user.click(screen.getByRole('button', { name: /confirm booking/i }))
+
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument()
+    expect(emitted().submit).toEqual([
+      [expect.objectContaining({ name: 'Jane Doe', service: 'Consultation' })]
+    ])
+  })
+})
+`,
+
+  BookingCalendar: () => `import { render, screen } from '@testing-library/vue'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import { findNextOpenDay, formatDay, getSlots } from '../booking/availability'
+import BookingCalendar from './BookingCalendar.vue'
+
+describe('BookingCalendar', () => {
+  it('lets the user pick the first day with a free time', async () => {
+    const user = userEvent.setup()
+    const { emitted } = render(BookingCalendar, { props: { bookings: [] } })
+
+    const day = findNextOpenDay()!
+    await user.click(screen.getByRole('button', { name: formatDay(day) }))
+
+    expect(emitted()['date-select']).toEqual([[day]])
+  })
+
+  it('greys out a day once all its times are booked', async () => {
+    const user = userEvent.setup()
+    const { emitted, rerender } = render(BookingCalendar, { props: { bookings: [] } })
+
+    const day = findNextOpenDay()!
+    const bookings = getSlots(day).map((slot) => ({ start: slot.start.toISOString(), end: slot.end.toISOString() }))
+    await rerender({ bookings })
+    await user.click(screen.getByRole('button', { name: formatDay(day) }))
+
+    expect(screen.getByRole('button', { name: formatDay(day) })).toBeDisabled()
+    expect(emitted()['date-select']).toBeUndefined()
+  })
+})
+`,
+
+  AnalyticsChart: () => `import { render, screen } from '@testing-library/vue'
+import { describe, expect, it } from 'vitest'
+import AnalyticsChart from './AnalyticsChart.vue'
+
+describe('AnalyticsChart', () => {
+  it('plots one bar per day of the range', () => {
+    render(AnalyticsChart, { props: { type: 'visitors', timeRange: '7d' } })
+
+    expect(screen.getByRole('heading', { name: /visitors - 7d/i })).toBeInTheDocument()
+    expect(screen.getByText('Day 7')).toBeInTheDocument()
+    expect(screen.queryByText('Day 8')).not.toBeInTheDocument()
+  })
+})
+`,
+
+  AnalyticsMetrics: () => `import { render, screen } from '@testing-library/vue'
+import { describe, expect, it } from 'vitest'
+import AnalyticsMetrics from './AnalyticsMetrics.vue'
+
+describe('AnalyticsMetrics', () => {
+  it('formats each metric', () => {
+    render(AnalyticsMetrics, {
+      props: {
+        metrics: { visitors: 120, pageViews: 480, bounceRate: 42, avgSessionDuration: 125 }
+      }
+    })
+
+    expect(screen.getByText('42%')).toBeInTheDocument()
+    expect(screen.getByText('2m 5s')).toBeInTheDocument()
+  })
+})
+`,
+
+  LocationMap: () => `import { render, screen } from '@testing-library/vue'
+import { describe, expect, it } from 'vitest'
+import LocationMap from './LocationMap.vue'
+
+const locations = [
+  { id: 1, name: 'Main Office', address: '1 Main St', coordinates: { lat: 40.71, lng: -74.0 } },
+  { id: 2, name: 'Branch Office', address: '2 High St', coordinates: { lat: 40.72, lng: -74.01 } }
+]
+
+describe('LocationMap', () => {
+  it('marks every location and the user', () => {
+    render(LocationMap, { props: { locations, userLocation: { lat: 40.7, lng: -74.0 } } })
+
+    expect(screen.getByText(/main office/i)).toBeInTheDocument()
+    expect(screen.getByText(/branch office/i)).toBeInTheDocument()
+    expect(screen.getByText(/your location/i)).toBeInTheDocument()
+  })
+})
+`,
+
+  LocationPicker: () => `import { render, screen } from '@testing-library/vue'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import LocationPicker from './LocationPicker.vue'
+
+describe('LocationPicker', () => {
+  it('uses the current position', async () => {
+    const user = userEvent.setup()
+    vi.stubGlobal('navigator', {
+      ...navigator,
+      geolocation: {
+        getCurrentPosition: (success: PositionCallback) =>
+          success({ coords: { latitude: 51.5074, longitude: -0.1278 } } as GeolocationPosition)
+      }
+    })
+    const { emitted } = render(LocationPicker)
+
+    await user.click(screen.getByRole('button', { name: /use current location/i }))
+
+    expect(emitted()['location-select']).toEqual([[{ lat: 51.5074, lng: -0.1278 }]])
+    expect(screen.getByText(/lat: 51.5074/i)).toBeInTheDocument()
+    vi.unstubAllGlobals()
+  })
+})
+`,
+
+  NotificationBanner:
+    () => `import { render, screen } from '@testing-library/vue'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import NotificationBanner from './NotificationBanner.vue'
+
+describe('NotificationBanner', () => {
+  it('closes a notification', async () => {
+    const user = userEvent.setup()
+    const { emitted } = render(NotificationBanner, {
+      props: { notifications: [{ id: 'saved', type: 'success', message: 'Changes saved' }] }
+    })
+    expect(screen.getByText('Changes saved')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: '×' }))
+
+    expect(emitted().close).toEqual([['saved']])
+  })
+})
+`,
+
+  NotificationList: () => `import { render, screen } from '@testing-library/vue'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import NotificationList from './NotificationList.vue'
+
+const notifications = [
+  { id: '1', title: 'Welcome', message: 'Thanks for joining', timestamp: new Date(), read: false, type: 'info' as const },
+  { id: '2', title: 'Order shipped', message: 'On its way', timestamp: new Date(), read: true, type: 'success' as const }
+]
+
+describe('NotificationList', () => {
+  it('counts unread notifications and marks them all as read', async () => {
+    const user = userEvent.setup()
+    const { emitted } = render(NotificationList, { props: { notifications } })
+
+    expect(screen.getByText('1 unread')).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: /mark all as read/i }))
+
+    expect(emitted()['mark-all-as-read']).toHaveLength(1)
+  })
+
+  it('says when there is nothing to show', () => {
+    render(NotificationList, { props: { notifications: [] } })
+
+    expect(screen.getByText(/no notifications yet/i)).toBeInTheDocument()
+  })
+})
+`,
+
+  SocialShare: () => `import { render, screen } from '@testing-library/vue'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import SocialShare from './SocialShare.vue'
+
+describe('SocialShare', () => {
+  it('shares the page on Facebook', async () => {
+    const user = userEvent.setup()
+    const open = vi.spyOn(window, 'open').mockImplementation(() => null)
+    render(SocialShare, { props: { url: 'https://example.com/', title: 'Example' } })
+
+    await user.click(screen.getByRole('button', { name: /facebook/i }))
+
+    expect(open).toHaveBeenCalledWith(
+      expect.stringContaining(encodeURIComponent('https://example.com/')),
+      '_blank',
+      expect.any(String)
+    )
+    open.mockRestore()
+  })
+})
+`,
+
+  SocialLogin: () => `import { render, screen } from '@testing-library/vue'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import SocialLogin from './SocialLogin.vue'
+
+describe('SocialLogin', () => {
+  it('signs in with the chosen provider', async () => {
+    const user = userEvent.setup()
+    const { emitted } = render(SocialLogin)
+
+    await user.click(screen.getByRole('button', { name: /continue with google/i }))
+
+    expect(emitted()['social-login']).toEqual([['google']])
+  })
+})
+`,
+  ProfileForm: () => `import { render, screen } from '@testing-library/vue'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import ProfileForm from './ProfileForm.vue'
+
+describe('ProfileForm', () => {
+  it('requires a name and email', async () => {
+    const user = userEvent.setup()
+    const onSave = vi.fn()
+    render(ProfileForm, { props: { onSave } })
+
+    await user.click(screen.getByRole('button', { name: /save profile/i }))
+
+    expect(screen.getByLabelText('Full Name')).toBeInvalid()
+    expect(onSave).not.toHaveBeenCalled()
+  })
+
+  it('saves the edited profile', async () => {
+    const user = userEvent.setup()
+    const onSave = vi.fn()
+    render(ProfileForm, {
+      props: { initialData: { name: 'Jane Doe', email: 'jane@example.com' }, onSave }
+    })
+
+    await user.type(screen.getByLabelText('Company/Organization'), 'Acme')
+    await user.click(screen.getByRole('button', { name: /save profile/i }))
+
+    expect(onSave).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Jane Doe', company: 'Acme' })
+    )
+  })
+})
+`,
+};
+
+// The SvelteKit components dispatch events, which the tests record through
+// the component's $on
+const SVELTE_COMPONENT_TESTS: Record<string, TestRenderer> = {
+  LoadingSpinner:
+    () => `import { render, screen } from '@testing-library/svelte'
+import { describe, expect, it } from 'vitest'
+import LoadingSpinner from './LoadingSpinner.svelte'
+
+describe('LoadingSpinner', () => {
+  it('tells the user content is loading', () => {
+    render(LoadingSpinner)
+
+    expect(screen.getByText(/loading/i)).toBeInTheDocument()
+  })
+})
+`,
+
+  ErrorFallback: () => `import { render, screen } from '@testing-library/svelte'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import ErrorFallback from './ErrorFallback.svelte'
+
+describe('ErrorFallback', () => {
+  it('shows the error message', () => {
+    render(ErrorFallback, { props: { error: new Error('Network unavailable') } })
+
+    expect(screen.getByText('Network unavailable')).toBeInTheDocument()
+  })
+
+  it('retries when asked to', async () => {
+    const user = userEvent.setup()
+    const onReset = vi.fn()
+    const { component } = render(ErrorFallback)
+    component.$on('reset', onReset)
+
+    await user.click(screen.getByRole('button', { name: /try again/i }))
+
+    expect(onReset).toHaveBeenCalledOnce()
+  })
+})
+`,
+
+  LiveChat: () => `import { render, screen } from '@testing-library/svelte'
+import userEvent from '@testing-library/user-event'
+import { afterEach, describe, expect, it } from 'vitest'
+import { FakeWebSocket } from '../../test/FakeWebSocket'
+import LiveChat from './LiveChat.svelte'
+
+const REPLY = {
+  id: 'reply-1',
+  room: 'help',
+  author: 'Sam',
+  senderId: 'sam',
+  text: 'We are open until 6pm.',
+  sentAt: new Date().toISOString()
+}
+
+const openChat = async () => {
+  const user = userEvent.setup()
+  render(LiveChat)
+  await user.click(screen.getByRole('button', { name: '💬' }))
+  return user
+}
+
+describe('LiveChat', () => {
+  afterEach(() => {
+    localStorage.clear()
+  })
+
+  it('greets the visitor when opened', async () => {
+    await openChat()
+
+    expect(screen.getByText(/how can I help you/i)).toBeInTheDocument()
+  })
+
+  it('holds a message until the chat server is reachable', async () => {
+    const user = await openChat()
+
+    await user.type(screen.getByPlaceholderText(/type your message/i), 'Are you open today?')
+    await user.click(screen.getByRole('button', { name: /send/i }))
+
+    expect(screen.getByText('Are you open today?')).toBeInTheDocument()
+    expect(screen.getByText('Sending...')).toBeInTheDocument()
+    expect(screen.getByPlaceholderText(/type your message/i)).toHaveValue('')
+
+    FakeWebSocket.latest.open()
+
+    expect(FakeWebSocket.latest.sent).toContainEqual(
+      expect.objectContaining({ type: 'message', text: 'Are you open today?' })
+    )
+  })
+
+  it('shows who is typing and their reply', async () => {
+    await openChat()
+    const socket = FakeWebSocket.latest
+
+    socket.open()
+    socket.receive({ type: 'typing', senderId: 'sam', author: 'Sam', typing: true })
+    expect(await screen.findByText('Sam is typing...')).toBeInTheDocument()
+
+    socket.receive({ type: 'message', message: REPLY })
+    expect(await screen.findByText(REPLY.text)).toBeInTheDocument()
+    expect(screen.queryByText(/is typing/)).not.toBeInTheDocument()
+  })
+
+  it('says when the chat is offline', async () => {
+    await openChat()
+
+    FakeWebSocket.latest.close()
+
+    expect(await screen.findByRole('status')).toHaveTextContent(/offline/i)
+  })
+})
+`,
+
+  ChatMessage: () => `import { render, screen } from '@testing-library/svelte'
+import { describe, expect, it } from 'vitest'
+import ChatMessage from './ChatMessage.svelte'
+
+const REPLY = {
+  id: 'reply-1',
+  room: 'help',
+  author: 'Sam',
+  senderId: 'sam',
+  text: 'We are open until 6pm.',
+  sentAt: new Date().toISOString()
+}
+
+describe('ChatMessage', () => {
+  it('shows who sent a reply', () => {
+    render(ChatMessage, { props: { message: REPLY, own: false } })
+
+    expect(screen.getByText(REPLY.text)).toBeInTheDocument()
+    expect(screen.getByText('Sam')).toBeInTheDocument()
+  })
+
+  it('marks a message the server has not received', () => {
+    render(ChatMessage, { props: { message: REPLY, own: true, pending: true } })
+
+    expect(screen.getByText('Sending...')).toBeInTheDocument()
+    expect(screen.queryByText('Sam')).not.toBeInTheDocument()
+  })
+})
+`,
+
+  ChatWidget: () => `import { render, screen } from '@testing-library/svelte'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import { FakeWebSocket } from '../../test/FakeWebSocket'
+import ChatWidget from './ChatWidget.svelte'
+
+describe('ChatWidget', () => {
+  it('can be dismissed', async () => {
+    const user = userEvent.setup()
+    render(ChatWidget)
+    expect(screen.getByText(/need help/i)).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: '×' }))
+
+    expect(screen.queryByText(/need help/i)).not.toBeInTheDocument()
+  })
+
+  it('says when the chat is offline', async () => {
+    render(ChatWidget)
+    // The widget and its chat share one connection
+    expect(FakeWebSocket.instances).toHaveLength(1)
+
+    FakeWebSocket.latest.close()
+
+    expect(await screen.findByText(/chat is offline/i)).toBeInTheDocument()
+  })
+})
+`,
+
+  SearchBox: () => `import { render, screen } from '@testing-library/svelte'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import SearchBox from './SearchBox.svelte'
+
+const renderSearchBox = () => {
+  const onSearch = vi.fn()
+  const { component } = render(SearchBox)
+  component.$on('search', (event) => onSearch(event.detail))
+  return onSearch
+}
+
+describe('SearchBox', () => {
+  it('searches for the trimmed query', async () => {
+    const user = userEvent.setup()
+    const onSearch = renderSearchBox()
+
+    await user.type(screen.getByPlaceholderText(/search/i), '  opening hours  ')
+    await user.click(screen.getByRole('button'))
+
+    expect(onSearch).toHaveBeenCalledWith('opening hours')
+  })
+
+  it('ignores an empty query', async () => {
+    const user = userEvent.setup()
+    const onSearch = renderSearchBox()
+
+    await user.click(screen.getByRole('button'))
+
+    expect(onSearch).not.toHaveBeenCalled()
+  })
+})
+`,
+
+  SearchResults: () => `import { render, screen } from '@testing-library/svelte'
+import { describe, expect, it } from 'vitest'
+import type { SearchResult } from '$lib/search/siteSearch'
+import SearchResults from './SearchResults.svelte'
+
+const result: SearchResult = {
+  entry: { type: 'page', title: 'Opening hours', excerpt: 'When we are open', url: '/about', tags: [] },
+  title: [
+    { text: 'Opening ', match: false },
+    { text: 'hours', match: true }
+  ],
+  excerpt: [{ text: 'When we are open', match: false }]
+}
+
+describe('SearchResults', () => {
+  it('shows a loading state', () => {
+    render(SearchResults, { props: { results: [], query: 'hours', isLoading: true } })
+
+    expect(screen.getByText(/searching/i)).toBeInTheDocument()
+  })
+
+  it('lists matching results', () => {
+    render(SearchResults, { props: { results: [result], query: 'hours', isLoading: false } })
+
+    expect(screen.getByRole('link', { name: 'Opening hours' })).toHaveAttribute('href', '/about')
+    expect(screen.getByText('Page')).toBeInTheDocument()
+  })
+
+  it('marks the words that matched', () => {
+    render(SearchResults, { props: { results: [result], query: 'hours', isLoading: false } })
+
+    expect(screen.getByText('hours', { selector: 'mark' })).toBeInTheDocument()
+  })
+
+  it('says when nothing matched', () => {
+    render(SearchResults, { props: { results: [], query: 'hours', isLoading: false } })
+
+    expect(screen.getByText(/no results found/i)).toBeInTheDocument()
+  })
+})
+`,
+
+  PaymentForm:
+    () => `import { render, screen, waitFor } from '@testing-library/svelte'
+import userEvent from '@testing-library/user-event'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { mountPaymentElement, type OrderLine, type PaymentElementHandle } from '$lib/payments/stripe'
+import PaymentForm from './PaymentForm.svelte'
+
+// Stripe's iframe cannot load in jsdom, so the form is tested around it
+vi.mock('$lib/payments/stripe', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('$lib/payments/stripe')>()),
+  mountPaymentElement: vi.fn()
+}))
+
+let handle: { [K in keyof PaymentElementHandle]: ReturnType<typeof vi.fn> }
+
+const renderPaymentForm = async (props: { amount?: number; items?: OrderLine[] } = {}) => {
+  const onStatusChange = vi.fn()
+  const { component, unmount } = render(PaymentForm, { props })
+  component.$on('statuschange', (event) => onStatusChange(event.detail))
+  await waitFor(() => expect(screen.getByRole('button', { name: /process payment/i })).toBeEnabled())
+  return { onStatusChange, unmount }
+}
+
+describe('PaymentForm', () => {
+  beforeEach(() => {
+    handle = {
+      update: vi.fn(),
+      pay: vi.fn().mockResolvedValue({ status: 'succeeded', amount: 4999, currency: 'usd', reference: 'pi_123' }),
+      destroy: vi.fn()
+    }
+    vi.mocked(mountPaymentElement).mockResolvedValue(handle)
+  })
+
+  it('does not pay until the amount and email are filled in', async () => {
+    const user = userEvent.setup()
+    const { onStatusChange } = await renderPaymentForm()
+
+    await user.click(screen.getByRole('button', { name: /process payment/i }))
+
+    expect(screen.getByLabelText('Amount')).toBeInvalid()
+    expect(onStatusChange).not.toHaveBeenCalled()
+  })
+
+  it('pays through Stripe and reports the outcome', async () => {
+    const user = userEvent.setup()
+    const { onStatusChange } = await renderPaymentForm()
+
+    await user.type(screen.getByLabelText('Amount'), '49.99')
+    await user.type(screen.getByLabelText('Email'), 'jane@example.com')
+    await user.click(screen.getByRole('button', { name: /process payment/i }))
+
+    expect(handle.update).toHaveBeenLastCalledWith(49.99)
+    expect(handle.pay).toHaveBeenCalledWith({ amount: 49.99 }, 'jane@example.com')
+    expect(onStatusChange).toHaveBeenNthCalledWith(1, { status: 'submitting' })
+    expect(onStatusChange).toHaveBeenLastCalledWith(expect.objectContaining({ status: 'succeeded' }))
+  })
+
+  it('keeps a fixed amount', async () => {
+    await renderPaymentForm({ amount: 25 })
+
+    const amount = screen.getByLabelText('Amount')
+    expect(amount).toHaveValue(25)
+    expect(amount).toHaveAttribute('readonly')
+    expect(mountPaymentElement).toHaveBeenCalledWith(expect.any(HTMLElement), 25)
+  })
+
+  it('sends cart lines for the server to price instead of the amount', async () => {
+    const user = userEvent.setup()
+    const items = [{ productId: 'gift-card', quantity: 2 }]
+    await renderPaymentForm({ amount: 100, items })
+
+    await user.type(screen.getByLabelText('Email'), 'jane@example.com')
+    await user.click(screen.getByRole('button', { name: /process payment/i }))
+
+    expect(handle.pay).toHaveBeenCalledWith({ items }, 'jane@example.com')
+  })
+
+  it('removes the Payment Element when it unmounts', async () => {
+    const { unmount } = await renderPaymentForm()
+
+    unmount()
+
+    expect(handle.destroy).toHaveBeenCalled()
+  })
+
+  it('says so when payments cannot be loaded', async () => {
+    vi.mocked(mountPaymentElement).mockRejectedValue(new Error('offline'))
+    render(PaymentForm)
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(/unavailable/i)
+  })
+})
+`,
+
+  PaymentStatus: () => `import { render, screen } from '@testing-library/svelte'
+import { describe, expect, it } from 'vitest'
+import PaymentStatus from './PaymentStatus.svelte'
+
+describe('PaymentStatus', () => {
+  it.each([
+    ['idle', /ready to pay/i],
+    ['submitting', /processing payment/i],
+    ['requires_action', /verification required/i],
+    ['processing', /payment processing/i],
+    ['succeeded', /payment successful/i],
+    ['requires_payment_method', /payment declined/i],
+    ['failed', /payment failed/i]
+  ] as const)('describes the %s state', (status, title) => {
+    render(PaymentStatus, { props: { status } })
+
+    expect(screen.getByRole('heading', { name: title })).toBeInTheDocument()
+  })
+
+  it('shows the amount and reference of a payment', () => {
+    render(PaymentStatus, {
+      props: {
+        status: 'succeeded',
+        data: { status: 'succeeded', amount: 4999, currency: 'usd', reference: 'pi_123' }
+      }
+    })
+
+    expect(screen.getByText('$49.99')).toBeInTheDocument()
+    expect(screen.getByText('pi_123')).toBeInTheDocument()
+  })
+
+  it('explains why a payment failed', () => {
+    render(PaymentStatus, {
+      props: { status: 'failed', data: { status: 'failed', error: 'Your card was declined.' } }
+    })
+
+    expect(screen.getByText('Your card was declined.')).toBeInTheDocument()
+  })
+})
+`,
+
+  BookingForm: () => `import { render, screen } from '@testing-library/svelte'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import type { Slot } from '$lib/booking/availability'
+import BookingForm from './BookingForm.svelte'
+
+const hoursFromNow = (hours: number): Slot => {
+  const start = new Date(Date.now() + hours * 3600000)
+  return { start, end: new Date(start.getTime() + 3600000), available: true }
+}
+
+const renderBookingForm = (slot: Slot | null) => {
+  const onSubmit = vi.fn()
+  const { component } = render(BookingForm, { props: { slot } })
+  component.$on('submit', (event) => onSubmit(event.detail))
+  return onSubmit
+}
+
+const fillInDetails = async (user: ReturnType<typeof userEvent.setup>) => {
+  await user.type(screen.getByLabelText('Full Name'), 'Jane Doe')
+  await user.type(screen.getByLabelText('Email'), 'jane@example.com')
+  await user.type(screen.getByLabelText('Phone'), '555 123 4567')
+  await user.selectOptions(screen.getByLabelText('Service'), 'Consultation')
+}
+
+describe('BookingForm', () => {
+  it('rejects times that have passed', async () => {
+    const user = userEvent.setup()
+    const onSubmit = renderBookingForm(hoursFromNow(-1))
+
+    await fillInDetails(user)
+    await user.click(screen.getByRole('button', { name: /confirm booking/i }))
+
+    expect(screen.getByRole('alert')).toHaveTextContent(/already passed/i)
+    expect(onSubmit).not.toHaveBeenCalled()
+  })
+
+  it('requires a time', async () => {
+    const user = userEvent.setup()
+    const onSubmit = renderBookingForm(null)
+
+    await fillInDetails(user)
+    await user.click(screen.getByRole('button', { name: /confirm booking/i }))
+
+    expect(screen.getByRole('alert')).toHaveTextContent(/choose a time/i)
+    expect(onSubmit).not.toHaveBeenCalled()
+  })
+
+  it('books a future time', async () => {
+    const user = userEvent.setup()
+    const onSubmit = renderBookingForm(hoursFromNow(24))
+
+    await fillInDetails(user)
+    await user.click(screen.getByRole('button', { name: /confirm booking/i }))
+
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument()
+    expect(onSubmit).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Jane Doe', service: 'Consultation' })
+    )
+  })
+})
+`,
+
+  BookingCalendar:
+    () => `import { render, screen } from '@testing-library/svelte'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import { findNextOpenDay, formatDay, getSlots } from '$lib/booking/availability'
+import BookingCalendar from './BookingCalendar.svelte'
+
+const renderCalendar = () => {
+  const onDateSelect = vi.fn()
+  const { component, rerender } = render(BookingCalendar, { props: { bookings: [] } })
+  component.$on('dateSelect', (event) => onDateSelect(event.detail))
+  return { onDateSelect, rerender }
+}
+
+describe('BookingCalendar', () => {
+  it('lets the user pick the first day with a free time', async () => {
+    const user = userEvent.setup()
+    const { onDateSelect } = renderCalendar()
+
+    const day = findNextOpenDay()!
+    await user.click(screen.getByRole('button', { name: formatDay(day) }))
+
+    expect(onDateSelect).toHaveBeenCalledWith(day)
+  })
+
+  it('greys out a day once all its times are booked', async () => {
+    const user = userEvent.setup()
+    const { onDateSelect, rerender } = renderCalendar()
+
+    const day = findNextOpenDay()!
+    const bookings = getSlots(day).map((slot) => ({ start: slot.start.toISOString(), end: slot.end.toISOString() }))
+    await rerender({ bookings })
+    await user.click(screen.getByRole('button', { name: formatDay(day) }))
+
+    expect(screen.getByRole('button', { name: formatDay(day) })).toBeDisabled()
+    expect(onDateSelect).not.toHaveBeenCalled()
+  })
+})
+`,
+
+  AnalyticsChart:
+    () => `import { render, screen } from '@testing-library/svelte'
+import { describe, expect, it } from 'vitest'
+import AnalyticsChart from './AnalyticsChart.svelte'
+
+describe('AnalyticsChart', () => {
+  it('plots one bar per day of the range', () => {
+    render(AnalyticsChart, { props: { type: 'visitors', timeRange: '7d' } })
+
+    expect(screen.getByRole('heading', { name: /visitors - 7d/i })).toBeInTheDocument()
+    expect(screen.getByText('Day 7')).toBeInTheDocument()
+    expect(screen.queryByText('Day 8')).not.toBeInTheDocument()
+  })
+})
+`,
+
+  AnalyticsMetrics:
+    () => `import { render, screen } from '@testing-library/svelte'
+import { describe, expect, it } from 'vitest'
+import AnalyticsMetrics from './AnalyticsMetrics.svelte'
+
+describe('AnalyticsMetrics', () => {
+  it('formats each metric', () => {
+    render(AnalyticsMetrics, {
+      props: {
+        metrics: { visitors: 120, pageViews: 480, bounceRate: 42, avgSessionDuration: 125 }
+      }
+    })
+
+    expect(screen.getByText('42%')).toBeInTheDocument()
+    expect(screen.getByText('2m 5s')).toBeInTheDocument()
+  })
+})
+`,
+
+  LocationMap: () => `import { render, screen } from '@testing-library/svelte'
+import { describe, expect, it } from 'vitest'
+import LocationMap from './LocationMap.svelte'
+
+const locations = [
+  { id: 1, name: 'Main Office', address: '1 Main St', coordinates: { lat: 40.71, lng: -74.0 } },
+  { id: 2, name: 'Branch Office', address: '2 High St', coordinates: { lat: 40.72, lng: -74.01 } }
+]
+
+describe('LocationMap', () => {
+  it('marks every location and the user', () => {
+    render(LocationMap, { props: { locations, userLocation: { lat: 40.7, lng: -74.0 } } })
+
+    expect(screen.getByText(/main office/i)).toBeInTheDocument()
+    expect(screen.getByText(/branch office/i)).toBeInTheDocument()
+    expect(screen.getByText(/your location/i)).toBeInTheDocument()
+  })
+})
+`,
+
+  LocationPicker:
+    () => `import { render, screen } from '@testing-library/svelte'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import LocationPicker from './LocationPicker.svelte'
+
+describe('LocationPicker', () => {
+  it('uses the current position', async () => {
+    const user = userEvent.setup()
+    const onLocationSelect = vi.fn()
+    vi.stubGlobal('navigator', {
+      ...navigator,
+      geolocation: {
+        getCurrentPosition: (success: PositionCallback) =>
+          success({ coords: { latitude: 51.5074, longitude: -0.1278 } } as GeolocationPosition)
+      }
+    })
+    const { component } = render(LocationPicker)
+    component.$on('locationSelect', (event) => onLocationSelect(event.detail))
+
+    await user.click(screen.getByRole('button', { name: /use current location/i }))
+
+    expect(onLocationSelect).toHaveBeenCalledWith({ lat: 51.5074, lng: -0.1278 })
+    expect(screen.getByText(/lat: 51.5074/i)).toBeInTheDocument()
+    vi.unstubAllGlobals()
+  })
+})
+`,
+
+  NotificationBanner:
+    () => `import { render, screen } from '@testing-library/svelte'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import NotificationBanner from './NotificationBanner.svelte'
+
+describe('NotificationBanner', () => {
+  it('closes a notification', async () => {
+    const user = userEvent.setup()
+    const onClose = vi.fn()
+    const { component } = render(NotificationBanner, {
+      props: { notifications: [{ id: 'saved', type: 'success', message: 'Changes saved' }] }
+    })
+    component.$on('close', (event) => onClose(event.detail))
+    expect(screen.getByText('Changes saved')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: '×' }))
+
+    expect(onClose).toHaveBeenCalledWith('saved')
+  })
+})
+`,
+
+  NotificationList:
+    () => `import { render, screen } from '@testing-library/svelte'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import NotificationList from './NotificationList.svelte'
+
+const notifications = [
+  { id: '1', title: 'Welcome', message: 'Thanks for joining', timestamp: new Date(), read: false, type: 'info' as const },
+  { id: '2', title: 'Order shipped', message: 'On its way', timestamp: new Date(), read: true, type: 'success' as const }
+]
+
+describe('NotificationList', () => {
+  it('counts unread notifications and marks them all as read', async () => {
+    const user = userEvent.setup()
+    const onMarkAllAsRead = vi.fn()
+    const { component } = render(NotificationList, { props: { notifications } })
+    component.$on('markAllAsRead', onMarkAllAsRead)
+
+    expect(screen.getByText('1 unread')).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: /mark all as read/i }))
+
+    expect(onMarkAllAsRead).toHaveBeenCalledOnce()
+  })
+
+  it('says when there is nothing to show', () => {
+    render(NotificationList, { props: { notifications: [] } })
+
+    expect(screen.getByText(/no notifications yet/i)).toBeInTheDocument()
+  })
+})
+`,
+
+  SocialShare: () => `import { render, screen } from '@testing-library/svelte'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import SocialShare from './SocialShare.svelte'
+
+describe('SocialShare', () => {
+  it('shares the page on Facebook', async () => {
+    const user = userEvent.setup()
+    const open = vi.spyOn(window, 'open').mockImplementation(() => null)
+    render(SocialShare, { props: { url: 'https://example.com/', title: 'Example' } })
+
+    await user.click(screen.getByRole('button', { name: /facebook/i }))
+
+    expect(open).toHaveBeenCalledWith(
+      expect.stringContaining(encodeURIComponent('https://example.com/')),
+      '_blank',
+      expect.any(String)
+    )
+    open.mockRestore()
+  })
+})
+`,
+
+  SocialLogin: () => `import { render, screen } from '@testing-library/svelte'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import SocialLogin from './SocialLogin.svelte'
+
+describe('SocialLogin', () => {
+  it('signs in with the chosen provider', async () => {
+    const user = userEvent.setup()
+    const onSocialLogin = vi.fn()
+    const { component } = render(SocialLogin)
+    component.$on('socialLogin', (event) => onSocialLogin(event.detail))
+
+    await user.click(screen.getByRole('button', { name: /continue with google/i }))
+
+    expect(onSocialLogin).toHaveBeenCalledWith('google')
+  })
+})
+`,
+
+  ProfileForm: () => `import { render, screen } from '@testing-library/svelte'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import ProfileForm from './ProfileForm.svelte'
+
+const renderProfileForm = (initialData = {}) => {
+  const onSave = vi.fn()
+  const { component } = render(ProfileForm, { props: { initialData } })
+  component.$on('save', (event) => onSave(event.detail))
+  return onSave
+}
+
+describe('ProfileForm', () => {
+  it('requires a name and email', async () => {
+    const user = userEvent.setup()
+    const onSave = renderProfileForm()
+
+    await user.click(screen.getByRole('button', { name: /save profile/i }))
+
+    expect(screen.getByLabelText('Full Name')).toBeInvalid()
+    expect(onSave).not.toHaveBeenCalled()
+  })
+
+  it('saves the edited profile', async () => {
+    const user = userEvent.setup()
+    const onSave = renderProfileForm({ name: 'Jane Doe', email: 'jane@example.com' })
+
+    await user.type(screen.getByLabelText('Company/Organization'), 'Acme')
+    await user.click(screen.getByRole('button', { name: /save profile/i }))
+
+    expect(onSave).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'Jane Doe', company: 'Acme' })
+    )
+  })
+})
+`,
+};
+
+// Angular components render asynchronously through TestBed; the tests
+// record their outputs by subscribing to the component's EventEmitters
+const ANGULAR_COMPONENT_TESTS: Record<string, TestRenderer> = {
+  LoadingSpinner:
+    () => `import { render, screen } from '@testing-library/angular'
+import { describe, expect, it } from 'vitest'
+import { LoadingSpinnerComponent } from './loading-spinner.component'
+
+describe('LoadingSpinner', () => {
+  it('tells the user content is loading', async () => {
+    await render(LoadingSpinnerComponent)
+
+    expect(screen.getByText(/loading/i)).toBeInTheDocument()
+  })
+})
+`,
+
+  ErrorFallback:
+    () => `import { render, screen } from '@testing-library/angular'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import { ErrorFallbackComponent } from './error-fallback.component'
+
+describe('ErrorFallback', () => {
+  it('shows the error message', async () => {
+    await render(ErrorFallbackComponent, { componentInputs: { error: new Error('Network unavailable') } })
+
+    expect(screen.getByText('Network unavailable')).toBeInTheDocument()
+  })
+
+  it('retries when asked to', async () => {
+    const user = userEvent.setup()
+    const { fixture } = await render(ErrorFallbackComponent)
+    const reset = vi.fn()
+    fixture.componentInstance.reset.subscribe(reset)
+
+    await user.click(screen.getByRole('button', { name: /try again/i }))
+
+    expect(reset).toHaveBeenCalledTimes(1)
+  })
+})
+`,
+
+  LiveChat: () => `import { render, screen } from '@testing-library/angular'
+import userEvent from '@testing-library/user-event'
+import { afterEach, describe, expect, it } from 'vitest'
+import { FakeWebSocket } from '../../test/FakeWebSocket'
+import { LiveChatComponent } from './live-chat.component'
+
+const REPLY = {
+  id: 'reply-1',
+  room: 'help',
+  author: 'Sam',
+  senderId: 'sam',
+  text: 'We are open until 6pm.',
+  sentAt: new Date().toISOString()
+}
+
+const openChat = async () => {
+  const user = userEvent.setup()
+  await render(LiveChatComponent)
+  await user.click(screen.getByRole('button', { name: '💬' }))
+  return user
+}
+
+describe('LiveChat', () => {
+  afterEach(() => {
+    localStorage.clear()
+  })
+
+  it('greets the visitor when opened', async () => {
+    await openChat()
+
+    expect(screen.getByText(/how can I help you/i)).toBeInTheDocument()
+  })
+
+  it('holds a message until the chat server is reachable', async () => {
+    const user = await openChat()
+
+    await user.type(screen.getByPlaceholderText(/type your message/i), 'Are you open today?')
+    await user.click(screen.getByRole('button', { name: /send/i }))
+
+    expect(await screen.findByText('Are you open today?')).toBeInTheDocument()
+    expect(screen.getByText('Sending...')).toBeInTheDocument()
+    expect(screen.getByPlaceholderText(/type your message/i)).toHaveValue('')
+
+    FakeWebSocket.latest.open()
+
+    expect(FakeWebSocket.latest.sent).toContainEqual(
+      expect.objectContaining({ type: 'message', text: 'Are you open today?' })
+    )
+  })
+
+  it('shows who is typing and their reply', async () => {
+    await openChat()
+    const socket = FakeWebSocket.latest
+
+    socket.open()
+    socket.receive({ type: 'typing', senderId: 'sam', author: 'Sam', typing: true })
+    expect(await screen.findByText('Sam is typing...')).toBeInTheDocument()
+
+    socket.receive({ type: 'message', message: REPLY })
+    expect(await screen.findByText(REPLY.text)).toBeInTheDocument()
+    expect(screen.queryByText(/is typing/)).not.toBeInTheDocument()
+  })
+
+  it('says when the chat is offline', async () => {
+    await openChat()
+
+    FakeWebSocket.latest.close()
+
+    expect(await screen.findByRole('status')).toHaveTextContent(/offline/i)
+  })
+})
+`,
+
+  ChatMessage: () => `import { render, screen } from '@testing-library/angular'
+import { describe, expect, it } from 'vitest'
+import { ChatMessageComponent } from './chat-message.component'
+
+const REPLY = {
+  id: 'reply-1',
+  room: 'help',
+  author: 'Sam',
+  senderId: 'sam',
+  text: 'We are open until 6pm.',
+  sentAt: new Date().toISOString()
+}
+
+describe('ChatMessage', () => {
+  it('shows who sent a reply', async () => {
+    await render(ChatMessageComponent, { componentInputs: { message: REPLY, own: false } })
+
+    expect(screen.getByText(REPLY.text)).toBeInTheDocument()
+    expect(screen.getByText('Sam')).toBeInTheDocument()
+  })
+
+  it('marks a message the server has not received', async () => {
+    await render(ChatMessageComponent, { componentInputs: { message: REPLY, own: true, pending: true } })
+
+    expect(screen.getByText('Sending...')).toBeInTheDocument()
+    expect(screen.queryByText('Sam')).not.toBeInTheDocument()
+  })
+})
+`,
+
+  ChatWidget: () => `import { render, screen } from '@testing-library/angular'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it } from 'vitest'
+import { FakeWebSocket } from '../../test/FakeWebSocket'
+import { ChatWidgetComponent } from './chat-widget.component'
+
+describe('ChatWidget', () => {
+  it('can be dismissed', async () => {
+    const user = userEvent.setup()
+    await render(ChatWidgetComponent)
+    expect(screen.getByText(/need help/i)).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: '×' }))
+
+    expect(screen.queryByText(/need help/i)).not.toBeInTheDocument()
+  })
+
+  it('says when the chat is offline', async () => {
+    await render(ChatWidgetComponent)
+    // The widget and its chat share one connection
+    expect(FakeWebSocket.instances).toHaveLength(1)
+
+    FakeWebSocket.latest.close()
+
+    expect(await screen.findByText(/chat is offline/i)).toBeInTheDocument()
+  })
+})
+`,
+
+  SearchBox: () => `import { render, screen } from '@testing-library/angular'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import { SearchBoxComponent } from './search-box.component'
+
+const renderSearchBox = async () => {
+  const { fixture } = await render(SearchBoxComponent)
+  const search = vi.fn()
+  fixture.componentInstance.search.subscribe(search)
+  return search
+}
+
+describe('SearchBox', () => {
+  it('searches for the trimmed query', async () => {
+    const user = userEvent.setup()
+    const search = await renderSearchBox()
+
+    await user.type(screen.getByPlaceholderText(/search/i), '  opening hours  ')
+    await user.click(screen.getByRole('button'))
+
+    expect(search.mock.calls).toEqual([['opening hours']])
+  })
+
+  it('ignores an empty query', async () => {
+    const user = userEvent.setup()
+    const search = await renderSearchBox()
+
+    await user.click(screen.getByRole('button'))
+
+    expect(search).not.toHaveBeenCalled()
+  })
+})
+`,
+
+  SearchResults: () => `import { provideRouter } from '@angular/router'
+import { render, screen } from '@testing-library/angular'
+import { describe, expect, it } from 'vitest'
+import type { SearchResult } from '../search/siteSearch'
+import { SearchResultsComponent } from './search-results.component'
+
+const result: SearchResult = {
+  entry: { type: 'page', title: 'Opening hours', excerpt: 'When we are open', url: '/about', tags: [] },
+  title: [
+    { text: 'Opening ', match: false },
+    { text: 'hours', match: true }
+  ],
+  excerpt: [{ text: 'When we are open', match: false }]
+}
+
+const renderResults = (inputs: { results: SearchResult[]; isLoading: boolean }) =>
+  render(SearchResultsComponent, {
+    componentInputs: { query: 'hours', ...inputs },
+    providers: [provideRouter([])]
+  })
+
+describe('SearchResults', () => {
+  it('shows a loading state', async () => {
+    await renderResults({ results: [], isLoading: true })
+
+    expect(screen.getByText(/searching/i)).toBeInTheDocument()
+  })
+
+  it('lists matching results', async () => {
+    await renderResults({ results: [result], isLoading: false })
+
+    expect(screen.getByRole('link', { name: 'Opening hours' })).toHaveAttribute('href', '/about')
+    expect(screen.getByText('Page')).toBeInTheDocument()
+  })
+
+  it('marks the words that matched', async () => {
+    await renderResults({ results: [result], isLoading: false })
+
+    expect(screen.getByText('hours', { selector: 'mark' })).toBeInTheDocument()
+  })
+
+  it('says when nothing matched', async () => {
+    await renderResults({ results: [], isLoading: false })
+
+    expect(screen.getByText(/no results found/i)).toBeInTheDocument()
+  })
+})
+`,
+
+  PaymentForm:
+    () => `import { render, screen, waitFor } from '@testing-library/angular'
+import userEvent from '@testing-library/user-event'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  mountPaymentElement,
+  type OrderLine,
+  type PaymentElementHandle,
+  type PaymentResult
+} from '../payments/stripe'
+import { PaymentFormComponent } from './payment-form.component'
+
+// Stripe's iframe cannot load in jsdom, so the form is tested around it
+vi.mock('../payments/stripe', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../payments/stripe')>()),
+  mountPaymentElement: vi.fn()
+}))
+
+let handle: { [K in keyof PaymentElementHandle]: ReturnType<typeof vi.fn> }
+
+const renderPaymentForm = async (inputs: { amount?: number; items?: OrderLine[] } = {}) => {
+  const result = await render(PaymentFormComponent, { componentInputs: inputs })
+  const statusChanges: PaymentResult[] = []
+  result.fixture.componentInstance.statusChange.subscribe((change) => statusChanges.push(change))
+  await waitFor(() => expect(screen.getByRole('button', { name: /process payment/i })).toBeEnabled())
+  return { ...result, statusChanges }
+}
+
+describe('PaymentForm', () => {
+  beforeEach(() => {
+    handle = {
+      update: vi.fn(),
+      pay: vi.fn().mockResolvedValue({ status: 'succeeded', amount: 4999, currency: 'usd', reference: 'pi_123' }),
+      destroy: vi.fn()
+    }
+    vi.mocked(mountPaymentElement).mockResolvedValue(handle)
+  })
+
+  it('does not pay until the amount and email are filled in', async () => {
+    const user = userEvent.setup()
+    const { statusChanges } = await renderPaymentForm()
+
+    await user.click(screen.getByRole('button', { name: /process payment/i }))
+
+    expect(screen.getByLabelText('Amount')).toBeInvalid()
+    expect(statusChanges).toEqual([])
+  })
+
+  it('pays through Stripe and reports the outcome', async () => {
+    const user = userEvent.setup()
+    const { statusChanges } = await renderPaymentForm()
+
+    await user.type(screen.getByLabelText('Amount'), '49.99')
+    await user.type(screen.getByLabelText('Email'), 'jane@example.com')
+    await user.click(screen.getByRole('button', { name: /process payment/i }))
+
+    expect(handle.update).toHaveBeenLastCalledWith(49.99)
+    expect(handle.pay).toHaveBeenCalledWith({ amount: 49.99 }, 'jane@example.com')
+    await waitFor(() =>
+      expect(statusChanges).toEqual([{ status: 'submitting' }, expect.objectContaining({ status: 'succeeded' })])
+    )
+  })
+
+  it('keeps a fixed amount', async () => {
+    await renderPaymentForm({ amount: 25 })
+
+    const amount = screen.getByLabelText('Amount')
+    expect(amount).toHaveValue(25)
+    expect(amount).toHaveAttribute('readonly')
+    expect(mountPaymentElement).toHaveBeenCalledWith(expect.any(HTMLElement), 25)
+  })
+
+  it('sends cart lines for the server to price instead of the amount', async () => {
+    const user = userEvent.setup()
+    const items = [{ productId: 'gift-card', quantity: 2 }]
+    await renderPaymentForm({ amount: 100, items })
+
+    await user.type(screen.getByLabelText('Email'), 'jane@example.com')
+    await user.click(screen.getByRole('button', { name: /process payment/i }))
+
+    expect(handle.pay).toHaveBeenCalledWith({ items }, 'jane@example.com')
+  })
+
+  it('removes the Payment Element when it is destroyed', async () => {
+    const { fixture } = await renderPaymentForm()
+
+    fixture.destroy()
+
+    expect(handle.destroy).toHaveBeenCalled()
+  })
+
+  it('says so when payments cannot be loaded', async () => {
+    vi.mocked(mountPaymentElement).mockRejectedValue(new Error('offline'))
+    await render(PaymentFormComponent)
+
+    expect(await screen.findByRole('alert')).toHaveTextContent(/unavailable/i)
+  })
+})
+`,
+
+  PaymentStatus:
+    () => `import { render, screen } from '@testing-library/angular'
+import { describe, expect, it } from 'vitest'
+import { PaymentStatusComponent } from './payment-status.component'
+
+describe('PaymentStatus', () => {
+  it.each([
+    ['idle', /ready to pay/i],
+    ['submitting', /processing payment/i],
+    ['requires_action', /verification required/i],
+    ['processing', /payment processing/i],
+    ['succeeded', /payment successful/i],
+    ['requires_payment_method', /payment declined/i],
+    ['failed', /payment failed/i]
+  ] as const)('describes the %s state', async (status, title) => {
+    await render(PaymentStatusComponent, { componentInputs: { status } })
+
+    expect(screen.getByRole('heading', { name: title })).toBeInTheDocument()
+  })
+
+  it('shows the amount and reference of a payment', async () => {
+    await render(PaymentStatusComponent, {
+      componentInputs: {
+        status: 'succeeded',
+        data: { status: 'succeeded', amount: 4999, currency: 'usd', reference: 'pi_123' }
+      }
+    })
+
+    expect(screen.getByText('$49.99')).toBeInTheDocument()
+    expect(screen.getByText('pi_123')).toBeInTheDocument()
+  })
+
+  it('explains why a payment failed', async () => {
+    await render(PaymentStatusComponent, {
+      componentInputs: { status: 'failed', data: { status: 'failed', error: 'Your card was declined.' } }
+    })
+
+    expect(screen.getByText('Your card was declined.')).toBeInTheDocument()
+  })
+})
+`,
+
+  BookingForm: () => `import { render, screen } from '@testing-library/angular'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import type { Slot } from '../booking/availability'
+import { BookingFormComponent } from './booking-form.component'
+
+const hoursFromNow = (hours: number): Slot => {
+  const start = new Date(Date.now() + hours * 3600000)
+  return { start, end: new Date(start.getTime() + 3600000), available: true }
+}
+
+const renderBookingForm = async (slot: Slot | null) => {
+  const { fixture } = await render(BookingFormComponent, { componentInputs: { slot } })
+  const submit = vi.fn()
+  fixture.componentInstance.submitBooking.subscribe(submit)
+  return submit
+}
+
+const fillInDetails = async (user: ReturnType<typeof userEvent.setup>) => {
+  await user.type(screen.getByLabelText('Full Name'), 'Jane Doe')
+  await user.type(screen.getByLabelText('Email'), 'jane@example.com')
+  await user.type(screen.getByLabelText('Phone'), '555 123 4567')
+  await user.selectOptions(screen.getByLabelText('Service'), 'Consultation')
+}
+
+describe('BookingForm', () => {
+  it('rejects times that have passed', async () => {
+    const user = userEvent.setup()
+    const submit = await renderBookingForm(hoursFromNow(-1))
+
+    await fillInDetails(user)
+    await user.click(screen.getByRole('button', { name: /confirm booking/i }))
+
+    expect(screen.getByRole('alert')).toHaveTextContent(/already passed/i)
+    expect(submit).not.toHaveBeenCalled()
+  })
+
+  it('requires a time', async () => {
+    const user = userEvent.setup()
+    const submit = await renderBookingForm(null)
+
+    await fillInDetails(user)
+    await user.click(screen.getByRole('button', { name: /confirm booking/i }))
+
+    expect(screen.getByRole('alert')).toHaveTextContent(/choose a time/i)
+    expect(submit).not.toHaveBeenCalled()
+  })
+
+  it('books a future time', async () => {
+    const user = userEvent.setup()
+    const submit = await renderBookingForm(hoursFromNow(24))
+
+    await fillInDetails(user)
+    await user.click(screen.getByRole('button', { name: /confirm booking/i }))
+
+    expect(screen.queryByRole('alert')).not.toBeInTheDocument()
+    expect(submit.mock.calls).toEqual([
+      [expect.objectContaining({ name: 'Jane Doe', service: 'Consultation' })]
+    ])
+  })
+})
+`,
+
+  BookingCalendar:
+    () => `import { render, screen } from '@testing-library/angular'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import { findNextOpenDay, formatDay, getSlots } from '../booking/availability'
+import { BookingCalendarComponent } from './booking-calendar.component'
+
+const renderCalendar = async () => {
+  const result = await render(BookingCalendarComponent, { componentInputs: { bookings: [] } })
+  const dateSelect = vi.fn()
+  result.fixture.componentInstance.dateSelect.subscribe(dateSelect)
+  return { ...result, dateSelect }
+}
+
+describe('BookingCalendar', () => {
+  it('lets the user pick the first day with a free time', async () => {
+    const user = userEvent.setup()
+    const { dateSelect } = await renderCalendar()
+
+    const day = findNextOpenDay()!
+    await user.click(screen.getByRole('button', { name: formatDay(day) }))
+
+    expect(dateSelect.mock.calls).toEqual([[day]])
+  })
+
+  it('greys out a day once all its times are booked', async () => {
+    const user = userEvent.setup()
+    const { dateSelect, rerender } = await renderCalendar()
+
+    const day = findNextOpenDay()!
+    const bookings = getSlots(day).map((slot) => ({ start: slot.start.toISOString(), end: slot.end.toISOString() }))
+    await rerender({ componentInputs: { bookings } })
+    await user.click(screen.getByRole('button', { name: formatDay(day) }))
+
+    expect(screen.getByRole('button', { name: formatDay(day) })).toBeDisabled()
+    expect(dateSelect).not.toHaveBeenCalled()
+  })
+})
+`,
+
+  AnalyticsChart:
+    () => `import { render, screen } from '@testing-library/angular'
+import { describe, expect, it } from 'vitest'
+import { AnalyticsChartComponent } from './analytics-chart.component'
+
+describe('AnalyticsChart', () => {
+  it('plots one bar per day of the range', async () => {
+    await render(AnalyticsChartComponent, { componentInputs: { type: 'visitors', timeRange: '7d' } })
+
+    expect(screen.getByRole('heading', { name: /visitors - 7d/i })).toBeInTheDocument()
+    expect(screen.getByText('Day 7')).toBeInTheDocument()
+    expect(screen.queryByText('Day 8')).not.toBeInTheDocument()
+  })
+})
+`,
+
+  AnalyticsMetrics:
+    () => `import { render, screen } from '@testing-library/angular'
+import { describe, expect, it } from 'vitest'
+import { AnalyticsMetricsComponent } from './analytics-metrics.component'
+
+describe('AnalyticsMetrics', () => {
+  it('formats each metric', async () => {
+    await render(AnalyticsMetricsComponent, {
+      componentInputs: {
+        metrics: { visitors: 120, pageViews: 480, bounceRate: 42, avgSessionDuration: 125 }
+      }
+    })
+
+    expect(screen.getByText('42%')).toBeInTheDocument()
+    expect(screen.getByText('2m 5s')).toBeInTheDocument()
+  })
+})
+`,
+
+  LocationMap: () => `import { render, screen } from '@testing-library/angular'
+import { describe, expect, it } from 'vitest'
+import { LocationMapComponent } from './location-map.component'
+
+const locations = [
+  { id: 1, name: 'Main Office', address: '1 Main St', coordinates: { lat: 40.71, lng: -74.0 } },
+  { id: 2, name: 'Branch Office', address: '2 High St', coordinates: { lat: 40.72, lng: -74.01 } }
+]
+
+describe('LocationMap', () => {
+  it('marks every location and the user', async () => {
+    await render(LocationMapComponent, { componentInputs: { locations, userLocation: { lat: 40.7, lng: -74.0 } } })
+
+    expect(screen.getByText(/main office/i)).toBeInTheDocument()
+    expect(screen.getByText(/branch office/i)).toBeInTheDocument()
+    expect(screen.getByText(/your location/i)).toBeInTheDocument()
+  })
+})
+`,
+
+  LocationPicker:
+    () => `import { render, screen } from '@testing-library/angular'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import { LocationPickerComponent } from './location-picker.component'
+
+describe('LocationPicker', () => {
+  it('uses the current position', async () => {
+    const user = userEvent.setup()
+    vi.stubGlobal('navigator', {
+      ...navigator,
+      geolocation: {
+        getCurrentPosition: (success: PositionCallback) =>
+          success({ coords: { latitude: 51.5074, longitude: -0.1278 } } as GeolocationPosition)
+      }
+    })
+    const { fixture } = await render(LocationPickerComponent)
+    const locationSelect = vi.fn()
+    fixture.componentInstance.locationSelect.subscribe(locationSelect)
+
+    await user.click(screen.getByRole('button', { name: /use current location/i }))
+
+    expect(locationSelect.mock.calls).toEqual([[{ lat: 51.5074, lng: -0.1278 }]])
+    expect(screen.getByText(/lat: 51.5074/i)).toBeInTheDocument()
+    vi.unstubAllGlobals()
+  })
+})
+`,
+
+  NotificationBanner:
+    () => `import { render, screen } from '@testing-library/angular'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import { NotificationBannerComponent } from './notification-banner.component'
+
+describe('NotificationBanner', () => {
+  it('closes a notification', async () => {
+    const user = userEvent.setup()
+    const { fixture } = await render(NotificationBannerComponent, {
+      componentInputs: { notifications: [{ id: 'saved', type: 'success', message: 'Changes saved' }] }
+    })
+    const close = vi.fn()
+    fixture.componentInstance.closeNotification.subscribe(close)
+    expect(screen.getByText('Changes saved')).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: '×' }))
+
+    expect(close.mock.calls).toEqual([['saved']])
+  })
+})
+`,
+
+  NotificationList:
+    () => `import { render, screen } from '@testing-library/angular'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import { NotificationListComponent } from './notification-list.component'
+
+const notifications = [
+  { id: '1', title: 'Welcome', message: 'Thanks for joining', timestamp: new Date(), read: false, type: 'info' as const },
+  { id: '2', title: 'Order shipped', message: 'On its way', timestamp: new Date(), read: true, type: 'success' as const }
+]
+
+describe('NotificationList', () => {
+  it('counts unread notifications and marks them all as read', async () => {
+    const user = userEvent.setup()
+    const { fixture } = await render(NotificationListComponent, { componentInputs: { notifications } })
+    const markAllAsRead = vi.fn()
+    fixture.componentInstance.markAllAsRead.subscribe(markAllAsRead)
+
+    expect(screen.getByText('1 unread')).toBeInTheDocument()
+    await user.click(screen.getByRole('button', { name: /mark all as read/i }))
+
+    expect(markAllAsRead).toHaveBeenCalledTimes(1)
+  })
+
+  it('says when there is nothing to show', async () => {
+    await render(NotificationListComponent, { componentInputs: { notifications: [] } })
+
+    expect(screen.getByText(/no notifications yet/i)).toBeInTheDocument()
+  })
+})
+`,
+
+  SocialShare: () => `import { render, screen } from '@testing-library/angular'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import { SocialShareComponent } from './social-share.component'
+
+describe('SocialShare', () => {
+  it('shares the page on Facebook', async () => {
+    const user = userEvent.setup()
+    const open = vi.spyOn(window, 'open').mockImplementation(() => null)
+    await render(SocialShareComponent, { componentInputs: { url: 'https://example.com/', title: 'Example' } })
+
+    await user.click(screen.getByRole('button', { name: /facebook/i }))
+
+    expect(open).toHaveBeenCalledWith(
+      expect.stringContaining(encodeURIComponent('https://example.com/')),
+      '_blank',
+      expect.any(String)
+    )
+    open.mockRestore()
+  })
+})
+`,
+
+  SocialLogin: () => `import { render, screen } from '@testing-library/angular'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import { SocialLoginComponent } from './social-login.component'
+
+describe('SocialLogin', () => {
+  it('signs in with the chosen provider', async () => {
+    const user = userEvent.setup()
+    const { fixture } = await render(SocialLoginComponent)
+    const socialLogin = vi.fn()
+    fixture.componentInstance.socialLogin.subscribe(socialLogin)
+
+    await user.click(screen.getByRole('button', { name: /continue with google/i }))
+
+    expect(socialLogin.mock.calls).toEqual([['google']])
+  })
+})
+`,
+
+  ProfileForm: () => `import { render, screen } from '@testing-library/angular'
+import userEvent from '@testing-library/user-event'
+import { describe, expect, it, vi } from 'vitest'
+import { ProfileFormComponent, type ProfileData } from './profile-form.component'
+
+const renderProfileForm = async (initialData: Partial<ProfileData> = {}) => {
+  const { fixture } = await render(ProfileFormComponent, { componentInputs: { initialData } })
+  const save = vi.fn()
+  fixture.componentInstance.save.subscribe(save)
+  return save
+}
+
+describe('ProfileForm', () => {
+  it('requires a name and email', async () => {
+    const user = userEvent.setup()
+    const save = await renderProfileForm()
+
+    await user.click(screen.getByRole('button', { name: /save profile/i }))
+
+    expect(screen.getByLabelText('Full Name')).toBeInvalid()
+    expect(save).not.toHaveBeenCalled()
+  })
+
+  it('saves the edited profile', async () => {
+    const user = userEvent.setup()
+    const save = await renderProfileForm({ name: 'Jane Doe', email: 'jane@example.com' })
+
+    await user.type(screen.getByLabelText('Company/Organization'), 'Acme')
+    await user.click(screen.getByRole('button', { name: /save profile/i }))
+
+    expect(save.mock.calls).toEqual([
+      [expect.objectContaining({ name: 'Jane Doe', company: 'Acme' })]
+    ])
+  })
+})
+`,
+};
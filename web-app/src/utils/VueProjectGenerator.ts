@@ -0,0 +1,318 @@
+/**
+ * Vue 3 Project Generator
+ * Emits a Vite + vue-router project with single-file components for every
+ * page and component the web generator knows about. Their markup lives in
+ * templates/vue/ (see TemplateResolver); pages without a template come from
+ * the feature registry or the generic vue/partials/Page.vue. Styles
+ * (templates/styles/), manifest and service worker are shared with the
+ * React output and written by WebDirectProjectGenerator.
+ */
+
+import { BlogGenerator, hasBlog } from "./BlogGenerator";
+import { ChatGenerator } from "./ChatGenerator";
+import { catalogVersions } from "./DependencyCatalog";
+import { DevServerProxy } from "./DevServerProxy";
+import { featureRegistry } from "./FeatureRegistry";
+import type { GeneratedFile } from "./GeneratedFile";
+import { getPackageName } from "./PackageName";
+import { getPageComponentName, getPageLabel } from "./PageName";
+import { PaymentsGenerator } from "./PaymentsGenerator";
+import { PerformanceBudgetGenerator } from "./PerformanceBudgetGenerator";
+import { SearchIndexGenerator } from "./SearchIndexGenerator";
+import { ServiceWorkerGenerator } from "./ServiceWorkerGenerator";
+import { hasStore } from "./StoreGenerator";
+import { templateResolver } from "./TemplateResolver";
+import { TestSuiteGenerator } from "./TestSuiteGenerator";
+
+export class VueProjectGenerator {
+  generateFiles(context: any): GeneratedFile[] {
+    const files: GeneratedFile[] = [];
+
+    files.push(...this.generatePackageJson(context));
+    files.push(...this.generateMainFiles(context));
+    files.push(...this.generateComponents(context));
+    files.push(...this.generatePages(context));
+    files.push(...this.generateConfigFiles(context));
+
+    return files;
+  }
+
+  private generatePackageJson(context: any): GeneratedFile[] {
+    const packageJson = {
+      name: getPackageName(context),
+      version: "1.0.0",
+      description: context.description,
+      type: "module",
+      scripts: {
+        dev: "vite",
+        build: "vue-tsc --noEmit && vite build",
+        postbuild: new ServiceWorkerGenerator().getPostbuildScript("vue"),
+        preview: "vite preview",
+        "type-check": "vue-tsc --noEmit",
+        ...new TestSuiteGenerator().getScripts(context),
+        ...new PaymentsGenerator().getScripts(context),
+        ...new ChatGenerator().getScripts(context),
+      },
+      dependencies: {
+        ...catalogVersions(["vue", "vue-router"]),
+        ...context.packages.dependencies,
+      },
+      devDependencies: {
+        ...catalogVersions([
+          "@vitejs/plugin-vue",
+          "@vue/tsconfig",
+          "typescript",
+          "vite",
+          "vue-tsc",
+        ]),
+        ...context.packages.devDependencies,
+      },
+    };
+
+    return [
+      {
+        path: "package.json",
+        content: JSON.stringify(packageJson, null, 2),
+        type: "json",
+      },
+    ];
+  }
+
+  private generateMainFiles(context: any): GeneratedFile[] {
+    const files: GeneratedFile[] = [];
+
+    files.push({
+      path: "src/main.ts",
+      content: `import { createApp } from 'vue'
+import App from './App.vue'
+import router from './router'
+import './index.css'
+import './custom.css'
+
+// Register service worker with development-friendly error handling
+if ('serviceWorker' in navigator && (window.location.protocol === 'https:' || window.location.hostname === 'localhost')) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js')
+      .then((registration) => {
+        console.log('✅ Service Worker registered successfully:', registration.scope);
+      })
+      .catch((error) => {
+        if (window.location.hostname === 'localhost') {
+          console.warn('⚠️ Service Worker registration failed (development):', error.message);
+        } else {
+          console.error('❌ Service Worker registration failed:', error);
+        }
+      });
+  });
+}
+
+createApp(App).use(router).mount('#root')`,
+      type: "ts",
+    });
+
+    files.push({
+      path: "src/App.vue",
+      content: templateResolver.render("vue/src/App.vue", context),
+      type: "vue",
+    });
+
+    files.push({
+      path: "src/router/index.ts",
+      content: this.generateRouter(context),
+      type: "ts",
+    });
+
+    files.push({
+      path: "src/env.d.ts",
+      content: `/// <reference types="vite/client" />
+
+declare module '*.vue' {
+  import type { DefineComponent } from 'vue'
+  const component: DefineComponent<object, object, any>
+  export default component
+}`,
+      type: "ts",
+    });
+
+    return files;
+  }
+
+  private generateRouter(context: any): string {
+    const imports = context.pages
+      .map((page: string) => {
+        const componentName = getPageComponentName(page);
+        return `import ${componentName} from '../pages/${componentName}.vue'`;
+      })
+      .concat(
+        hasBlog(context)
+          ? ["import BlogPost from '../pages/BlogPost.vue'"]
+          : [],
+        hasStore(context) ? ["import Product from '../pages/Product.vue'"] : [],
+      )
+      .join("\n");
+
+    const routes = context.pages
+      .map((page: string) => {
+        const componentName = getPageComponentName(page);
+        return `  { path: '${page === "home" ? "/" : `/${page}`}', name: '${page}', component: ${componentName} },`;
+      })
+      .concat(
+        hasBlog(context)
+          ? [
+              "  { path: '/blog/:slug', name: 'blog-post', component: BlogPost },",
+            ]
+          : [],
+        hasStore(context)
+          ? ["  { path: '/shop/:slug', name: 'product', component: Product },"]
+          : [],
+      )
+      .join("\n");
+
+    return `import { createRouter, createWebHistory } from 'vue-router'
+${imports}
+import NotFound from '../pages/NotFound.vue'
+import { applyPageMeta } from '../seo'
+
+const routes = [
+${routes}
+  { path: '/:pathMatch(.*)*', name: 'not-found', component: NotFound },
+]
+
+const router = createRouter({
+  history: createWebHistory(),
+  routes,
+  scrollBehavior: () => ({ top: 0 }),
+})
+
+// Keeps the title, share tags and canonical URL on the current route
+router.afterEach((to) => applyPageMeta(to.path))
+
+export default router`;
+  }
+
+  private generateComponents(context: any): GeneratedFile[] {
+    const files: GeneratedFile[] = [];
+
+    context.components.forEach((componentName: string) => {
+      const content =
+        templateResolver.tryRender(
+          `vue/src/components/${componentName}.vue`,
+          context,
+        ) ?? featureRegistry.renderComponent(componentName, "vue", context);
+      if (content) {
+        files.push({
+          path: `src/components/${componentName}.vue`,
+          content,
+          type: "vue",
+        });
+      }
+    });
+
+    return files;
+  }
+
+  private generatePages(context: any): GeneratedFile[] {
+    const files: GeneratedFile[] = [];
+
+    context.pages.forEach((page: string) => {
+      const path = `src/pages/${getPageComponentName(page)}.vue`;
+      files.push({
+        path,
+        content:
+          templateResolver.tryRender(`vue/${path}`, context) ??
+          featureRegistry.renderPage(page, "vue", context) ??
+          templateResolver.render("vue/partials/Page.vue", {
+            ...context,
+            page,
+            label: getPageLabel(context, page),
+          }),
+        type: "vue",
+      });
+    });
+
+    // Routes outside the navigation
+    const otherPages = [
+      ...(hasBlog(context) ? ["BlogPost"] : []),
+      ...(hasStore(context) ? ["Product"] : []),
+      "NotFound",
+    ];
+    otherPages.forEach((componentName) =>
+      files.push({
+        path: `src/pages/${componentName}.vue`,
+        content: templateResolver.render(
+          `vue/src/pages/${componentName}.vue`,
+          context,
+        ),
+        type: "vue",
+      }),
+    );
+
+    return files;
+  }
+
+  private generateConfigFiles(context: any): GeneratedFile[] {
+    const files: GeneratedFile[] = [];
+
+    files.push({
+      path: "tsconfig.json",
+      content: `{
+  "extends": "@vue/tsconfig/tsconfig.dom.json",
+  "compilerOptions": {
+    "target": "ES2020",
+    "lib": ["ES2020", "DOM", "DOM.Iterable"],
+    "module": "ESNext",
+    "moduleResolution": "bundler",
+    "strict": true,
+    "skipLibCheck": true,
+    "noEmit": true
+  },
+  "include": ["src/**/*.ts", "src/**/*.vue"],
+  "references": [{ "path": "./tsconfig.node.json" }]
+}`,
+      type: "json",
+    });
+
+    files.push({
+      path: "tsconfig.node.json",
+      content: `{
+  "compilerOptions": {
+    "composite": true,
+    "skipLibCheck": true,
+    "module": "ESNext",
+    "moduleResolution": "bundler",
+    "allowSyntheticDefaultImports": true
+  },
+  "include": ["vite.config.ts"]
+}`,
+      type: "json",
+    });
+
+    const plugins = [
+      new PerformanceBudgetGenerator().getVitePlugin(context),
+      new BlogGenerator().getVitePlugin(context),
+      new SearchIndexGenerator().getVitePlugin(context),
+    ].filter((plugin) => plugin !== null);
+    files.push({
+      path: "vite.config.ts",
+      content: `import { defineConfig } from 'vite'
+import vue from '@vitejs/plugin-vue'
+${plugins.map((plugin) => plugin.importLine).join("\n")}
+
+export default defineConfig({
+  plugins: [vue(), ${plugins.map((plugin) => plugin.call).join(", ")}],
+  server: {
+    port: 3000${new DevServerProxy().getViteProxy(context)}
+  },
+  build: {
+    outDir: 'dist',
+    sourcemap: true,
+    // Read by scripts/build-sw.mjs to precache the hashed assets
+    manifest: true
+  }
+})`,
+      type: "ts",
+    });
+
+    return files;
+  }
+}
@@ -1,5 +1,6 @@
 import JSZip from "jszip";
 import { BusinessInfo } from "../store/PWAGeneratorStore";
+import { getFileMode, isTextFile, type GeneratedFile } from "./GeneratedFile";
 
 // Generate main App component
 export function generateAppComponent(
@@ -815,7 +816,7 @@ export function generateTSConfigNode(): string {
 
 // Create downloadable ZIP file
 export async function createProjectZip(
-  files: Array<{ path: string; content: string; type: string }>,
+  files: GeneratedFile[],
   projectName: string,
   _selectedFeatures: string[] = [],
 ): Promise<Blob> {
@@ -829,12 +830,17 @@ export async function createProjectZip(
   files.forEach((file) => {
     const fullPath = `${projectName}/${file.path}`;
     console.log(`Adding file to ZIP: ${fullPath}`);
-    zip.file(fullPath, file.content);
+    zip.file(fullPath, file.content, {
+      base64: file.encoding === "base64",
+      binary: !isTextFile(file),
+      // S_IFREG marks the entry as a regular file alongside its mode bits
+      unixPermissions: 0o100000 | getFileMode(file),
+    });
   });
 
   // Verify package.json is included
   const packageJsonFile = files.find((f) => f.path === "package.json");
-  if (packageJsonFile) {
+  if (packageJsonFile && isTextFile(packageJsonFile)) {
     console.log("✅ package.json found in files list");
     console.log(
       "📋 package.json content preview:",
@@ -847,6 +853,8 @@ export async function createProjectZip(
   // Generate and return the zip blob
   return await zip.generateAsync({
     type: "blob",
+    // UNIX platform records the permission bits, including executables
+    platform: "UNIX",
     compression: "DEFLATE",
     compressionOptions: {
       level: 6,
@@ -1,4 +1,4 @@
-import { defineConfig } from 'vite';
+import { defineConfig, searchForWorkspaceRoot } from 'vite';
 import react from '@vitejs/plugin-react';
 import { VitePWA } from 'vite-plugin-pwa';
 import path from 'path';
@@ -85,6 +85,13 @@ export default defineConfig({
     open: true,
     host: true,
     cors: true,
+    fs: {
+      // Project templates are bundled from the repository's templates/ directory
+      allow: [
+        searchForWorkspaceRoot(process.cwd()),
+        path.resolve(__dirname, '../templates'),
+      ],
+    },
     proxy: {
       '/api': {
         target: 'http://localhost:8000',